@@ -2,10 +2,16 @@ import { useState, useEffect } from 'react';
 import { sendMessage } from './lib/rpc';
 import type { GetWalletStatusResponse } from './types/messages';
 import CreateWallet from './components/onboarding/create-wallet';
+import RestoreWallet from './components/onboarding/restore-wallet';
+import ImportBackup from './components/onboarding/import-backup';
 import Login from './components/onboarding/login';
 import Dashboard from './components/dashboard/home';
+import ApproveRequest from './components/approval/approve-request';
 
-type View = 'loading' | 'onboarding' | 'login' | 'dashboard';
+type View = 'loading' | 'onboarding' | 'restore' | 'importBackup' | 'login' | 'dashboard';
+
+// Set when the background opens this page as an approval window
+const approvalId = new URLSearchParams(window.location.search).get('approval');
 
 function App() {
   const [view, setView] = useState<View>('loading');
@@ -17,6 +23,9 @@ function App() {
         if (response.success && response.data) {
           if (!response.data.initialized) {
             setView('onboarding');
+          } else if (!response.data.locked) {
+            // Session still valid, e.g. the popup was reopened or the worker restarted
+            setView('dashboard');
           } else {
             setView('login');
           }
@@ -30,6 +39,10 @@ function App() {
     checkWalletStatus();
   }, []);
 
+  if (approvalId) {
+    return <ApproveRequest approvalId={approvalId} />;
+  }
+
   if (view === 'loading') {
     return (
       <div className="flex items-center justify-center min-h-screen bg-zinc-950 text-white">
@@ -39,7 +52,27 @@ function App() {
   }
 
   if (view === 'onboarding') {
-    return <CreateWallet onSuccess={() => setView('dashboard')} />;
+    return (
+      <CreateWallet
+        onSuccess={(unlocked) => setView(unlocked ? 'dashboard' : 'login')}
+        onRestore={() => setView('restore')}
+        onImportBackup={() => setView('importBackup')}
+      />
+    );
+  }
+
+  if (view === 'restore') {
+    return (
+      <RestoreWallet
+        onSuccess={(unlocked) => setView(unlocked ? 'dashboard' : 'login')}
+        onBack={() => setView('onboarding')}
+      />
+    );
+  }
+
+  if (view === 'importBackup') {
+    // The imported vault is still locked with its original wallet password
+    return <ImportBackup onSuccess={() => setView('login')} onBack={() => setView('onboarding')} />;
   }
 
   if (view === 'login') {
@@ -0,0 +1,88 @@
+/**
+ * Approval queue for page-originated actions.
+ * Opens the popup in its own window and resolves once the user approves,
+ * rejects, or closes the window.
+ */
+
+import type { ApprovalRequest } from '../types/messages';
+
+interface PendingApproval {
+  request: ApprovalRequest;
+  resolve: (approved: boolean) => void;
+  windowId?: number;
+}
+
+const APPROVAL_WINDOW_WIDTH = 360;
+const APPROVAL_WINDOW_HEIGHT = 600;
+
+const pending = new Map<string, PendingApproval>();
+
+// Closing the approval window counts as a rejection
+chrome.windows.onRemoved.addListener((windowId) => {
+  for (const [id, approval] of pending) {
+    if (approval.windowId === windowId) {
+      pending.delete(id);
+      approval.resolve(false);
+    }
+  }
+});
+
+/**
+ * Asks the user to approve an action in a dedicated popup window.
+ * @param request - Everything the approval screen shows, minus the generated id
+ * @returns Promise that resolves to true only if the user explicitly approved
+ */
+export async function requestApproval(request: Omit<ApprovalRequest, 'id'>): Promise<boolean> {
+  const id = crypto.randomUUID();
+
+  return new Promise<boolean>((resolve) => {
+    const approval: PendingApproval = { request: { ...request, id }, resolve };
+    pending.set(id, approval);
+
+    chrome.windows.create(
+      {
+        url: chrome.runtime.getURL(`index.html?approval=${id}`),
+        type: 'popup',
+        width: APPROVAL_WINDOW_WIDTH,
+        height: APPROVAL_WINDOW_HEIGHT,
+      },
+      (window) => {
+        if (chrome.runtime.lastError || !window) {
+          pending.delete(id);
+          resolve(false);
+          return;
+        }
+        approval.windowId = window.id;
+      }
+    );
+  });
+}
+
+/**
+ * Looks up a pending approval for the approval screen.
+ * @param id - The approval id from the window URL
+ * @returns The request, or null if it was already resolved
+ */
+export function getApproval(id: string): ApprovalRequest | null {
+  return pending.get(id)?.request ?? null;
+}
+
+/**
+ * Records the user's decision and closes the approval window.
+ * @param id - The approval id
+ * @param approved - Whether the user approved the action
+ * @returns True if a pending approval was found
+ */
+export function resolveApproval(id: string, approved: boolean): boolean {
+  const approval = pending.get(id);
+  if (!approval) return false;
+
+  pending.delete(id);
+  approval.resolve(approved);
+  if (approval.windowId !== undefined) {
+    chrome.windows.remove(approval.windowId).catch(() => {
+      // Window already closed by the user
+    });
+  }
+  return true;
+}
@@ -0,0 +1,138 @@
+/**
+ * Settles boarding deposits into Ark.
+ * While the unlocked wallet has deposits on their way in, a chrome.alarms alarm checks
+ * their confirmations every minute and settles them into the next round once they have
+ * enough. Locked wallets cannot sign a settle, so checks pause until the next unlock.
+ */
+
+import type { Wallet } from '@arklabs/wallet-sdk';
+import { loadBoardingDeposits, saveBoardingDeposits } from '../lib/storage';
+import type { NetworkConfig } from '../lib/networks';
+import { getTipHeight } from '../lib/esplora';
+import { outpointId } from '../lib/exit';
+import { updateDeposits, pendingBoardingTotal } from '../lib/boarding';
+import type { BoardingDeposit, BoardingUtxo } from '../lib/boarding';
+import { createAlarmJob } from './jobs';
+
+const BOARDING_ALARM = 'boarding-settle';
+const BOARDING_CHECK_MINUTES = 1;
+
+/**
+ * The unlocked wallet whose deposits are tracked, with the network and account it was created for.
+ */
+export interface BoardingWallet {
+  wallet: Wallet;
+  network: NetworkConfig;
+  account: number;
+}
+
+// Returns the unlocked wallet, or null while locked
+type BoardingWalletProvider = () => Promise<BoardingWallet | null>;
+
+let walletProvider: BoardingWalletProvider | null = null;
+// Refreshes and settles run one at a time so a deposit is never registered twice
+let queue: Promise<unknown> = Promise.resolve();
+
+const boardingJob = createAlarmJob({
+  name: BOARDING_ALARM,
+  periodInMinutes: BOARDING_CHECK_MINUTES,
+  logTag: 'Boarding',
+  pass: async () => {
+    await settleBoarding();
+  },
+});
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Registers the function that supplies the unlocked wallet.
+ * @param provider - Resolves with the active wallet, or null while locked
+ */
+export function onBoardingWallet(provider: BoardingWalletProvider): void {
+  walletProvider = provider;
+}
+
+async function refresh(target: BoardingWallet): Promise<BoardingDeposit[]> {
+  const [utxos, tipHeight, previous] = await Promise.all([
+    target.wallet.getBoardingUtxos() as Promise<BoardingUtxo[]>,
+    getTipHeight(target.network.esploraUrl),
+    loadBoardingDeposits(target.network.id, target.account),
+  ]);
+  const deposits = updateDeposits(previous, utxos, tipHeight, target.network.boardingConfirmations);
+  await saveBoardingDeposits(target.network.id, target.account, deposits);
+
+  if (pendingBoardingTotal(deposits) > 0) {
+    await boardingJob.schedule();
+  } else {
+    await boardingJob.cancel();
+  }
+  return deposits;
+}
+
+/**
+ * Brings the unlocked wallet's deposits up to date with the chain.
+ * @returns Promise that resolves with the deposits, empty while locked
+ * @throws Error if the explorer cannot be reached
+ */
+export async function refreshBoarding(): Promise<BoardingDeposit[]> {
+  return serialized(async () => {
+    const target = await walletProvider?.();
+    return target ? refresh(target) : [];
+  });
+}
+
+/**
+ * Settles every deposit with enough confirmations into the next round.
+ * @returns Promise that resolves with the round txid, or null if nothing was ready (or the wallet is locked)
+ * @throws Error if the round fails; the deposits stay ready with the error recorded
+ */
+export async function settleBoarding(): Promise<string | null> {
+  return serialized(async () => {
+    const target = await walletProvider?.();
+    if (!target) {
+      await boardingJob.cancel();
+      return null;
+    }
+
+    let deposits = await refresh(target);
+    const ready = new Set(deposits.filter((deposit) => deposit.stage === 'ready').map((deposit) => deposit.id));
+    if (ready.size === 0) return null;
+
+    const update = async (changes: Partial<BoardingDeposit>) => {
+      deposits = deposits.map((deposit) => (ready.has(deposit.id) ? { ...deposit, ...changes } : deposit));
+      await saveBoardingDeposits(target.network.id, target.account, deposits);
+    };
+
+    await update({ stage: 'settling', error: undefined });
+    try {
+      const inputs = (await target.wallet.getBoardingUtxos()).filter((utxo: BoardingUtxo) => ready.has(outpointId(utxo)));
+      const amount = inputs.reduce((sum: number, utxo: BoardingUtxo) => sum + utxo.value, 0);
+      const roundTxid = String(
+        await target.wallet.settle({
+          inputs,
+          outputs: [{ address: target.wallet.offchainAddress.encode(), amount: BigInt(amount) }],
+        })
+      );
+      await update({ stage: 'settled', roundTxid, settledAt: Date.now() });
+      console.log("[Boarding] Settled into round:", roundTxid);
+      return roundTxid;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await update({ stage: 'ready', error: message || 'Settlement failed' });
+      throw error;
+    }
+  });
+}
+
+/**
+ * Settles whatever is ready, for the alarm and other callers that do not wait for the result.
+ * Never rejects; failures are logged and recorded on the deposits.
+ * @returns Promise that resolves once the check is over
+ */
+export async function checkBoarding(): Promise<void> {
+  await boardingJob.run();
+}
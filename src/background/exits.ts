@@ -0,0 +1,192 @@
+/**
+ * Drives unilateral exits to completion.
+ * A chrome.alarms alarm re-checks every active exit while any is in progress, so
+ * exits keep moving with the popup closed and across worker or browser restarts.
+ * Each pass saves its progress; a failed step is recorded and retried on the next one.
+ */
+
+import { loadExits, saveExits } from '../lib/storage';
+import { NETWORKS } from '../lib/networks';
+import type { NetworkConfig } from '../lib/networks';
+import { csvSequence, estimateClaimableHeight, claimVsize, isExitActive, isExitCancellable } from '../lib/exit';
+import type { UnilateralExit } from '../lib/exit';
+import {
+  getFeeEstimates,
+  feeRateForTarget,
+  broadcastTransaction,
+  getTransactionStatus,
+  getTipHeight,
+} from '../lib/esplora';
+import { FEE_RATE_TARGETS, DUST_LIMIT } from '../lib/onchain';
+import { schnorr } from '@noble/curves/secp256k1';
+import { Transaction, p2tr } from '@scure/btc-signer';
+import { TaprootControlBlock } from '@scure/btc-signer/psbt';
+import { base64, hex } from '@scure/base';
+import { createAlarmJob, advanceStored } from './jobs';
+
+const EXIT_ALARM = 'unilateral-exit';
+const EXIT_CHECK_MINUTES = 5;
+
+// Returns the key that claims an exit, or null while the wallet is locked
+type ClaimKeyProvider = (exit: UnilateralExit) => Promise<Uint8Array | null>;
+
+let claimKeyProvider: ClaimKeyProvider | null = null;
+
+const exitJob = createAlarmJob({
+  name: EXIT_ALARM,
+  periodInMinutes: EXIT_CHECK_MINUTES,
+  logTag: 'Exit',
+  pass: async () => {
+    const active = await advanceStored({
+      logTag: 'Exit',
+      load: loadExits,
+      save: saveExits,
+      isActive: isExitActive,
+      advance: advanceExit,
+    });
+    if (!active) await exitJob.cancel();
+  },
+});
+
+// Alarms do not survive a browser restart; re-arm the checks for exits still in progress
+loadExits()
+  .then((exits) => (exits.some(isExitActive) ? exitJob.schedule() : undefined))
+  .catch((error) => console.warn("[Exit] Failed to restore exit checks:", error));
+
+/**
+ * Registers the function that supplies claim keys.
+ * @param provider - Derives the key for an exit's network and account; null while locked
+ */
+export function onClaimKey(provider: ClaimKeyProvider): void {
+  claimKeyProvider = provider;
+}
+
+/**
+ * Saves new exits and starts checking on them.
+ * @param exits - Exits in their first step
+ * @returns Promise that resolves once the exits are saved and the first check has run
+ */
+export async function startExits(exits: UnilateralExit[]): Promise<void> {
+  const ids = new Set(exits.map((exit) => exit.id));
+  const stored = await loadExits();
+  await saveExits([...stored.filter((exit) => !ids.has(exit.id)), ...exits]);
+  await exitJob.schedule();
+  await advanceExits();
+}
+
+/**
+ * Gives up an exit whose leaf has not confirmed, so its VTXO counts as spendable again.
+ * @param id - The exit's VTXO outpoint
+ * @throws Error if there is no such exit or it is too far along to cancel
+ */
+export async function cancelExit(id: string): Promise<void> {
+  // A pass in progress would save the exit back after it is removed
+  await exitJob.idle();
+  const exits = await loadExits();
+  const exit = exits.find((candidate) => candidate.id === id);
+  if (!exit) throw new Error('Exit not found');
+  if (!isExitCancellable(exit)) throw new Error('Exit is already confirmed on-chain and cannot be cancelled');
+  await saveExits(exits.filter((candidate) => candidate.id !== id));
+  console.log(`[Exit] ${id} cancelled`);
+}
+
+/**
+ * Moves every active exit as far as it can go right now.
+ * Concurrent calls share one pass. Never rejects; failures are logged or stored on the exit.
+ * @returns Promise that resolves once the pass is over
+ */
+export async function advanceExits(): Promise<void> {
+  await exitJob.run();
+}
+
+/**
+ * Takes an exit through as many steps as the chain allows.
+ * @returns The exit with its new step; unchanged when nothing can happen yet
+ */
+async function advanceExit(exit: UnilateralExit): Promise<UnilateralExit> {
+  const network = NETWORKS[exit.network];
+  let current: UnilateralExit = { ...exit, error: undefined };
+
+  if (current.step === 'unrolling') {
+    const confirmedHeight = await unrollBranch(network, current);
+    if (confirmedHeight === null) return current;
+    current = {
+      ...current,
+      step: 'waiting',
+      leafConfirmedHeight: confirmedHeight,
+      claimableHeight: estimateClaimableHeight(confirmedHeight, current.timelock),
+    };
+    console.log(`[Exit] ${current.id} unrolled at height ${confirmedHeight}`);
+  }
+
+  if (current.step === 'waiting') {
+    const tipHeight = await getTipHeight(network.esploraUrl);
+    // The claim can be mined in the next block, so it only has to be valid there
+    if (current.claimableHeight !== undefined && tipHeight + 1 < current.claimableHeight) return current;
+    current = { ...current, step: 'claimable' };
+  }
+
+  if (current.step === 'claimable') {
+    const privateKey = await claimKeyProvider?.(current);
+    // Locked: the claim goes out on the first check after the next unlock
+    if (!privateKey) return current;
+    const claimTxid = await claimExit(network, current, privateKey);
+    console.log(`[Exit] ${current.id} claimed:`, claimTxid);
+    current = { ...current, step: 'claimed', claimTxid };
+  }
+
+  return current;
+}
+
+/**
+ * Broadcasts the branch transactions the explorer has not seen yet, root first.
+ * A child is accepted once its parent is in the mempool, so the whole branch can go out in one pass.
+ * @returns Height at which the leaf confirmed, or null while it is unconfirmed
+ */
+async function unrollBranch(network: NetworkConfig, exit: UnilateralExit): Promise<number | null> {
+  let leafStatus: { confirmed: boolean; block_height?: number } | null = null;
+  for (const node of exit.branch) {
+    leafStatus = await getTransactionStatus(network.esploraUrl, node.txid);
+    if (!leafStatus) {
+      const tx = Transaction.fromPSBT(base64.decode(node.tx), { allowUnknownOutputs: true });
+      tx.finalize();
+      await broadcastTransaction(network.esploraUrl, tx.hex);
+      console.log(`[Exit] Broadcast tree transaction ${node.txid}`);
+      leafStatus = { confirmed: false };
+    }
+  }
+  return leafStatus?.confirmed && leafStatus.block_height !== undefined ? leafStatus.block_height : null;
+}
+
+/**
+ * Spends an unrolled VTXO through its exit leaf to the account's on-chain address.
+ * @returns The claim transaction id
+ * @throws Error if the VTXO cannot cover the fee or the broadcast is rejected
+ */
+async function claimExit(network: NetworkConfig, exit: UnilateralExit, privateKey: Uint8Array): Promise<string> {
+  const destination = p2tr(schnorr.getPublicKey(privateKey), undefined, network.btcNetwork);
+  const script = hex.decode(exit.exitLeaf.script);
+  const controlBlock = hex.decode(exit.exitLeaf.controlBlock);
+
+  const feeRate = feeRateForTarget(await getFeeEstimates(network.esploraUrl), FEE_RATE_TARGETS.normal);
+  const fee = Math.ceil(feeRate * claimVsize(script.length, controlBlock.length, destination.script.length));
+  const amount = exit.vtxo.value - fee;
+  if (amount < DUST_LIMIT) {
+    throw new Error('VTXO is too small to claim at the current fee rate');
+  }
+
+  // The exit leaf is not a standard script template, so the signer must be told to accept it
+  const tx = new Transaction({ allowUnknownInputs: true });
+  tx.addInput({
+    txid: exit.vtxo.txid,
+    index: exit.vtxo.vout,
+    witnessUtxo: { script: hex.decode(exit.vtxoScript), amount: BigInt(exit.vtxo.value) },
+    // btc-signer wants the leaf version after the script: the control block's first byte minus its parity bit
+    tapLeafScript: [[TaprootControlBlock.decode(controlBlock), new Uint8Array([...script, controlBlock[0] & 0xfe])]],
+    sequence: csvSequence(exit.timelock),
+  });
+  tx.addOutput({ script: destination.script, amount: BigInt(amount) });
+  tx.signIdx(privateKey, 0);
+  tx.finalize();
+  return broadcastTransaction(network.esploraUrl, tx.hex);
+}
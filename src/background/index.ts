@@ -1,115 +1,237 @@
 /**
  * Background Service Worker - CoinOp
- * Current Status: Debugging ASP Connectivity on Mutinynet
+ * Holds the unlocked session and talks to the ASP and explorer on the UI's behalf.
  */
 
-import { encryptData, decryptData } from '../lib/crypto';
-import { saveEncryptedWallet, loadEncryptedWallet, hasWallet } from '../lib/storage';
-import { generateMnemonic } from '../lib/wallet';
-import type { Message, Response as ExtensionResponse } from '../types/messages';
-import { Wallet, InMemoryKey } from '@arklabs/wallet-sdk';
-import { mnemonicToSeedSync } from 'bip39';
+import { encryptData, decryptData, isVaultOutdated } from '../lib/crypto';
+import {
+  saveEncryptedWallet,
+  swapEncryptedWallet,
+  loadEncryptedWallet,
+  hasWallet,
+  loadConnectedSites,
+  saveConnectedSites,
+  loadConnectedSite,
+  grantSitePermission,
+  revokeSite,
+  loadHistory,
+  saveHistory,
+  clearSeedData,
+  saveBackupConfirmed,
+  loadBackupConfirmed,
+  saveLegacyKeyStatus,
+  loadLegacyKeyStatus,
+  saveLegacyCheckTime,
+  loadLegacyCheckTime,
+  saveNetwork,
+  loadNetwork,
+  saveLabels,
+  loadLabels,
+  saveContacts,
+  loadContacts,
+  saveAccounts,
+  loadAccounts,
+  saveActiveAccount,
+  loadActiveAccount,
+  loadExits,
+  saveRenewalThreshold,
+  loadRenewalThreshold,
+  loadBoardingDeposits,
+  saveReceiveAddresses,
+  loadReceiveAddresses,
+  saveReceiveScanTime,
+  loadReceiveScanTime,
+  loadSwaps,
+  loadPayments,
+  saveSwapProviders,
+  loadSwapProviders,
+} from '../lib/storage';
+import {
+  deriveBip86PrivateKey,
+  bip86ReceiveKeys,
+  deriveIdentityKey,
+  deriveLegacyPrivateKey,
+  isLegacyCheckDue,
+} from '../lib/keys';
+import { NETWORKS, DEFAULT_NETWORK, isNetworkId } from '../lib/networks';
+import { getAspInfo, getAspVtxos, getAspRound, offchainSendFee, offchainSendCostError, offchainSweepAmount } from '../lib/asp';
+import type { AspVtxo, AspRound } from '../lib/asp';
+import { exitBranch, outpointId, isExitActive } from '../lib/exit';
+import type { UnilateralExit } from '../lib/exit';
+import { findExpiring, isRenewalThresholdHours } from '../lib/renewal';
+import type { ExpiringFunds } from '../lib/renewal';
+import { pendingBoardingTotal } from '../lib/boarding';
+import {
+  receiveAddress,
+  nextReceiveIndex,
+  checkReceiveAddresses,
+  discoverReceiveAddresses,
+  mergeReceiveAddresses,
+  isReceiveScanDue,
+  normalizeAddressLabel,
+  MAIN_ADDRESS_INDEX,
+} from '../lib/addresses';
+import type { ReceiveAddress } from '../lib/addresses';
+import type { EsploraUtxo } from '../lib/esplora';
+import { BoltzSwapClient, summarizeSwap, isSwapActive, isPaymentActive, submarineFee } from '../lib/swap';
+import { decodeInvoice, normalizeInvoice, isInvoiceExpired } from '../lib/bolt11';
+import type { DecodedInvoice } from '../lib/bolt11';
+import type { NetworkConfig, NetworkId, Timelock } from '../lib/networks';
+import { generateMnemonic, validateMnemonic } from '../lib/wallet';
+import { MIN_PASSWORD_LENGTH } from '../lib/password';
+import { parsePaymentRequest } from '../lib/payment-request';
+import type { PaymentRequest } from '../lib/payment-request';
+import { createBackupFile, openBackupFile, mergeBackupMetadata } from '../lib/backup';
+import type { BackupContents } from '../lib/backup';
+import { DEFAULT_ACCOUNT, MAX_ACCOUNTS, normalizeAccountName, validateAccountName, nextAccountIndex } from '../lib/accounts';
+import type { Account } from '../lib/accounts';
+import { isPageMessage, requiredPermission, PERMISSION_LABELS } from '../lib/bridge';
+import { summarizePsbt } from '../lib/psbt';
+import type { ProviderEventMessage, ProviderEventName } from '../lib/bridge';
+import { requestApproval, getApproval, resolveApproval } from './approvals';
+import { onAutoLock, resetAutoLock, cancelAutoLock, getAutoLockMinutes, setAutoLockMinutes } from './lock-timer';
+import { isAutoLockMinutes } from '../lib/autolock';
+import { openSession, restoreSession, clearSession } from './session';
+import { startExits, cancelExit, advanceExits, onClaimKey } from './exits';
+import { watchAddress, checkExpiry, onRenew } from './renewal';
+import { onBoardingWallet, refreshBoarding, settleBoarding, checkBoarding } from './boarding';
+import { onSwapKey, createReverseSwap, payInvoice, waitForPayment, advanceSwaps, getSwapProviderUrl } from './swaps';
+import type {
+  Message,
+  Response as ExtensionResponse,
+  PreviewOffchainSendResponse,
+  SendOffchainResponse,
+  GetFeeRatesResponse,
+  PreviewOnchainSendResponse,
+  SendOnchainResponse,
+  HistoryEntry,
+  GetBalanceResponse,
+  SweepLegacyResponse,
+  GetNetworkResponse,
+  SetNetworkResponse,
+  ExportBackupResponse,
+  ImportBackupResponse,
+  GetAccountsResponse,
+  CreateAccountResponse,
+  GetVtxosResponse,
+  StartExitResponse,
+  GetExitsResponse,
+  RenewVtxosResponse,
+  NewReceiveAddressResponse,
+  GetReceiveAddressesResponse,
+  GetBoardingResponse,
+  SettleResponse,
+  CreateInvoiceResponse,
+  GetSwapResponse,
+  GetSwapProviderResponse,
+  SetSwapProviderResponse,
+  PreviewPayInvoiceResponse,
+  PayInvoiceResponse,
+  GetPaymentResponse,
+  WebLNSendPaymentResponse,
+  WebLNMakeInvoiceResponse,
+  GenerateWalletResponse,
+  ImportWalletResponse,
+  Contact,
+} from '../types/messages';
+import {
+  getFeeEstimates,
+  feeRateForTarget,
+  broadcastTransaction,
+  getAddressTransactions,
+  getAddressUtxos,
+  isAddressUsed,
+  getTipHeight,
+} from '../lib/esplora';
+import { fromEsploraTransaction, fromArkTransaction, mergeHistory, historyId } from '../lib/history';
+import { selectCoins, sweepAmount, FEE_RATE_TARGETS, RBF_SEQUENCE, FINAL_SEQUENCE } from '../lib/onchain';
+import type { SpendableCoin } from '../lib/onchain';
+import { Wallet, InMemoryKey, ArkAddress } from '@arklabs/wallet-sdk';
+import { schnorr } from '@noble/curves/secp256k1';
+import { Transaction, Address, OutScript, p2tr } from '@scure/btc-signer';
+import { TaprootControlBlock } from '@scure/btc-signer/psbt';
+import { base64, hex } from '@scure/base';
 
 // --- CONFIGURATION ---
-const ARKADE_PUBKEY = "03fa73c6e4876ffb2dfc961d763cca9abc73d4b88efcb8f5e7ff92dc55e9aa553d";
-const ASP_URL = "https://mutinynet.arkade.sh"; 
+// Per-network ASP, explorer and timelock settings live in lib/networks
+const MAX_FEE_RATE = 1000; // sat/vB, guards against fat-fingered custom rates
 
 // --- STATE ---
 let sessionMnemonic: string | null = null;
 let walletInstance: Wallet | null = null;
+// Network walletInstance was created for; replaced together with it on SetNetwork
+let activeNetwork: NetworkConfig = NETWORKS[DEFAULT_NETWORK];
+// BIP-86 account number walletInstance was created for; replaced together with it on SwitchAccount
+let activeAccount: number = DEFAULT_ACCOUNT.index;
+// Wallet for the pre-BIP-86 key, only set while that key still holds funds
+let legacyWalletInstance: Wallet | null = null;
 
-// --- NETWORK INTERCEPTOR (THE SPY & PATCH) ---
-const originalFetch = globalThis.fetch;
-globalThis.fetch = async (input, init) => {
-  const url = input.toString();
-  console.log(`[Spy] ➡️ ${url}`);
-
-  // Passthrough non-ASP requests
-  if (!url.includes('mutinynet.arkade.sh')) {
-    return originalFetch(input, init);
-  }
+// --- SDK LOGIC ---
 
-  try {
-    const response = await originalFetch(input, init);
-    console.log(`[Spy] ⬅️ [${response.status}] ${url}`);
-
-    // PATCH: Fix /v1/info Bad Data
-    if (url.endsWith('/v1/info')) {
-      const clone = response.clone();
-      const data = await clone.json();
-
-      let modified = false;
-      if (!data.version) {
-        data.version = "v0.3.0";
-        modified = true;
-      }
-      if (data.fees?.intentFee) {
-        if (data.fees.intentFee.offchainInput === "") { data.fees.intentFee.offchainInput = "0"; modified = true; }
-        if (data.fees.intentFee.offchainOutput === "") { data.fees.intentFee.offchainOutput = "0"; modified = true; }
-      }
+function arrayBufferToHex(buffer: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
 
-      if (modified) {
-        console.log(`[Patch] Fixed malformed JSON for ${url}`);
-        const newHeaders = new Headers(response.headers);
-        newHeaders.delete('content-length');
-        return new Response(JSON.stringify(data), {
-          status: response.status,
-          statusText: response.statusText,
-          headers: newHeaders,
-        });
-      }
-    }
+async function derivePrivateKey(
+  mnemonic: string,
+  network: NetworkConfig = activeNetwork,
+  account: number = activeAccount
+): Promise<Uint8Array> {
+  return deriveBip86PrivateKey(mnemonic, network.coinType, 0, account);
+}
 
-    // GLOBAL SAFETY NET: Handle any ASP 404
-    if (url.includes('mutinynet.arkade.sh') && response.status === 404) {
-      console.warn(`[Patch] 🛡️ Caught 404 for ${url} - Returning Empty Success`);
-      
-      // Heuristic: If URL implies a list (plural) or ends in 's', return [], else {}
-      // VTXOs endpoint returns a list.
-      const isList = url.includes('/vtxos') || url.includes('/rounds') || url.includes('/events');
-      const body = isList ? "[]" : "{}";
-      
-      return new Response(body, {
-        status: 200,
-        headers: { "Content-Type": "application/json" }
-      });
-    }
+function toSdkTimelock(timelock: Timelock) {
+  return { type: timelock.type, value: BigInt(timelock.value) };
+}
 
-    return response;
-  } catch (error) {
-    console.error(`[Spy] ❌ Network Fail: ${url}`, error);
-    throw error;
+/**
+ * Creates an SDK wallet. Server info is read through the validating ASP client
+ * and handed to the SDK, so the SDK never parses /v1/info itself.
+ * @throws AspError if the server is unreachable or its info is malformed
+ */
+async function createWallet(network: NetworkConfig, privateKey: Uint8Array): Promise<Wallet> {
+  const info = await getAspInfo(network.aspUrl);
+  if (network.aspPubkey && info.pubkey !== network.aspPubkey.toLowerCase()) {
+    throw new Error(`${network.label} Ark server key does not match the configured key`);
   }
-};
-
-
-// --- SDK LOGIC ---
+  console.log(`[ASP] ${network.aspUrl} version ${info.version}`);
 
-function arrayBufferToHex(buffer: ArrayBuffer): string {
-  return Array.from(new Uint8Array(buffer))
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
+  return Wallet.create({
+    network: network.sdkNetwork,
+    identity: InMemoryKey.fromHex(arrayBufferToHex(privateKey)),
+    esploraUrl: network.esploraUrl,
+    arkServerUrl: network.aspUrl,
+    arkServerPublicKey: info.pubkey,
+    boardingTimelock: toSdkTimelock(network.boardingTimelock),
+    exitTimelock: toSdkTimelock(network.exitTimelock),
+  });
 }
 
-async function initSdk(mnemonic: string): Promise<void> {
+/**
+ * Creates the wallet for a network and account and makes it the active one.
+ * Both default to the stored selection. The previous wallet stays in place if creation fails.
+ */
+async function initSdk(mnemonic: string, networkId?: NetworkId, account?: number): Promise<void> {
   console.log("[SDK] Initializing...");
   try {
-    // 1. Derive Key
-    const seedBuffer = mnemonicToSeedSync(mnemonic);
-    const privateKeyHash = await crypto.subtle.digest('SHA-256', new Uint8Array(seedBuffer));
-    const key = InMemoryKey.fromHex(arrayBufferToHex(privateKeyHash));
-
-    // 2. Initialize Wallet
-    walletInstance = await Wallet.create({
-      network: 'mutinynet',
-      identity: key,
-      arkServerUrl: ASP_URL,
-      arkServerPublicKey: ARKADE_PUBKEY,
-      boardingTimelock: { type: "blocks", value: BigInt(144) },
-      exitTimelock: { type: "blocks", value: BigInt(144) },
-    });
+    // 1. Resolve Network & Account & 2. Derive Key & 3. Initialize Wallet
+    const network = NETWORKS[networkId ?? await loadNetwork()];
+    const accountIndex = account ?? await loadActiveAccount();
+    const wallet = await createWallet(network, await derivePrivateKey(mnemonic, network, accountIndex));
+    walletInstance = wallet;
+    activeNetwork = network;
+    activeAccount = accountIndex;
+    // Lets the expiry checks see this account's VTXOs while the wallet is locked
+    await watchAddress({ network: network.id, account: accountIndex, address: wallet.offchainAddress.encode() })
+      .catch((error) => console.warn("[SDK] Failed to watch address for expiry:", error));
+    // Deposits made while locked or from another account can be settled now
+    void checkBoarding();
+    // Addresses handed out before a restore are only known to the chain
+    void scanReceiveAddresses(wallet, mnemonic);
 
-    console.log("[SDK] Wallet Created!");
+    console.log(`[SDK] Wallet Created on ${network.label}!`);
     console.log("[SDK] Onchain Addr:", walletInstance.onchainAddress);
     
     try {
@@ -125,23 +247,337 @@ async function initSdk(mnemonic: string): Promise<void> {
   }
 }
 
+/**
+ * Reads coin or VTXO amounts.
+ * Accesses the amount property tolerantly (may be 'value', 'amount', or 'amount_sat' depending on SDK version).
+ */
+function coinValue(coin: unknown): number {
+  const coinAny = coin as { value?: bigint | number; amount?: bigint | number; amount_sat?: bigint | number };
+  const value = coinAny.value ?? coinAny.amount ?? coinAny.amount_sat ?? 0;
+  return typeof value === 'bigint' ? Number(value) : Number(value);
+}
+
+function sumCoins(coins: unknown[]): number {
+  return coins.reduce<number>((sum, coin) => sum + coinValue(coin), 0);
+}
+
+/**
+ * Lists the spendable VTXOs of a wallet via the ASP client, where an address the
+ * server has never seen counts as empty rather than as an error.
+ * VTXOs being exited are left out: they are on their way on-chain.
+ */
+async function getSpendableVtxos(wallet: Wallet): Promise<AspVtxo[]> {
+  const [{ spendableVtxos }, exits] = await Promise.all([
+    getAspVtxos(activeNetwork.aspUrl, wallet.offchainAddress.encode()),
+    loadExits(),
+  ]);
+  const exiting = new Set(exits.map((exit) => exit.id));
+  return spendableVtxos.filter((vtxo) => !exiting.has(outpointId(vtxo)));
+}
+
+async function getOffchainTotal(wallet: Wallet): Promise<number> {
+  return sumCoins(await getSpendableVtxos(wallet));
+}
+
+// --- LEGACY KEY MIGRATION ---
+
+/**
+ * Sums the funds held by the legacy key: L1 coins, boarding UTXOs and VTXOs.
+ */
+async function getLegacyBalance(wallet: Wallet): Promise<{ onchain: number; boarding: number; offchain: number }> {
+  const [coins, boarding, offchain] = await Promise.all([
+    wallet.getCoins(),
+    wallet.getBoardingUtxos(),
+    getOffchainTotal(wallet),
+  ]);
+  return { onchain: sumCoins(coins), boarding: sumCoins(boarding), offchain };
+}
+
+/**
+ * Vaults created before BIP-86 signed with SHA-256(seed). Keeps tracking that key
+ * until its funds are swept, and keeps looking at it daily after it was seen empty:
+ * a payer with an old address, or a deposit to the old boarding address, can fund it again.
+ */
+async function checkLegacyFunds(mnemonic: string): Promise<void> {
+  legacyWalletInstance = null;
+  const status = await loadLegacyKeyStatus(activeNetwork.id);
+  if (!isLegacyCheckDue(status, await loadLegacyCheckTime(activeNetwork.id))) return;
+
+  try {
+    const legacy = await createWallet(activeNetwork, await deriveLegacyPrivateKey(mnemonic));
+    const balance = await getLegacyBalance(legacy);
+    const funded = balance.onchain + balance.boarding + balance.offchain > 0;
+    await saveLegacyKeyStatus(activeNetwork.id, funded ? 'funded' : 'empty');
+    await saveLegacyCheckTime(activeNetwork.id, Date.now());
+    if (funded) {
+      legacyWalletInstance = legacy;
+      console.log("[Legacy] Funds under legacy key:", balance);
+    }
+  } catch (error) {
+    // Leave the status as is so the check runs again on the next unlock
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.warn("[Legacy] Funds check failed:", message);
+  }
+}
+
+/**
+ * Moves everything held by the legacy key to the BIP-86 wallet.
+ * Boarding UTXOs are settled into VTXOs first so they can go out with the Ark transfer.
+ */
+async function handleSweepLegacy(): Promise<ExtensionResponse<SweepLegacyResponse>> {
+  // Read once: locking during the sweep must not leave it half done with the wrong key
+  const wallet = walletInstance;
+  const mnemonic = sessionMnemonic;
+  if (!wallet || !mnemonic) return { success: false, error: 'Locked' };
+  if (!legacyWalletInstance) return { success: false, error: 'No legacy funds to sweep' };
+
+  const legacy = legacyWalletInstance;
+  const result: SweepLegacyResponse = {};
+  try {
+    if ((await legacy.getBoardingUtxos()).length > 0) {
+      await legacy.settle();
+    }
+
+    const vtxos = await getSpendableVtxos(legacy);
+    if (vtxos.length > 0) {
+      const info = await getAspInfo(activeNetwork.aspUrl);
+      const amount = offchainSweepAmount(info.fees, vtxos.map((vtxo) => vtxo.value));
+      if (amount === null || amount < Number(Wallet.DUST_AMOUNT)) {
+        console.warn("[Legacy] VTXOs too small to cover the sweep fee:", sumCoins(vtxos));
+      } else {
+        const txid = await legacy.sendBitcoin({ address: wallet.offchainAddress.encode(), amount });
+        result.offchainTxid = String(txid);
+        console.log("[Legacy] Swept VTXOs:", result.offchainTxid);
+      }
+    }
+
+    const coins = (await legacy.getCoins()).map((coin) => ({
+      txid: coin.txid,
+      vout: coin.vout,
+      value: coinValue(coin),
+      index: MAIN_ADDRESS_INDEX,
+    }));
+    if (coins.length > 0) {
+      const legacyKey = await deriveLegacyPrivateKey(mnemonic);
+      const feeRate = feeRateForTarget(await getFeeEstimates(activeNetwork.esploraUrl), FEE_RATE_TARGETS.normal);
+      const recipientScript = OutScript.encode(Address(activeNetwork.btcNetwork).decode(wallet.onchainAddress));
+      const amount = sweepAmount(coins, feeRate, recipientScript.length);
+      // The legacy key has a single address, so every coin is signed with it
+      const { tx, inputKeys } = buildOnchainSend(legacy, coins, () => legacyKey, {
+        address: wallet.onchainAddress,
+        amount,
+        feeRate,
+        rbf: true,
+      });
+      signOnchainSend(tx, inputKeys);
+      result.onchainTxid = await broadcastTransaction(activeNetwork.esploraUrl, tx.hex);
+      console.log("[Legacy] Swept L1 coins:", result.onchainTxid);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { success: false, error: message || "Sweep failed" };
+  } finally {
+    await checkLegacyFunds(mnemonic);
+  }
+
+  return { success: true, data: result };
+}
+
 // --- MESSAGE HANDLERS ---
 
-async function handleGenerateWallet(payload: { password: string }) {
+async function handleGenerateWallet(payload: { password: string }): Promise<ExtensionResponse<GenerateWalletResponse>> {
   const seed = generateMnemonic();
   const encrypted = await encryptData(seed, payload.password);
   await saveEncryptedWallet(encrypted);
+  await saveBackupConfirmed(false);
+  // Fresh seeds never had a legacy key, so there is nothing to migrate
+  for (const networkId of Object.keys(NETWORKS) as NetworkId[]) {
+    await saveLegacyKeyStatus(networkId, 'none');
+  }
+
+  try {
+    // Start the session right away so the user lands on an unlocked dashboard
+    await startSession(seed);
+  } catch (error) {
+    // The vault is saved, so the seed can still be shown and backed up; logging in retries the SDK
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.warn("[GenerateWallet] SDK init failed:", message);
+    return { success: true, data: { unlocked: false, error: message } };
+  }
+  return { success: true, data: { unlocked: true } };
+}
+
+async function handleImportWallet(
+  payload: { mnemonic: string; password: string }
+): Promise<ExtensionResponse<ImportWalletResponse>> {
+  if (await hasWallet()) return { success: false, error: 'A wallet already exists' };
+
+  const validation = validateMnemonic(payload.mnemonic);
+  if (!validation.valid) return { success: false, error: 'Invalid recovery phrase' };
+
+  const encrypted = await encryptData(validation.normalized, payload.password);
+  await saveEncryptedWallet(encrypted);
+  // The user already holds this phrase, so there is nothing to back up
+  await saveBackupConfirmed(true);
+
+  try {
+    await startSession(validation.normalized);
+  } catch (error) {
+    // The vault is saved; the rescan runs once the user logs in and the SDK starts
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("[ImportWallet] SDK init failed:", message);
+    return { success: true, data: { unlocked: false, error: message } };
+  }
+
+  // Rescan so balances, VTXOs and history are populated before the dashboard opens
+  await checkLegacyFunds(validation.normalized);
+  const balance = await handleGetBalance();
+  const history = await handleGetHistory();
+  console.log("[ImportWallet] Rescan:", balance.data, `${history.data?.length ?? 0} history entries`);
+  broadcastProviderEvent('accountsChanged');
+  return { success: true, data: { unlocked: true } };
+}
+
+async function handleRevealSeed(payload: { password: string }) {
+  const encrypted = await loadEncryptedWallet();
+  if (!encrypted) return { success: false, error: 'No wallet found' };
+
+  try {
+    const mnemonic = await decryptData(encrypted, payload.password);
+    return { success: true, data: { mnemonic } };
+  } catch {
+    return { success: false, error: 'Incorrect password' };
+  }
+}
+
+async function handleChangePassword(payload: { currentPassword: string; newPassword: string }) {
+  const encrypted = await loadEncryptedWallet();
+  if (!encrypted) return { success: false, error: 'No wallet found' };
+  if (payload.newPassword.length < MIN_PASSWORD_LENGTH) {
+    return { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long` };
+  }
+
+  let mnemonic: string;
+  try {
+    mnemonic = await decryptData(encrypted, payload.currentPassword);
+  } catch {
+    return { success: false, error: 'Incorrect password' };
+  }
+
+  const reencrypted = await encryptData(mnemonic, payload.newPassword);
+  // Prove the new vault opens before it replaces the only copy of the seed
+  if ((await decryptData(reencrypted, payload.newPassword)) !== mnemonic) {
+    return { success: false, error: 'Failed to re-encrypt wallet' };
+  }
+  await swapEncryptedWallet(encrypted, reencrypted);
   return { success: true };
 }
 
+async function handleExportBackup(payload: { passphrase: string }): Promise<ExtensionResponse<ExportBackupResponse>> {
+  if (!sessionMnemonic) return { success: false, error: 'Locked' };
+  if (payload.passphrase.length < MIN_PASSWORD_LENGTH) {
+    return { success: false, error: `Passphrase must be at least ${MIN_PASSWORD_LENGTH} characters long` };
+  }
+
+  const vault = await loadEncryptedWallet();
+  if (!vault) return { success: false, error: 'No wallet found' };
+
+  const contents: BackupContents = {
+    vault,
+    network: await loadNetwork(),
+    accounts: await loadAccounts(),
+    labels: await loadLabels(),
+    contacts: await loadContacts(),
+    connectedSites: await loadConnectedSites(),
+  };
+  return { success: true, data: { file: await createBackupFile(contents, payload.passphrase) } };
+}
+
+async function handleImportBackup(
+  payload: { file: string; passphrase: string; onConflict?: 'replace' | 'merge'; currentPassword?: string }
+): Promise<ExtensionResponse<ImportBackupResponse>> {
+  let contents: BackupContents;
+  try {
+    contents = await openBackupFile(payload.file, payload.passphrase);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Invalid backup file' };
+  }
+
+  const exists = await hasWallet();
+  if (exists && !payload.onConflict) {
+    // Nothing is written until the user picks how to resolve it
+    return { success: true, data: { status: 'conflict' } };
+  }
+
+  if (exists && payload.onConflict === 'merge') {
+    const merged = mergeBackupMetadata(
+      { labels: await loadLabels(), contacts: await loadContacts(), connectedSites: await loadConnectedSites() },
+      contents
+    );
+    await saveLabels(merged.labels);
+    await saveContacts(merged.contacts);
+    await saveConnectedSites(merged.connectedSites);
+    return { success: true, data: { status: 'merged' } };
+  }
+
+  if (exists) {
+    // Replacing destroys the current seed, so only its owner may do it
+    const encrypted = await loadEncryptedWallet();
+    try {
+      if (!encrypted || !payload.currentPassword) throw new Error('Missing password');
+      await decryptData(encrypted, payload.currentPassword);
+    } catch {
+      return { success: false, error: 'Enter the current wallet password to replace it' };
+    }
+    // The open session belongs to the old wallet
+    await lockWallet();
+  }
+  const previousAccounts = await loadAccounts();
+
+  await saveEncryptedWallet(contents.vault);
+  await saveNetwork(contents.network);
+  await saveAccounts(contents.accounts);
+  await saveActiveAccount(contents.accounts[0].index);
+  await saveLabels(contents.labels);
+  await saveContacts(contents.contacts);
+  await saveConnectedSites(contents.connectedSites);
+  // Whoever restores from a backup file already holds a copy of this vault
+  await saveBackupConfirmed(true);
+  // Addresses, deposits and swaps of the previous seed cannot be spent by this one
+  await clearSeedData(
+    Object.keys(NETWORKS) as NetworkId[],
+    [...previousAccounts, ...contents.accounts].map((account) => account.index)
+  );
+  return { success: true, data: { status: exists ? 'replaced' : 'imported' } };
+}
+
+/**
+ * Re-encrypts a vault stored in an older format or with a weaker KDF.
+ * Failure is not fatal: the old vault still unlocks and is retried next time.
+ */
+async function upgradeVault(encrypted: string, mnemonic: string, password: string) {
+  try {
+    if (!isVaultOutdated(encrypted)) return;
+    await swapEncryptedWallet(encrypted, await encryptData(mnemonic, password));
+    console.log("[UnlockWallet] Vault re-encrypted with the current KDF");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.warn("[UnlockWallet] Vault upgrade failed:", message);
+  }
+}
+
 async function handleUnlockWallet(payload: { password: string }) {
   const encrypted = await loadEncryptedWallet();
   if (!encrypted) return { success: false, error: 'No wallet found' };
 
   try {
     const mnemonic = await decryptData(encrypted, payload.password);
-    sessionMnemonic = mnemonic;
-    await initSdk(mnemonic);
+    await upgradeVault(encrypted, mnemonic, payload.password);
+    await startSession(mnemonic);
+    await checkLegacyFunds(mnemonic);
+    // VTXOs that came due while locked can be renewed now
+    void checkExpiry();
+    broadcastProviderEvent('accountsChanged');
     return { success: true };
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -150,22 +586,18 @@ async function handleUnlockWallet(payload: { password: string }) {
   }
 }
 
-async function handleGetBalance() {
+async function handleGetBalance(): Promise<ExtensionResponse<GetBalanceResponse>> {
   if (!walletInstance) return { success: false, error: 'Locked' };
   
   let onchain = 0;
+  let boarding = 0;
   let offchain = 0;
+  let expiring: ExpiringFunds | null = null;
 
   // 1. Fetch L1 (Coins) - Independent fetch, don't fail if this errors
   try {
-    const coins = await walletInstance.getCoins(); // Returns Coin[]
-    onchain = coins.reduce((sum, coin) => {
-      // Access amount property (may be 'value', 'amount', or 'amount_sat' depending on SDK version)
-      const coinAny = coin as { value?: bigint | number; amount?: bigint | number; amount_sat?: bigint | number };
-      const coinValue = coinAny.value ?? coinAny.amount ?? coinAny.amount_sat ?? 0;
-      const amount = typeof coinValue === 'bigint' ? Number(coinValue) : coinValue;
-      return sum + Number(amount);
-    }, 0);
+    const coins = await getOnchainCoins(walletInstance);
+    onchain = sumCoins(coins);
     console.log(`[Balance] L1 Coins found: ${coins.length}, Total: ${onchain}`);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -173,32 +605,58 @@ async function handleGetBalance() {
     // Don't throw, just keep 0
   }
 
-  // 2. Fetch L2 (VTXOs) - Independent fetch, expected 404 for new wallets
+  // 2. Boarding deposits as last tracked; the boarding checks keep them current
+  try {
+    boarding = pendingBoardingTotal(await loadBoardingDeposits(activeNetwork.id, activeAccount));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("[Balance] Failed to load boarding deposits:", message);
+  }
+
+  // 3. Fetch L2 (VTXOs) - unknown addresses already read as empty, so any error here is real
   try {
-    const vtxos = await walletInstance.getVtxos(); // Returns VirtualCoin[]
-    offchain = vtxos.reduce((sum, vtxo) => {
-      // Access amount property (may be 'value', 'amount', or 'amount_sat' depending on SDK version)
-      const vtxoAny = vtxo as { value?: bigint | number; amount?: bigint | number; amount_sat?: bigint | number };
-      const vtxoValue = vtxoAny.value ?? vtxoAny.amount ?? vtxoAny.amount_sat ?? 0;
-      const amount = typeof vtxoValue === 'bigint' ? Number(vtxoValue) : vtxoValue;
-      return sum + Number(amount);
-    }, 0);
-    console.log(`[Balance] L2 VTXOs found: ${vtxos.length}, Total: ${offchain}`);
+    const vtxos = await getSpendableVtxos(walletInstance);
+    offchain = sumCoins(vtxos);
+    expiring = findExpiring(vtxos, await loadRenewalThreshold());
+    console.log(`[Balance] L2 Total: ${offchain}`);
   } catch (error) {
-    // Expected 404 for new wallets
     const message = error instanceof Error ? error.message : "Unknown error";
-    console.warn("[Balance] Failed to fetch L2 VTXOs (likely empty):", message);
+    console.error("[Balance] Failed to fetch L2 VTXOs:", message);
+    return { success: false, error: message };
+  }
+
+  if (legacyWalletInstance) {
+    try {
+      const legacy = await getLegacyBalance(legacyWalletInstance);
+      return {
+        success: true,
+        data: {
+          onchain,
+          boarding,
+          offchain,
+          ...(expiring ? { expiring } : {}),
+          legacy: { onchain: legacy.onchain, offchain: legacy.boarding + legacy.offchain },
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.warn("[Balance] Failed to fetch legacy funds:", message);
+    }
   }
 
-  return { success: true, data: { onchain, offchain } };
+  return { success: true, data: { onchain, boarding, offchain, ...(expiring ? { expiring } : {}) } };
 }
 
-// TODO: Security Best Practice: Update this to generate a fresh address on every request to avoid reuse.
+/**
+ * Returns the account's main addresses. Receive asks for a fresh L1 address
+ * separately (NewReceiveAddress), so reading these never uses up an index.
+ */
 async function handleGetAddresses() {
     if (!walletInstance) return { success: false, error: 'Locked' };
     
     let onchain = "";
     let offchain = "";
+    let boarding = "";
     
     try { 
       onchain = walletInstance.onchainAddress; 
@@ -207,25 +665,182 @@ async function handleGetAddresses() {
       console.warn("[GetAddresses] Onchain address error:", message);
     }
     try { 
-      offchain = walletInstance.offchainAddress?.toString() || ""; 
+      offchain = walletInstance.offchainAddress?.encode() || ""; 
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       console.warn("[GetAddresses] Offchain address error:", message);
     }
+    try {
+      boarding = walletInstance.boardingOnchainAddress;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.warn("[GetAddresses] Boarding address error:", message);
+    }
 
-    return { success: true, data: { onchain, offchain } };
+    return { success: true, data: { onchain, offchain, boarding } };
 }
 
-async function handleOnboard(payload: { amount: number }) {
+// --- RECEIVE ADDRESS HANDLERS ---
+
+/**
+ * Loads the L1 address book of an account, seeded with the wallet's main address.
+ * Only the external chain of BIP-86 rotates: Ark and boarding addresses belong to the
+ * SDK identity, which is the main key.
+ */
+async function loadAddressBook(wallet: Wallet, network: NetworkConfig, account: number): Promise<ReceiveAddress[]> {
+    const addresses = await loadReceiveAddresses(network.id, account);
+    if (addresses.some((entry) => entry.index === MAIN_ADDRESS_INDEX)) return addresses;
+    return [{ index: MAIN_ADDRESS_INDEX, address: wallet.onchainAddress, used: false, issuedAt: Date.now() }, ...addresses];
+}
+
+function receiveAddressDeriver(mnemonic: string, network: NetworkConfig, account: number): (index: number) => string {
+    const keys = bip86ReceiveKeys(mnemonic, network.coinType, account);
+    return (index) => receiveAddress(keys(index), network);
+}
+
+/**
+ * Looks for used addresses past the address book, as after restoring from the seed.
+ * Starts on wallet init but only runs when isReceiveScanDue says so; a failed scan
+ * is retried on the next init.
+ */
+async function scanReceiveAddresses(wallet: Wallet, mnemonic: string): Promise<void> {
+    const network = activeNetwork;
+    const account = activeAccount;
+    try {
+        if (!isReceiveScanDue(await loadReceiveScanTime(network.id, account))) return;
+        const scanned = await discoverReceiveAddresses(
+            await loadAddressBook(wallet, network, account),
+            receiveAddressDeriver(mnemonic, network, account),
+            (address) => isAddressUsed(network.esploraUrl, address)
+        );
+        // Addresses may have been handed out or labelled while the scan ran
+        const merged = mergeReceiveAddresses(await loadReceiveAddresses(network.id, account), scanned);
+        await saveReceiveAddresses(network.id, account, merged);
+        await saveReceiveScanTime(network.id, account, Date.now());
+        console.log(`[Addresses] Scan found ${merged.filter((entry) => entry.used).length} used addresses`);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.warn("[Addresses] Scan failed:", message);
+    }
+}
+
+async function handleNewReceiveAddress(): Promise<ExtensionResponse<NewReceiveAddressResponse>> {
+    if (!walletInstance || !sessionMnemonic) return { success: false, error: 'Locked' };
+    const network = activeNetwork;
+    const account = activeAccount;
+    try {
+        let addresses = await loadAddressBook(walletInstance, network, account);
+        // Fresh flags keep a paid address from being handed out again; stale ones only cost privacy
+        try {
+            addresses = await checkReceiveAddresses(addresses, (address) => isAddressUsed(network.esploraUrl, address));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            console.warn("[Addresses] Usage check failed:", message);
+        }
+
+        const index = nextReceiveIndex(addresses);
+        let entry = addresses.find((candidate) => candidate.index === index);
+        if (!entry) {
+            entry = { index, address: receiveAddressDeriver(sessionMnemonic, network, account)(index), used: false, issuedAt: Date.now() };
+            addresses = [...addresses, entry];
+        }
+        await saveReceiveAddresses(network.id, account, addresses);
+        return { success: true, data: entry };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message };
+    }
+}
+
+async function handleGetReceiveAddresses(): Promise<ExtensionResponse<GetReceiveAddressesResponse>> {
+    if (!walletInstance) return { success: false, error: 'Locked' };
+    try {
+        return { success: true, data: await loadAddressBook(walletInstance, activeNetwork, activeAccount) };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message };
+    }
+}
+
+async function handleSetReceiveAddressLabel(payload: { index: number; label: string }) {
     if (!walletInstance) return { success: false, error: 'Locked' };
+    const addresses = await loadAddressBook(walletInstance, activeNetwork, activeAccount);
+    if (!addresses.some((entry) => entry.index === payload.index)) return { success: false, error: 'Unknown address' };
+
+    const label = normalizeAddressLabel(payload.label);
+    await saveReceiveAddresses(
+        activeNetwork.id,
+        activeAccount,
+        addresses.map((entry) => (entry.index === payload.index ? { ...entry, label } : entry))
+    );
+    return { success: true };
+}
+
+type OwnedCoin = SpendableCoin & { index: number };
+
+// Balance polls come every few seconds; a handed-out address is looked up at most this often for them
+const ADDRESS_UTXO_MAX_AGE_MS = 60_000;
+
+const addressUtxoCache = new Map<string, { utxos: EsploraUtxo[]; fetchedAt: number }>();
+
+async function getAddressUtxosCached(address: string, maxAgeMs: number): Promise<EsploraUtxo[]> {
+    const cached = addressUtxoCache.get(address);
+    if (cached && Date.now() - cached.fetchedAt < maxAgeMs) return cached.utxos;
+    const utxos = await getAddressUtxos(activeNetwork.esploraUrl, address);
+    addressUtxoCache.set(address, { utxos, fetchedAt: Date.now() });
+    return utxos;
+}
+
+/**
+ * Lists the account's L1 coins: the SDK wallet's on the main address and those on
+ * addresses handed out by Receive, each with the index of the key that spends it.
+ * @param maxAgeMs - Oldest cached lookup of a handed-out address to accept; sends pass 0
+ */
+async function getOnchainCoins(wallet: Wallet, maxAgeMs: number = ADDRESS_UTXO_MAX_AGE_MS): Promise<OwnedCoin[]> {
+    const [coins, addresses] = await Promise.all([
+        wallet.getCoins(),
+        loadReceiveAddresses(activeNetwork.id, activeAccount),
+    ]);
+    const handedOut = addresses.filter((entry) => entry.index !== MAIN_ADDRESS_INDEX);
+    const utxos = await Promise.all(handedOut.map((entry) => getAddressUtxosCached(entry.address, maxAgeMs)));
+    return [
+        ...coins.map((coin) => ({ txid: coin.txid, vout: coin.vout, value: coinValue(coin), index: MAIN_ADDRESS_INDEX })),
+        ...handedOut.flatMap((entry, i) =>
+            utxos[i].map((utxo) => ({ txid: utxo.txid, vout: utxo.vout, value: utxo.value, index: entry.index }))
+        ),
+    ];
+}
+
+async function handleOnboard(payload: { amount: number }) {
+    if (!walletInstance || !sessionMnemonic) return { success: false, error: 'Locked' };
     try {
-        // Sanitize amount to integer before passing to SDK
         const sanitizedAmount = Math.floor(payload.amount);
-        const txid = await walletInstance.sendBitcoin({
+        // Built here rather than by the SDK, which only spends coins on the main address
+        const keys = bip86ReceiveKeys(sessionMnemonic, activeNetwork.coinType, activeAccount);
+        const feeRate = feeRateForTarget(await getFeeEstimates(activeNetwork.esploraUrl), FEE_RATE_TARGETS.normal);
+        const { tx, preview, inputKeys } = buildOnchainSend(walletInstance, await getOnchainCoins(walletInstance, 0), keys, {
             address: walletInstance.boardingOnchainAddress,
             amount: sanitizedAmount,
+            feeRate,
+            rbf: true,
         });
-        console.log("[SDK] Lift TX:", txid);
+        signOnchainSend(tx, inputKeys);
+        const txid = await broadcastTransaction(activeNetwork.esploraUrl, tx.hex);
+        // The spent coins must not linger in the balance until the cache expires
+        addressUtxoCache.clear();
+        console.log("[L1] Lift TX:", txid);
+        await recordHistory({
+            id: historyId('boarding', String(txid)),
+            layer: 'boarding',
+            direction: 'self',
+            amount: sanitizedAmount,
+            fee: preview.fee,
+            status: 'pending',
+            timestamp: Date.now(),
+            txid: String(txid),
+        });
+        // Starts tracking the deposit; it settles by itself once confirmed
+        void refreshBoarding().catch((error) => console.warn("[Boarding] Refresh failed:", error));
         return { success: true, data: { success: true, txid: String(txid) } };
     } catch (error) {
         const message = error instanceof Error ? error.message : "Unknown error";
@@ -233,26 +848,1183 @@ async function handleOnboard(payload: { amount: number }) {
     }
 }
 
+async function handleGetBoarding(): Promise<ExtensionResponse<GetBoardingResponse>> {
+    if (!walletInstance) return { success: false, error: 'Locked' };
+    try {
+        return { success: true, data: await refreshBoarding() };
+    } catch (error) {
+        // The explorer is down; the last tracked state is still worth showing
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.warn("[Boarding] Refresh failed:", message);
+        return { success: true, data: await loadBoardingDeposits(activeNetwork.id, activeAccount) };
+    }
+}
+
+async function handleSettle(): Promise<ExtensionResponse<SettleResponse>> {
+    if (!walletInstance) return { success: false, error: 'Locked' };
+    try {
+        const roundTxid = await settleBoarding();
+        if (!roundTxid) return { success: false, error: 'No confirmed boarding deposits to settle' };
+        return { success: true, data: { roundTxid } };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message || "Settlement failed" };
+    }
+}
 
-// --- LISTENER ---
+// Settling signs with the wallet key, so only the unlocked wallet's deposits move
+onBoardingWallet(async () => {
+    await resumeSession();
+    return walletInstance ? { wallet: walletInstance, network: activeNetwork, account: activeAccount } : null;
+});
 
-chrome.runtime.onMessage.addListener((
-  msg: Message,
-  _sender: chrome.runtime.MessageSender,
-  sendResponse: (response: ExtensionResponse<unknown>) => void
-) => {
-  (async () => {
-    let res: ExtensionResponse<unknown> = { success: false, error: "Unknown" };
-    
+// --- NETWORK HANDLERS ---
+
+async function handleGetNetwork(): Promise<ExtensionResponse<GetNetworkResponse>> {
+    return { success: true, data: { network: await loadNetwork() } };
+}
+
+/**
+ * Switches networks. While unlocked, the wallet for the new network is created
+ * before the selection is saved so a failed switch leaves the current one usable.
+ */
+async function handleSetNetwork(payload: { network: NetworkId }): Promise<ExtensionResponse<SetNetworkResponse>> {
+    if (!isNetworkId(payload.network)) return { success: false, error: 'Unknown network' };
+
+    if (sessionMnemonic) {
+        try {
+            await initSdk(sessionMnemonic, payload.network);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            console.error("[SetNetwork] Error:", message);
+            return { success: false, error: `Could not connect to ${NETWORKS[payload.network].label}` };
+        }
+        await checkLegacyFunds(sessionMnemonic);
+    }
+
+    await saveNetwork(payload.network);
+    broadcastProviderEvent('accountsChanged');
+    return { success: true, data: { success: true } };
+}
+
+// --- ACCOUNT HANDLERS ---
+
+async function handleGetAccounts(): Promise<ExtensionResponse<GetAccountsResponse>> {
+    const accounts = await loadAccounts();
+    const stored = await loadActiveAccount();
+    const active = accounts.some((account) => account.index === stored) ? stored : accounts[0].index;
+    return { success: true, data: { accounts, active } };
+}
+
+async function handleCreateAccount(payload: { name: string }): Promise<ExtensionResponse<CreateAccountResponse>> {
+    const accounts = await loadAccounts();
+    if (accounts.length >= MAX_ACCOUNTS) return { success: false, error: `At most ${MAX_ACCOUNTS} accounts are supported` };
+    const nameError = validateAccountName(payload.name, accounts);
+    if (nameError) return { success: false, error: nameError };
+
+    const account: Account = { index: nextAccountIndex(accounts), name: normalizeAccountName(payload.name) };
+    await saveAccounts([...accounts, account]);
+    return { success: true, data: account };
+}
+
+async function handleRenameAccount(payload: { index: number; name: string }) {
+    const accounts = await loadAccounts();
+    if (!accounts.some((account) => account.index === payload.index)) return { success: false, error: 'Unknown account' };
+    const nameError = validateAccountName(payload.name, accounts, payload.index);
+    if (nameError) return { success: false, error: nameError };
+
+    const name = normalizeAccountName(payload.name);
+    await saveAccounts(accounts.map((account) => (account.index === payload.index ? { ...account, name } : account)));
+    return { success: true };
+}
+
+async function handleSwitchAccount(payload: { index: number }) {
+    const accounts = await loadAccounts();
+    const account = accounts.find((candidate) => candidate.index === payload.index);
+    if (!account) return { success: false, error: 'Unknown account' };
+
+    if (sessionMnemonic) {
+        try {
+            await initSdk(sessionMnemonic, undefined, account.index);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            console.error("[SwitchAccount] Error:", message);
+            return { success: false, error: `Could not open ${account.name}` };
+        }
+    }
+
+    await saveActiveAccount(account.index);
+    broadcastProviderEvent('accountsChanged');
+    return { success: true };
+}
+
+// --- UNILATERAL EXIT HANDLERS ---
+
+async function handleGetVtxos(): Promise<ExtensionResponse<GetVtxosResponse>> {
+    if (!walletInstance) return { success: false, error: 'Locked' };
     try {
-        switch (msg.type) {
-        case 'GenerateWallet': res = await handleGenerateWallet(msg.payload); break;
-        case 'GetWalletStatus': res = { success: true, data: { initialized: await hasWallet(), locked: !sessionMnemonic } }; break;
-        case 'UnlockWallet': res = await handleUnlockWallet(msg.payload); break;
-        case 'LockWallet': sessionMnemonic = null; walletInstance = null; res = { success: true }; break;
+        return { success: true, data: await getSpendableVtxos(walletInstance) };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message };
+    }
+}
+
+/**
+ * Starts exiting VTXOs without the ASP. Everything the exit still needs from the
+ * server (the tree branch and the exit script) is copied into the exit state up front.
+ */
+async function handleStartExit(payload: { outpoints: string[] }): Promise<ExtensionResponse<StartExitResponse>> {
+    if (!walletInstance) return { success: false, error: 'Locked' };
+    if (!Array.isArray(payload.outpoints) || payload.outpoints.length === 0) {
+        return { success: false, error: 'Select at least one VTXO to exit' };
+    }
+
+    try {
+        const spendable = new Map((await getSpendableVtxos(walletInstance)).map((vtxo) => [outpointId(vtxo), vtxo]));
+        const selected: (AspVtxo & { roundTxid: string })[] = [];
+        for (const id of payload.outpoints) {
+            const vtxo = spendable.get(id);
+            if (!vtxo) return { success: false, error: 'VTXO is not spendable or is already exiting' };
+            if (vtxo.pending || !vtxo.roundTxid) {
+                return { success: false, error: 'Pending VTXOs must be settled in a round before they can exit' };
+            }
+            selected.push({ ...vtxo, roundTxid: vtxo.roundTxid });
+        }
+
+        // The exit leaf is the same for every VTXO paying to this wallet's Ark address
+        const tapscript = walletInstance.offchainTapscript;
+        if (!tapscript) return { success: false, error: 'Ark address is not ready; try again once the wallet has loaded' };
+        const [controlBlock, leafScript] = tapscript.exit();
+        const exitLeaf = {
+            // The SDK appends the leaf version to the script
+            script: hex.encode(leafScript.subarray(0, -1)),
+            controlBlock: hex.encode(TaprootControlBlock.encode(controlBlock)),
+        };
+
+        const rounds = new Map<string, AspRound>();
+        const exits: UnilateralExit[] = [];
+        for (const vtxo of selected) {
+            const round = rounds.get(vtxo.roundTxid) ?? await getAspRound(activeNetwork.aspUrl, vtxo.roundTxid);
+            rounds.set(vtxo.roundTxid, round);
+            exits.push({
+                id: outpointId(vtxo),
+                network: activeNetwork.id,
+                account: activeAccount,
+                vtxo: { txid: vtxo.txid, vout: vtxo.vout, value: vtxo.value },
+                branch: exitBranch(round.vtxoTree, vtxo.txid, round.roundTxid).map(({ txid, tx }) => ({ txid, tx })),
+                exitLeaf,
+                vtxoScript: hex.encode(tapscript.pkScript),
+                timelock: activeNetwork.exitTimelock,
+                step: 'unrolling',
+                startedAt: Date.now(),
+            });
+        }
+
+        await startExits(exits);
+        console.log("[Exit] Started:", exits.map((exit) => exit.id));
+        return { success: true, data: { exits } };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message || "Exit failed" };
+    }
+}
+
+async function handleGetExits(): Promise<ExtensionResponse<GetExitsResponse>> {
+    if (!walletInstance) return { success: false, error: 'Locked' };
+    const exits = (await loadExits()).filter(
+        (exit) => exit.network === activeNetwork.id && exit.account === activeAccount
+    );
+
+    let tipHeight: number | null = null;
+    if (exits.some(isExitActive)) {
+        // The countdown is only an estimate, so an unreachable explorer is not an error
+        tipHeight = await getTipHeight(activeNetwork.esploraUrl).catch(() => null);
+    }
+    return { success: true, data: { exits, tipHeight } };
+}
+
+async function handleCancelExit(payload: { id: string }) {
+    if (!walletInstance) return { success: false, error: 'Locked' };
+    const exit = (await loadExits()).find((entry) => entry.id === payload.id);
+    if (!exit || exit.network !== activeNetwork.id || exit.account !== activeAccount) {
+        return { success: false, error: 'Exit not found' };
+    }
+    try {
+        await cancelExit(payload.id);
+        return { success: true };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message };
+    }
+}
+
+// The claim key only exists while unlocked; claims wait for the next unlock otherwise
+async function unlockedAccountKey(target: { network: NetworkId; account: number }): Promise<Uint8Array | null> {
+    const mnemonic = sessionMnemonic ?? await restoreSession();
+    return mnemonic ? derivePrivateKey(mnemonic, NETWORKS[target.network], target.account) : null;
+}
+
+onClaimKey(unlockedAccountKey);
+
+// --- VTXO RENEWAL HANDLERS ---
+
+/**
+ * Settles the wallet's VTXOs into a new round, which restarts their expiry.
+ * VTXOs being exited stay out: spending them in a round would race the exit.
+ */
+async function renewVtxos(wallet: Wallet): Promise<string> {
+    // The SDK's getVtxos fails with a 404 on an address the server has never seen,
+    // so check through the tolerant client first and only ask the SDK for the VTXOs to spend
+    const spendable = new Set((await getSpendableVtxos(wallet)).map(outpointId));
+    if (spendable.size === 0) throw new Error('No VTXOs to renew');
+    const vtxos = (await wallet.getVtxos()).filter((vtxo) => spendable.has(outpointId(vtxo)));
+    if (vtxos.length === 0) throw new Error('No VTXOs to renew');
+    const txid = await wallet.settle({
+        inputs: vtxos,
+        outputs: [{ address: wallet.offchainAddress.encode(), amount: BigInt(sumCoins(vtxos)) }],
+    });
+    console.log("[Renewal] Renewed VTXOs in round:", txid);
+    return String(txid);
+}
+
+async function handleRenewVtxos(): Promise<ExtensionResponse<RenewVtxosResponse>> {
+    if (!walletInstance) return { success: false, error: 'Locked' };
+    try {
+        return { success: true, data: { txid: await renewVtxos(walletInstance) } };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message || "Renewal failed" };
+    }
+}
+
+async function handleSetRenewalThreshold(payload: { hours: number }) {
+    if (!isRenewalThresholdHours(payload.hours)) return { success: false, error: 'Unsupported renewal threshold' };
+    await saveRenewalThreshold(payload.hours);
+    // A longer threshold may make funds due right away
+    void checkExpiry();
+    return { success: true, data: { success: true } };
+}
+
+// Only the unlocked wallet can sign a renewal; other accounts and networks get a notification
+onRenew(async (watched) => {
+    await resumeSession();
+    if (!walletInstance || watched.network !== activeNetwork.id || watched.account !== activeAccount) return false;
+    await renewVtxos(walletInstance);
+    return true;
+});
+
+// --- LIGHTNING HANDLERS ---
+
+/**
+ * Opens a reverse swap into the active account and returns it with its invoice.
+ * Shared by the popup and webln.makeInvoice.
+ */
+async function createInvoice(amount: number, description?: string): Promise<ExtensionResponse<CreateInvoiceResponse>> {
+    if (!walletInstance || !sessionMnemonic) return { success: false, error: 'Locked' };
+    if (!Number.isInteger(amount) || amount <= 0) return { success: false, error: 'Invalid amount' };
+
+    const providerUrl = await getSwapProviderUrl(activeNetwork);
+    if (!providerUrl) return { success: false, error: `No swap provider configured for ${activeNetwork.label}` };
+
+    try {
+        const swap = await createReverseSwap({
+            client: new BoltzSwapClient(providerUrl),
+            providerUrl,
+            network: activeNetwork,
+            account: activeAccount,
+            amount,
+            privateKey: await derivePrivateKey(sessionMnemonic),
+            claimAddress: walletInstance.offchainAddress.encode(),
+            description: description?.trim() || undefined,
+        });
+        return { success: true, data: summarizeSwap(swap) };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message || "Failed to create invoice" };
+    }
+}
+
+async function handleGetSwap(payload: { id: string }): Promise<ExtensionResponse<GetSwapResponse>> {
+    const swap = (await loadSwaps()).find((entry) => entry.id === payload.id);
+    if (!swap) return { success: false, error: 'Swap not found' };
+    // Someone is watching this invoice; check on it now rather than at the next alarm
+    if (isSwapActive(swap)) void advanceSwaps();
+    return { success: true, data: summarizeSwap(swap) };
+}
+
+async function handleGetSwapProvider(): Promise<ExtensionResponse<GetSwapProviderResponse>> {
+    const network = NETWORKS[await loadNetwork()];
+    const custom = (await loadSwapProviders())[network.id];
+    const defaultUrl = network.swapProviderUrl ?? null;
+    return { success: true, data: { url: custom ?? defaultUrl, custom: custom !== undefined, defaultUrl } };
+}
+
+/**
+ * Sets the swap provider of the selected network; null goes back to the network default.
+ * Open swaps keep talking to the provider that issued them.
+ */
+async function handleSetSwapProvider(payload: { url: string | null }): Promise<ExtensionResponse<SetSwapProviderResponse>> {
+    const network = NETWORKS[await loadNetwork()];
+    const providers = await loadSwapProviders();
+    if (payload.url === null) {
+        delete providers[network.id];
+    } else {
+        let url: URL;
+        try {
+            url = new URL(payload.url.trim());
+        } catch {
+            return { success: false, error: 'Invalid swap provider URL' };
+        }
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+            return { success: false, error: 'Swap provider URL must use http or https' };
+        }
+        providers[network.id] = url.href.replace(/\/+$/, '');
+    }
+    await saveSwapProviders(providers);
+    return { success: true, data: { success: true } };
+}
+
+// Most payments settle within seconds; slower ones keep being watched by the swap alarm
+const PAYMENT_WAIT_MS = 30_000;
+
+/**
+ * Decodes an invoice and prices paying it from the active account's Ark balance.
+ */
+async function handlePreviewPayInvoice(
+    payload: { invoice: string }
+): Promise<ExtensionResponse<PreviewPayInvoiceResponse>> {
+    if (!walletInstance) return { success: false, error: 'Locked' };
+
+    let invoice: DecodedInvoice;
+    try {
+        invoice = decodeInvoice(payload.invoice);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message || 'Invalid invoice' };
+    }
+    if (invoice.currency !== activeNetwork.invoiceCurrency) {
+        return { success: false, error: 'Invoice is for a different network' };
+    }
+    // Submarine swaps lock a fixed amount, so the invoice has to name one
+    if (invoice.amount === null) return { success: false, error: 'Invoices without an amount are not supported' };
+    if (isInvoiceExpired(invoice)) return { success: false, error: 'Invoice has expired' };
+
+    const providerUrl = await getSwapProviderUrl(activeNetwork);
+    if (!providerUrl) return { success: false, error: `No swap provider configured for ${activeNetwork.label}` };
+
+    try {
+        const quote = await new BoltzSwapClient(providerUrl).getSubmarineQuote();
+        if (invoice.amount < quote.minimal || invoice.amount > quote.maximal) {
+            return {
+                success: false,
+                error: `Swap provider only pays invoices of ${quote.minimal} to ${quote.maximal} sats`,
+            };
+        }
+        const fee = submarineFee(quote, invoice.amount);
+        const total = invoice.amount + fee;
+        const available = await getOffchainTotal(walletInstance);
+        if (total > available) return { success: false, error: 'Insufficient Ark balance' };
+        return { success: true, data: { invoice, fee, total, available } };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message || "Failed to price invoice" };
+    }
+}
+
+/**
+ * Pays an invoice through a submarine swap and waits a little for the provider to pay it.
+ * Shared by the popup and webln.sendPayment.
+ * @param payload - The invoice and the total the user approved, swap fee included
+ * @returns The payment; still 'funded' if it has not settled within PAYMENT_WAIT_MS
+ */
+async function handlePayInvoice(
+    payload: { invoice: string; maxTotal: number }
+): Promise<ExtensionResponse<PayInvoiceResponse>> {
+    const preview = await handlePreviewPayInvoice(payload);
+    if (!preview.success || !preview.data) return { success: false, error: preview.error };
+    if (!walletInstance || !sessionMnemonic) return { success: false, error: 'Locked' };
+    const providerUrl = await getSwapProviderUrl(activeNetwork);
+    if (!providerUrl) return { success: false, error: `No swap provider configured for ${activeNetwork.label}` };
+
+    const { invoice, total } = preview.data;
+    if (!(total <= payload.maxTotal)) {
+        return { success: false, error: `Swap now costs ${total} sats, more than the ${payload.maxTotal} sats approved` };
+    }
+    try {
+        const payment = await payInvoice({
+            client: new BoltzSwapClient(providerUrl),
+            providerUrl,
+            network: activeNetwork,
+            account: activeAccount,
+            wallet: walletInstance,
+            invoice: { raw: normalizeInvoice(payload.invoice), amount: invoice.amount ?? 0, paymentHash: invoice.paymentHash },
+            maxTotal: payload.maxTotal,
+            privateKey: await derivePrivateKey(sessionMnemonic),
+            refundAddress: walletInstance.offchainAddress.encode(),
+        });
+        if (payment.fundingTxid) {
+            await recordHistory({
+                id: historyId('ark', payment.fundingTxid),
+                layer: 'ark',
+                direction: 'sent',
+                amount: payment.amount,
+                fee: payment.expectedAmount - payment.amount,
+                status: 'pending',
+                timestamp: payment.createdAt,
+                txid: payment.fundingTxid,
+                counterparty: invoice.payee,
+            });
+        }
+        return { success: true, data: (await waitForPayment(payment.id, PAYMENT_WAIT_MS)) ?? payment };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message || "Payment failed" };
+    }
+}
+
+async function handleGetPayment(payload: { id: string }): Promise<ExtensionResponse<GetPaymentResponse>> {
+    const payment = (await loadPayments()).find((entry) => entry.id === payload.id);
+    if (!payment) return { success: false, error: 'Payment not found' };
+    if (isPaymentActive(payment)) void advanceSwaps();
+    return { success: true, data: payment };
+}
+
+// Claims and refunds go to the account that opened the swap, whichever one is active by then
+onSwapKey(unlockedAccountKey);
+
+// --- SEND HANDLERS ---
+
+/**
+ * Validates an off-chain send against the wallet's network and spendable VTXOs.
+ */
+async function handlePreviewOffchainSend(
+    payload: { address: string; amount: number }
+): Promise<ExtensionResponse<PreviewOffchainSendResponse>> {
+    if (!walletInstance) return { success: false, error: 'Locked' };
+
+    let recipient: ArkAddress;
+    try {
+        recipient = ArkAddress.decode(payload.address.trim());
+    } catch {
+        return { success: false, error: 'Invalid Ark address' };
+    }
+    if (recipient.hrp !== walletInstance.offchainAddress.hrp) {
+        return { success: false, error: 'Ark address is for a different network' };
+    }
+    if (!Number.isInteger(payload.amount) || payload.amount <= 0) {
+        return { success: false, error: 'Invalid amount' };
+    }
+    if (payload.amount < Number(Wallet.DUST_AMOUNT)) {
+        return { success: false, error: `Amount is below the ${Wallet.DUST_AMOUNT} sat dust limit` };
+    }
+
+    let fee: number | null;
+    let available: number;
+    try {
+        const [info, vtxos] = await Promise.all([getAspInfo(activeNetwork.aspUrl), getSpendableVtxos(walletInstance)]);
+        fee = offchainSendFee(info.fees, vtxos.map((vtxo) => vtxo.value), payload.amount);
+        available = sumCoins(vtxos);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message };
+    }
+    if (fee === null) {
+        return { success: false, error: 'Insufficient Ark balance' };
+    }
+
+    return { success: true, data: { amount: payload.amount, fee, total: payload.amount + fee, available } };
+}
+
+async function handleSendOffchain(
+    payload: { address: string; amount: number; maxTotal: number }
+): Promise<ExtensionResponse<SendOffchainResponse>> {
+    const preview = await handlePreviewOffchainSend(payload);
+    if (!preview.success || !preview.data) return { success: false, error: preview.error };
+    if (!walletInstance) return { success: false, error: 'Locked' };
+    const costError = offchainSendCostError(payload.amount, preview.data.fee, payload.maxTotal);
+    if (costError) return { success: false, error: costError };
+
+    try {
+        const txid = await walletInstance.sendBitcoin({ address: payload.address.trim(), amount: payload.amount });
+        console.log("[SDK] Offchain TX:", txid);
+        await recordHistory({
+            id: historyId('ark', String(txid)),
+            layer: 'ark',
+            direction: 'sent',
+            amount: payload.amount,
+            fee: preview.data.fee,
+            status: 'pending',
+            timestamp: Date.now(),
+            txid: String(txid),
+            counterparty: payload.address.trim(),
+        });
+        return { success: true, data: { txid: String(txid) } };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message || "Send Failed" };
+    }
+}
+
+async function handleGetFeeRates(): Promise<ExtensionResponse<GetFeeRatesResponse>> {
+    try {
+        const estimates = await getFeeEstimates(activeNetwork.esploraUrl);
+        return {
+            success: true,
+            data: {
+                slow: feeRateForTarget(estimates, FEE_RATE_TARGETS.slow),
+                normal: feeRateForTarget(estimates, FEE_RATE_TARGETS.normal),
+                fast: feeRateForTarget(estimates, FEE_RATE_TARGETS.fast),
+            },
+        };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message };
+    }
+}
+
+type OnchainSendPayload = { address: string; amount: number; feeRate: number; rbf: boolean };
+
+/**
+ * Selects coins and builds the unsigned L1 transaction for a send.
+ * @param wallet - Wallet whose main address takes the change
+ * @param coins - Coins to choose from, each with the index of its address
+ * @param keyAt - Private key of the address at an index
+ * @returns The transaction, its preview and the key that signs each input
+ * @throws Error with a user-facing message if the send is invalid or unaffordable
+ */
+function buildOnchainSend(
+    wallet: Wallet,
+    coins: OwnedCoin[],
+    keyAt: (index: number) => Uint8Array,
+    payload: OnchainSendPayload
+): { tx: Transaction; preview: PreviewOnchainSendResponse; inputKeys: Uint8Array[] } {
+    let recipientScript: Uint8Array;
+    try {
+        recipientScript = OutScript.encode(Address(activeNetwork.btcNetwork).decode(payload.address.trim()));
+    } catch {
+        throw new Error('Invalid address for this network');
+    }
+    if (!(payload.feeRate > 0) || payload.feeRate > MAX_FEE_RATE) {
+        throw new Error(`Fee rate must be between 0 and ${MAX_FEE_RATE} sat/vB`);
+    }
+
+    // Rebuild the P2TR output of each spent address so its inputs can be signed
+    const paymentAt = (index: number) => p2tr(schnorr.getPublicKey(keyAt(index)), undefined, activeNetwork.btcNetwork);
+    const change = paymentAt(MAIN_ADDRESS_INDEX);
+    if (change.address !== wallet.onchainAddress) {
+        throw new Error('On-chain key does not match wallet address');
+    }
+
+    const selection = selectCoins(coins, payload.amount, payload.feeRate, recipientScript.length, change.script.length);
+
+    const tx = new Transaction();
+    const inputKeys: Uint8Array[] = [];
+    for (const input of selection.inputs) {
+        const payment = paymentAt(input.index);
+        tx.addInput({
+            txid: input.txid,
+            index: input.vout,
+            witnessUtxo: { script: payment.script, amount: BigInt(input.value) },
+            tapInternalKey: payment.tapInternalKey,
+            sequence: payload.rbf ? RBF_SEQUENCE : FINAL_SEQUENCE,
+        });
+        inputKeys.push(keyAt(input.index));
+    }
+    tx.addOutput({ script: recipientScript, amount: BigInt(payload.amount) });
+    if (selection.change > 0) {
+        tx.addOutput({ script: change.script, amount: BigInt(selection.change) });
+    }
+
+    return {
+        tx,
+        inputKeys,
+        preview: {
+            amount: payload.amount,
+            fee: selection.fee,
+            change: selection.change,
+            total: payload.amount + selection.fee,
+            feeRate: payload.feeRate,
+            vsize: selection.vsize,
+            inputCount: selection.inputs.length,
+            rbf: payload.rbf,
+        },
+    };
+}
+
+/**
+ * Signs each input with the key of the address it spends, then finalizes.
+ */
+function signOnchainSend(tx: Transaction, inputKeys: Uint8Array[]) {
+    inputKeys.forEach((key, index) => tx.signIdx(key, index));
+    tx.finalize();
+}
+
+async function handlePreviewOnchainSend(payload: OnchainSendPayload): Promise<ExtensionResponse<PreviewOnchainSendResponse>> {
+    if (!walletInstance || !sessionMnemonic) return { success: false, error: 'Locked' };
+    try {
+        const keys = bip86ReceiveKeys(sessionMnemonic, activeNetwork.coinType, activeAccount);
+        const { preview } = buildOnchainSend(walletInstance, await getOnchainCoins(walletInstance, 0), keys, payload);
+        return { success: true, data: preview };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message };
+    }
+}
+
+async function handleSendOnchain(
+    payload: OnchainSendPayload & { maxFee: number; maxTotal: number }
+): Promise<ExtensionResponse<SendOnchainResponse>> {
+    if (!walletInstance || !sessionMnemonic) return { success: false, error: 'Locked' };
+    try {
+        const keys = bip86ReceiveKeys(sessionMnemonic, activeNetwork.coinType, activeAccount);
+        const { tx, preview, inputKeys } = buildOnchainSend(walletInstance, await getOnchainCoins(walletInstance, 0), keys, payload);
+        // Coins may have changed since the preview, and a different selection can cost more
+        if (!(preview.fee <= payload.maxFee) || !(preview.total <= payload.maxTotal)) {
+            return {
+                success: false,
+                error: `Send now costs ${preview.total} sats (${preview.fee} fee), more than the ${payload.maxTotal} sats approved`,
+            };
+        }
+        signOnchainSend(tx, inputKeys);
+        const txid = await broadcastTransaction(activeNetwork.esploraUrl, tx.hex);
+        addressUtxoCache.clear();
+        console.log("[L1] Sent TX:", txid);
+        await recordHistory({
+            id: historyId('onchain', txid),
+            layer: 'onchain',
+            direction: 'sent',
+            amount: preview.amount,
+            fee: preview.fee,
+            status: 'pending',
+            timestamp: Date.now(),
+            txid,
+            counterparty: payload.address.trim(),
+        });
+        return { success: true, data: { txid } };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message || "Send Failed" };
+    }
+}
+
+// --- HISTORY HANDLERS ---
+
+async function recordHistory(entry: HistoryEntry) {
+    try {
+        await saveHistory(activeNetwork.id, activeAccount, mergeHistory(await loadHistory(activeNetwork.id, activeAccount), [entry]));
+    } catch (error) {
+        // The send already went through; a missing history row must not turn it into a failure
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.error("[History] Failed to record entry:", message);
+    }
+}
+
+async function handleGetHistory(): Promise<ExtensionResponse<HistoryEntry[]>> {
+    if (!walletInstance) return { success: false, error: 'Locked' };
+
+    const incoming: HistoryEntry[] = [];
+
+    // 1. L1 + boarding transactions from the explorer - independent, don't fail if this errors
+    try {
+        const onchainAddresses = (await loadAddressBook(walletInstance, activeNetwork, activeAccount))
+            .map((entry) => entry.address);
+        const boardingAddress = walletInstance.boardingOnchainAddress;
+        const perAddress = await Promise.all(
+            [...onchainAddresses, boardingAddress].map((address) => getAddressTransactions(activeNetwork.esploraUrl, address))
+        );
+        // A transaction between two of the wallet's addresses is listed under both
+        const txs = new Map(perAddress.flat().map((tx) => [tx.txid, tx]));
+        for (const tx of txs.values()) {
+            const entry = fromEsploraTransaction(tx, onchainAddresses, boardingAddress);
+            if (entry) incoming.push(entry);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.error("[History] Failed to fetch L1 transactions:", message);
+    }
+
+    // 2. Boarding, round and redeem transactions from the ASP
+    try {
+        const arkTxs = await walletInstance.getTransactionHistory();
+        incoming.push(...arkTxs.map(fromArkTransaction));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.warn("[History] Failed to fetch Ark transactions:", message);
+    }
+
+    const merged = mergeHistory(await loadHistory(activeNetwork.id, activeAccount), incoming);
+    await saveHistory(activeNetwork.id, activeAccount, merged);
+    return { success: true, data: merged };
+}
+
+// --- LABEL AND CONTACT HANDLERS ---
+
+// Labels and contacts are not tied to an account, so both stay readable while locked
+
+async function handleSetLabel(payload: { txid: string; label: string }) {
+    if (typeof payload.txid !== 'string' || payload.txid === '') return { success: false, error: 'Invalid transaction' };
+    const labels = await loadLabels();
+    const label = normalizeAddressLabel(payload.label);
+    if (label) {
+        labels[payload.txid] = label;
+    } else {
+        delete labels[payload.txid];
+    }
+    await saveLabels(labels);
+    return { success: true };
+}
+
+async function handleSaveContact(payload: Contact) {
+    const name = normalizeAddressLabel(payload.name);
+    if (!name) return { success: false, error: 'Contact name is required' };
+    let request: PaymentRequest;
+    try {
+        request = parsePaymentRequest(payload.address, activeNetwork);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message };
+    }
+    const address = request.kind === 'ark' ? request.arkAddress : request.kind === 'onchain' ? request.onchainAddress : undefined;
+    if (!address) return { success: false, error: 'Contacts must be an Ark or Bitcoin address' };
+
+    // Saving a known address renames it
+    const contacts = (await loadContacts()).filter((contact) => contact.address !== address);
+    await saveContacts([...contacts, { name, address }]);
+    return { success: true };
+}
+
+async function handleRemoveContact(payload: { address: string }) {
+    await saveContacts((await loadContacts()).filter((contact) => contact.address !== payload.address));
+    return { success: true };
+}
+
+// --- WEBLN HANDLERS ---
+
+// Prefix keeps page-requested signatures from ever matching a transaction sighash
+const SIGNED_MESSAGE_PREFIX = 'CoinOp Signed Message:\n';
+
+async function handleWebLNEnable(origin: string) {
+    if (!walletInstance) return { success: false, error: 'Wallet is locked' };
+    console.log("[WebLN] Enabled for", origin);
+    return { success: true, data: { enabled: true } };
+}
+
+async function handleWebLNGetInfo() {
+    if (!walletInstance || !sessionMnemonic) return { success: false, error: 'Locked' };
+    // Pages see the identity key, which signs messages but holds no funds
+    const privateKey = deriveIdentityKey(sessionMnemonic, activeNetwork.coinType, activeAccount);
+    return {
+        success: true,
+        data: {
+            node: { alias: 'CoinOp', pubkey: arrayBufferToHex(schnorr.getPublicKey(privateKey)) },
+            methods: ['getInfo', 'sendPayment', 'makeInvoice', 'signMessage'],
+        },
+    };
+}
+
+async function handleWebLNSendPayment(
+    origin: string,
+    payload: { paymentRequest: string }
+): Promise<ExtensionResponse<WebLNSendPaymentResponse>> {
+    const preview = await handlePreviewPayInvoice({ invoice: payload.paymentRequest });
+    if (!preview.success || !preview.data) return { success: false, error: preview.error };
+    const { invoice, fee, total } = preview.data;
+
+    const approved = await requestApproval({
+        origin,
+        kind: 'payment',
+        title: 'Pay Lightning invoice',
+        details: [
+            { label: 'Amount', value: `${invoice.amount} sats` },
+            { label: 'Description', value: invoice.description || '(none)' },
+            { label: 'Payee', value: invoice.payee },
+            { label: 'Expires', value: new Date(invoice.expiresAt).toLocaleString() },
+            { label: 'Swap fee', value: `${fee} sats` },
+            { label: 'Total', value: `${total} sats` },
+        ],
+    });
+    if (!approved) return { success: false, error: 'User rejected the request' };
+
+    const result = await handlePayInvoice({ invoice: payload.paymentRequest, maxTotal: total });
+    if (!result.success || !result.data) return { success: false, error: result.error };
+    const payment = result.data;
+    if (payment.stage === 'paid' && payment.preimage) {
+        console.log("[WebLN] Paid for", origin, payment.id);
+        return { success: true, data: { preimage: payment.preimage } };
+    }
+    if (payment.stage === 'funded') return { success: false, error: 'Payment is still in flight' };
+    return { success: false, error: payment.error || 'Payment failed; the funds are refunded once the swap times out' };
+}
+
+async function handleWebLNMakeInvoice(
+    payload: { amount?: number; defaultMemo?: string }
+): Promise<ExtensionResponse<WebLNMakeInvoiceResponse>> {
+    if (!walletInstance) return { success: false, error: 'Locked' };
+    // Reverse swaps lock a fixed amount, so amountless invoices cannot be offered
+    if (payload.amount === undefined) return { success: false, error: 'An invoice amount is required' };
+    const invoice = await createInvoice(payload.amount, payload.defaultMemo);
+    if (!invoice.success || !invoice.data) return { success: false, error: invoice.error };
+    return { success: true, data: { paymentRequest: invoice.data.invoice } };
+}
+
+async function handleWebLNSignMessage(origin: string, payload: { message: string }) {
+    if (!walletInstance || !sessionMnemonic) return { success: false, error: 'Locked' };
+    if (typeof payload.message !== 'string') return { success: false, error: 'Message must be a string' };
+
+    // The 'sign' grant lets a page ask; every message is still shown to the user
+    const approved = await requestApproval({
+        origin,
+        kind: 'signMessage',
+        title: 'Sign message',
+        details: [{ label: 'Message', value: payload.message }],
+    });
+    if (!approved) return { success: false, error: 'User rejected the request' };
+    if (!sessionMnemonic) return { success: false, error: 'Locked' };
+
+    const privateKey = deriveIdentityKey(sessionMnemonic, activeNetwork.coinType, activeAccount);
+    const digest = await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(SIGNED_MESSAGE_PREFIX + payload.message)
+    );
+    const signature = schnorr.sign(new Uint8Array(digest), privateKey);
+    return {
+        success: true,
+        data: { message: payload.message, signature: arrayBufferToHex(signature) },
+    };
+}
+
+// --- ARK PROVIDER HANDLERS ---
+
+async function handleArkSendToAddress(origin: string, payload: { address: string; amount: number }) {
+    const preview = await handlePreviewOffchainSend(payload);
+    if (!preview.success || !preview.data) return preview;
+    const { fee, total } = preview.data;
+
+    const approved = await requestApproval({
+        origin,
+        kind: 'payment',
+        title: 'Send Ark payment',
+        details: [
+            { label: 'To', value: payload.address },
+            { label: 'Amount', value: `${payload.amount} sats` },
+            { label: 'Fee', value: `${fee} sats` },
+        ],
+    });
+    if (!approved) return { success: false, error: 'User rejected the request' };
+
+    const result = await handleSendOffchain({ ...payload, maxTotal: total });
+    if (result.success) console.log("[Ark] Sent for", origin, result.data?.txid);
+    return result;
+}
+
+async function handleArkSignPsbt(origin: string, payload: { psbt: string }) {
+    if (!walletInstance || !sessionMnemonic) return { success: false, error: 'Locked' };
+
+    let tx: Transaction;
+    try {
+        tx = Transaction.fromPSBT(base64.decode(payload.psbt));
+    } catch {
+        return { success: false, error: 'Invalid PSBT' };
+    }
+
+    const privateKey = await derivePrivateKey(sessionMnemonic);
+    const summary = summarizePsbt(tx, schnorr.getPublicKey(privateKey), activeNetwork);
+    if (summary.signedInputs.length === 0) return { success: false, error: 'No input of this PSBT belongs to the wallet' };
+    const outputTotal = summary.outputs.reduce((sum, output) => sum + output.amount, BigInt(0));
+
+    const approved = await requestApproval({
+        origin,
+        kind: 'signPsbt',
+        title: 'Sign transaction',
+        details: [
+            {
+                label: 'Signs inputs',
+                value: `${summary.signedInputs.map((i) => `#${i}`).join(', ')} of ${summary.inputCount}`,
+            },
+            ...summary.outputs.map((output, i) => ({
+                label: `Output #${i}`,
+                value: `${output.amount.toString()} sats to ${output.destination}`,
+            })),
+            { label: 'Output total', value: `${outputTotal.toString()} sats` },
+        ],
+    });
+    if (!approved) return { success: false, error: 'User rejected the request' };
+    if (!sessionMnemonic) return { success: false, error: 'Locked' };
+
+    try {
+        const identity = InMemoryKey.fromPrivateKey(privateKey);
+        const signed = await identity.sign(tx);
+        return { success: true, data: { psbt: base64.encode(signed.toPSBT()) } };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return { success: false, error: message || "Signing Failed" };
+    }
+}
+
+/**
+ * Notifies every tab's content script and any open extension page; tabs without
+ * one, or no open popup, simply reject.
+ */
+function broadcastProviderEvent(event: ProviderEventName) {
+    const msg: ProviderEventMessage = { type: 'ProviderEvent', event };
+    chrome.tabs.query({}, (tabs) => {
+        for (const tab of tabs) {
+            if (tab.id === undefined) continue;
+            chrome.tabs.sendMessage(tab.id, msg).catch(() => {
+                // No content script in this tab
+            });
+        }
+    });
+    chrome.runtime.sendMessage(msg).catch(() => {
+        // Popup not open
+    });
+}
+
+// --- SESSION ---
+
+/**
+ * Creates the wallet, then marks it unlocked and persists the session so it outlives worker restarts.
+ * @throws Error if the wallet cannot be created; nothing is persisted and the wallet stays locked
+ */
+async function startSession(mnemonic: string) {
+    await openSession(mnemonic, initSdk);
+    sessionMnemonic = mnemonic;
+    // Exits and swaps that became claimable while locked can be claimed now
+    void advanceExits();
+    void advanceSwaps();
+}
+
+let resuming: Promise<void> | null = null;
+
+/**
+ * Chrome stops idle workers, dropping module state. Picks the session back up
+ * from session storage and re-creates the SDK wallet on the next message.
+ */
+async function resumeSession(): Promise<void> {
+    if (sessionMnemonic && walletInstance) return;
+    // The popup fires several messages at once on open; let them share one wallet creation
+    resuming ??= (async () => {
+        try {
+            if (!sessionMnemonic) {
+                sessionMnemonic = await restoreSession();
+                if (!sessionMnemonic) return;
+                console.log("[Session] Resumed after worker restart");
+            }
+            await initSdk(sessionMnemonic);
+            void checkLegacyFunds(sessionMnemonic);
+        } catch (error) {
+            // Handlers report 'Locked' until the wallet can be created; the next message retries
+            const message = error instanceof Error ? error.message : "Unknown error";
+            console.warn("[Session] Wallet re-creation failed:", message);
+        } finally {
+            resuming = null;
+        }
+    })();
+    await resuming;
+}
+
+/**
+ * Clears the unlocked session, in memory and in session storage.
+ * Used by LockWallet and the auto-lock timer, which may fire in a freshly started worker.
+ */
+async function lockWallet() {
+    const wasUnlocked = sessionMnemonic !== null;
+    sessionMnemonic = null;
+    walletInstance = null;
+    legacyWalletInstance = null;
+    const hadStoredSession = await clearSession().catch(() => false);
+    await cancelAutoLock();
+    if (wasUnlocked || hadStoredSession) {
+        broadcastProviderEvent('lock');
+    }
+}
+
+onAutoLock(() => {
+    lockWallet();
+});
+
+// Status polls and balance refreshes run without the user doing anything, so they never extend the session
+const PASSIVE_MESSAGE_TYPES: ReadonlySet<Message['type']> = new Set<Message['type']>([
+    'GetWalletStatus',
+    'GetBalance',
+    'ArkGetBalance',
+    'GetApproval',
+    'GetAutoLock',
+    'GetAccounts',
+    'GetExits',
+    'GetRenewalThreshold',
+    'GetBoarding',
+    'GetSwap',
+    'GetSwapProvider',
+    'GetPayment',
+]);
+
+async function handleSetAutoLock(payload: { minutes: number }) {
+    if (!isAutoLockMinutes(payload.minutes)) return { success: false, error: 'Unsupported auto-lock timeout' };
+    await setAutoLockMinutes(payload.minutes, sessionMnemonic !== null);
+    return { success: true, data: { success: true } };
+}
+
+
+// --- LISTENER ---
+
+/**
+ * Messages from content scripts carry a tab; the popup and other extension pages do not.
+ */
+function isPageSender(sender: chrome.runtime.MessageSender): boolean {
+  return sender.tab !== undefined || !sender.url?.startsWith(chrome.runtime.getURL(''));
+}
+
+function senderOrigin(sender: chrome.runtime.MessageSender): string {
+  if (sender.origin) return sender.origin;
+  return sender.url ? new URL(sender.url).origin : 'unknown';
+}
+
+/**
+ * Checks a page message against the connected-sites registry, asking the user
+ * to grant the capability if the site does not hold it yet.
+ * @returns An error response to send back, or null if the message may proceed
+ */
+async function authorizePageMessage(origin: string, msg: Message): Promise<ExtensionResponse<unknown> | null> {
+  if (!walletInstance) return { success: false, error: 'Wallet is locked' };
+
+  const permission = requiredPermission(msg);
+  if (!permission) return { success: false, error: 'Method not allowed' };
+
+  const site = await loadConnectedSite(origin);
+  if (site?.permissions.includes(permission)) return null;
+
+  const approved = await requestApproval({
+    origin,
+    kind: 'connect',
+    title: site ? 'Grant permission' : 'Connect to site',
+    details: [{ label: 'Permission', value: PERMISSION_LABELS[permission] }],
+  });
+  if (!approved) return { success: false, error: 'Permission denied' };
+
+  await grantSitePermission(origin, permission);
+  console.log(`[Sites] Granted ${permission} to ${origin}`);
+  return null;
+}
+
+chrome.runtime.onMessage.addListener((
+  msg: Message,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: ExtensionResponse<unknown>) => void
+) => {
+  // Webpages may only reach the restricted provider API
+  const pageSender = isPageSender(sender);
+  if (pageSender && !isPageMessage(msg)) {
+    console.warn("[Listener] Rejected page message:", msg.type);
+    sendResponse({ success: false, error: 'Method not allowed' });
+    return false;
+  }
+
+  (async () => {
+    let res: ExtensionResponse<unknown> = { success: false, error: "Unknown" };
+    
+    try {
+        await resumeSession();
+
+        const denial = pageSender ? await authorizePageMessage(senderOrigin(sender), msg) : null;
+        if (denial) {
+          sendResponse(denial);
+          return;
+        }
+
+        switch (msg.type) {
+        case 'GenerateWallet': res = await handleGenerateWallet(msg.payload); break;
+        case 'ImportWallet': res = await handleImportWallet(msg.payload); break;
+        case 'GetWalletStatus':
+          res = {
+            success: true,
+            data: { initialized: await hasWallet(), locked: !sessionMnemonic, backedUp: await loadBackupConfirmed() },
+          };
+          break;
+        case 'RevealSeed': res = await handleRevealSeed(msg.payload); break;
+        case 'ChangePassword': res = await handleChangePassword(msg.payload); break;
+        case 'ExportBackup': res = await handleExportBackup(msg.payload); break;
+        case 'ImportBackup': res = await handleImportBackup(msg.payload); break;
+        case 'ConfirmBackup': await saveBackupConfirmed(true); res = { success: true }; break;
+        case 'UnlockWallet': res = await handleUnlockWallet(msg.payload); break;
+        case 'LockWallet': await lockWallet(); res = { success: true }; break;
+        case 'GetAutoLock': res = { success: true, data: { minutes: await getAutoLockMinutes() } }; break;
+        case 'SetAutoLock': res = await handleSetAutoLock(msg.payload); break;
+        case 'GetRenewalThreshold': res = { success: true, data: { hours: await loadRenewalThreshold() } }; break;
+        case 'SetRenewalThreshold': res = await handleSetRenewalThreshold(msg.payload); break;
+        case 'RenewVtxos': res = await handleRenewVtxos(); break;
         case 'GetBalance': res = await handleGetBalance(); break;
         case 'GetAddresses': res = await handleGetAddresses(); break;
+        case 'NewReceiveAddress': res = await handleNewReceiveAddress(); break;
+        case 'GetReceiveAddresses': res = await handleGetReceiveAddresses(); break;
+        case 'SetReceiveAddressLabel': res = await handleSetReceiveAddressLabel(msg.payload); break;
+        case 'GetNetwork': res = await handleGetNetwork(); break;
+        case 'SetNetwork': res = await handleSetNetwork(msg.payload); break;
+        case 'GetAccounts': res = await handleGetAccounts(); break;
+        case 'CreateAccount': res = await handleCreateAccount(msg.payload); break;
+        case 'RenameAccount': res = await handleRenameAccount(msg.payload); break;
+        case 'SwitchAccount': res = await handleSwitchAccount(msg.payload); break;
         case 'Onboard': res = await handleOnboard(msg.payload); break;
+        case 'GetBoarding': res = await handleGetBoarding(); break;
+        case 'Settle': res = await handleSettle(); break;
+        case 'PreviewOffchainSend': res = await handlePreviewOffchainSend(msg.payload); break;
+        case 'SendOffchain': res = await handleSendOffchain(msg.payload); break;
+        case 'GetFeeRates': res = await handleGetFeeRates(); break;
+        case 'PreviewOnchainSend': res = await handlePreviewOnchainSend(msg.payload); break;
+        case 'SendOnchain': res = await handleSendOnchain(msg.payload); break;
+        case 'GetHistory': res = await handleGetHistory(); break;
+        case 'GetLabels': res = { success: true, data: await loadLabels() }; break;
+        case 'SetLabel': res = await handleSetLabel(msg.payload); break;
+        case 'GetContacts': res = { success: true, data: await loadContacts() }; break;
+        case 'SaveContact': res = await handleSaveContact(msg.payload); break;
+        case 'RemoveContact': res = await handleRemoveContact(msg.payload); break;
+        case 'SweepLegacy': res = await handleSweepLegacy(); break;
+        case 'GetVtxos': res = await handleGetVtxos(); break;
+        case 'StartExit': res = await handleStartExit(msg.payload); break;
+        case 'GetExits': res = await handleGetExits(); break;
+        case 'CancelExit': res = await handleCancelExit(msg.payload); break;
+        case 'CreateInvoice': res = await createInvoice(msg.payload.amount, msg.payload.description); break;
+        case 'GetSwap': res = await handleGetSwap(msg.payload); break;
+        case 'GetSwapProvider': res = await handleGetSwapProvider(); break;
+        case 'SetSwapProvider': res = await handleSetSwapProvider(msg.payload); break;
+        case 'PreviewPayInvoice': res = await handlePreviewPayInvoice(msg.payload); break;
+        case 'PayInvoice': res = await handlePayInvoice(msg.payload); break;
+        case 'GetPayment': res = await handleGetPayment(msg.payload); break;
+        case 'WebLNEnable': res = await handleWebLNEnable(senderOrigin(sender)); break;
+        case 'WebLNGetInfo': res = await handleWebLNGetInfo(); break;
+        case 'WebLNSendPayment': res = await handleWebLNSendPayment(senderOrigin(sender), msg.payload); break;
+        case 'WebLNMakeInvoice': res = await handleWebLNMakeInvoice(msg.payload); break;
+        case 'WebLNSignMessage': res = await handleWebLNSignMessage(senderOrigin(sender), msg.payload); break;
+        case 'ArkGetAddresses': {
+          // Pages pay to the wallet's addresses; boarding is the wallet's own way into Ark
+          const addresses = await handleGetAddresses();
+          res = addresses.data ? { success: true, data: { onchain: addresses.data.onchain, offchain: addresses.data.offchain } } : addresses;
+          break;
+        }
+        case 'ArkGetBalance': {
+          // Pages only see the spendable wallet balance, not the legacy key
+          const balance = await handleGetBalance();
+          res = balance.data ? { success: true, data: { onchain: balance.data.onchain, offchain: balance.data.offchain } } : balance;
+          break;
+        }
+        case 'ArkSendToAddress': res = await handleArkSendToAddress(senderOrigin(sender), msg.payload); break;
+        case 'ArkSignPsbt': res = await handleArkSignPsbt(senderOrigin(sender), msg.payload); break;
+        case 'GetApproval': {
+          const approval = getApproval(msg.payload.id);
+          res = approval ? { success: true, data: approval } : { success: false, error: 'Request expired' };
+          break;
+        }
+        case 'ResolveApproval': res = { success: resolveApproval(msg.payload.id, msg.payload.approved) }; break;
+        case 'GetConnectedSites': res = { success: true, data: await loadConnectedSites() }; break;
+        case 'RevokeSite': await revokeSite(msg.payload.origin); res = { success: true }; break;
+        }
+
+        // Unlock starts the timer; any later action in the popup restarts it. Pages cannot keep
+        // the wallet open by polling: their requests only count once approved, and approving
+        // is itself a ResolveApproval from the popup
+        if (sessionMnemonic && !pageSender && !PASSIVE_MESSAGE_TYPES.has(msg.type)) {
+          await resetAutoLock().catch((error) => console.warn("[AutoLock] Failed to reset timer:", error));
         }
     } catch (error) {
         const message = error instanceof Error ? error.message : "Unknown error";
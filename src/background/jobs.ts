@@ -0,0 +1,99 @@
+/**
+ * Plumbing shared by the jobs that keep working with the popup closed.
+ * Each job owns a chrome.alarms alarm and runs one pass at a time; swaps and exits
+ * also advance a stored list of entries the same way.
+ */
+
+export interface AlarmJob {
+  // Runs a pass, or joins the one in progress. Never rejects; failures are logged
+  run: () => Promise<void>;
+  // Resolves once the pass in progress, if any, is over
+  idle: () => Promise<void>;
+  // Starts the periodic alarm unless it is already running
+  schedule: () => Promise<void>;
+  // Stops the periodic alarm
+  cancel: () => Promise<void>;
+}
+
+/**
+ * Registers a periodic alarm and the pass it runs.
+ * Concurrent runs, from the alarm or from callers, share one pass.
+ * @param options.name - Alarm name, unique per job
+ * @param options.periodInMinutes - Time between checks while the alarm is armed
+ * @param options.logTag - Prefix for log lines, e.g. 'Exit'
+ * @param options.pass - One check; a rejection is logged and the next alarm tries again
+ */
+export function createAlarmJob(options: {
+  name: string;
+  periodInMinutes: number;
+  logTag: string;
+  pass: () => Promise<void>;
+}): AlarmJob {
+  let running: Promise<void> | null = null;
+
+  const run = async () => {
+    running ??= (async () => {
+      try {
+        await options.pass();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.warn(`[${options.logTag}] Check failed:`, message);
+      } finally {
+        running = null;
+      }
+    })();
+    await running;
+  };
+
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === options.name) {
+      void run();
+    }
+  });
+
+  return {
+    run,
+    idle: async () => {
+      await running;
+    },
+    schedule: async () => {
+      // Re-creating a running alarm would push its next check back, and workers restart often
+      if (await chrome.alarms.get(options.name)) return;
+      await chrome.alarms.create(options.name, { periodInMinutes: options.periodInMinutes });
+    },
+    cancel: async () => {
+      await chrome.alarms.clear(options.name);
+    },
+  };
+}
+
+/**
+ * Advances the active entries of a stored list. A failed entry keeps its state with
+ * the error recorded, and is retried on the next pass.
+ * @param options.logTag - Prefix for log lines, e.g. 'Swap'
+ * @param options.advance - Moves one entry as far as it can go right now
+ * @returns Whether any entry is still active afterwards
+ */
+export async function advanceStored<T extends { id: string; error?: string }>(options: {
+  logTag: string;
+  load: () => Promise<T[]>;
+  save: (entries: T[]) => Promise<void>;
+  isActive: (entry: T) => boolean;
+  advance: (entry: T) => Promise<T>;
+}): Promise<boolean> {
+  const updated = new Map<string, T>();
+  for (const entry of (await options.load()).filter(options.isActive)) {
+    try {
+      updated.set(entry.id, await options.advance(entry));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.warn(`[${options.logTag}] ${entry.id} stalled:`, message);
+      updated.set(entry.id, { ...entry, error: message });
+    }
+  }
+
+  // Re-read so entries added during this pass are not overwritten
+  const entries = (await options.load()).map((entry) => updated.get(entry.id) ?? entry);
+  await options.save(entries);
+  return entries.some(options.isActive);
+}
@@ -0,0 +1,94 @@
+/**
+ * Auto-lock timer for the unlocked session.
+ * A chrome.alarms alarm fires after the configured minutes without wallet
+ * activity; chrome.idle locks right away when the machine is locked or asleep,
+ * or when it has been idle for the same timeout.
+ */
+
+import { loadAutoLockMinutes, saveAutoLockMinutes } from '../lib/storage';
+import type { AutoLockMinutes } from '../lib/autolock';
+
+const AUTO_LOCK_ALARM = 'auto-lock';
+// chrome.idle rejects detection intervals below 15 seconds
+const MIN_IDLE_DETECTION_SECONDS = 15;
+
+let lockHandler: (() => void) | null = null;
+let cachedMinutes: AutoLockMinutes | null = null;
+
+async function getTimeoutMinutes(): Promise<AutoLockMinutes> {
+  if (cachedMinutes === null) {
+    cachedMinutes = await loadAutoLockMinutes();
+  }
+  return cachedMinutes;
+}
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === AUTO_LOCK_ALARM) {
+    console.log("[AutoLock] Inactivity timeout reached");
+    lockHandler?.();
+  }
+});
+
+chrome.idle.onStateChanged.addListener(async (state) => {
+  if (state === 'locked') {
+    // Screen lock, and sleep on most platforms, report 'locked'
+    console.log("[AutoLock] System locked");
+    lockHandler?.();
+  } else if (state === 'idle' && (await getTimeoutMinutes()) > 0) {
+    console.log("[AutoLock] System idle");
+    lockHandler?.();
+  }
+});
+
+/**
+ * Registers the function that locks the wallet when the timer fires.
+ * @param handler - Clears the session; must be safe to call while already locked
+ */
+export function onAutoLock(handler: () => void): void {
+  lockHandler = handler;
+}
+
+/**
+ * Restarts the inactivity timer. Call on every user or approved dapp action.
+ * @returns Promise that resolves once the alarm is scheduled
+ */
+export async function resetAutoLock(): Promise<void> {
+  const minutes = await getTimeoutMinutes();
+  if (minutes === 0) {
+    await chrome.alarms.clear(AUTO_LOCK_ALARM);
+    return;
+  }
+  chrome.idle.setDetectionInterval(Math.max(MIN_IDLE_DETECTION_SECONDS, minutes * 60));
+  // Creating an alarm with an existing name replaces it
+  await chrome.alarms.create(AUTO_LOCK_ALARM, { delayInMinutes: minutes });
+}
+
+/**
+ * Stops the inactivity timer once the wallet is locked.
+ * @returns Promise that resolves once the alarm is cleared
+ */
+export async function cancelAutoLock(): Promise<void> {
+  await chrome.alarms.clear(AUTO_LOCK_ALARM);
+}
+
+/**
+ * Reads the configured timeout.
+ * @returns Promise that resolves with the timeout in minutes, 0 for never
+ */
+export async function getAutoLockMinutes(): Promise<AutoLockMinutes> {
+  return getTimeoutMinutes();
+}
+
+/**
+ * Saves a new timeout and applies it to the running session.
+ * @param minutes - Timeout in minutes, 0 for never
+ * @param unlocked - Whether a session is active and the timer should restart
+ * @returns Promise that resolves once the setting is saved
+ */
+export async function setAutoLockMinutes(minutes: AutoLockMinutes, unlocked: boolean): Promise<void> {
+  await saveAutoLockMinutes(minutes);
+  cachedMinutes = minutes;
+  if (unlocked) {
+    await resetAutoLock();
+  }
+}
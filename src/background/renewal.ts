@@ -0,0 +1,131 @@
+/**
+ * VTXO expiry monitoring.
+ * A chrome.alarms job checks every Ark address the wallet has opened. VTXOs nearing
+ * expiry are renewed when they belong to the unlocked wallet; otherwise the user is
+ * notified once, and again only if funds become due sooner.
+ */
+
+import {
+  loadRenewalThreshold,
+  loadWatchedAddresses,
+  saveWatchedAddresses,
+  loadExpiryAlerts,
+  saveExpiryAlerts,
+  loadExits,
+} from '../lib/storage';
+import { NETWORKS } from '../lib/networks';
+import { getAspVtxos } from '../lib/asp';
+import { outpointId } from '../lib/exit';
+import { findExpiring } from '../lib/renewal';
+import type { ExpiringFunds, WatchedAddress } from '../lib/renewal';
+import { createAlarmJob } from './jobs';
+
+const RENEWAL_ALARM = 'vtxo-renewal';
+const RENEWAL_CHECK_MINUTES = 30;
+const NOTIFICATION_ICON = 'icon-128.png';
+
+// Renews an address's VTXOs; resolves false when it cannot, e.g. while locked
+type Renewer = (watched: WatchedAddress) => Promise<boolean>;
+
+let renewer: Renewer | null = null;
+
+const renewalJob = createAlarmJob({
+  name: RENEWAL_ALARM,
+  periodInMinutes: RENEWAL_CHECK_MINUTES,
+  logTag: 'Renewal',
+  pass: checkWatchedAddresses,
+});
+
+renewalJob.schedule().catch((error) => console.warn("[Renewal] Failed to schedule expiry checks:", error));
+
+function alertKey(watched: { network: string; account: number }): string {
+  return `${watched.network}:${watched.account}`;
+}
+
+/**
+ * Registers the function that renews VTXOs.
+ * @param handler - Settles the address's VTXOs into a new round if its wallet is unlocked
+ */
+export function onRenew(handler: Renewer): void {
+  renewer = handler;
+}
+
+/**
+ * Adds an Ark address to the expiry checks, or updates the one stored for its network and account.
+ * @param watched - The address with the network and account it belongs to
+ * @returns Promise that resolves once the address is stored
+ */
+export async function watchAddress(watched: WatchedAddress): Promise<void> {
+  const addresses = await loadWatchedAddresses();
+  const existing = addresses.find((entry) => alertKey(entry) === alertKey(watched));
+  if (existing?.address === watched.address) return;
+  await saveWatchedAddresses([...addresses.filter((entry) => entry !== existing), watched]);
+}
+
+/**
+ * Reads the spendable VTXOs of an address that are due for renewal.
+ * VTXOs being exited are left out; they are leaving Ark anyway.
+ * @returns The due funds, or null if none are due
+ */
+export async function getExpiringFunds(watched: WatchedAddress): Promise<ExpiringFunds | null> {
+  const [{ spendableVtxos }, exits, threshold] = await Promise.all([
+    getAspVtxos(NETWORKS[watched.network].aspUrl, watched.address),
+    loadExits(),
+    loadRenewalThreshold(),
+  ]);
+  const exiting = new Set(exits.map((exit) => exit.id));
+  return findExpiring(spendableVtxos.filter((vtxo) => !exiting.has(outpointId(vtxo))), threshold);
+}
+
+/**
+ * Checks every watched address, renewing what it can and notifying about the rest.
+ * Concurrent calls share one pass. Never rejects; failures are logged.
+ * @returns Promise that resolves once the pass is over
+ */
+export async function checkExpiry(): Promise<void> {
+  await renewalJob.run();
+}
+
+async function checkWatchedAddresses(): Promise<void> {
+  const previous = await loadExpiryAlerts();
+  const alerts: Record<string, ExpiringFunds> = {};
+  for (const watched of await loadWatchedAddresses()) {
+    const key = alertKey(watched);
+    try {
+      const expiring = await getExpiringFunds(watched);
+      if (!expiring || (await renewFunds(watched))) continue;
+      // Only a new or more urgent expiry is worth another notification
+      if (!previous[key] || expiring.expiresAt < previous[key].expiresAt) {
+        notifyExpiring(watched, expiring);
+      }
+      alerts[key] = expiring;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.warn(`[Renewal] Check failed for ${key}:`, message);
+      if (previous[key]) alerts[key] = previous[key];
+    }
+  }
+  await saveExpiryAlerts(alerts);
+}
+
+async function renewFunds(watched: WatchedAddress): Promise<boolean> {
+  try {
+    return (await renewer?.(watched)) ?? false;
+  } catch (error) {
+    // Fall through to a notification so the user can renew by hand
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.warn(`[Renewal] Renewal failed for ${alertKey(watched)}:`, message);
+    return false;
+  }
+}
+
+function notifyExpiring(watched: WatchedAddress, expiring: ExpiringFunds) {
+  const when = new Date(expiring.expiresAt).toLocaleString();
+  chrome.notifications.create(`vtxo-expiry:${alertKey(watched)}`, {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL(NOTIFICATION_ICON),
+    title: `Ark funds expire soon (${NETWORKS[watched.network].label})`,
+    message: `${expiring.amount.toLocaleString('en-US')} sats expire ${when}. Open CoinOp to renew them.`,
+    priority: 2,
+  });
+}
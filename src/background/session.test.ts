@@ -0,0 +1,165 @@
+/**
+ * Tests for unlocked-session persistence.
+ * Runs against in-memory stand-ins for chrome.storage.session and the IndexedDB key
+ * store, with real WebCrypto keys, to check both halves are needed to restore.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { saveSession, restoreSession, clearSession, openSession } from './session';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+let sessionArea: Record<string, unknown>;
+let keyStore: Map<string, unknown>;
+
+// Answers an IndexedDB request on a later tick, as the browser does
+function request<T>(result: T): IDBRequest<T> {
+  const pending = { result } as { result: T; onsuccess?: () => void };
+  setTimeout(() => pending.onsuccess?.(), 0);
+  return pending as unknown as IDBRequest<T>;
+}
+
+function stubIndexedDb() {
+  const store = {
+    put: (value: unknown, key: string) => {
+      keyStore.set(key, value);
+      return request(key);
+    },
+    get: (key: string) => request(keyStore.get(key)),
+    delete: (key: string) => {
+      keyStore.delete(key);
+      return request(undefined);
+    },
+  };
+  const db = {
+    createObjectStore: () => store,
+    transaction: () => ({ objectStore: () => store }),
+    close: () => undefined,
+  };
+  return {
+    open: () => {
+      const open = { result: db } as { result: typeof db; onsuccess?: () => void; onupgradeneeded?: () => void };
+      setTimeout(() => {
+        open.onupgradeneeded?.();
+        open.onsuccess?.();
+      }, 0);
+      return open;
+    },
+  };
+}
+
+beforeEach(() => {
+  sessionArea = {};
+  keyStore = new Map();
+  vi.stubGlobal('indexedDB', stubIndexedDb());
+  vi.stubGlobal('chrome', {
+    runtime: { lastError: undefined },
+    storage: {
+      session: {
+        get: (keys: string[], callback: (result: Record<string, unknown>) => void) => {
+          const result = Object.fromEntries(keys.filter((key) => key in sessionArea).map((key) => [key, sessionArea[key]]));
+          setTimeout(() => callback(result), 0);
+        },
+        set: (items: Record<string, unknown>, callback: () => void) => {
+          Object.assign(sessionArea, items);
+          setTimeout(callback, 0);
+        },
+        remove: (key: string, callback: () => void) => {
+          delete sessionArea[key];
+          setTimeout(callback, 0);
+        },
+      },
+    },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('saveSession', () => {
+  it('should keep only ciphertext in session storage and a non-extractable key in IndexedDB', async () => {
+    await saveSession(MNEMONIC);
+
+    expect(JSON.stringify(sessionArea)).not.toContain('abandon');
+    const [key] = [...keyStore.values()] as CryptoKey[];
+    expect(key.extractable).toBe(false);
+  });
+});
+
+describe('restoreSession', () => {
+  it('should recover the mnemonic after a save', async () => {
+    await saveSession(MNEMONIC);
+
+    expect(await restoreSession()).toBe(MNEMONIC);
+  });
+
+  it('should be locked when nothing was saved', async () => {
+    expect(await restoreSession()).toBeNull();
+  });
+
+  it('should be locked once the browser session ends and session storage is wiped', async () => {
+    await saveSession(MNEMONIC);
+    sessionArea = {};
+
+    expect(await restoreSession()).toBeNull();
+  });
+
+  it('should be locked when the key is gone', async () => {
+    await saveSession(MNEMONIC);
+    keyStore.clear();
+
+    expect(await restoreSession()).toBeNull();
+  });
+
+  it('should not open an older ciphertext with the key of a later save', async () => {
+    await saveSession(MNEMONIC);
+    const stale = structuredClone(sessionArea);
+    await saveSession('zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo wrong');
+    Object.assign(sessionArea, stale);
+
+    expect(await restoreSession()).toBeNull();
+  });
+});
+
+describe('clearSession', () => {
+  it('should delete both halves and report that a session existed', async () => {
+    await saveSession(MNEMONIC);
+
+    expect(await clearSession()).toBe(true);
+    expect(sessionArea).toEqual({});
+    expect(keyStore.size).toBe(0);
+    expect(await restoreSession()).toBeNull();
+  });
+
+  it('should report when there was nothing to clear', async () => {
+    expect(await clearSession()).toBe(false);
+  });
+});
+
+describe('openSession', () => {
+  it('should store the session once the wallet is created', async () => {
+    await openSession(MNEMONIC, async () => undefined);
+
+    expect(await restoreSession()).toBe(MNEMONIC);
+  });
+
+  it('should store nothing when the wallet cannot be created', async () => {
+    const failing = openSession(MNEMONIC, async () => {
+      throw new Error('ASP unreachable');
+    });
+
+    await expect(failing).rejects.toThrow('ASP unreachable');
+    expect(sessionArea).toEqual({});
+    expect(keyStore.size).toBe(0);
+    expect(await restoreSession()).toBeNull();
+  });
+
+  it('should clear an earlier session when the wallet cannot be created', async () => {
+    await saveSession(MNEMONIC);
+
+    await expect(openSession(MNEMONIC, () => Promise.reject(new Error('Init failed')))).rejects.toThrow();
+
+    expect(await restoreSession()).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Unlocked-session persistence across MV3 service-worker restarts.
+ *
+ * On unlock the mnemonic is encrypted with a fresh AES-GCM key that is created
+ * non-extractable, so its raw bytes can never be read back out of WebCrypto:
+ *   - the key is kept in IndexedDB (structured clone preserves CryptoKey objects)
+ *   - the ciphertext is kept in chrome.storage.session, which lives in memory
+ *     only and is wiped when the browser closes
+ * Neither half alone reveals the mnemonic, and a browser restart always locks.
+ */
+
+const SESSION_STORAGE_KEY = 'unlocked_session';
+const KEY_DB_NAME = 'coinop-session';
+const KEY_STORE_NAME = 'keys';
+const KEY_RECORD_ID = 'session';
+const AES_ALGORITHM = 'AES-GCM';
+const IV_LENGTH = 12;
+
+interface StoredSession {
+  cipherText: number[];
+  iv: number[];
+}
+
+function openKeyDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(KEY_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a single request against the key store and closes the database afterwards.
+ */
+async function withKeyStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openKeyDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(KEY_STORE_NAME, mode).objectStore(KEY_STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function readStoredSession(): Promise<StoredSession | null> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.session.get([SESSION_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const session = result[SESSION_STORAGE_KEY];
+        resolve(typeof session === 'object' && session !== null ? session as StoredSession : null);
+      }
+    });
+  });
+}
+
+/**
+ * Persists the unlocked mnemonic for the rest of the browser session.
+ * A new key is generated each time, so older ciphertexts become useless.
+ * @param mnemonic - The decrypted mnemonic
+ * @returns Promise that resolves when both halves are stored
+ */
+export async function saveSession(mnemonic: string): Promise<void> {
+  const key = await crypto.subtle.generateKey({ name: AES_ALGORITHM, length: 256 }, false, ['encrypt', 'decrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const cipherText = await crypto.subtle.encrypt(
+    { name: AES_ALGORITHM, iv },
+    key,
+    new TextEncoder().encode(mnemonic)
+  );
+
+  await withKeyStore('readwrite', (store) => store.put(key, KEY_RECORD_ID));
+  const session: StoredSession = { cipherText: Array.from(new Uint8Array(cipherText)), iv: Array.from(iv) };
+  return new Promise((resolve, reject) => {
+    chrome.storage.session.set({ [SESSION_STORAGE_KEY]: session }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Recovers the mnemonic after the service worker was restarted.
+ * @returns Promise that resolves with the mnemonic, or null if there is no valid session
+ */
+export async function restoreSession(): Promise<string | null> {
+  const session = await readStoredSession();
+  if (!session) return null;
+
+  try {
+    const key = await withKeyStore<CryptoKey | undefined>('readonly', (store) => store.get(KEY_RECORD_ID));
+    if (!key) return null;
+    const plaintext = await crypto.subtle.decrypt(
+      { name: AES_ALGORITHM, iv: new Uint8Array(session.iv) },
+      key,
+      new Uint8Array(session.cipherText)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch (error) {
+    // Key and ciphertext out of sync (e.g. storage cleared mid-session): treat as locked
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.warn("[Session] Stored session unusable:", message);
+    return null;
+  }
+}
+
+/**
+ * Deletes both halves of the stored session.
+ * @returns Promise that resolves to true if a session was stored
+ */
+export async function clearSession(): Promise<boolean> {
+  const existed = (await readStoredSession()) !== null;
+  await new Promise<void>((resolve, reject) => {
+    chrome.storage.session.remove(SESSION_STORAGE_KEY, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+  await withKeyStore('readwrite', (store) => store.delete(KEY_RECORD_ID));
+  return existed;
+}
+
+/**
+ * Creates the wallet for a mnemonic, then persists the session. Nothing stays stored
+ * if the wallet cannot be created, so a restarted worker never resumes a session with
+ * no wallet behind it.
+ * @param mnemonic - The decrypted mnemonic
+ * @param createWallet - Builds the wallet for the mnemonic
+ * @returns Promise that resolves once the wallet exists; failing to persist only logs a warning
+ * @throws The createWallet error, after any earlier stored session is cleared
+ */
+export async function openSession(mnemonic: string, createWallet: (mnemonic: string) => Promise<void>): Promise<void> {
+  try {
+    await createWallet(mnemonic);
+  } catch (error) {
+    await clearSession().catch(() => false);
+    throw error;
+  }
+
+  try {
+    await saveSession(mnemonic);
+  } catch (error) {
+    // Still unlocked until the worker stops; the user just has to log in again after that
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.warn("[Session] Failed to persist session:", message);
+  }
+}
@@ -0,0 +1,463 @@
+/**
+ * Completes Lightning receives and payments.
+ * While a swap is open, a chrome.alarms alarm polls its provider every minute. Receives are
+ * claimed into the account as soon as the invoice is paid; payments collect the preimage
+ * once the provider has paid, or are refunded after their refund locktime if it could not.
+ * Claims and refunds need the account key, so they wait for the next unlock. A receive whose
+ * refund locktime passes first goes back to the provider and the payer's HTLC is cancelled.
+ */
+
+import type { Wallet } from '@arklabs/wallet-sdk';
+import { loadSwaps, saveSwaps, loadPayments, savePayments, loadSwapProviders } from '../lib/storage';
+import { NETWORKS } from '../lib/networks';
+import type { NetworkConfig, NetworkId } from '../lib/networks';
+import { getAspInfo, getAspVtxos } from '../lib/asp';
+import type { AspVtxo } from '../lib/asp';
+import { getTipHeight } from '../lib/esplora';
+import {
+  BoltzSwapClient,
+  checkReverseSwap,
+  checkSubmarineSwap,
+  checkSwapTimeouts,
+  isSwapActive,
+  isPaymentActive,
+  reverseSwapStage,
+  submarineSwapStage,
+  preimageMatches,
+  isLocktimeReached,
+  swapDelay,
+} from '../lib/swap';
+import type { ReverseSwap, ReverseSwapRequest, SubmarineSwap, SwapClient, SwapTimeouts } from '../lib/swap';
+import {
+  VHTLC,
+  ArkAddress,
+  InMemoryKey,
+  RestArkProvider,
+  createVirtualTx,
+  addConditionWitness,
+} from '@arklabs/wallet-sdk';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { sha256 } from '@noble/hashes/sha2';
+import { ripemd160 } from '@noble/hashes/legacy';
+import { base64, hex } from '@scure/base';
+import { createAlarmJob, advanceStored } from './jobs';
+
+const SWAP_ALARM = 'lightning-swaps';
+const SWAP_CHECK_MINUTES = 1;
+const PREIMAGE_BYTES = 32;
+const PAYMENT_POLL_MS = 2_000;
+
+// Returns the key of a swap's account, or null while the wallet is locked
+type SwapKeyProvider = (swap: { network: NetworkId; account: number }) => Promise<Uint8Array | null>;
+
+let swapKeyProvider: SwapKeyProvider | null = null;
+
+const swapJob = createAlarmJob({
+  name: SWAP_ALARM,
+  periodInMinutes: SWAP_CHECK_MINUTES,
+  logTag: 'Swap',
+  pass: async () => {
+    const receiving = await advanceStored({
+      logTag: 'Swap',
+      load: loadSwaps,
+      save: saveSwaps,
+      isActive: isSwapActive,
+      advance: advanceSwap,
+    });
+    const paying = await advanceStored({
+      logTag: 'Swap',
+      load: loadPayments,
+      save: savePayments,
+      isActive: isPaymentActive,
+      advance: advancePayment,
+    });
+    if (!receiving && !paying) await swapJob.cancel();
+  },
+});
+
+// Alarms do not survive a browser restart; re-arm the checks for swaps still open
+Promise.all([loadSwaps(), loadPayments()])
+  .then(([swaps, payments]) =>
+    swaps.some(isSwapActive) || payments.some(isPaymentActive) ? swapJob.schedule() : undefined
+  )
+  .catch((error) => console.warn("[Swap] Failed to restore swap checks:", error));
+
+/**
+ * Registers the function that supplies claim and refund keys.
+ * @param provider - Derives the key for a swap's network and account; null while locked
+ */
+export function onSwapKey(provider: SwapKeyProvider): void {
+  swapKeyProvider = provider;
+}
+
+/**
+ * Resolves the swap provider for a network: the user's choice, else the network default.
+ * @returns The provider URL, or null if the network has none
+ */
+export async function getSwapProviderUrl(network: NetworkConfig): Promise<string | null> {
+  const providers = await loadSwapProviders();
+  return providers[network.id] ?? network.swapProviderUrl ?? null;
+}
+
+function xOnly(publicKey: Uint8Array): Uint8Array {
+  return publicKey.length === 33 ? publicKey.slice(1) : publicKey;
+}
+
+/**
+ * Rebuilds the VHTLC a swap locks its funds in.
+ * @param options.sender - Key that funds the VHTLC and can refund it
+ * @param options.receiver - Key that claims it with the preimage
+ * @param options.paymentHash - SHA-256 of the preimage, hex
+ */
+function swapScript(options: {
+  sender: Uint8Array;
+  receiver: Uint8Array;
+  server: Uint8Array;
+  paymentHash: string;
+  timeouts: SwapTimeouts;
+}): VHTLC.Script {
+  const toSdkDelay = (value: number) => {
+    const delay = swapDelay(value);
+    return { type: delay.type, value: BigInt(delay.value) };
+  };
+  return new VHTLC.Script({
+    sender: xOnly(options.sender),
+    receiver: xOnly(options.receiver),
+    server: xOnly(options.server),
+    // The script checks HASH160 of the preimage, the invoice commits to its SHA-256
+    preimageHash: ripemd160(hex.decode(options.paymentHash)),
+    refundLocktime: BigInt(options.timeouts.refund),
+    unilateralClaimDelay: toSdkDelay(options.timeouts.unilateralClaim),
+    unilateralRefundDelay: toSdkDelay(options.timeouts.unilateralRefund),
+    unilateralRefundWithoutReceiverDelay: toSdkDelay(options.timeouts.unilateralRefundWithoutReceiver),
+  });
+}
+
+/**
+ * Checks that a provider's lockup address is the VHTLC the wallet expects.
+ * @throws Error if it is not, so the wallet neither hands out nor funds a swap it cannot settle
+ */
+function assertLockupAddress(vhtlc: VHTLC.Script, lockupAddress: string, ownAddress: string, serverPublicKey: string) {
+  const hrp = ArkAddress.decode(ownAddress).hrp;
+  if (vhtlc.address(hrp, xOnly(hex.decode(serverPublicKey))).encode() !== lockupAddress) {
+    throw new Error('Swap provider returned a lockup address that does not match the swap');
+  }
+}
+
+/**
+ * Spends every VTXO locked at a swap's lockup address through one VHTLC leaf.
+ * @returns The redeem transaction id, or null while the server lists nothing there
+ */
+async function spendLockup(options: {
+  network: NetworkConfig;
+  vhtlc: VHTLC.Script;
+  lockupAddress: string;
+  leaf: ReturnType<VHTLC.Script['claim']>;
+  destination: string;
+  privateKey: Uint8Array;
+  preimage?: Uint8Array;
+}): Promise<string | null> {
+  const { spendableVtxos } = await getAspVtxos(options.network.aspUrl, options.lockupAddress);
+  if (spendableVtxos.length === 0) return null;
+
+  const amount = spendableVtxos.reduce((sum: number, vtxo: AspVtxo) => sum + vtxo.value, 0);
+  const tx = createVirtualTx(
+    spendableVtxos.map((vtxo: AspVtxo) => ({
+      txid: vtxo.txid,
+      vout: vtxo.vout,
+      value: vtxo.value,
+      tapLeafScript: options.leaf,
+      scripts: options.vhtlc.encode(),
+    })),
+    [{ address: options.destination, amount: BigInt(amount) }]
+  );
+  const preimage = options.preimage;
+  if (preimage) {
+    spendableVtxos.forEach((_: AspVtxo, index: number) => addConditionWitness(index, tx, [preimage]));
+  }
+
+  const signed = await InMemoryKey.fromHex(hex.encode(options.privateKey)).sign(tx);
+  return new RestArkProvider(options.network.aspUrl).submitVirtualTx(base64.encode(signed.toPSBT()));
+}
+
+/**
+ * Opens a reverse swap and starts watching it.
+ * The provider's lockup address is checked against the VHTLC the wallet can claim
+ * before the invoice is handed out.
+ * @param options.claimAddress - The account's Ark address, where the claim pays to
+ * @returns Promise that resolves with the saved swap
+ * @throws SwapError if the provider rejects the swap, Error if its lockup cannot be claimed
+ */
+export async function createReverseSwap(options: {
+  client: SwapClient;
+  providerUrl: string;
+  network: NetworkConfig;
+  account: number;
+  amount: number;
+  privateKey: Uint8Array;
+  claimAddress: string;
+  description?: string;
+}): Promise<ReverseSwap> {
+  const preimage = crypto.getRandomValues(new Uint8Array(PREIMAGE_BYTES));
+  const preimageHash = hex.encode(sha256(preimage));
+  const claimPublicKey = secp256k1.getPublicKey(options.privateKey, true);
+
+  const request: ReverseSwapRequest = {
+    invoiceAmount: options.amount,
+    claimPublicKey: hex.encode(claimPublicKey),
+    preimageHash,
+    ...(options.description ? { description: options.description } : {}),
+  };
+  const response = await options.client.createReverseSwap(request);
+  checkReverseSwap(response, request, options.network.invoiceCurrency);
+  checkSwapTimeouts(response.timeouts, await getTipHeight(options.network.esploraUrl));
+
+  const info = await getAspInfo(options.network.aspUrl);
+  const vhtlc = swapScript({
+    sender: hex.decode(response.refundPublicKey),
+    receiver: claimPublicKey,
+    server: hex.decode(info.pubkey),
+    paymentHash: preimageHash,
+    timeouts: response.timeouts,
+  });
+  assertLockupAddress(vhtlc, response.lockupAddress, options.claimAddress, info.pubkey);
+
+  const swap: ReverseSwap = {
+    id: response.id,
+    providerUrl: options.providerUrl,
+    network: options.network.id,
+    account: options.account,
+    invoice: response.invoice,
+    amount: options.amount,
+    onchainAmount: response.onchainAmount,
+    preimage: hex.encode(preimage),
+    preimageHash,
+    lockupAddress: response.lockupAddress,
+    refundPublicKey: response.refundPublicKey,
+    timeouts: response.timeouts,
+    claimAddress: options.claimAddress,
+    stage: 'pending',
+    createdAt: Date.now(),
+  };
+  await saveSwaps([...(await loadSwaps()).filter((stored) => stored.id !== swap.id), swap]);
+  await swapJob.schedule();
+  console.log(`[Swap] Reverse swap ${swap.id} opened for ${swap.amount} sats`);
+  return swap;
+}
+
+/**
+ * Pays an invoice through a submarine swap: funds the provider's VHTLC from the wallet
+ * and starts watching for the preimage.
+ * The lockup address is checked against the VHTLC before any funds move.
+ * @param options.invoice - The invoice, already decoded and checked against the quote
+ * @param options.maxTotal - The most the user agreed to lock, fees included
+ * @param options.refundAddress - The account's Ark address, where a refund pays back to
+ * @returns Promise that resolves with the saved payment, funded
+ * @throws SwapError if the provider rejects the invoice, Error if the swap does not match or funding fails
+ */
+export async function payInvoice(options: {
+  client: SwapClient;
+  providerUrl: string;
+  network: NetworkConfig;
+  account: number;
+  wallet: Wallet;
+  invoice: { raw: string; amount: number; paymentHash: string };
+  maxTotal: number;
+  privateKey: Uint8Array;
+  refundAddress: string;
+}): Promise<SubmarineSwap> {
+  const refundPublicKey = secp256k1.getPublicKey(options.privateKey, true);
+  const response = await options.client.createSubmarineSwap({
+    invoice: options.invoice.raw,
+    refundPublicKey: hex.encode(refundPublicKey),
+  });
+  checkSubmarineSwap(response, options.invoice.amount, options.maxTotal);
+  checkSwapTimeouts(response.timeouts, await getTipHeight(options.network.esploraUrl));
+
+  const info = await getAspInfo(options.network.aspUrl);
+  const vhtlc = swapScript({
+    sender: refundPublicKey,
+    receiver: hex.decode(response.claimPublicKey),
+    server: hex.decode(info.pubkey),
+    paymentHash: options.invoice.paymentHash,
+    timeouts: response.timeouts,
+  });
+  assertLockupAddress(vhtlc, response.lockupAddress, options.refundAddress, info.pubkey);
+
+  let payment: SubmarineSwap = {
+    id: response.id,
+    providerUrl: options.providerUrl,
+    network: options.network.id,
+    account: options.account,
+    invoice: options.invoice.raw,
+    amount: options.invoice.amount,
+    expectedAmount: response.expectedAmount,
+    paymentHash: options.invoice.paymentHash,
+    lockupAddress: response.lockupAddress,
+    claimPublicKey: response.claimPublicKey,
+    timeouts: response.timeouts,
+    refundAddress: options.refundAddress,
+    stage: 'funded',
+    createdAt: Date.now(),
+  };
+
+  try {
+    const fundingTxid = await options.wallet.sendBitcoin({
+      address: response.lockupAddress,
+      amount: response.expectedAmount,
+    });
+    payment = { ...payment, fundingTxid: String(fundingTxid) };
+    console.log(`[Swap] Payment ${payment.id} funded:`, payment.fundingTxid);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    // A failed send may still have reached the server; only an empty lockup is safe to give up on
+    let locked = true;
+    try {
+      locked = (await getAspVtxos(options.network.aspUrl, response.lockupAddress)).spendableVtxos.length > 0;
+    } catch {
+      // Unknown: keep the payment and let the refund path find out
+    }
+    payment = { ...payment, stage: locked ? 'refundable' : 'failed', error: message };
+  }
+
+  await savePayments([...(await loadPayments()).filter((stored) => stored.id !== payment.id), payment]);
+  if (isPaymentActive(payment)) await swapJob.schedule();
+  if (payment.stage === 'failed') throw new Error(payment.error);
+  return payment;
+}
+
+/**
+ * Waits for a payment to leave the funded stage, checking on it every few seconds.
+ * @param id - The payment's swap id
+ * @param timeoutMs - How long to wait before giving up; the alarm keeps watching after that
+ * @returns Promise that resolves with the payment as last seen, or null if it is unknown
+ */
+export async function waitForPayment(id: string, timeoutMs: number): Promise<SubmarineSwap | null> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    await advanceSwaps();
+    const payment = (await loadPayments()).find((entry) => entry.id === id) ?? null;
+    if (!payment || payment.stage !== 'funded' || Date.now() >= deadline) return payment;
+    await new Promise((resolve) => setTimeout(resolve, PAYMENT_POLL_MS));
+  }
+}
+
+/**
+ * Moves every open swap as far as it can go right now.
+ * Concurrent calls share one pass. Never rejects; failures are logged or stored on the swap.
+ * @returns Promise that resolves once the pass is over
+ */
+export async function advanceSwaps(): Promise<void> {
+  await swapJob.run();
+}
+
+/**
+ * Follows the provider's status and claims the lockup once there is one.
+ * @returns The swap with its new stage; unchanged when nothing can happen yet
+ */
+async function advanceSwap(swap: ReverseSwap): Promise<ReverseSwap> {
+  const { status } = await new BoltzSwapClient(swap.providerUrl).getSwapStatus(swap.id);
+  let current: ReverseSwap = { ...swap, stage: reverseSwapStage(swap.stage, status), error: undefined };
+  if (current.stage !== swap.stage) {
+    console.log(`[Swap] ${swap.id} ${swap.stage} -> ${current.stage} (${status})`);
+  }
+
+  if (current.stage === 'claimable') {
+    const privateKey = await swapKeyProvider?.(current);
+    // Locked: the claim goes out on the first check after the next unlock
+    if (!privateKey) return current;
+    const network = NETWORKS[current.network];
+    const info = await getAspInfo(network.aspUrl);
+    const vhtlc = swapScript({
+      sender: hex.decode(current.refundPublicKey),
+      receiver: secp256k1.getPublicKey(privateKey, true),
+      server: hex.decode(info.pubkey),
+      paymentHash: current.preimageHash,
+      timeouts: current.timeouts,
+    });
+    const claimTxid = await spendLockup({
+      network,
+      vhtlc,
+      lockupAddress: current.lockupAddress,
+      leaf: vhtlc.claim(),
+      destination: current.claimAddress,
+      privateKey,
+      preimage: hex.decode(current.preimage),
+    });
+    if (claimTxid) {
+      console.log(`[Swap] ${current.id} claimed:`, claimTxid);
+      current = { ...current, stage: 'claimed', claimTxid };
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Follows the provider's status, collecting the preimage once it has paid or
+ * refunding the lockup once it cannot. A lockup still unresolved at the refund
+ * locktime is refunded too, so a provider that vanishes cannot hold it forever.
+ * @returns The payment with its new stage; unchanged when nothing can happen yet
+ */
+async function advancePayment(payment: SubmarineSwap): Promise<SubmarineSwap> {
+  const client = new BoltzSwapClient(payment.providerUrl);
+  let status: string | null = null;
+  let error: string | undefined;
+  try {
+    ({ status } = await client.getSwapStatus(payment.id));
+  } catch (statusError) {
+    // An unreachable provider must not block the refund below
+    error = statusError instanceof Error ? statusError.message : "Unknown error";
+    console.warn(`[Swap] Payment ${payment.id} status unavailable:`, error);
+  }
+  const stage = status === null ? payment.stage : submarineSwapStage(payment.stage, status);
+  if (stage !== payment.stage) {
+    console.log(`[Swap] Payment ${payment.id} ${payment.stage} -> ${stage} (${status})`);
+  }
+
+  if (stage === 'paid') {
+    const preimage = await client.getSwapPreimage(payment.id);
+    if (!preimageMatches(preimage, payment.paymentHash)) {
+      throw new Error('Swap provider returned a preimage that does not match the invoice');
+    }
+    return { ...payment, stage, preimage, error: undefined };
+  }
+
+  let current: SubmarineSwap = { ...payment, stage, error };
+  if (current.stage === 'refundable' || current.stage === 'funded') {
+    const network = NETWORKS[current.network];
+    // The refund path opens at the VHTLC's refund locktime
+    if (!isLocktimeReached(current.timeouts.refund, await getTipHeight(network.esploraUrl))) return current;
+    const privateKey = await swapKeyProvider?.(current);
+    // Locked: the refund goes out on the first check after the next unlock
+    if (!privateKey) return current;
+    const info = await getAspInfo(network.aspUrl);
+    const vhtlc = swapScript({
+      sender: secp256k1.getPublicKey(privateKey, true),
+      receiver: hex.decode(current.claimPublicKey),
+      server: hex.decode(info.pubkey),
+      paymentHash: current.paymentHash,
+      timeouts: current.timeouts,
+    });
+    const refundTxid = await spendLockup({
+      network,
+      vhtlc,
+      lockupAddress: current.lockupAddress,
+      leaf: vhtlc.refundWithoutReceiver(),
+      destination: current.refundAddress,
+      privateKey,
+    });
+    if (refundTxid) {
+      current = { ...current, stage: 'refunded', refundTxid, error: undefined };
+    } else if (current.stage === 'funded') {
+      // A funded lockup that is gone was claimed, which takes the preimage: the invoice was paid
+      current = { ...current, stage: 'paid' };
+    } else {
+      // Nothing left at the lockup: it was never funded
+      current = { ...current, stage: 'failed' };
+    }
+    console.log(`[Swap] Payment ${current.id} ${current.stage}`, refundTxid ?? '');
+  }
+
+  return current;
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { sendMessage } from '../../lib/rpc';
+import type { ApprovalRequest, GetApprovalResponse, ResolveApprovalResponse } from '../../types/messages';
+import { buttonStyles, errorStyles } from '../ui/styles';
+
+interface ApproveRequestProps {
+  approvalId: string;
+}
+
+function ApproveRequest({ approvalId }: ApproveRequestProps) {
+  const [request, setRequest] = useState<ApprovalRequest | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+
+  useEffect(() => {
+    const loadApproval = async () => {
+      try {
+        const response = await sendMessage<GetApprovalResponse>({
+          type: 'GetApproval',
+          payload: { id: approvalId },
+        });
+        if (response.success && response.data) {
+          setRequest(response.data);
+        } else {
+          setError(response.error || 'Request not found');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      }
+    };
+    loadApproval();
+  }, [approvalId]);
+
+  const resolve = async (approved: boolean) => {
+    setIsResolving(true);
+    try {
+      await sendMessage<ResolveApprovalResponse>({
+        type: 'ResolveApproval',
+        payload: { id: approvalId, approved },
+      });
+    } catch (err) {
+      console.error('Failed to resolve approval:', err);
+    } finally {
+      window.close();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-white flex items-center justify-center p-4">
+      <div className="p-6 w-[350px] min-h-[400px] flex flex-col justify-center bg-zinc-950 text-white">
+        {error ? (
+          <div className={errorStyles}>{error}</div>
+        ) : request ? (
+          <>
+            <h1 className="text-2xl font-bold mb-2 text-center">{request.title}</h1>
+            <p className="text-sm text-zinc-400 text-center mb-6 break-all">{request.origin}</p>
+
+            <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4 space-y-3 mb-6">
+              {request.details.map((detail) => (
+                <div key={detail.label}>
+                  <div className="text-xs text-zinc-500">{detail.label}</div>
+                  <div className="text-sm text-zinc-200 font-mono break-all">{detail.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => resolve(false)}
+                disabled={isResolving}
+                className="flex-1 py-3 bg-zinc-700 hover:bg-zinc-600 rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                Reject
+              </button>
+              <button
+                onClick={() => resolve(true)}
+                disabled={isResolving}
+                className={`${buttonStyles} flex-1 ${isResolving ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                Approve
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className="text-zinc-400 text-sm text-center">Loading request...</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ApproveRequest;
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, Check, Pencil, Plus } from 'lucide-react';
+import { sendMessage } from '../../lib/rpc';
+import { MAX_ACCOUNT_NAME_LENGTH } from '../../lib/accounts';
+import type { Account } from '../../lib/accounts';
+import type {
+  GetAccountsResponse,
+  CreateAccountResponse,
+  RenameAccountResponse,
+  SwitchAccountResponse,
+} from '../../types/messages';
+
+interface AccountSwitcherProps {
+  onSwitched: (index: number) => void;
+}
+
+export function AccountSwitcher({ onSwitched }: AccountSwitcherProps) {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [active, setActive] = useState<number | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  // Index of the account being renamed, or 'new' while naming a new account
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const fetchAccounts = async () => {
+    try {
+      const response = await sendMessage<GetAccountsResponse>({ type: 'GetAccounts' });
+      if (response.success && response.data) {
+        setAccounts(response.data.accounts);
+        setActive(response.data.active);
+      }
+    } catch (err) {
+      console.error('Failed to load accounts:', err);
+    }
+  };
+
+  useEffect(() => {
+    const loadAccounts = async () => {
+      await fetchAccounts();
+    };
+    loadAccounts();
+  }, []);
+
+  const close = () => {
+    setIsOpen(false);
+    setEditing(null);
+    setError(null);
+  };
+
+  const switchTo = async (index: number) => {
+    if (index === active) {
+      close();
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await sendMessage<SwitchAccountResponse>({ type: 'SwitchAccount', payload: { index } });
+      if (response.success) {
+        setActive(index);
+        close();
+        onSwitched(index);
+      } else {
+        setError(response.error || 'Failed to switch account');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to switch account');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const startEditing = (target: number | 'new') => {
+    setEditing(target);
+    setName(target === 'new' ? '' : accounts.find((account) => account.index === target)?.name ?? '');
+    setError(null);
+  };
+
+  const handleSaveName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editing === null) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (editing === 'new') {
+        const response = await sendMessage<CreateAccountResponse>({ type: 'CreateAccount', payload: { name } });
+        if (!response.success || !response.data) {
+          setError(response.error || 'Failed to create account');
+          return;
+        }
+        await fetchAccounts();
+        setEditing(null);
+        await switchTo(response.data.index);
+      } else {
+        const response = await sendMessage<RenameAccountResponse>({
+          type: 'RenameAccount',
+          payload: { index: editing, name },
+        });
+        if (!response.success) {
+          setError(response.error || 'Failed to rename account');
+          return;
+        }
+        await fetchAccounts();
+        setEditing(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const activeName = accounts.find((account) => account.index === active)?.name ?? 'Wallet';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        className="flex items-center gap-1 text-2xl font-bold hover:text-zinc-300 transition-colors"
+      >
+        <span className="truncate max-w-[10rem]">{activeName}</span>
+        <ChevronDown className="w-5 h-5 text-zinc-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 z-40 w-64 bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl p-2 space-y-1">
+          {accounts.map((account) =>
+            editing === account.index ? (
+              <form key={account.index} onSubmit={handleSaveName} className="flex gap-2 p-1">
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={MAX_ACCOUNT_NAME_LENGTH}
+                  className="flex-1 min-w-0 px-2 py-1 bg-zinc-900 border border-zinc-700 rounded text-sm text-white outline-none focus:ring-2 focus:ring-orange-500"
+                  autoFocus
+                  disabled={isBusy}
+                />
+                <button type="submit" disabled={isBusy} className="text-sm text-orange-500 hover:text-orange-400">
+                  Save
+                </button>
+              </form>
+            ) : (
+              <div key={account.index} className="flex items-center gap-1">
+                <button
+                  onClick={() => switchTo(account.index)}
+                  disabled={isBusy}
+                  className="flex-1 flex items-center gap-2 px-2 py-1.5 rounded text-sm text-left hover:bg-zinc-700 transition-colors"
+                >
+                  <Check className={`w-4 h-4 ${account.index === active ? 'text-orange-500' : 'invisible'}`} />
+                  <span className="truncate">{account.name}</span>
+                </button>
+                <button
+                  onClick={() => startEditing(account.index)}
+                  disabled={isBusy}
+                  className="p-1.5 text-zinc-500 hover:text-white transition-colors"
+                  title="Rename"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )
+          )}
+
+          <div className="pt-1 border-t border-zinc-700">
+            {editing === 'new' ? (
+              <form onSubmit={handleSaveName} className="flex gap-2 p-1">
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={MAX_ACCOUNT_NAME_LENGTH}
+                  placeholder="Account name"
+                  className="flex-1 min-w-0 px-2 py-1 bg-zinc-900 border border-zinc-700 rounded text-sm text-white outline-none focus:ring-2 focus:ring-orange-500"
+                  autoFocus
+                  disabled={isBusy}
+                />
+                <button type="submit" disabled={isBusy} className="text-sm text-orange-500 hover:text-orange-400">
+                  Add
+                </button>
+              </form>
+            ) : (
+              <button
+                onClick={() => startEditing('new')}
+                disabled={isBusy}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm text-zinc-400 hover:text-white hover:bg-zinc-700 transition-colors"
+              >
+                <Plus className="w-4 h-4" /> New account
+              </button>
+            )}
+          </div>
+
+          {error && <div className="text-xs text-red-400 px-2 pb-1">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { sendMessage } from '../../lib/rpc';
+import { BOARDING_STAGE_LABELS, pendingBoardingTotal } from '../../lib/boarding';
+import type { BoardingDeposit } from '../../lib/boarding';
+import type { GetBoardingResponse, SettleResponse } from '../../types/messages';
+
+interface BoardingDepositsProps {
+  requiredConfirmations: number;
+  onSettled: () => void;
+}
+
+// Deposits move at block speed; the background settles them, this only refreshes the view
+const BOARDING_POLL_MS = 15_000;
+
+export function BoardingDeposits({ requiredConfirmations, onSettled }: BoardingDepositsProps) {
+  const [deposits, setDeposits] = useState<BoardingDeposit[]>([]);
+  const [isSettling, setIsSettling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDeposits = async () => {
+    try {
+      const response = await sendMessage<GetBoardingResponse>({ type: 'GetBoarding' });
+      if (response.success && response.data) {
+        setDeposits(response.data);
+      }
+    } catch (err) {
+      console.error('Failed to load boarding deposits:', err);
+    }
+  };
+
+  useEffect(() => {
+    const loadDeposits = async () => {
+      await fetchDeposits();
+    };
+    loadDeposits();
+    const interval = setInterval(() => {
+      fetchDeposits();
+    }, BOARDING_POLL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleSettle = async () => {
+    setIsSettling(true);
+    setError(null);
+    try {
+      const response = await sendMessage<SettleResponse>({ type: 'Settle' });
+      if (!response.success) {
+        setError(response.error || 'Settlement failed');
+      }
+      await fetchDeposits();
+      onSettled();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Settlement failed');
+    } finally {
+      setIsSettling(false);
+    }
+  };
+
+  if (deposits.length === 0) return null;
+
+  const canSettle = deposits.some((deposit) => deposit.stage === 'ready');
+  // Deposits settled together fail together, so one message covers them
+  const settleError = error ?? deposits.find((deposit) => deposit.error)?.error;
+
+  return (
+    <div className="pt-4 border-t border-zinc-700 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="text-sm font-medium text-white mb-1">Boarding</div>
+          <div className="text-lg font-semibold text-zinc-300">
+            {pendingBoardingTotal(deposits).toLocaleString('en-US')} sats
+          </div>
+        </div>
+        {canSettle && (
+          <button
+            onClick={handleSettle}
+            disabled={isSettling}
+            className="px-4 py-2 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 rounded-lg font-medium text-white transition-colors"
+          >
+            {isSettling ? 'Settling...' : 'Settle Now'}
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-1">
+        {deposits.map((deposit) => (
+          <li key={deposit.id} className="flex items-center justify-between text-xs">
+            <span className="text-zinc-400">{deposit.value.toLocaleString('en-US')} sats</span>
+            <span className={deposit.stage === 'settled' ? 'text-green-400' : 'text-orange-400'}>
+              {BOARDING_STAGE_LABELS[deposit.stage]}
+              {deposit.stage === 'confirming' && ` (${deposit.confirmations}/${requiredConfirmations})`}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {settleError && <div className="text-xs text-red-400">{settleError}</div>}
+    </div>
+  );
+}
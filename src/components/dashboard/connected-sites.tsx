@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { X, Globe, Trash2 } from 'lucide-react';
+import { sendMessage } from '../../lib/rpc';
+import { PERMISSION_LABELS } from '../../lib/bridge';
+import type { ConnectedSite, GetConnectedSitesResponse, RevokeSiteResponse } from '../../types/messages';
+import { errorStyles } from '../ui/styles';
+
+interface ConnectedSitesProps {
+  onClose: () => void;
+}
+
+export function ConnectedSites({ onClose }: ConnectedSitesProps) {
+  const [sites, setSites] = useState<ConnectedSite[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSites = async () => {
+    const response = await sendMessage<GetConnectedSitesResponse>({ type: 'GetConnectedSites' });
+    if (response.success && response.data) {
+      return response.data;
+    }
+    throw new Error(response.error || 'Failed to load connected sites');
+  };
+
+  useEffect(() => {
+    const initialLoad = async () => {
+      try {
+        setSites(await loadSites());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load connected sites');
+      }
+    };
+    initialLoad();
+  }, []);
+
+  const handleRevoke = async (origin: string) => {
+    setError(null);
+    try {
+      const response = await sendMessage<RevokeSiteResponse>({ type: 'RevokeSite', payload: { origin } });
+      if (!response.success) {
+        setError(response.error || 'Failed to revoke site');
+        return;
+      }
+      setSites(await loadSites());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke site');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="w-full max-w-sm bg-zinc-900 border border-zinc-800 rounded-xl p-6 relative shadow-2xl">
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-6 text-center">Connected Sites</h2>
+
+        {error && <div className={`${errorStyles} mb-4`}>{error}</div>}
+
+        {!sites ? (
+          <div className="text-zinc-400 text-sm text-center">Loading...</div>
+        ) : sites.length === 0 ? (
+          <div className="text-zinc-500 text-sm text-center">No sites are connected.</div>
+        ) : (
+          <ul className="space-y-3 max-h-96 overflow-y-auto">
+            {sites.map((site) => (
+              <li key={site.origin} className="bg-zinc-950 border border-zinc-800 rounded-lg p-3">
+                <div className="flex items-center gap-2">
+                  <Globe className="w-4 h-4 text-zinc-500 shrink-0" />
+                  <span className="text-sm text-white truncate flex-1">{site.origin}</span>
+                  <button
+                    onClick={() => handleRevoke(site.origin)}
+                    className="text-zinc-400 hover:text-red-400"
+                    title="Revoke"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="text-xs text-zinc-500 mt-1">
+                  Approved {new Date(site.approvedAt).toLocaleString()}
+                </div>
+                <ul className="mt-2 space-y-0.5">
+                  {site.permissions.map((permission) => (
+                    <li key={permission} className="text-xs text-zinc-300">
+                      • {PERMISSION_LABELS[permission]}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
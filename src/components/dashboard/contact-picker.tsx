@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { sendMessage } from '../../lib/rpc';
+import type { Contact, GetContactsResponse } from '../../types/messages';
+
+interface ContactPickerProps {
+  onPick: (address: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Fills a send form's address from a saved contact; renders nothing until a contact exists.
+ */
+export function ContactPicker({ onPick, disabled }: ContactPickerProps) {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+
+  useEffect(() => {
+    const loadContacts = async () => {
+      try {
+        const response = await sendMessage<GetContactsResponse>({ type: 'GetContacts' });
+        if (response.success && response.data) {
+          setContacts(response.data);
+        }
+      } catch (err) {
+        console.error('Failed to load contacts:', err);
+      }
+    };
+    loadContacts();
+  }, []);
+
+  if (contacts.length === 0) return null;
+
+  return (
+    <select
+      aria-label="Pick a contact"
+      value=""
+      onChange={(e) => {
+        if (e.target.value) onPick(e.target.value);
+      }}
+      disabled={disabled}
+      className="w-full mt-2 px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-zinc-300 text-sm outline-none disabled:opacity-50"
+    >
+      <option value="">Pick a contact...</option>
+      {contacts.map((contact) => (
+        <option key={contact.address} value={contact.address}>
+          {contact.name}
+        </option>
+      ))}
+    </select>
+  );
+}
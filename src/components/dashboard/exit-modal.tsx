@@ -0,0 +1,248 @@
+import { useEffect, useState } from 'react';
+import { X, LogOut } from 'lucide-react';
+import { sendMessage } from '../../lib/rpc';
+import { EXIT_STEP_LABELS, outpointId, isExitCancellable } from '../../lib/exit';
+import type { UnilateralExit } from '../../lib/exit';
+import type { AspVtxo } from '../../lib/asp';
+import type { GetVtxosResponse, StartExitResponse, GetExitsResponse, CancelExitResponse } from '../../types/messages';
+import { errorStyles } from '../ui/styles';
+
+interface ExitModalProps {
+  onClose: () => void;
+  onStarted: () => void;
+}
+
+// Exits move at block speed; the background does the work, this only refreshes the view
+const EXIT_POLL_MS = 15_000;
+
+function formatSats(amount: number): string {
+  return `${amount.toLocaleString('en-US')} sats`;
+}
+
+function shortTxid(txid: string): string {
+  return `${txid.slice(0, 8)}…${txid.slice(-8)}`;
+}
+
+/**
+ * Describes where an exit stands, with the estimated completion block once it is known.
+ */
+function exitProgress(exit: UnilateralExit, tipHeight: number | null): string {
+  if (exit.step === 'unrolling') {
+    return `Waiting for ${exit.branch.length} exit transaction${exit.branch.length === 1 ? '' : 's'} to confirm`;
+  }
+  if (exit.step === 'claimed' || exit.claimableHeight === undefined) return '';
+  const estimate = `Estimated completion at block ${exit.claimableHeight.toLocaleString('en-US')}`;
+  if (tipHeight === null) return estimate;
+  const remaining = exit.claimableHeight - tipHeight;
+  if (remaining <= 1) return exit.step === 'claimable' ? 'Claims on the next check while unlocked' : estimate;
+  return `${estimate} (${remaining} blocks to go)`;
+}
+
+export function ExitModal({ onClose, onStarted }: ExitModalProps) {
+  const [vtxos, setVtxos] = useState<AspVtxo[] | null>(null);
+  const [exits, setExits] = useState<UnilateralExit[]>([]);
+  const [tipHeight, setTipHeight] = useState<number | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirming, setConfirming] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVtxos = async () => {
+    try {
+      const response = await sendMessage<GetVtxosResponse>({ type: 'GetVtxos' });
+      if (response.success && response.data) {
+        setVtxos(response.data);
+      } else {
+        setError(response.error || 'Failed to load VTXOs');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load VTXOs');
+    }
+  };
+
+  const fetchExits = async () => {
+    try {
+      const response = await sendMessage<GetExitsResponse>({ type: 'GetExits' });
+      if (response.success && response.data) {
+        setExits(response.data.exits);
+        setTipHeight(response.data.tipHeight);
+      }
+    } catch (err) {
+      console.error('Failed to load exits:', err);
+    }
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      await Promise.all([fetchVtxos(), fetchExits()]);
+    };
+    load();
+    const interval = setInterval(() => {
+      fetchExits();
+    }, EXIT_POLL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const toggle = (id: string) => {
+    setConfirming(false);
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      const response = await sendMessage<StartExitResponse>({
+        type: 'StartExit',
+        payload: { outpoints: [...selected] },
+      });
+      if (!response.success) {
+        setError(response.error || 'Failed to start exit');
+        return;
+      }
+      setSelected(new Set());
+      setConfirming(false);
+      await Promise.all([fetchVtxos(), fetchExits()]);
+      onStarted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start exit');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    setError(null);
+    try {
+      const response = await sendMessage<CancelExitResponse>({ type: 'CancelExit', payload: { id } });
+      if (!response.success) {
+        setError(response.error || 'Failed to cancel exit');
+        return;
+      }
+      await Promise.all([fetchVtxos(), fetchExits()]);
+      onStarted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel exit');
+    }
+  };
+
+  const selectedTotal = (vtxos ?? [])
+    .filter((vtxo) => selected.has(outpointId(vtxo)))
+    .reduce((sum, vtxo) => sum + vtxo.value, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="w-full max-w-sm bg-zinc-900 border border-zinc-800 rounded-xl p-6 relative shadow-2xl max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-2 text-center">Unilateral Exit</h2>
+        <p className="text-xs text-zinc-400 text-center mb-6">
+          Move VTXOs on-chain without the Ark server. Exits pay on-chain fees and take at least the network's
+          exit delay to complete.
+        </p>
+
+        {error && <div className={`${errorStyles} mb-4`}>{error}</div>}
+
+        {exits.length > 0 && (
+          <div className="mb-6 space-y-2">
+            <h3 className="text-sm font-medium text-zinc-400">Exits</h3>
+            <ul className="space-y-2">
+              {exits.map((exit) => (
+                <li key={exit.id} className="bg-zinc-950 border border-zinc-800 rounded-lg p-3 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-white">{formatSats(exit.vtxo.value)}</span>
+                    <span
+                      className={`text-xs ${exit.step === 'claimed' ? 'text-green-400' : 'text-orange-400'}`}
+                    >
+                      {EXIT_STEP_LABELS[exit.step]}
+                    </span>
+                  </div>
+                  {exitProgress(exit, tipHeight) && (
+                    <div className="text-xs text-zinc-400">{exitProgress(exit, tipHeight)}</div>
+                  )}
+                  {exit.claimTxid && (
+                    <div className="text-xs text-zinc-500 font-mono">Claim {shortTxid(exit.claimTxid)}</div>
+                  )}
+                  {exit.error && <div className="text-xs text-red-400">{exit.error}</div>}
+                  {isExitCancellable(exit) && (
+                    <button onClick={() => handleCancel(exit.id)} className="text-xs text-zinc-400 hover:text-white">
+                      Cancel exit and keep the VTXO in Ark
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <h3 className="text-sm font-medium text-zinc-400 mb-2">Spendable VTXOs</h3>
+        {!vtxos ? (
+          <div className="text-zinc-400 text-sm text-center">Loading...</div>
+        ) : vtxos.length === 0 ? (
+          <div className="text-zinc-500 text-sm text-center">No VTXOs to exit.</div>
+        ) : (
+          <ul className="space-y-2 mb-4">
+            {vtxos.map((vtxo) => {
+              const id = outpointId(vtxo);
+              return (
+                <li key={id}>
+                  <label
+                    className={`flex items-center gap-3 bg-zinc-950 border border-zinc-800 rounded-lg p-3 ${
+                      vtxo.pending ? 'opacity-50' : 'cursor-pointer'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(id)}
+                      onChange={() => toggle(id)}
+                      disabled={vtxo.pending || isStarting}
+                      className="accent-orange-500"
+                    />
+                    <span className="flex-1 text-sm text-white">{formatSats(vtxo.value)}</span>
+                    <span className="text-xs text-zinc-500 font-mono">
+                      {vtxo.pending ? 'Pending' : shortTxid(vtxo.txid)}
+                    </span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {confirming ? (
+          <div className="space-y-2">
+            <p className="text-xs text-yellow-200">
+              Exiting {formatSats(selectedTotal)} can only be cancelled until the exit transactions confirm. The funds
+              arrive at your on-chain address once the exit delay has passed.
+            </p>
+            <button
+              onClick={handleStart}
+              disabled={isStarting}
+              className="w-full py-3 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 rounded-lg font-medium text-white transition-colors"
+            >
+              {isStarting ? 'Starting...' : 'Confirm Exit'}
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setConfirming(true)}
+            disabled={selected.size === 0}
+            className="w-full flex items-center justify-center gap-2 py-3 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium text-white transition-colors"
+          >
+            <LogOut className="w-4 h-4" /> Start Exit
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { ArrowDownLeft, ArrowUpRight, ArrowLeft, Repeat, Copy, Check } from 'lucide-react';
+import { sendMessage } from '../../lib/rpc';
+import type {
+  GetHistoryResponse,
+  GetLabelsResponse,
+  HistoryEntry,
+  SetLabelResponse,
+  TransactionLabels,
+} from '../../types/messages';
+import { MAX_ADDRESS_LABEL_LENGTH } from '../../lib/addresses';
+import { errorStyles } from '../ui/styles';
+
+const LAYER_LABELS: Record<HistoryEntry['layer'], string> = {
+  onchain: 'Bitcoin (L1)',
+  boarding: 'Boarding',
+  ark: 'Ark (L2)',
+};
+
+const DIRECTION_LABELS: Record<HistoryEntry['direction'], string> = {
+  sent: 'Sent',
+  received: 'Received',
+  self: 'Moved to Ark',
+};
+
+const STATUS_STYLES: Record<HistoryEntry['status'], string> = {
+  pending: 'text-yellow-400',
+  confirmed: 'text-green-400',
+  settled: 'text-green-400',
+};
+
+function DirectionIcon({ direction }: { direction: HistoryEntry['direction'] }) {
+  if (direction === 'sent') return <ArrowUpRight className="w-4 h-4 text-red-400" />;
+  if (direction === 'received') return <ArrowDownLeft className="w-4 h-4 text-green-400" />;
+  return <Repeat className="w-4 h-4 text-orange-400" />;
+}
+
+function formatSats(amount: number): string {
+  return `${amount.toLocaleString('en-US')} sats`;
+}
+
+interface HistoryDetailProps {
+  entry: HistoryEntry;
+  label?: string;
+  onLabelSaved: (label: string) => void;
+  onBack: () => void;
+}
+
+function HistoryDetail({ entry, label, onLabelSaved, onBack }: HistoryDetailProps) {
+  const [copied, setCopied] = useState(false);
+  const [draft, setDraft] = useState(label ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const saveLabel = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await sendMessage<SetLabelResponse>({ type: 'SetLabel', payload: { txid: entry.txid, label: draft } });
+      if (response.success) {
+        onLabelSaved(draft.trim());
+      } else {
+        setError(response.error || 'Failed to save label');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save label');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const copy = () => {
+    navigator.clipboard.writeText(entry.txid);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const rows: { label: string; value: string }[] = [
+    { label: 'Type', value: DIRECTION_LABELS[entry.direction] },
+    { label: 'Layer', value: LAYER_LABELS[entry.layer] },
+    { label: 'Amount', value: formatSats(entry.amount) },
+    ...(entry.fee !== undefined ? [{ label: 'Fee', value: formatSats(entry.fee) }] : []),
+    { label: 'Status', value: entry.status },
+    { label: 'Date', value: new Date(entry.timestamp).toLocaleString() },
+    ...(entry.counterparty ? [{ label: 'Counterparty', value: entry.counterparty }] : []),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <button onClick={onBack} className="flex items-center gap-1 text-sm text-zinc-400 hover:text-white">
+        <ArrowLeft className="w-4 h-4" /> Back
+      </button>
+      <div className="bg-zinc-800 rounded-lg p-4 border border-zinc-700 space-y-3">
+        {rows.map((row) => (
+          <div key={row.label} className="flex justify-between gap-4 text-sm">
+            <span className="text-zinc-400">{row.label}</span>
+            <span className="text-white text-right break-all">{row.value}</span>
+          </div>
+        ))}
+        <div className="pt-3 border-t border-zinc-700">
+          <div className="text-xs text-zinc-500 mb-1">Transaction ID</div>
+          <div className="flex items-center gap-2">
+            <span className="text-zinc-300 font-mono text-xs break-all flex-1">{entry.txid}</span>
+            <button onClick={copy} className="text-orange-500 hover:text-orange-400">
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </button>
+          </div>
+        </div>
+        <div className="pt-3 border-t border-zinc-700">
+          <div className="text-xs text-zinc-500 mb-1">Label</div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              aria-label="Transaction label"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Add a note"
+              maxLength={MAX_ADDRESS_LABEL_LENGTH}
+              disabled={isSaving}
+              className="flex-1 min-w-0 px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-orange-500 outline-none transition-all disabled:opacity-50"
+            />
+            <button
+              onClick={saveLabel}
+              disabled={isSaving || draft.trim() === (label ?? '')}
+              className="px-3 py-2 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 rounded-lg text-sm font-medium text-white transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+        {error && <div className={errorStyles}>{error}</div>}
+      </div>
+    </div>
+  );
+}
+
+export function History() {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [labels, setLabels] = useState<TransactionLabels>({});
+  const [selected, setSelected] = useState<HistoryEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const response = await sendMessage<GetHistoryResponse>({ type: 'GetHistory' });
+        if (response.success && response.data) {
+          setEntries(response.data);
+        } else {
+          setError(response.error || 'Failed to load history');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      }
+    };
+    const loadLabels = async () => {
+      try {
+        const response = await sendMessage<GetLabelsResponse>({ type: 'GetLabels' });
+        if (response.success && response.data) {
+          setLabels(response.data);
+        }
+      } catch (err) {
+        console.error('Failed to load labels:', err);
+      }
+    };
+    loadHistory();
+    loadLabels();
+  }, []);
+
+  if (selected) {
+    return (
+      <HistoryDetail
+        entry={selected}
+        label={labels[selected.txid]}
+        onLabelSaved={(label) => {
+          const next = { ...labels };
+          if (label) {
+            next[selected.txid] = label;
+          } else {
+            delete next[selected.txid];
+          }
+          setLabels(next);
+        }}
+        onBack={() => setSelected(null)}
+      />
+    );
+  }
+
+  if (error) {
+    return <div className={errorStyles}>{error}</div>;
+  }
+
+  if (!entries) {
+    return <div className="text-zinc-400 text-sm text-center">Loading history...</div>;
+  }
+
+  if (entries.length === 0) {
+    return <div className="text-zinc-500 text-sm text-center py-8">No transactions yet.</div>;
+  }
+
+  return (
+    <ul className="bg-zinc-800 rounded-lg border border-zinc-700 divide-y divide-zinc-700">
+      {entries.map((entry) => (
+        <li key={entry.id}>
+          <button
+            onClick={() => setSelected(entry)}
+            className="w-full flex items-center gap-3 p-3 text-left hover:bg-zinc-700/50 transition-colors"
+          >
+            <DirectionIcon direction={entry.direction} />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-white truncate">{labels[entry.txid] ?? DIRECTION_LABELS[entry.direction]}</div>
+              <div className="text-xs text-zinc-500">
+                {LAYER_LABELS[entry.layer]} · {new Date(entry.timestamp).toLocaleDateString()}
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-sm font-medium text-white">
+                {entry.direction === 'sent' ? '-' : entry.direction === 'received' ? '+' : ''}
+                {formatSats(entry.amount)}
+              </div>
+              <div className={`text-xs ${STATUS_STYLES[entry.status]}`}>{entry.status}</div>
+            </div>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,27 +1,55 @@
 import { useEffect, useState } from 'react';
+import { Settings as SettingsIcon, AlertTriangle } from 'lucide-react';
 import { sendMessage } from '../../lib/rpc';
+import { isProviderEventMessage } from '../../lib/bridge';
+import { NETWORKS, DEFAULT_NETWORK } from '../../lib/networks';
+import type { NetworkId } from '../../lib/networks';
 import type {
+  GetWalletStatusResponse,
   LockWalletResponse,
   GetBalanceResponse,
   GetNetworkResponse,
   SetNetworkResponse,
   GetAddressesResponse,
   OnboardResponse,
+  SweepLegacyResponse,
+  RenewVtxosResponse,
 } from '../../types/messages';
 import { ReceiveModal } from './receive-modal';
+import { ConnectedSites } from './connected-sites';
+import { SendModal } from './send-modal';
+import { SendOnchainModal } from './send-onchain-modal';
+import { ExitModal } from './exit-modal';
+import { BoardingDeposits } from './boarding-deposits';
+import { History } from './history';
+import { AccountSwitcher } from './account-switcher';
+import { Settings } from '../settings/settings';
 
 interface DashboardProps {
   onLock: () => void;
 }
 
 function Dashboard({ onLock }: DashboardProps) {
-  const [balances, setBalances] = useState<{ onchain: number; offchain: number } | null>(null);
+  const [balances, setBalances] = useState<GetBalanceResponse | null>(null);
   const [balanceError, setBalanceError] = useState<string | null>(null);
-  const [network, setNetwork] = useState<'signet' | 'mainnet'>('signet');
+  const [network, setNetwork] = useState<NetworkId>(DEFAULT_NETWORK);
+  const [account, setAccount] = useState<number | null>(null);
+  const [networkError, setNetworkError] = useState<string | null>(null);
   const [isLoadingNetwork, setIsLoadingNetwork] = useState(true);
-  const [addresses, setAddresses] = useState<{ onchain: string } | null>(null);
+  const [addresses, setAddresses] = useState<GetAddressesResponse | null>(null);
   const [showReceive, setShowReceive] = useState(false);
+  const [showConnectedSites, setShowConnectedSites] = useState(false);
+  const [showSend, setShowSend] = useState(false);
+  const [showSendOnchain, setShowSendOnchain] = useState(false);
+  const [showExit, setShowExit] = useState(false);
+  const [tab, setTab] = useState<'wallet' | 'history'>('wallet');
+  const [showSettings, setShowSettings] = useState(false);
+  const [backedUp, setBackedUp] = useState(true);
   const [isOnboarding, setIsOnboarding] = useState(false);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [sweepError, setSweepError] = useState<string | null>(null);
+  const [isRenewing, setIsRenewing] = useState(false);
+  const [renewError, setRenewError] = useState<string | null>(null);
 
   const handleLock = async () => {
     try {
@@ -74,7 +102,53 @@ function Dashboard({ onLock }: DashboardProps) {
     }
   };
 
-  const handleNetworkChange = async (newNetwork: 'signet' | 'mainnet') => {
+  const handleRenew = async () => {
+    setIsRenewing(true);
+    setRenewError(null);
+    try {
+      const response = await sendMessage<RenewVtxosResponse>({ type: 'RenewVtxos' });
+      if (!response.success) {
+        setRenewError(response.error || 'Renewal failed');
+      }
+      await fetchBalance();
+    } catch (error) {
+      setRenewError(error instanceof Error ? error.message : 'Renewal failed');
+    } finally {
+      setIsRenewing(false);
+    }
+  };
+
+  const handleSweepLegacy = async () => {
+    setIsSweeping(true);
+    setSweepError(null);
+    try {
+      const response = await sendMessage<SweepLegacyResponse>({ type: 'SweepLegacy' });
+      if (!response.success) {
+        setSweepError(response.error || 'Sweep failed');
+      }
+      await fetchBalance();
+    } catch (error) {
+      setSweepError(error instanceof Error ? error.message : 'Sweep failed');
+    } finally {
+      setIsSweeping(false);
+    }
+  };
+
+  const fetchAddresses = async () => {
+    try {
+      const response = await sendMessage<GetAddressesResponse>({ type: 'GetAddresses' });
+      console.log("UI Received Addresses:", response);
+      if (response.success && response.data) {
+        setAddresses(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch addresses:', error);
+    }
+  };
+
+  const handleNetworkChange = async (newNetwork: NetworkId) => {
+    setIsLoadingNetwork(true);
+    setNetworkError(null);
     try {
       const response = await sendMessage<SetNetworkResponse>({
         type: 'SetNetwork',
@@ -82,14 +156,39 @@ function Dashboard({ onLock }: DashboardProps) {
       });
       if (response.success) {
         setNetwork(newNetwork);
-        // Refresh balance after network change
-        await fetchBalance();
+        // Balances and addresses belong to the previous network's wallet
+        setBalances(null);
+        setAddresses(null);
+        await Promise.all([fetchBalance(), fetchAddresses()]);
+      } else {
+        setNetworkError(response.error || 'Failed to switch network');
       }
     } catch (error) {
-      console.error('Failed to set network:', error);
+      setNetworkError(error instanceof Error ? error.message : 'Failed to switch network');
+    } finally {
+      setIsLoadingNetwork(false);
     }
   };
 
+  const handleAccountSwitched = async (index: number) => {
+    setAccount(index);
+    // Balances and addresses belong to the previous account's wallet
+    setBalances(null);
+    setAddresses(null);
+    await Promise.all([fetchBalance(), fetchAddresses()]);
+  };
+
+  // Return to the login screen when the background locks the wallet (manually or by auto-lock)
+  useEffect(() => {
+    const handleMessage = (message: unknown) => {
+      if (isProviderEventMessage(message) && message.event === 'lock') {
+        onLock();
+      }
+    };
+    chrome.runtime.onMessage.addListener(handleMessage);
+    return () => chrome.runtime.onMessage.removeListener(handleMessage);
+  }, [onLock]);
+
   // Load initial network setting
   useEffect(() => {
     const loadNetwork = async () => {
@@ -107,19 +206,26 @@ function Dashboard({ onLock }: DashboardProps) {
     loadNetwork();
   }, []);
 
-  // Fetch addresses on mount
+  // Check whether the recovery phrase still needs backing up
   useEffect(() => {
-    const loadAddresses = async () => {
+    const loadBackupStatus = async () => {
       try {
-        const response = await sendMessage<GetAddressesResponse>({ type: 'GetAddresses' });
-        console.log("UI Received Addresses:", response);
+        const response = await sendMessage<GetWalletStatusResponse>({ type: 'GetWalletStatus' });
         if (response.success && response.data) {
-          setAddresses({ onchain: response.data.onchain });
+          setBackedUp(response.data.backedUp);
         }
       } catch (error) {
-        console.error('Failed to fetch addresses:', error);
+        console.error('Failed to load wallet status:', error);
       }
     };
+    loadBackupStatus();
+  }, []);
+
+  // Fetch addresses on mount
+  useEffect(() => {
+    const loadAddresses = async () => {
+      await fetchAddresses();
+    };
     loadAddresses();
   }, []);
 
@@ -143,7 +249,7 @@ function Dashboard({ onLock }: DashboardProps) {
     });
   };
 
-  const totalBalance = balances ? balances.onchain + balances.offchain : 0;
+  const totalBalance = balances ? balances.onchain + balances.boarding + balances.offchain : 0;
   const canSwap = balances && balances.onchain > 500;
 
   return (
@@ -151,7 +257,7 @@ function Dashboard({ onLock }: DashboardProps) {
       <div className="w-full max-w-md mx-auto space-y-6">
         {/* Header with Network Dropdown */}
         <div className="flex items-center justify-between">
-          <h1 className="text-2xl font-bold">Wallet</h1>
+          <AccountSwitcher onSwitched={handleAccountSwitched} />
           <div className="flex items-center gap-2">
             <label htmlFor="network-select" className="text-sm text-zinc-400">
               Network:
@@ -159,79 +265,206 @@ function Dashboard({ onLock }: DashboardProps) {
             <select
               id="network-select"
               value={network}
-              onChange={(e) => handleNetworkChange(e.target.value as 'signet' | 'mainnet')}
+              onChange={(e) => handleNetworkChange(e.target.value as NetworkId)}
               disabled={isLoadingNetwork}
               className="px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-orange-500 outline-none transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              <option value="signet">Signet</option>
-              <option value="mainnet">Mainnet</option>
+              {Object.values(NETWORKS).map((config) => (
+                <option key={config.id} value={config.id}>
+                  {config.label}
+                </option>
+              ))}
             </select>
+            <button
+              onClick={() => setShowSettings(true)}
+              className="p-1.5 text-zinc-400 hover:text-white transition-colors"
+              title="Settings"
+            >
+              <SettingsIcon className="w-5 h-5" />
+            </button>
           </div>
         </div>
 
-        {/* Hero Card: Total Balance */}
-        <div className="bg-zinc-800 rounded-lg p-6 border border-zinc-700">
-          <h2 className="text-sm font-medium text-zinc-400 mb-2">Total Balance</h2>
-          {balanceError ? (
-            <div className="text-red-400 text-sm">{balanceError}</div>
-          ) : balances ? (
-            <div className="text-4xl font-bold text-white">
-              {formatBalance(totalBalance)} sats
-            </div>
-          ) : (
-            <div className="text-zinc-400 text-sm">Loading balance...</div>
-          )}
-        </div>
+        {networkError && <div className="text-red-400 text-sm">{networkError}</div>}
 
-        {/* Layer Breakdown */}
-        <div className="bg-zinc-800 rounded-lg p-6 border border-zinc-700 space-y-4">
-          <h2 className="text-sm font-medium text-zinc-400 mb-4">Layer Breakdown</h2>
-
-          {/* Row 1: Bitcoin (L1) */}
-          <div className="flex items-center justify-between">
-            <div className="flex-1">
-              <div className="text-sm font-medium text-white mb-1">Bitcoin (L1)</div>
-              {balances ? (
-                <div className="text-lg font-semibold text-zinc-300">
-                  {formatBalance(balances.onchain)} sats
-                </div>
-              ) : (
-                <div className="text-sm text-zinc-500">Loading...</div>
-              )}
+        {/* Backup Warning */}
+        {!backedUp && (
+          <button
+            onClick={() => setShowSettings(true)}
+            className="w-full flex items-center gap-3 text-left bg-yellow-900/20 border border-yellow-900/50 rounded-lg p-3"
+          >
+            <AlertTriangle className="w-5 h-5 text-yellow-400 shrink-0" />
+            <span className="text-sm text-yellow-200">
+              Your recovery phrase is not backed up. Back it up now to avoid losing funds.
+            </span>
+          </button>
+        )}
+
+        {/* Expiring VTXOs */}
+        {balances?.expiring && (
+          <div className="bg-yellow-900/20 border border-yellow-900/50 rounded-lg p-3 space-y-2">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-yellow-400 shrink-0" />
+              <span className="text-sm text-yellow-200">
+                {formatBalance(balances.expiring.amount)} sats of Ark funds expire{' '}
+                {new Date(balances.expiring.expiresAt).toLocaleString()}. Renew them to keep them safe.
+              </span>
             </div>
+            {renewError && <div className="text-xs text-red-400">{renewError}</div>}
             <button
-              onClick={() => {
-                console.log("Clicked Receive. Current Address:", addresses?.onchain);
-                setShowReceive(true);
-              }}
-              className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 rounded-lg font-medium text-white transition-colors"
+              onClick={handleRenew}
+              disabled={isRenewing}
+              className="w-full py-2 bg-yellow-700 hover:bg-yellow-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
             >
-              Receive
+              {isRenewing ? 'Renewing...' : 'Renew Now'}
             </button>
           </div>
+        )}
 
-          {/* Row 2: Ark (L2) */}
-          <div className="flex items-center justify-between pt-4 border-t border-zinc-700">
-            <div className="flex-1">
-              <div className="text-sm font-medium text-white mb-1">Ark (L2)</div>
-              {balances ? (
-                <div className="text-lg font-semibold text-zinc-300">
-                  {formatBalance(balances.offchain)} sats
-                </div>
-              ) : (
-                <div className="text-sm text-zinc-500">Loading...</div>
-              )}
+        {/* Legacy Key Funds */}
+        {balances?.legacy && (
+          <div className="bg-yellow-900/20 border border-yellow-900/50 rounded-lg p-3 space-y-2">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-yellow-400 shrink-0" />
+              <span className="text-sm text-yellow-200">
+                {formatBalance(balances.legacy.onchain + balances.legacy.offchain)} sats are held by this wallet's old
+                signing key. Move them to your current addresses.
+              </span>
             </div>
+            {sweepError && <div className="text-xs text-red-400">{sweepError}</div>}
             <button
-              onClick={handleOnboard}
-              disabled={!canSwap || isOnboarding}
-              className="px-4 py-2 bg-orange-600 hover:bg-orange-700 disabled:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium text-white transition-colors"
+              onClick={handleSweepLegacy}
+              disabled={isSweeping}
+              className="w-full py-2 bg-yellow-700 hover:bg-yellow-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
             >
-              {isOnboarding ? 'Broadcasting...' : 'Swap/Lift'}
+              {isSweeping ? 'Sweeping...' : 'Sweep Funds'}
             </button>
           </div>
+        )}
+
+        {/* Tabs */}
+        <div className="flex bg-zinc-800 rounded-lg p-1 border border-zinc-700">
+          {(['wallet', 'history'] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`flex-1 py-1.5 rounded-md text-sm font-medium capitalize transition-colors ${
+                tab === value ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'
+              }`}
+            >
+              {value}
+            </button>
+          ))}
         </div>
 
+        {tab === 'history' ? (
+          <History key={`${network}:${account}`} />
+        ) : (
+          <>
+            {/* Hero Card: Total Balance */}
+            <div className="bg-zinc-800 rounded-lg p-6 border border-zinc-700">
+              <h2 className="text-sm font-medium text-zinc-400 mb-2">Total Balance</h2>
+              {balanceError ? (
+                <div className="text-red-400 text-sm">{balanceError}</div>
+              ) : balances ? (
+                <div className="text-4xl font-bold text-white">
+                  {formatBalance(totalBalance)} sats
+                </div>
+              ) : (
+                <div className="text-zinc-400 text-sm">Loading balance...</div>
+              )}
+            </div>
+
+            {/* Layer Breakdown */}
+            <div className="bg-zinc-800 rounded-lg p-6 border border-zinc-700 space-y-4">
+              <h2 className="text-sm font-medium text-zinc-400 mb-4">Layer Breakdown</h2>
+
+              {/* Row 1: Bitcoin (L1) */}
+              <div className="flex items-center justify-between">
+                <div className="flex-1">
+                  <div className="text-sm font-medium text-white mb-1">Bitcoin (L1)</div>
+                  {balances ? (
+                    <div className="text-lg font-semibold text-zinc-300">
+                      {formatBalance(balances.onchain)} sats
+                    </div>
+                  ) : (
+                    <div className="text-sm text-zinc-500">Loading...</div>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setShowSendOnchain(true)}
+                    disabled={!balances || balances.onchain <= 0}
+                    className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium text-white transition-colors"
+                  >
+                    Send
+                  </button>
+                  <button
+                    onClick={() => {
+                      console.log("Clicked Receive. Current Address:", addresses?.onchain);
+                      setShowReceive(true);
+                    }}
+                    className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 rounded-lg font-medium text-white transition-colors"
+                  >
+                    Receive
+                  </button>
+                </div>
+              </div>
+
+              {/* Row 2: Boarding, only while deposits are on their way in */}
+              <BoardingDeposits
+                key={`${network}:${account}`}
+                requiredConfirmations={NETWORKS[network].boardingConfirmations}
+                onSettled={fetchBalance}
+              />
+
+              {/* Row 3: Ark (L2) */}
+              <div className="flex items-center justify-between pt-4 border-t border-zinc-700">
+                <div className="flex-1">
+                  <div className="text-sm font-medium text-white mb-1">Ark (L2)</div>
+                  {balances ? (
+                    <div className="text-lg font-semibold text-zinc-300">
+                      {formatBalance(balances.offchain)} sats
+                    </div>
+                  ) : (
+                    <div className="text-sm text-zinc-500">Loading...</div>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setShowSend(true)}
+                    disabled={!balances || balances.offchain <= 0}
+                    className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium text-white transition-colors"
+                  >
+                    Send
+                  </button>
+                  <button
+                    onClick={handleOnboard}
+                    disabled={!canSwap || isOnboarding}
+                    className="px-4 py-2 bg-orange-600 hover:bg-orange-700 disabled:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium text-white transition-colors"
+                  >
+                    {isOnboarding ? 'Broadcasting...' : 'Swap/Lift'}
+                  </button>
+                </div>
+              </div>
+              <button
+                onClick={() => setShowExit(true)}
+                className="text-xs text-zinc-400 hover:text-white transition-colors"
+              >
+                Exit to Bitcoin without the Ark server
+              </button>
+            </div>
+          </>
+        )}
+
+        {/* Connected Sites Button */}
+        <button
+          onClick={() => setShowConnectedSites(true)}
+          className="w-full px-6 py-3 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg font-medium transition-colors"
+        >
+          Connected Sites
+        </button>
+
         {/* Lock Button */}
         <button
           onClick={handleLock}
@@ -244,10 +477,50 @@ function Dashboard({ onLock }: DashboardProps) {
       {/* Receive Modal */}
       {showReceive && addresses && (
         <ReceiveModal
-          address={addresses.onchain}
+          addresses={addresses}
           onClose={() => setShowReceive(false)}
         />
       )}
+
+      {/* Send Modal */}
+      {showSend && balances && (
+        <SendModal
+          available={balances.offchain}
+          onClose={() => setShowSend(false)}
+          onSent={fetchBalance}
+        />
+      )}
+
+      {/* Send On-chain Modal */}
+      {showSendOnchain && balances && (
+        <SendOnchainModal
+          available={balances.onchain}
+          onClose={() => setShowSendOnchain(false)}
+          onSent={fetchBalance}
+        />
+      )}
+
+      {/* Unilateral Exit Modal */}
+      {showExit && (
+        <ExitModal
+          onClose={() => setShowExit(false)}
+          onStarted={fetchBalance}
+        />
+      )}
+
+      {/* Settings Modal */}
+      {showSettings && (
+        <Settings
+          backedUp={backedUp}
+          onBackedUp={() => setBackedUp(true)}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* Connected Sites Modal */}
+      {showConnectedSites && (
+        <ConnectedSites onClose={() => setShowConnectedSites(false)} />
+      )}
     </div>
   );
 }
@@ -1,44 +1,464 @@
 import QRCode from 'react-qr-code';
-import { X, Copy, Check } from 'lucide-react';
-import { useState } from 'react';
+import { X, Copy, Check, Zap, Download, Share2 } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { sendMessage } from '../../lib/rpc';
+import { REVERSE_SWAP_STAGE_LABELS, isSwapActive } from '../../lib/swap';
+import type { ReverseSwapSummary } from '../../lib/swap';
+import { buildPaymentUri } from '../../lib/payment-request';
+import { MAIN_ADDRESS_INDEX } from '../../lib/addresses';
+import type { ReceiveAddress } from '../../lib/addresses';
+import type {
+  CreateInvoiceResponse,
+  GetSwapResponse,
+  GetAddressesResponse,
+  NewReceiveAddressResponse,
+  GetReceiveAddressesResponse,
+} from '../../types/messages';
+import { errorStyles } from '../ui/styles';
 
 interface ReceiveModalProps {
-  address: string;
+  addresses: GetAddressesResponse;
   onClose: () => void;
 }
 
-export function ReceiveModal({ address, onClose }: ReceiveModalProps) {
+type ReceiveTab = 'ark' | 'onchain' | 'boarding' | 'lightning';
+
+const TAB_LABELS: Record<ReceiveTab, string> = {
+  ark: 'Ark',
+  onchain: 'L1',
+  boarding: 'Boarding',
+  lightning: 'Lightning',
+};
+
+type AddressTab = Exclude<ReceiveTab, 'lightning'>;
+
+const ADDRESS_NOTES: Record<AddressTab, string> = {
+  ark: 'Ark wallets pay the Ark address instantly; others fall back to your L1 address.',
+  onchain: 'A new address is shown on every Receive. Funds arrive in your on-chain balance once confirmed.',
+  boarding: 'Deposits to this address are settled into your Ark balance once confirmed.',
+};
+
+// Rendered size of the downloaded QR code; the SVG scales without blurring
+const QR_DOWNLOAD_PX = 512;
+const QR_DOWNLOAD_MARGIN_PX = 32;
+
+// Lightning payments land in seconds, so the open invoice is checked often
+const SWAP_POLL_MS = 5_000;
+
+function CopyField({ value }: { value: string }) {
   const [copied, setCopied] = useState(false);
-  
+
   const copy = () => {
-    navigator.clipboard.writeText(address);
+    navigator.clipboard.writeText(value);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
-      <div className="w-full max-w-sm bg-zinc-900 border border-zinc-800 rounded-xl p-6 relative shadow-2xl">
-        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white">
-          <X className="w-5 h-5" />
+    <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-3 flex items-center gap-3">
+      <span className="text-zinc-300 font-mono text-xs truncate flex-1">{value}</span>
+      <button onClick={copy} className="text-orange-500 hover:text-orange-400">
+        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Renders a QR code's SVG onto a white canvas and downloads it as a PNG.
+ */
+function downloadQr(svg: SVGSVGElement, filename: string) {
+  const image = new Image();
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(svg)], { type: 'image/svg+xml' }));
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = QR_DOWNLOAD_PX + 2 * QR_DOWNLOAD_MARGIN_PX;
+    canvas.height = canvas.width;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, QR_DOWNLOAD_MARGIN_PX, QR_DOWNLOAD_MARGIN_PX, QR_DOWNLOAD_PX, QR_DOWNLOAD_PX);
+      const link = document.createElement('a');
+      link.href = canvas.toDataURL('image/png');
+      link.download = filename;
+      link.click();
+    }
+    URL.revokeObjectURL(url);
+  };
+  image.src = url;
+}
+
+function QrCard({ value, filename }: { value: string; filename: string }) {
+  const qrRef = useRef<HTMLDivElement>(null);
+  const canShare = typeof navigator.share === 'function';
+
+  const download = () => {
+    const svg = qrRef.current?.querySelector('svg');
+    if (svg) downloadQr(svg, filename);
+  };
+
+  const share = async () => {
+    try {
+      await navigator.share({ text: value });
+    } catch (err) {
+      // Closing the share sheet rejects with AbortError
+      if (!(err instanceof DOMException && err.name === 'AbortError')) console.error('Failed to share:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-center">
+        <div ref={qrRef} className="bg-white p-3 rounded-lg">
+          <QRCode value={value} size={200} />
+        </div>
+      </div>
+      <CopyField value={value} />
+      <div className="flex gap-2">
+        <button
+          onClick={download}
+          className="flex-1 flex items-center justify-center gap-2 py-2 bg-zinc-800 hover:bg-zinc-700 rounded-lg text-sm font-medium text-white transition-colors"
+        >
+          <Download className="w-4 h-4" /> Download QR
+        </button>
+        {canShare && (
+          <button
+            onClick={share}
+            className="flex-1 flex items-center justify-center gap-2 py-2 bg-zinc-800 hover:bg-zinc-700 rounded-lg text-sm font-medium text-white transition-colors"
+          >
+            <Share2 className="w-4 h-4" /> Share
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Address tabs: an optional amount and label turn the bare address into a BIP21 request.
+ * The label is also saved on the fresh L1 address, once the L1 tab has taken one.
+ */
+function AddressReceive({
+  tab,
+  addresses,
+  fresh,
+}: {
+  tab: AddressTab;
+  addresses: GetAddressesResponse;
+  fresh: ReceiveAddress | null;
+}) {
+  const [amount, setAmount] = useState('');
+  const [label, setLabel] = useState('');
+
+  const sats = Number(amount);
+  const validAmount = amount !== '' && Number.isInteger(sats) && sats > 0;
+  const request = { amount: validAmount ? sats : undefined, label: label.trim() || undefined };
+  // The Ark request keeps the L1 address as a fallback for payers without Ark
+  const saveLabel = async () => {
+    if (!fresh || tab === 'boarding') return;
+    try {
+      await sendMessage({ type: 'SetReceiveAddressLabel', payload: { index: fresh.index, label } });
+    } catch (err) {
+      console.error('Failed to save address label:', err);
+    }
+  };
+
+  const uri =
+    tab === 'ark'
+      ? buildPaymentUri({ address: addresses.onchain, arkAddress: addresses.offchain, ...request })
+      : buildPaymentUri({ address: tab === 'boarding' ? addresses.boarding : addresses.onchain, ...request });
+
+  return (
+    <div className="space-y-4">
+      <QrCard value={uri} filename={`coinop-${tab}-request.png`} />
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-zinc-400 mb-1">Amount (sats)</label>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Optional"
+            className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-orange-500 outline-none transition-all"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-zinc-400 mb-1">Label</label>
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onBlur={saveLabel}
+            placeholder="Optional"
+            className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-orange-500 outline-none transition-all"
+          />
+        </div>
+      </div>
+      {amount !== '' && !validAmount && <div className={errorStyles}>Enter a whole number of sats</div>}
+      <p className="text-xs text-zinc-500">{ADDRESS_NOTES[tab]}</p>
+      {tab === 'onchain' && <PreviousAddresses />}
+    </div>
+  );
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 10)}…${address.slice(-8)}`;
+}
+
+/**
+ * L1 addresses handed out so far, newest first, with their labels and whether they were paid.
+ */
+function PreviousAddresses() {
+  const [addresses, setAddresses] = useState<ReceiveAddress[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setError(null);
+    try {
+      const response = await sendMessage<GetReceiveAddressesResponse>({ type: 'GetReceiveAddresses' });
+      if (response.success && response.data) {
+        setAddresses([...response.data].reverse());
+      } else {
+        setError(response.error || 'Failed to load addresses');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load addresses');
+    }
+  };
+
+  if (!addresses) {
+    return (
+      <div className="space-y-2">
+        <button onClick={load} className="text-xs text-orange-500 hover:text-orange-400">
+          Show previous addresses
         </button>
-        
-        <h2 className="text-xl font-bold text-white mb-6 text-center">Receive Bitcoin (L1)</h2>
-        
-        <div className="flex justify-center mb-6">
-          <div className="bg-white p-3 rounded-lg">
-            <QRCode value={address} size={200} />
+        {error && <div className={errorStyles}>{error}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-zinc-400">Previous addresses</span>
+        <button onClick={() => setAddresses(null)} className="text-xs text-zinc-500 hover:text-white">
+          Hide
+        </button>
+      </div>
+      <div className="border border-zinc-800 rounded-lg divide-y divide-zinc-800 max-h-48 overflow-y-auto">
+        {addresses.map((entry) => (
+          <div key={entry.index} className="px-3 py-2 flex items-center gap-2">
+            <span className="text-xs text-zinc-500 w-6">#{entry.index}</span>
+            <div className="flex-1 min-w-0">
+              <div className="text-xs text-zinc-300 font-mono truncate" title={entry.address}>
+                {shortAddress(entry.address)}
+              </div>
+              {(entry.label || entry.index === MAIN_ADDRESS_INDEX) && (
+                <div className="text-xs text-zinc-500 truncate">{entry.label ?? 'Main address'}</div>
+              )}
+            </div>
+            <span className={`text-xs ${entry.used ? 'text-zinc-500' : 'text-green-400'}`}>
+              {entry.used ? 'Used' : 'Unused'}
+            </span>
           </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function LightningReceive() {
+  const [amount, setAmount] = useState('');
+  const [description, setDescription] = useState('');
+  const [swap, setSwap] = useState<ReverseSwapSummary | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const swapId = swap?.id;
+  const active = swap ? isSwapActive(swap) : false;
+
+  useEffect(() => {
+    if (!swapId || !active) return;
+    const interval = setInterval(async () => {
+      try {
+        const response = await sendMessage<GetSwapResponse>({ type: 'GetSwap', payload: { id: swapId } });
+        if (response.success && response.data) {
+          setSwap(response.data);
+        }
+      } catch (err) {
+        console.error('Failed to load swap:', err);
+      }
+    }, SWAP_POLL_MS);
+    return () => clearInterval(interval);
+  }, [swapId, active]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const response = await sendMessage<CreateInvoiceResponse>({
+        type: 'CreateInvoice',
+        payload: { amount: Number(amount), description: description || undefined },
+      });
+      if (response.success && response.data) {
+        setSwap(response.data);
+      } else {
+        setError(response.error || 'Failed to create invoice');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create invoice');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const reset = () => {
+    setSwap(null);
+    setAmount('');
+    setDescription('');
+  };
+
+  if (swap) {
+    return (
+      <div className="space-y-4">
+        {swap.stage === 'pending' ? (
+          <div className="flex justify-center">
+            <div className="bg-white p-3 rounded-lg">
+              <QRCode value={`lightning:${swap.invoice.toUpperCase()}`} size={200} />
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-6">
+            <Zap className={`w-10 h-10 mx-auto mb-2 ${swap.stage === 'claimed' ? 'text-green-400' : 'text-orange-400'}`} />
+          </div>
+        )}
+
+        <div className="text-center space-y-1">
+          <div className={`text-sm font-medium ${swap.stage === 'claimed' ? 'text-green-400' : 'text-orange-400'}`}>
+            {REVERSE_SWAP_STAGE_LABELS[swap.stage]}
+          </div>
+          <div className="text-xs text-zinc-400">
+            {swap.amount.toLocaleString('en-US')} sats invoice, {swap.onchainAmount.toLocaleString('en-US')} sats to
+            your Ark balance after swap fees
+          </div>
+          {swap.error && <div className="text-xs text-red-400">{swap.error}</div>}
         </div>
 
-        <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-3 flex items-center gap-3">
-          <span className="text-zinc-300 font-mono text-xs truncate flex-1">{address}</span>
-          <button onClick={copy} className="text-orange-500 hover:text-orange-400">
-            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        {swap.stage === 'pending' && <CopyField value={swap.invoice} />}
+
+        {!active && (
+          <button
+            onClick={reset}
+            className="w-full py-3 bg-zinc-700 hover:bg-zinc-600 rounded-lg font-medium text-white transition-colors"
+          >
+            New Invoice
           </button>
-        </div>
+        )}
       </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-zinc-400 mb-1">Amount (sats)</label>
+        <input
+          type="number"
+          min="1"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="0"
+          className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:ring-2 focus:ring-orange-500 outline-none transition-all"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-zinc-400 mb-1">Description (optional)</label>
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:ring-2 focus:ring-orange-500 outline-none transition-all"
+        />
+      </div>
+
+      {error && <div className={errorStyles}>{error}</div>}
+
+      <button
+        onClick={handleCreate}
+        disabled={isCreating || !amount || Number(amount) <= 0}
+        className="w-full flex items-center justify-center gap-2 py-3 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium text-white transition-colors"
+      >
+        <Zap className="w-4 h-4" /> {isCreating ? 'Creating...' : 'Create Invoice'}
+      </button>
+      <p className="text-xs text-zinc-500">
+        A swap provider locks the payment for you in Ark. The wallet claims it automatically while unlocked.
+      </p>
     </div>
   );
 }
 
+export function ReceiveModal({ addresses, onClose }: ReceiveModalProps) {
+  const [tab, setTab] = useState<ReceiveTab>('ark');
+  // Each fresh address uses up a receive index, so one is only taken once the L1 tab is shown.
+  // Until then, or if it fails, requests fall back to the main address
+  const [fresh, setFresh] = useState<ReceiveAddress | null>(null);
+  const [freshStatus, setFreshStatus] = useState<'idle' | 'loading' | 'done'>('idle');
+
+  const requestFresh = async () => {
+    setFreshStatus('loading');
+    try {
+      const response = await sendMessage<NewReceiveAddressResponse>({ type: 'NewReceiveAddress' });
+      if (response.success && response.data) setFresh(response.data);
+    } catch (err) {
+      console.error('Failed to get a fresh address:', err);
+    } finally {
+      setFreshStatus('done');
+    }
+  };
+
+  const selectTab = (option: ReceiveTab) => {
+    setTab(option);
+    if (option === 'onchain' && freshStatus === 'idle') requestFresh();
+  };
+
+  const current = fresh ? { ...addresses, onchain: fresh.address } : addresses;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="w-full max-w-sm bg-zinc-900 border border-zinc-800 rounded-xl p-6 relative shadow-2xl max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-4 text-center">Receive Bitcoin</h2>
+
+        <div className="flex gap-2 mb-6">
+          {(Object.keys(TAB_LABELS) as ReceiveTab[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => selectTab(option)}
+              className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
+                tab === option ? 'bg-orange-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white'
+              }`}
+            >
+              {TAB_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'lightning' ? (
+          <LightningReceive />
+        ) : tab === 'onchain' && freshStatus !== 'done' ? (
+          // Showing the previous address here would hand out one that may already be used
+          <div className="py-16 text-center text-sm text-zinc-400">Generating a new address...</div>
+        ) : (
+          // Keyed so the amount and label start empty on each tab
+          <AddressReceive key={tab} tab={tab} addresses={current} fresh={fresh} />
+        )}
+      </div>
+    </div>
+  );
+}
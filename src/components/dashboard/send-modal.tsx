@@ -0,0 +1,366 @@
+import { useEffect, useState } from 'react';
+import { X, Check, Zap } from 'lucide-react';
+import { sendMessage } from '../../lib/rpc';
+import { SUBMARINE_SWAP_STAGE_LABELS, isPaymentActive } from '../../lib/swap';
+import type { SubmarineSwap } from '../../lib/swap';
+import type {
+  PreviewOffchainSendResponse,
+  SendOffchainResponse,
+  PreviewPayInvoiceResponse,
+  PayInvoiceResponse,
+  GetPaymentResponse,
+} from '../../types/messages';
+import { inputStyles, buttonStyles, labelStyles, errorStyles } from '../ui/styles';
+import { ContactPicker } from './contact-picker';
+
+interface SendModalProps {
+  available: number;
+  onClose: () => void;
+  onSent: () => void;
+}
+
+type Step = 'form' | 'confirm' | 'sent';
+
+// BOLT11 invoices start with "ln" and a currency prefix; Ark addresses never do
+const INVOICE_PATTERN = /^(lightning:)?ln/i;
+
+// Matches the Lightning receive screen; a payment in flight usually settles within a minute
+const PAYMENT_POLL_MS = 5_000;
+
+export function SendModal({ available, onClose, onSent }: SendModalProps) {
+  const [step, setStep] = useState<Step>('form');
+  const [address, setAddress] = useState('');
+  const [amount, setAmount] = useState('');
+  const [preview, setPreview] = useState<PreviewOffchainSendResponse | null>(null);
+  const [invoicePreview, setInvoicePreview] = useState<PreviewPayInvoiceResponse | null>(null);
+  const [txid, setTxid] = useState<string | null>(null);
+  const [payment, setPayment] = useState<SubmarineSwap | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isInvoice = INVOICE_PATTERN.test(address.trim());
+  const paymentId = payment?.id;
+  const paymentActive = payment ? isPaymentActive(payment) : false;
+
+  useEffect(() => {
+    if (!paymentId || !paymentActive) return;
+    const interval = setInterval(async () => {
+      try {
+        const response = await sendMessage<GetPaymentResponse>({ type: 'GetPayment', payload: { id: paymentId } });
+        if (response.success && response.data) {
+          setPayment(response.data);
+        }
+      } catch (err) {
+        console.error('Failed to load payment:', err);
+      }
+    }, PAYMENT_POLL_MS);
+    return () => clearInterval(interval);
+  }, [paymentId, paymentActive]);
+
+  const handleReview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (isInvoice) {
+      await reviewInvoice();
+      return;
+    }
+
+    const sats = Number(amount);
+    if (!Number.isInteger(sats) || sats <= 0) {
+      setError('Enter a whole number of sats');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await sendMessage<PreviewOffchainSendResponse>({
+        type: 'PreviewOffchainSend',
+        payload: { address, amount: sats },
+      });
+      if (response.success && response.data) {
+        setPreview(response.data);
+        setInvoicePreview(null);
+        setStep('confirm');
+      } else {
+        setError(response.error || 'Failed to prepare payment');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const reviewInvoice = async () => {
+    setIsLoading(true);
+    try {
+      const response = await sendMessage<PreviewPayInvoiceResponse>({
+        type: 'PreviewPayInvoice',
+        payload: { invoice: address },
+      });
+      if (response.success && response.data) {
+        setInvoicePreview(response.data);
+        setPreview(null);
+        setStep('confirm');
+      } else {
+        setError(response.error || 'Failed to read invoice');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePayInvoice = async () => {
+    if (!invoicePreview) return;
+    setError(null);
+    setIsLoading(true);
+    try {
+      // The payment is refused if the swap now costs more than the total shown here
+      const response = await sendMessage<PayInvoiceResponse>({
+        type: 'PayInvoice',
+        payload: { invoice: address, maxTotal: invoicePreview.total },
+      });
+      if (response.success && response.data) {
+        setPayment(response.data);
+        setStep('sent');
+        onSent();
+      } else {
+        setError(response.error || 'Payment failed');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (invoicePreview) {
+      await handlePayInvoice();
+      return;
+    }
+    if (!preview) return;
+    setError(null);
+    setIsLoading(true);
+    try {
+      // The send is refused if it now costs more than the total shown here
+      const response = await sendMessage<SendOffchainResponse>({
+        type: 'SendOffchain',
+        payload: { address, amount: preview.amount, maxTotal: preview.total },
+      });
+      if (response.success && response.data) {
+        setTxid(response.data.txid);
+        setStep('sent');
+        onSent();
+      } else {
+        setError(response.error || 'Payment failed');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="w-full max-w-sm bg-zinc-900 border border-zinc-800 rounded-xl p-6 relative shadow-2xl">
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-6 text-center">Send Ark (L2) or Lightning</h2>
+
+        {step === 'form' && (
+          <form onSubmit={handleReview} className="flex flex-col gap-4">
+            <div>
+              <label htmlFor="send-address" className={labelStyles}>
+                Ark Address or Lightning Invoice
+              </label>
+              <input
+                id="send-address"
+                type="text"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                className={`${inputStyles} font-mono text-xs`}
+                placeholder="tark1... or lnbc..."
+                disabled={isLoading}
+                required
+              />
+              <ContactPicker onPick={setAddress} disabled={isLoading} />
+            </div>
+            {!isInvoice && (
+              <div>
+                <label htmlFor="send-amount" className={labelStyles}>
+                  Amount (sats)
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    id="send-amount"
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className={inputStyles}
+                    placeholder="0"
+                    disabled={isLoading}
+                    required
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setAmount(String(available))}
+                    disabled={isLoading}
+                    className="px-3 bg-zinc-700 hover:bg-zinc-600 rounded-lg text-sm font-medium transition-colors"
+                  >
+                    Max
+                  </button>
+                </div>
+                <div className="text-xs text-zinc-500 mt-1">
+                  Available: {available.toLocaleString('en-US')} sats
+                </div>
+              </div>
+            )}
+            {error && <div className={errorStyles}>{error}</div>}
+            <button
+              type="submit"
+              disabled={isLoading}
+              className={`${buttonStyles} ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {isLoading ? 'Checking...' : 'Review'}
+            </button>
+          </form>
+        )}
+
+        {step === 'confirm' && invoicePreview && (
+          <div className="flex flex-col gap-4">
+            <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 space-y-2 text-sm">
+              <div>
+                <div className="text-xs text-zinc-500">Payee</div>
+                <div className="text-zinc-200 font-mono text-xs break-all">{invoicePreview.invoice.payee}</div>
+              </div>
+              {invoicePreview.invoice.description && (
+                <div>
+                  <div className="text-xs text-zinc-500">Description</div>
+                  <div className="text-zinc-200 text-xs break-words">{invoicePreview.invoice.description}</div>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-zinc-400">Amount</span>
+                <span className="text-white">{(invoicePreview.invoice.amount ?? 0).toLocaleString('en-US')} sats</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-400">Swap fee</span>
+                <span className="text-white">{invoicePreview.fee.toLocaleString('en-US')} sats</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-400">Expires</span>
+                <span className="text-white">{new Date(invoicePreview.invoice.expiresAt).toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between pt-2 border-t border-zinc-800 font-semibold">
+                <span className="text-zinc-300">Total</span>
+                <span className="text-white">{invoicePreview.total.toLocaleString('en-US')} sats</span>
+              </div>
+            </div>
+            {error && <div className={errorStyles}>{error}</div>}
+            <div className="flex gap-3">
+              <button
+                onClick={() => setStep('form')}
+                disabled={isLoading}
+                className="flex-1 py-3 bg-zinc-700 hover:bg-zinc-600 rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={isLoading}
+                className={`${buttonStyles} flex-1 ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {isLoading ? 'Paying...' : 'Pay'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'confirm' && preview && (
+          <div className="flex flex-col gap-4">
+            <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 space-y-2 text-sm">
+              <div>
+                <div className="text-xs text-zinc-500">To</div>
+                <div className="text-zinc-200 font-mono text-xs break-all">{address}</div>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-400">Amount</span>
+                <span className="text-white">{preview.amount.toLocaleString('en-US')} sats</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-400">Fee</span>
+                <span className="text-white">{preview.fee.toLocaleString('en-US')} sats</span>
+              </div>
+              <div className="flex justify-between pt-2 border-t border-zinc-800 font-semibold">
+                <span className="text-zinc-300">Total</span>
+                <span className="text-white">{preview.total.toLocaleString('en-US')} sats</span>
+              </div>
+            </div>
+            {error && <div className={errorStyles}>{error}</div>}
+            <div className="flex gap-3">
+              <button
+                onClick={() => setStep('form')}
+                disabled={isLoading}
+                className="flex-1 py-3 bg-zinc-700 hover:bg-zinc-600 rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={isLoading}
+                className={`${buttonStyles} flex-1 ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {isLoading ? 'Sending...' : 'Confirm'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'sent' && payment && (
+          <div className="flex flex-col items-center gap-4">
+            <div
+              className={`w-12 h-12 rounded-full flex items-center justify-center ${
+                payment.stage === 'paid' ? 'bg-green-900/40' : 'bg-orange-900/40'
+              }`}
+            >
+              <Zap className={`w-6 h-6 ${payment.stage === 'paid' ? 'text-green-400' : 'text-orange-400'}`} />
+            </div>
+            <div className="text-white font-medium">{SUBMARINE_SWAP_STAGE_LABELS[payment.stage]}</div>
+            {payment.preimage && (
+              <div className="text-center">
+                <div className="text-xs text-zinc-500">Preimage</div>
+                <div className="text-zinc-500 font-mono text-xs break-all">{payment.preimage}</div>
+              </div>
+            )}
+            {payment.error && <div className="text-xs text-red-400 text-center">{payment.error}</div>}
+            <button onClick={onClose} className={buttonStyles}>
+              Done
+            </button>
+          </div>
+        )}
+
+        {step === 'sent' && !payment && (
+          <div className="flex flex-col items-center gap-4">
+            <div className="w-12 h-12 rounded-full bg-green-900/40 flex items-center justify-center">
+              <Check className="w-6 h-6 text-green-400" />
+            </div>
+            <div className="text-white font-medium">Payment sent</div>
+            {txid && <div className="text-zinc-500 font-mono text-xs break-all text-center">{txid}</div>}
+            <button onClick={onClose} className={buttonStyles}>
+              Done
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
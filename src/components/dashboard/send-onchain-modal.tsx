@@ -0,0 +1,292 @@
+import { useEffect, useState } from 'react';
+import { X, Check } from 'lucide-react';
+import { sendMessage } from '../../lib/rpc';
+import type { FeeRatePreset } from '../../lib/onchain';
+import type { GetFeeRatesResponse, PreviewOnchainSendResponse, SendOnchainResponse } from '../../types/messages';
+import { inputStyles, buttonStyles, labelStyles, errorStyles } from '../ui/styles';
+import { ContactPicker } from './contact-picker';
+
+interface SendOnchainModalProps {
+  available: number;
+  onClose: () => void;
+  onSent: () => void;
+}
+
+type Step = 'form' | 'confirm' | 'sent';
+type FeeChoice = FeeRatePreset | 'custom';
+
+const FEE_CHOICES: { value: FeeChoice; label: string }[] = [
+  { value: 'slow', label: 'Slow' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'fast', label: 'Fast' },
+  { value: 'custom', label: 'Custom' },
+];
+
+export function SendOnchainModal({ available, onClose, onSent }: SendOnchainModalProps) {
+  const [step, setStep] = useState<Step>('form');
+  const [address, setAddress] = useState('');
+  const [amount, setAmount] = useState('');
+  const [feeRates, setFeeRates] = useState<GetFeeRatesResponse | null>(null);
+  const [feeChoice, setFeeChoice] = useState<FeeChoice>('normal');
+  const [customFeeRate, setCustomFeeRate] = useState('');
+  const [rbf, setRbf] = useState(true);
+  const [preview, setPreview] = useState<PreviewOnchainSendResponse | null>(null);
+  const [txid, setTxid] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const loadFeeRates = async () => {
+      try {
+        const response = await sendMessage<GetFeeRatesResponse>({ type: 'GetFeeRates' });
+        if (response.success && response.data) {
+          setFeeRates(response.data);
+        } else {
+          setFeeChoice('custom');
+          setError(response.error || 'Fee estimates unavailable, enter a custom rate');
+        }
+      } catch (err) {
+        setFeeChoice('custom');
+        setError(err instanceof Error ? err.message : 'Fee estimates unavailable, enter a custom rate');
+      }
+    };
+    loadFeeRates();
+  }, []);
+
+  const selectedFeeRate = feeChoice === 'custom' ? Number(customFeeRate) : feeRates?.[feeChoice];
+
+  const handleReview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const sats = Number(amount);
+    if (!Number.isInteger(sats) || sats <= 0) {
+      setError('Enter a whole number of sats');
+      return;
+    }
+    if (!selectedFeeRate || !(selectedFeeRate > 0)) {
+      setError('Choose a fee rate');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await sendMessage<PreviewOnchainSendResponse>({
+        type: 'PreviewOnchainSend',
+        payload: { address, amount: sats, feeRate: selectedFeeRate, rbf },
+      });
+      if (response.success && response.data) {
+        setPreview(response.data);
+        setStep('confirm');
+      } else {
+        setError(response.error || 'Failed to prepare transaction');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!preview) return;
+    setError(null);
+    setIsLoading(true);
+    try {
+      const response = await sendMessage<SendOnchainResponse>({
+        type: 'SendOnchain',
+        payload: {
+          address,
+          amount: preview.amount,
+          feeRate: preview.feeRate,
+          rbf: preview.rbf,
+          maxFee: preview.fee,
+          maxTotal: preview.total,
+        },
+      });
+      if (response.success && response.data) {
+        setTxid(response.data.txid);
+        setStep('sent');
+        onSent();
+      } else {
+        setError(response.error || 'Transaction failed');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="w-full max-w-sm bg-zinc-900 border border-zinc-800 rounded-xl p-6 relative shadow-2xl">
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-6 text-center">Send Bitcoin (L1)</h2>
+
+        {step === 'form' && (
+          <form onSubmit={handleReview} className="flex flex-col gap-4">
+            <div>
+              <label htmlFor="onchain-address" className={labelStyles}>
+                Bitcoin Address
+              </label>
+              <input
+                id="onchain-address"
+                type="text"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                className={`${inputStyles} font-mono text-xs`}
+                placeholder="tb1..."
+                disabled={isLoading}
+                required
+              />
+              <ContactPicker onPick={setAddress} disabled={isLoading} />
+            </div>
+            <div>
+              <label htmlFor="onchain-amount" className={labelStyles}>
+                Amount (sats)
+              </label>
+              <input
+                id="onchain-amount"
+                type="number"
+                min={1}
+                step={1}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={inputStyles}
+                placeholder="0"
+                disabled={isLoading}
+                required
+              />
+              <div className="text-xs text-zinc-500 mt-1">
+                Available: {available.toLocaleString('en-US')} sats
+              </div>
+            </div>
+            <div>
+              <span className={labelStyles}>Fee Rate</span>
+              <div className="grid grid-cols-4 gap-1">
+                {FEE_CHOICES.map((choice) => (
+                  <button
+                    key={choice.value}
+                    type="button"
+                    onClick={() => setFeeChoice(choice.value)}
+                    disabled={isLoading || (choice.value !== 'custom' && !feeRates)}
+                    className={`py-2 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 ${
+                      feeChoice === choice.value ? 'bg-orange-600 text-white' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'
+                    }`}
+                  >
+                    <div>{choice.label}</div>
+                    {choice.value !== 'custom' && feeRates && (
+                      <div className="text-[10px] opacity-75">{feeRates[choice.value]} sat/vB</div>
+                    )}
+                  </button>
+                ))}
+              </div>
+              {feeChoice === 'custom' && (
+                <input
+                  type="number"
+                  min={1}
+                  step="any"
+                  value={customFeeRate}
+                  onChange={(e) => setCustomFeeRate(e.target.value)}
+                  className={`${inputStyles} mt-2`}
+                  placeholder="sat/vB"
+                  disabled={isLoading}
+                />
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-zinc-300">
+              <input
+                type="checkbox"
+                checked={rbf}
+                onChange={(e) => setRbf(e.target.checked)}
+                disabled={isLoading}
+                className="accent-orange-600"
+              />
+              Allow fee bump (RBF)
+            </label>
+            {error && <div className={errorStyles}>{error}</div>}
+            <button
+              type="submit"
+              disabled={isLoading}
+              className={`${buttonStyles} ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {isLoading ? 'Building...' : 'Review'}
+            </button>
+          </form>
+        )}
+
+        {step === 'confirm' && preview && (
+          <div className="flex flex-col gap-4">
+            <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 space-y-2 text-sm">
+              <div>
+                <div className="text-xs text-zinc-500">To</div>
+                <div className="text-zinc-200 font-mono text-xs break-all">{address}</div>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-400">Amount</span>
+                <span className="text-white">{preview.amount.toLocaleString('en-US')} sats</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-400">Fee</span>
+                <span className="text-white">
+                  {preview.fee.toLocaleString('en-US')} sats
+                  <span className="text-zinc-500 text-xs"> ({preview.feeRate} sat/vB × {preview.vsize} vB)</span>
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-400">Change</span>
+                <span className="text-white">{preview.change.toLocaleString('en-US')} sats</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-400">Inputs</span>
+                <span className="text-white">{preview.inputCount}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-400">RBF</span>
+                <span className="text-white">{preview.rbf ? 'Enabled' : 'Disabled'}</span>
+              </div>
+              <div className="flex justify-between pt-2 border-t border-zinc-800 font-semibold">
+                <span className="text-zinc-300">Total</span>
+                <span className="text-white">{preview.total.toLocaleString('en-US')} sats</span>
+              </div>
+            </div>
+            {error && <div className={errorStyles}>{error}</div>}
+            <div className="flex gap-3">
+              <button
+                onClick={() => setStep('form')}
+                disabled={isLoading}
+                className="flex-1 py-3 bg-zinc-700 hover:bg-zinc-600 rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={isLoading}
+                className={`${buttonStyles} flex-1 ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {isLoading ? 'Broadcasting...' : 'Confirm'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'sent' && (
+          <div className="flex flex-col items-center gap-4">
+            <div className="w-12 h-12 rounded-full bg-green-900/40 flex items-center justify-center">
+              <Check className="w-6 h-6 text-green-400" />
+            </div>
+            <div className="text-white font-medium">Transaction broadcast</div>
+            {txid && <div className="text-zinc-500 font-mono text-xs break-all text-center">{txid}</div>}
+            <button onClick={onClose} className={buttonStyles}>
+              Done
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
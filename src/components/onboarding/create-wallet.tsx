@@ -1,29 +1,35 @@
 import { useState } from 'react';
 import { sendMessage } from '../../lib/rpc';
-import type { GenerateWalletResponse } from '../../types/messages';
+import { validateNewPassword } from '../../lib/password';
+import type { GenerateWalletResponse, RevealSeedResponse, ConfirmBackupResponse } from '../../types/messages';
 import { inputStyles, buttonStyles, labelStyles, errorStyles } from '../ui/styles';
+import { SeedPhrase } from './seed-phrase';
+import { SeedQuiz } from './seed-quiz';
 
 interface CreateWalletProps {
-  onSuccess: () => void;
+  // unlocked is false when the wallet was saved but has to be opened from the login screen
+  onSuccess: (unlocked: boolean) => void;
+  onRestore: () => void;
+  onImportBackup: () => void;
 }
 
-function CreateWallet({ onSuccess }: CreateWalletProps) {
+function CreateWallet({ onSuccess, onRestore, onImportBackup }: CreateWalletProps) {
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [mnemonic, setMnemonic] = useState<string | null>(null);
+  // Why the new wallet could not be opened yet; the user logs in once the backup is done
+  const [openError, setOpenError] = useState<string | null>(null);
+  const [step, setStep] = useState<'password' | 'reveal' | 'quiz'>('password');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
 
-    if (password.length < 8) {
-      setError('Password must be at least 8 characters long');
-      return;
-    }
-
-    if (password !== confirmPassword) {
-      setError('Passwords do not match');
+    const passwordError = validateNewPassword(password, confirmPassword);
+    if (passwordError) {
+      setError(passwordError);
       return;
     }
 
@@ -35,10 +41,23 @@ function CreateWallet({ onSuccess }: CreateWalletProps) {
         payload: { password },
       });
 
-      if (response.success) {
-        onSuccess();
-      } else {
+      if (!response.success || !response.data) {
         setError(response.error || 'Failed to create wallet');
+        return;
+      }
+      setOpenError(response.data.unlocked ? null : response.data.error || 'Failed to open wallet');
+
+      const seedResponse = await sendMessage<RevealSeedResponse>({
+        type: 'RevealSeed',
+        payload: { password },
+      });
+      if (seedResponse.success && seedResponse.data) {
+        setMnemonic(seedResponse.data.mnemonic);
+        setPassword('');
+        setConfirmPassword('');
+        setStep('reveal');
+      } else {
+        setError(seedResponse.error || 'Failed to load recovery phrase');
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
@@ -47,6 +66,51 @@ function CreateWallet({ onSuccess }: CreateWalletProps) {
     }
   };
 
+  const handleBackupComplete = async () => {
+    try {
+      await sendMessage<ConfirmBackupResponse>({ type: 'ConfirmBackup' });
+    } catch (err) {
+      console.error('Failed to record backup:', err);
+    }
+    setMnemonic(null);
+    onSuccess(openError === null);
+  };
+
+  if (mnemonic && step === 'reveal') {
+    return (
+      <div className="min-h-screen bg-zinc-950 text-white flex items-center justify-center p-4">
+        <div className="p-6 w-[350px] min-h-[400px] flex flex-col justify-center gap-4 bg-zinc-950 text-white">
+          <h1 className="text-2xl font-bold text-center">Recovery Phrase</h1>
+          <p className="text-sm text-zinc-400 text-center">
+            Write these 12 words down in order and keep them offline. They are the only way to
+            recover your funds if this browser profile is lost.
+          </p>
+          <SeedPhrase mnemonic={mnemonic} />
+          {openError && (
+            <div className={errorStyles}>
+              The wallet is saved but could not be opened yet ({openError}). Log in with your password once
+              you have written the phrase down.
+            </div>
+          )}
+          <button onClick={() => setStep('quiz')} className={buttonStyles}>
+            I've Written It Down
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (mnemonic && step === 'quiz') {
+    return (
+      <div className="min-h-screen bg-zinc-950 text-white flex items-center justify-center p-4">
+        <div className="p-6 w-[350px] min-h-[400px] flex flex-col justify-center bg-zinc-950 text-white">
+          <h1 className="text-2xl font-bold mb-6 text-center">Verify Backup</h1>
+          <SeedQuiz mnemonic={mnemonic} onComplete={handleBackupComplete} onBack={() => setStep('reveal')} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-zinc-950 text-white flex items-center justify-center p-4">
       <div className="p-6 w-[350px] min-h-[400px] flex flex-col justify-center bg-zinc-950 text-white">
@@ -95,6 +159,20 @@ function CreateWallet({ onSuccess }: CreateWalletProps) {
             {isLoading ? 'Creating Wallet...' : 'Create Wallet'}
           </button>
         </form>
+        <button
+          onClick={onRestore}
+          disabled={isLoading}
+          className="mt-4 text-sm text-zinc-400 hover:text-white transition-colors"
+        >
+          Restore an existing wallet
+        </button>
+        <button
+          onClick={onImportBackup}
+          disabled={isLoading}
+          className="mt-2 text-sm text-zinc-400 hover:text-white transition-colors"
+        >
+          Import a backup file
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { sendMessage } from '../../lib/rpc';
+import type { ImportBackupResponse } from '../../types/messages';
+import { inputStyles, buttonStyles, labelStyles, errorStyles } from '../ui/styles';
+
+interface ImportBackupFormProps {
+  onImported: (status: ImportBackupResponse['status']) => void;
+}
+
+/**
+ * Backup file picker and passphrase form, shared by onboarding and settings.
+ */
+export function ImportBackupForm({ onImported }: ImportBackupFormProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [conflict, setConflict] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const importBackup = async (onConflict?: 'replace' | 'merge') => {
+    if (!file) return;
+    setError(null);
+    setIsLoading(true);
+    try {
+      const response = await sendMessage<ImportBackupResponse>({
+        type: 'ImportBackup',
+        payload: {
+          file: await file.text(),
+          passphrase,
+          onConflict,
+          ...(onConflict === 'replace' ? { currentPassword } : {}),
+        },
+      });
+      if (response.success && response.data) {
+        if (response.data.status === 'conflict') {
+          setConflict(true);
+        } else {
+          setConflict(false);
+          setPassphrase('');
+          setCurrentPassword('');
+          onImported(response.data.status);
+        }
+      } else {
+        setError(response.error || 'Failed to import backup');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    importBackup();
+  };
+
+  if (conflict) {
+    return (
+      <div className="flex flex-col gap-3">
+        <div className="text-sm text-yellow-400 bg-yellow-900/20 p-3 rounded border border-yellow-900/50">
+          A wallet already exists in this browser. Replacing it removes the current wallet, so make sure its
+          recovery phrase is backed up. Merging keeps the current wallet and only adds the backup's labels,
+          contacts and connected sites.
+        </div>
+        <div>
+          <label htmlFor="backup-current-password" className={labelStyles}>
+            Current Wallet Password
+          </label>
+          <input
+            id="backup-current-password"
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            className={inputStyles}
+            placeholder="Required to replace the wallet"
+            disabled={isLoading}
+          />
+        </div>
+        {error && <div className={errorStyles}>{error}</div>}
+        <button
+          onClick={() => importBackup('replace')}
+          disabled={isLoading || !currentPassword}
+          className={`${buttonStyles} ${isLoading || !currentPassword ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          Replace Wallet
+        </button>
+        <button
+          onClick={() => importBackup('merge')}
+          disabled={isLoading}
+          className="w-full py-3 bg-zinc-700 hover:bg-zinc-600 rounded-lg font-medium transition-colors"
+        >
+          Merge Labels & Contacts
+        </button>
+        <button
+          onClick={() => setConflict(false)}
+          disabled={isLoading}
+          className="text-sm text-zinc-400 hover:text-white transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      <div>
+        <label htmlFor="backup-file" className={labelStyles}>
+          Backup File
+        </label>
+        <input
+          id="backup-file"
+          type="file"
+          accept="application/json,.json"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="w-full text-sm text-zinc-400 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-zinc-700 file:text-white"
+          disabled={isLoading}
+          required
+        />
+      </div>
+      <div>
+        <label htmlFor="backup-import-passphrase" className={labelStyles}>
+          Backup Passphrase
+        </label>
+        <input
+          id="backup-import-passphrase"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className={inputStyles}
+          placeholder="Enter the backup passphrase"
+          disabled={isLoading}
+          required
+        />
+      </div>
+      {error && <div className={errorStyles}>{error}</div>}
+      <button
+        type="submit"
+        disabled={isLoading || !file}
+        className={`${buttonStyles} ${isLoading || !file ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        {isLoading ? 'Decrypting...' : 'Import Backup'}
+      </button>
+    </form>
+  );
+}
+
+interface ImportBackupProps {
+  onSuccess: () => void;
+  onBack: () => void;
+}
+
+function ImportBackup({ onSuccess, onBack }: ImportBackupProps) {
+  return (
+    <div className="min-h-screen bg-zinc-950 text-white flex items-center justify-center p-4">
+      <div className="p-6 w-[350px] min-h-[400px] flex flex-col justify-center bg-zinc-950 text-white">
+        <h1 className="text-2xl font-bold mb-2 text-center">Import Backup</h1>
+        <p className="text-sm text-zinc-400 mb-6 text-center">
+          After importing, unlock with the wallet password you used when the backup was made.
+        </p>
+        <ImportBackupForm onImported={onSuccess} />
+        <button onClick={onBack} className="mt-4 text-sm text-zinc-400 hover:text-white transition-colors">
+          Create a new wallet instead
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ImportBackup;
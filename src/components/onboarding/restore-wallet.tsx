@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { sendMessage } from '../../lib/rpc';
+import { validateMnemonic } from '../../lib/wallet';
+import { validateNewPassword } from '../../lib/password';
+import type { ImportWalletResponse } from '../../types/messages';
+import { inputStyles, buttonStyles, labelStyles, errorStyles } from '../ui/styles';
+
+interface RestoreWalletProps {
+  // unlocked is false when the wallet was saved but has to be opened from the login screen
+  onSuccess: (unlocked: boolean) => void;
+  onBack: () => void;
+}
+
+function RestoreWallet({ onSuccess, onBack }: RestoreWalletProps) {
+  const [phrase, setPhrase] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [openError, setOpenError] = useState<string | null>(null);
+
+  const validation = validateMnemonic(phrase);
+  const invalidWords = validation.words
+    .map((check, index) => ({ ...check, position: index + 1 }))
+    .filter((check) => !check.valid);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!validation.wordCountValid) {
+      setError('Recovery phrase must be 12 or 24 words');
+      return;
+    }
+    if (invalidWords.length > 0) {
+      setError('Fix the highlighted words first');
+      return;
+    }
+    if (!validation.checksumValid) {
+      setError('Invalid recovery phrase: checksum does not match. Check the word order.');
+      return;
+    }
+
+    const passwordError = validateNewPassword(password, confirmPassword);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await sendMessage<ImportWalletResponse>({
+        type: 'ImportWallet',
+        payload: { mnemonic: validation.normalized, password },
+      });
+      if (response.success && response.data) {
+        if (response.data.unlocked) {
+          onSuccess(true);
+        } else {
+          setOpenError(response.data.error || 'Failed to open wallet');
+        }
+      } else {
+        setError(response.error || 'Failed to restore wallet');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (openError) {
+    return (
+      <div className="min-h-screen bg-zinc-950 text-white flex items-center justify-center p-4">
+        <div className="p-6 w-[350px] min-h-[400px] flex flex-col justify-center gap-4 bg-zinc-950 text-white">
+          <h1 className="text-2xl font-bold text-center">Wallet Restored</h1>
+          <div className={errorStyles}>
+            The wallet is saved but could not be opened yet ({openError}). Balances and history are
+            scanned once you log in.
+          </div>
+          <button onClick={() => onSuccess(false)} className={buttonStyles}>
+            Continue to Login
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-white flex items-center justify-center p-4">
+      <div className="p-6 w-[350px] min-h-[400px] flex flex-col justify-center bg-zinc-950 text-white">
+        <h1 className="text-2xl font-bold mb-6 text-center">Restore Wallet</h1>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <div>
+            <label htmlFor="phrase" className={labelStyles}>
+              Recovery Phrase
+            </label>
+            <textarea
+              id="phrase"
+              value={phrase}
+              onChange={(e) => setPhrase(e.target.value)}
+              className={`${inputStyles} font-mono text-sm h-28 resize-none`}
+              placeholder="Enter your 12 or 24 words separated by spaces"
+              autoComplete="off"
+              spellCheck={false}
+              disabled={isLoading}
+              required
+            />
+            <div className="text-xs text-zinc-500 mt-1">
+              {validation.words.length} words
+              {validation.valid && <span className="text-green-400"> · valid phrase</span>}
+            </div>
+            {invalidWords.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {invalidWords.map((check) => (
+                  <li key={check.position} className="text-xs text-red-400">
+                    Word {check.position} "{check.word}" is not in the BIP-39 wordlist
+                    {check.suggestions.length > 0 && (
+                      <span className="text-zinc-400"> — did you mean {check.suggestions.join(', ')}?</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div>
+            <label htmlFor="restore-password" className={labelStyles}>
+              New Password
+            </label>
+            <input
+              id="restore-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputStyles}
+              placeholder="Enter your password"
+              disabled={isLoading}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="restore-confirm-password" className={labelStyles}>
+              Confirm Password
+            </label>
+            <input
+              id="restore-confirm-password"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className={inputStyles}
+              placeholder="Confirm your password"
+              disabled={isLoading}
+              required
+            />
+          </div>
+          {error && (
+            <div className={errorStyles}>
+              {error}
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={isLoading}
+            className={`${buttonStyles} ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            {isLoading ? 'Restoring & Scanning...' : 'Restore Wallet'}
+          </button>
+        </form>
+        <button
+          onClick={onBack}
+          disabled={isLoading}
+          className="mt-4 text-sm text-zinc-400 hover:text-white transition-colors"
+        >
+          Create a new wallet instead
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default RestoreWallet;
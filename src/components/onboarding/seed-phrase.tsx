@@ -0,0 +1,21 @@
+interface SeedPhraseProps {
+  mnemonic: string;
+}
+
+export function SeedPhrase({ mnemonic }: SeedPhraseProps) {
+  const words = mnemonic.trim().split(/\s+/);
+
+  return (
+    <ol className="grid grid-cols-3 gap-2">
+      {words.map((word, index) => (
+        <li
+          key={index}
+          className="flex items-center gap-1.5 bg-zinc-900 border border-zinc-700 rounded-lg px-2 py-1.5 text-sm"
+        >
+          <span className="text-zinc-500 text-xs w-4 text-right">{index + 1}</span>
+          <span className="text-white font-mono">{word}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { buttonStyles, errorStyles } from '../ui/styles';
+
+interface SeedQuizProps {
+  mnemonic: string;
+  onComplete: () => void;
+  onBack: () => void;
+}
+
+/**
+ * Fisher-Yates shuffle using the CSPRNG so the order leaks nothing about the phrase.
+ */
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  const random = crypto.getRandomValues(new Uint32Array(result.length));
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = random[i] % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export function SeedQuiz({ mnemonic, onComplete, onBack }: SeedQuizProps) {
+  const words = mnemonic.trim().split(/\s+/);
+  // Track word positions rather than strings so repeated words stay distinct
+  const [pool] = useState(() => shuffle(words.map((_, index) => index)));
+  const [picked, setPicked] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (index: number) => {
+    setError(null);
+    setPicked((current) =>
+      current.includes(index) ? current.filter((i) => i !== index) : [...current, index]
+    );
+  };
+
+  const handleVerify = () => {
+    const isCorrect = picked.length === words.length && picked.every((index, position) => words[index] === words[position]);
+    if (isCorrect) {
+      onComplete();
+    } else {
+      setError('The order does not match. Tap words to remove them and try again.');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-zinc-400 text-center">
+        Tap the words in the correct order to confirm your backup.
+      </p>
+
+      <ol className="grid grid-cols-3 gap-2 min-h-[120px] bg-zinc-900 border border-zinc-800 rounded-lg p-2">
+        {picked.map((index, position) => (
+          <li key={index}>
+            <button
+              onClick={() => toggle(index)}
+              className="w-full flex items-center gap-1.5 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-sm"
+            >
+              <span className="text-zinc-500 text-xs w-4 text-right">{position + 1}</span>
+              <span className="text-white font-mono">{words[index]}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex flex-wrap gap-2 justify-center">
+        {pool.map((index) => (
+          <button
+            key={index}
+            onClick={() => toggle(index)}
+            disabled={picked.includes(index)}
+            className="px-2 py-1.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg text-sm font-mono text-white disabled:opacity-30 transition-colors"
+          >
+            {words[index]}
+          </button>
+        ))}
+      </div>
+
+      {error && <div className={errorStyles}>{error}</div>}
+
+      <div className="flex gap-3">
+        <button
+          onClick={onBack}
+          className="flex-1 py-3 bg-zinc-700 hover:bg-zinc-600 rounded-lg font-medium transition-colors"
+        >
+          Show Words
+        </button>
+        <button
+          onClick={handleVerify}
+          disabled={picked.length !== words.length}
+          className={`${buttonStyles} flex-1 ${picked.length !== words.length ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          Verify
+        </button>
+      </div>
+    </div>
+  );
+}
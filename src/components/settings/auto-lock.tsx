@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { sendMessage } from '../../lib/rpc';
+import { AUTO_LOCK_OPTIONS, formatAutoLock } from '../../lib/autolock';
+import type { AutoLockMinutes } from '../../lib/autolock';
+import type { GetAutoLockResponse, SetAutoLockResponse } from '../../types/messages';
+import { errorStyles } from '../ui/styles';
+
+export function AutoLock() {
+  const [minutes, setMinutes] = useState<AutoLockMinutes | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAutoLock = async () => {
+      try {
+        const response = await sendMessage<GetAutoLockResponse>({ type: 'GetAutoLock' });
+        if (response.success && response.data) {
+          setMinutes(response.data.minutes);
+        } else {
+          setError(response.error || 'Failed to load auto-lock setting');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load auto-lock setting');
+      }
+    };
+    loadAutoLock();
+  }, []);
+
+  const handleChange = async (value: AutoLockMinutes) => {
+    const previous = minutes;
+    setMinutes(value);
+    setError(null);
+    try {
+      const response = await sendMessage<SetAutoLockResponse>({ type: 'SetAutoLock', payload: { minutes: value } });
+      if (!response.success) {
+        setMinutes(previous);
+        setError(response.error || 'Failed to save auto-lock setting');
+      }
+    } catch (err) {
+      setMinutes(previous);
+      setError(err instanceof Error ? err.message : 'Failed to save auto-lock setting');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        aria-label="Auto-lock timeout"
+        value={minutes ?? ''}
+        onChange={(e) => handleChange(Number(e.target.value) as AutoLockMinutes)}
+        disabled={minutes === null}
+        className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-orange-500 outline-none transition-all disabled:opacity-50"
+      >
+        {AUTO_LOCK_OPTIONS.map((option) => (
+          <option key={option} value={option}>
+            {formatAutoLock(option)}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-zinc-500">
+        Locks after this long without wallet activity. Locking your computer always locks the wallet.
+      </p>
+      {error && <div className={errorStyles}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { sendMessage } from '../../lib/rpc';
+import { validateNewPassword } from '../../lib/password';
+import type { ExportBackupResponse, ImportBackupResponse } from '../../types/messages';
+import { inputStyles, buttonStyles, labelStyles, errorStyles } from '../ui/styles';
+import { ImportBackupForm } from '../onboarding/import-backup';
+
+function downloadFile(contents: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function Backup() {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [mode, setMode] = useState<'export' | 'import'>('export');
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+
+    const passphraseError = validateNewPassword(passphrase, confirmPassphrase);
+    if (passphraseError) {
+      setError(passphraseError.replace('Password', 'Passphrase'));
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await sendMessage<ExportBackupResponse>({ type: 'ExportBackup', payload: { passphrase } });
+      if (response.success && response.data) {
+        downloadFile(response.data.file, `coinop-backup-${new Date().toISOString().slice(0, 10)}.json`);
+        setPassphrase('');
+        setConfirmPassphrase('');
+        setNotice('Backup downloaded. Keep the passphrase somewhere other than the file.');
+      } else {
+        setError(response.error || 'Failed to export backup');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImported = (status: ImportBackupResponse['status']) => {
+    // A replaced wallet locks, which closes the dashboard; only a merge needs a notice
+    if (status === 'merged') setNotice('Backup merged into this wallet.');
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex gap-2">
+        {(['export', 'import'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => {
+              setMode(option);
+              setError(null);
+              setNotice(null);
+            }}
+            className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
+              mode === option ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'
+            }`}
+          >
+            {option === 'export' ? 'Export' : 'Import'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'import' ? (
+        <ImportBackupForm onImported={handleImported} />
+      ) : (
+        <form onSubmit={handleExport} className="flex flex-col gap-3">
+          <p className="text-xs text-zinc-500">
+            Saves the encrypted wallet, network, labels, contacts and connected sites to a file protected by a
+            separate passphrase.
+          </p>
+          <div>
+            <label htmlFor="backup-passphrase" className={labelStyles}>
+              Backup Passphrase
+            </label>
+            <input
+              id="backup-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className={inputStyles}
+              placeholder="Choose a backup passphrase"
+              disabled={isLoading}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="backup-confirm-passphrase" className={labelStyles}>
+              Confirm Passphrase
+            </label>
+            <input
+              id="backup-confirm-passphrase"
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              className={inputStyles}
+              placeholder="Confirm the passphrase"
+              disabled={isLoading}
+              required
+            />
+          </div>
+          {error && <div className={errorStyles}>{error}</div>}
+          <button
+            type="submit"
+            disabled={isLoading}
+            className={`${buttonStyles} ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            {isLoading ? 'Encrypting...' : 'Download Backup'}
+          </button>
+        </form>
+      )}
+
+      {notice && <div className="text-green-400 text-sm">{notice}</div>}
+    </div>
+  );
+}
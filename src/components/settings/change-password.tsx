@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { sendMessage } from '../../lib/rpc';
+import { validateNewPassword } from '../../lib/password';
+import type { ChangePasswordResponse } from '../../types/messages';
+import { inputStyles, buttonStyles, labelStyles, errorStyles } from '../ui/styles';
+
+export function ChangePassword() {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [changed, setChanged] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setChanged(false);
+
+    const passwordError = validateNewPassword(newPassword, confirmPassword);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+    if (newPassword === currentPassword) {
+      setError('New password must be different from the current one');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await sendMessage<ChangePasswordResponse>({
+        type: 'ChangePassword',
+        payload: { currentPassword, newPassword },
+      });
+      if (response.success) {
+        setChanged(true);
+        setCurrentPassword('');
+        setNewPassword('');
+        setConfirmPassword('');
+      } else {
+        setError(response.error || 'Failed to change password');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      <div>
+        <label htmlFor="current-password" className={labelStyles}>
+          Current Password
+        </label>
+        <input
+          id="current-password"
+          type="password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          className={inputStyles}
+          placeholder="Enter your current password"
+          disabled={isLoading}
+          required
+        />
+      </div>
+      <div>
+        <label htmlFor="new-password" className={labelStyles}>
+          New Password
+        </label>
+        <input
+          id="new-password"
+          type="password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          className={inputStyles}
+          placeholder="Enter a new password"
+          disabled={isLoading}
+          required
+        />
+      </div>
+      <div>
+        <label htmlFor="confirm-new-password" className={labelStyles}>
+          Confirm New Password
+        </label>
+        <input
+          id="confirm-new-password"
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className={inputStyles}
+          placeholder="Confirm the new password"
+          disabled={isLoading}
+          required
+        />
+      </div>
+      {error && <div className={errorStyles}>{error}</div>}
+      {changed && <div className="text-green-400 text-sm">Password changed.</div>}
+      <button
+        type="submit"
+        disabled={isLoading}
+        className={`${buttonStyles} ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        {isLoading ? 'Re-encrypting...' : 'Change Password'}
+      </button>
+    </form>
+  );
+}
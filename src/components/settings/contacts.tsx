@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { sendMessage } from '../../lib/rpc';
+import type { Contact, GetContactsResponse, SaveContactResponse, RemoveContactResponse } from '../../types/messages';
+import { errorStyles } from '../ui/styles';
+
+const fieldStyles =
+  'w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-orange-500 outline-none transition-all disabled:opacity-50';
+
+export function Contacts() {
+  const [contacts, setContacts] = useState<Contact[] | null>(null);
+  const [name, setName] = useState('');
+  const [address, setAddress] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchContacts = async () => {
+    try {
+      const response = await sendMessage<GetContactsResponse>({ type: 'GetContacts' });
+      if (response.success && response.data) {
+        setContacts(response.data);
+      } else {
+        setError(response.error || 'Failed to load contacts');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load contacts');
+    }
+  };
+
+  useEffect(() => {
+    const loadContacts = async () => {
+      await fetchContacts();
+    };
+    loadContacts();
+  }, []);
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await sendMessage<SaveContactResponse>({ type: 'SaveContact', payload: { name, address } });
+      if (!response.success) {
+        setError(response.error || 'Failed to save contact');
+        return;
+      }
+      setName('');
+      setAddress('');
+      await fetchContacts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save contact');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async (contact: Contact) => {
+    setError(null);
+    try {
+      const response = await sendMessage<RemoveContactResponse>({
+        type: 'RemoveContact',
+        payload: { address: contact.address },
+      });
+      if (!response.success) {
+        setError(response.error || 'Failed to remove contact');
+        return;
+      }
+      await fetchContacts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove contact');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {contacts && contacts.length > 0 && (
+        <ul className="bg-zinc-800 rounded-lg border border-zinc-700 divide-y divide-zinc-700">
+          {contacts.map((contact) => (
+            <li key={contact.address} className="flex items-center gap-2 p-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-white truncate">{contact.name}</div>
+                <div className="text-xs text-zinc-500 font-mono truncate">{contact.address}</div>
+              </div>
+              <button
+                onClick={() => remove(contact)}
+                aria-label={`Remove ${contact.name}`}
+                className="text-zinc-400 hover:text-red-400"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={add} className="space-y-2">
+        <input
+          type="text"
+          aria-label="Contact name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          disabled={!contacts || isSaving}
+          className={fieldStyles}
+        />
+        <input
+          type="text"
+          aria-label="Contact address"
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          placeholder="Ark or Bitcoin address"
+          disabled={!contacts || isSaving}
+          className={`${fieldStyles} font-mono`}
+        />
+        <button
+          type="submit"
+          disabled={!contacts || isSaving || !name.trim() || !address.trim()}
+          className="w-full py-2 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 rounded-lg text-sm font-medium text-white transition-colors"
+        >
+          Add Contact
+        </button>
+      </form>
+      <p className="text-xs text-zinc-500">Contacts can be picked when sending and are included in the backup file.</p>
+      {error && <div className={errorStyles}>{error}</div>}
+    </div>
+  );
+}
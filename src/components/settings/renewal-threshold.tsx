@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { sendMessage } from '../../lib/rpc';
+import { RENEWAL_THRESHOLD_OPTIONS, formatRenewalThreshold } from '../../lib/renewal';
+import type { RenewalThresholdHours } from '../../lib/renewal';
+import type { GetRenewalThresholdResponse, SetRenewalThresholdResponse } from '../../types/messages';
+import { errorStyles } from '../ui/styles';
+
+export function RenewalThreshold() {
+  const [hours, setHours] = useState<RenewalThresholdHours | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadThreshold = async () => {
+      try {
+        const response = await sendMessage<GetRenewalThresholdResponse>({ type: 'GetRenewalThreshold' });
+        if (response.success && response.data) {
+          setHours(response.data.hours);
+        } else {
+          setError(response.error || 'Failed to load renewal setting');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load renewal setting');
+      }
+    };
+    loadThreshold();
+  }, []);
+
+  const handleChange = async (value: RenewalThresholdHours) => {
+    const previous = hours;
+    setHours(value);
+    setError(null);
+    try {
+      const response = await sendMessage<SetRenewalThresholdResponse>({
+        type: 'SetRenewalThreshold',
+        payload: { hours: value },
+      });
+      if (!response.success) {
+        setHours(previous);
+        setError(response.error || 'Failed to save renewal setting');
+      }
+    } catch (err) {
+      setHours(previous);
+      setError(err instanceof Error ? err.message : 'Failed to save renewal setting');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        aria-label="Renewal threshold"
+        value={hours ?? ''}
+        onChange={(e) => handleChange(Number(e.target.value) as RenewalThresholdHours)}
+        disabled={hours === null}
+        className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-orange-500 outline-none transition-all disabled:opacity-50"
+      >
+        {RENEWAL_THRESHOLD_OPTIONS.map((option) => (
+          <option key={option} value={option}>
+            {formatRenewalThreshold(option)} before expiry
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-zinc-500">
+        Ark funds are renewed in a new round this long before they expire, while the wallet is unlocked. When it is
+        locked you get a notification instead.
+      </p>
+      {error && <div className={errorStyles}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { sendMessage } from '../../lib/rpc';
+import type { RevealSeedResponse, ConfirmBackupResponse } from '../../types/messages';
+import { inputStyles, buttonStyles, labelStyles, errorStyles } from '../ui/styles';
+import { SeedPhrase } from '../onboarding/seed-phrase';
+import { SeedQuiz } from '../onboarding/seed-quiz';
+
+interface RevealSeedProps {
+  backedUp: boolean;
+  onBackedUp: () => void;
+}
+
+export function RevealSeed({ backedUp, onBackedUp }: RevealSeedProps) {
+  const [password, setPassword] = useState('');
+  const [mnemonic, setMnemonic] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleReveal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+    try {
+      const response = await sendMessage<RevealSeedResponse>({
+        type: 'RevealSeed',
+        payload: { password },
+      });
+      if (response.success && response.data) {
+        setMnemonic(response.data.mnemonic);
+        setPassword('');
+      } else {
+        setError(response.error || 'Failed to reveal recovery phrase');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerified = async () => {
+    try {
+      await sendMessage<ConfirmBackupResponse>({ type: 'ConfirmBackup' });
+      onBackedUp();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record backup');
+    }
+    setIsVerifying(false);
+    setMnemonic(null);
+  };
+
+  if (mnemonic && isVerifying) {
+    return <SeedQuiz mnemonic={mnemonic} onComplete={handleVerified} onBack={() => setIsVerifying(false)} />;
+  }
+
+  if (mnemonic) {
+    return (
+      <div className="flex flex-col gap-4">
+        <SeedPhrase mnemonic={mnemonic} />
+        <div className="flex gap-3">
+          <button
+            onClick={() => setMnemonic(null)}
+            className="flex-1 py-3 bg-zinc-700 hover:bg-zinc-600 rounded-lg font-medium transition-colors"
+          >
+            Hide
+          </button>
+          {!backedUp && (
+            <button onClick={() => setIsVerifying(true)} className={`${buttonStyles} flex-1`}>
+              Verify Backup
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleReveal} className="flex flex-col gap-3">
+      <div>
+        <label htmlFor="reveal-password" className={labelStyles}>
+          Password
+        </label>
+        <input
+          id="reveal-password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputStyles}
+          placeholder="Enter your password"
+          disabled={isLoading}
+          required
+        />
+      </div>
+      {error && <div className={errorStyles}>{error}</div>}
+      <button
+        type="submit"
+        disabled={isLoading}
+        className={`${buttonStyles} ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        {isLoading ? 'Decrypting...' : 'Reveal Recovery Phrase'}
+      </button>
+    </form>
+  );
+}
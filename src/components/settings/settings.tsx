@@ -0,0 +1,63 @@
+import { X } from 'lucide-react';
+import { RevealSeed } from './reveal-seed';
+import { AutoLock } from './auto-lock';
+import { RenewalThreshold } from './renewal-threshold';
+import { SwapProvider } from './swap-provider';
+import { ChangePassword } from './change-password';
+import { Backup } from './backup';
+import { Contacts } from './contacts';
+
+interface SettingsProps {
+  backedUp: boolean;
+  onBackedUp: () => void;
+  onClose: () => void;
+}
+
+export function Settings({ backedUp, onBackedUp, onClose }: SettingsProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="w-full max-w-sm max-h-full overflow-y-auto bg-zinc-900 border border-zinc-800 rounded-xl p-6 relative shadow-2xl">
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-6 text-center">Settings</h2>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-medium text-zinc-400">Recovery Phrase</h3>
+          <RevealSeed backedUp={backedUp} onBackedUp={onBackedUp} />
+        </section>
+
+        <section className="space-y-3 mt-6 pt-6 border-t border-zinc-800">
+          <h3 className="text-sm font-medium text-zinc-400">Auto-Lock</h3>
+          <AutoLock />
+        </section>
+
+        <section className="space-y-3 mt-6 pt-6 border-t border-zinc-800">
+          <h3 className="text-sm font-medium text-zinc-400">Ark Renewal</h3>
+          <RenewalThreshold />
+        </section>
+
+        <section className="space-y-3 mt-6 pt-6 border-t border-zinc-800">
+          <h3 className="text-sm font-medium text-zinc-400">Lightning Swaps</h3>
+          <SwapProvider />
+        </section>
+
+        <section className="space-y-3 mt-6 pt-6 border-t border-zinc-800">
+          <h3 className="text-sm font-medium text-zinc-400">Contacts</h3>
+          <Contacts />
+        </section>
+
+        <section className="space-y-3 mt-6 pt-6 border-t border-zinc-800">
+          <h3 className="text-sm font-medium text-zinc-400">Password</h3>
+          <ChangePassword />
+        </section>
+
+        <section className="space-y-3 mt-6 pt-6 border-t border-zinc-800">
+          <h3 className="text-sm font-medium text-zinc-400">Backup File</h3>
+          <Backup />
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { sendMessage } from '../../lib/rpc';
+import type { GetSwapProviderResponse, SetSwapProviderResponse } from '../../types/messages';
+import { errorStyles } from '../ui/styles';
+
+export function SwapProvider() {
+  const [provider, setProvider] = useState<GetSwapProviderResponse | null>(null);
+  const [url, setUrl] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProvider = async () => {
+    try {
+      const response = await sendMessage<GetSwapProviderResponse>({ type: 'GetSwapProvider' });
+      if (response.success && response.data) {
+        setProvider(response.data);
+        setUrl(response.data.url ?? '');
+      } else {
+        setError(response.error || 'Failed to load swap provider');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load swap provider');
+    }
+  };
+
+  useEffect(() => {
+    const loadProvider = async () => {
+      await fetchProvider();
+    };
+    loadProvider();
+  }, []);
+
+  const save = async (value: string | null) => {
+    setIsSaving(true);
+    setSaved(false);
+    setError(null);
+    try {
+      const response = await sendMessage<SetSwapProviderResponse>({ type: 'SetSwapProvider', payload: { url: value } });
+      if (!response.success) {
+        setError(response.error || 'Failed to save swap provider');
+        return;
+      }
+      await fetchProvider();
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save swap provider');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="url"
+        aria-label="Swap provider URL"
+        value={url}
+        onChange={(e) => {
+          setUrl(e.target.value);
+          setSaved(false);
+        }}
+        placeholder="https://"
+        disabled={!provider}
+        className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm font-mono focus:ring-2 focus:ring-orange-500 outline-none transition-all disabled:opacity-50"
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={() => save(url)}
+          disabled={!provider || isSaving || !url.trim() || url === provider.url}
+          className="flex-1 py-2 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 rounded-lg text-sm font-medium text-white transition-colors"
+        >
+          {saved ? 'Saved' : 'Save'}
+        </button>
+        {provider?.custom && provider.defaultUrl && (
+          <button
+            onClick={() => save(null)}
+            disabled={isSaving}
+            className="flex-1 py-2 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 rounded-lg text-sm font-medium text-white transition-colors"
+          >
+            Use Default
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-zinc-500">
+        Lightning invoices are issued by this Boltz-compatible swap provider for the selected network. Invoices
+        already issued finish with the provider that created them.
+      </p>
+      {error && <div className={errorStyles}>{error}</div>}
+    </div>
+  );
+}
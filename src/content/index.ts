@@ -0,0 +1,41 @@
+/**
+ * Content Script - CoinOp
+ * Relays provider calls from the page (window.postMessage) to the background
+ * service worker and posts the responses back. Runs in the ISOLATED world.
+ */
+
+import { sendMessage } from '../lib/rpc';
+import { CONTENT_SOURCE, isBridgeRequest, isPageMessage } from '../lib/bridge';
+import type { BridgeEvent, BridgeResponse, ProviderEventMessage } from '../lib/bridge';
+import type { Response as ExtensionResponse } from '../types/messages';
+
+function reply(id: string, response: ExtensionResponse<unknown>) {
+  const envelope: BridgeResponse = { source: CONTENT_SOURCE, id, response };
+  window.postMessage(envelope, window.location.origin);
+}
+
+window.addEventListener('message', (event: MessageEvent) => {
+  // Only accept messages the page posted to itself
+  if (event.source !== window || !isBridgeRequest(event.data)) return;
+
+  const { id, message } = event.data;
+
+  if (!isPageMessage(message)) {
+    reply(id, { success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  sendMessage<unknown>(message)
+    .then((response) => reply(id, response))
+    .catch((error) => {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      reply(id, { success: false, error: errorMessage });
+    });
+});
+
+// Forward wallet events (lock, account changes) from the background to the page
+chrome.runtime.onMessage.addListener((msg: ProviderEventMessage) => {
+  if (msg?.type !== 'ProviderEvent') return;
+  const envelope: BridgeEvent = { source: CONTENT_SOURCE, event: msg.event };
+  window.postMessage(envelope, window.location.origin);
+});
@@ -0,0 +1,54 @@
+/**
+ * Ark-native provider exposed to pages as `window.ark`.
+ * Pages only see addresses, balance totals and results of actions the user
+ * approved in the popup; VTXOs and keys never leave the background worker.
+ */
+
+import { onProviderEvent, request } from './transport';
+import type { ProviderEventName } from '../lib/bridge';
+import type {
+  ArkGetAddressesResponse,
+  ArkGetBalanceResponse,
+  ArkSendToAddressResponse,
+  ArkSignPsbtResponse,
+} from '../types/messages';
+
+type Listener = () => void;
+
+export class ArkProvider {
+  private listeners = new Map<ProviderEventName, Set<Listener>>();
+
+  constructor() {
+    onProviderEvent((event) => {
+      this.listeners.get(event)?.forEach((listener) => listener());
+    });
+  }
+
+  getAddresses(): Promise<ArkGetAddressesResponse> {
+    return request<ArkGetAddressesResponse>({ type: 'ArkGetAddresses' });
+  }
+
+  getBalance(): Promise<ArkGetBalanceResponse> {
+    return request<ArkGetBalanceResponse>({ type: 'ArkGetBalance' });
+  }
+
+  async sendToArkAddress(address: string, amount: number): Promise<ArkSendToAddressResponse> {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new Error('Invalid amount');
+    }
+    return request<ArkSendToAddressResponse>({ type: 'ArkSendToAddress', payload: { address, amount } });
+  }
+
+  signPsbt(psbt: string): Promise<ArkSignPsbtResponse> {
+    return request<ArkSignPsbtResponse>({ type: 'ArkSignPsbt', payload: { psbt } });
+  }
+
+  on(event: ProviderEventName, listener: Listener): void {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)?.add(listener);
+  }
+
+  off(event: ProviderEventName, listener: Listener): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Injected Provider - CoinOp
+ * Runs in the page's MAIN world and exposes the wallet providers on `window`.
+ * Has no extension privileges; every call is relayed by the content script.
+ */
+
+import { WebLNProvider } from './webln';
+import { ArkProvider } from './ark';
+
+declare global {
+  interface Window {
+    webln?: WebLNProvider;
+    ark?: ArkProvider;
+  }
+}
+
+if (!window.webln) {
+  window.webln = new WebLNProvider();
+  window.dispatchEvent(new Event('webln:ready'));
+}
+
+if (!window.ark) {
+  window.ark = new ArkProvider();
+  window.dispatchEvent(new Event('ark:ready'));
+}
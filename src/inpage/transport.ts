@@ -0,0 +1,57 @@
+/**
+ * Page-side transport for the injected providers.
+ * Posts bridge requests to the content script and resolves them by id.
+ */
+
+import { INPAGE_SOURCE, isBridgeEvent, isBridgeResponse } from '../lib/bridge';
+import type { BridgeRequest, ProviderEventName } from '../lib/bridge';
+import type { Message } from '../types/messages';
+
+const pending = new Map<string, { resolve: (data: unknown) => void; reject: (error: Error) => void }>();
+const eventListeners = new Set<(event: ProviderEventName) => void>();
+
+window.addEventListener('message', (event: MessageEvent) => {
+  if (event.source !== window) return;
+
+  if (isBridgeEvent(event.data)) {
+    const name = event.data.event;
+    eventListeners.forEach((listener) => listener(name));
+    return;
+  }
+
+  if (!isBridgeResponse(event.data)) return;
+
+  const request = pending.get(event.data.id);
+  if (!request) return;
+  pending.delete(event.data.id);
+
+  const { response } = event.data;
+  if (response.success) {
+    request.resolve(response.data);
+  } else {
+    request.reject(new Error(response.error || 'Request failed'));
+  }
+});
+
+/**
+ * Sends a message through the content script to the background worker.
+ * @param message - The message to send (must be on the page allowlist)
+ * @returns Promise that resolves with the response data or rejects with its error
+ * @template T - The expected response data type
+ */
+export function request<T>(message: Message): Promise<T> {
+  const id = crypto.randomUUID();
+  return new Promise<T>((resolve, reject) => {
+    pending.set(id, { resolve: (data) => resolve(data as T), reject });
+    const envelope: BridgeRequest = { source: INPAGE_SOURCE, id, message };
+    window.postMessage(envelope, window.location.origin);
+  });
+}
+
+/**
+ * Subscribes to wallet events forwarded by the content script.
+ * @param listener - Called with the event name for every event
+ */
+export function onProviderEvent(listener: (event: ProviderEventName) => void): void {
+  eventListeners.add(listener);
+}
@@ -0,0 +1,59 @@
+/**
+ * WebLN provider exposed to pages as `window.webln`.
+ * @see https://www.webln.guide/building-lightning-apps/webln-reference
+ */
+
+import { request } from './transport';
+import type {
+  WebLNEnableResponse,
+  WebLNGetInfoResponse,
+  WebLNSendPaymentResponse,
+  WebLNMakeInvoiceResponse,
+  WebLNSignMessageResponse,
+} from '../types/messages';
+
+type MakeInvoiceArgs = string | number | { amount?: string | number; defaultMemo?: string };
+
+export class WebLNProvider {
+  enabled = false;
+
+  async enable(): Promise<void> {
+    await request<WebLNEnableResponse>({ type: 'WebLNEnable' });
+    this.enabled = true;
+  }
+
+  async getInfo(): Promise<WebLNGetInfoResponse> {
+    this.assertEnabled();
+    return request<WebLNGetInfoResponse>({ type: 'WebLNGetInfo' });
+  }
+
+  async sendPayment(paymentRequest: string): Promise<WebLNSendPaymentResponse> {
+    this.assertEnabled();
+    return request<WebLNSendPaymentResponse>({ type: 'WebLNSendPayment', payload: { paymentRequest } });
+  }
+
+  async makeInvoice(args: MakeInvoiceArgs = {}): Promise<WebLNMakeInvoiceResponse> {
+    this.assertEnabled();
+    // WebLN allows a bare amount (string or number) as shorthand
+    const options = typeof args === 'object' ? args : { amount: args };
+    const amount = options.amount === undefined ? undefined : Number(options.amount);
+    if (amount !== undefined && (!Number.isInteger(amount) || amount <= 0)) {
+      throw new Error('Invalid amount');
+    }
+    return request<WebLNMakeInvoiceResponse>({
+      type: 'WebLNMakeInvoice',
+      payload: { amount, defaultMemo: options.defaultMemo },
+    });
+  }
+
+  async signMessage(message: string): Promise<WebLNSignMessageResponse> {
+    this.assertEnabled();
+    return request<WebLNSignMessageResponse>({ type: 'WebLNSignMessage', payload: { message } });
+  }
+
+  private assertEnabled() {
+    if (!this.enabled) {
+      throw new Error('Provider must be enabled before calling any other methods');
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Tests for account naming and numbering.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateAccountName,
+  normalizeAccountName,
+  nextAccountIndex,
+  parseAccounts,
+  DEFAULT_ACCOUNT,
+  MAX_ACCOUNT_NAME_LENGTH,
+} from './accounts';
+
+const ACCOUNTS = [
+  { index: 0, name: 'Spending' },
+  { index: 2, name: 'Test' },
+];
+
+describe('validateAccountName', () => {
+  it('should accept a new name', () => {
+    expect(validateAccountName('Savings', ACCOUNTS)).toBeNull();
+  });
+
+  it('should reject empty and overlong names', () => {
+    expect(validateAccountName('   ', ACCOUNTS)).toBe('Account name is required');
+    expect(validateAccountName('x'.repeat(MAX_ACCOUNT_NAME_LENGTH + 1), ACCOUNTS)).toContain('at most');
+  });
+
+  it('should reject a name already taken, ignoring case and spacing', () => {
+    expect(validateAccountName(' test ', ACCOUNTS)).toBe('An account with this name already exists');
+  });
+
+  it('should let an account keep its own name when renamed', () => {
+    expect(validateAccountName('TEST', ACCOUNTS, 2)).toBeNull();
+    expect(validateAccountName('Test', ACCOUNTS, 0)).not.toBeNull();
+  });
+});
+
+describe('normalizeAccountName', () => {
+  it('should trim and collapse whitespace', () => {
+    expect(normalizeAccountName('  Rainy   day  ')).toBe('Rainy day');
+  });
+});
+
+describe('nextAccountIndex', () => {
+  it('should continue after the highest account number', () => {
+    expect(nextAccountIndex(ACCOUNTS)).toBe(3);
+    expect(nextAccountIndex([])).toBe(0);
+  });
+});
+
+describe('parseAccounts', () => {
+  it('should fall back to the default account', () => {
+    expect(parseAccounts(undefined)).toEqual([DEFAULT_ACCOUNT]);
+    expect(parseAccounts([{ name: 'No index' }])).toEqual([DEFAULT_ACCOUNT]);
+  });
+
+  it('should drop duplicates and sort by account number', () => {
+    expect(
+      parseAccounts([
+        { index: 2, name: 'Test' },
+        { index: 0, name: 'Spending', extra: true },
+        { index: 2, name: 'Duplicate' },
+        { index: -1, name: 'Negative' },
+      ])
+    ).toEqual([
+      { index: 0, name: 'Spending' },
+      { index: 2, name: 'Test' },
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Named accounts within one wallet.
+ * Each account is a BIP-86 account number on the vault's seed (m/86'/{coin}'/{index}'),
+ * so accounts share the vault and its password but never keys, balances or history.
+ */
+
+export interface Account {
+  index: number;
+  name: string;
+}
+
+export const DEFAULT_ACCOUNT: Account = { index: 0, name: 'Main' };
+
+export const MAX_ACCOUNT_NAME_LENGTH = 24;
+
+// Keeps the account list short. Restoring from the recovery phrase brings back account 0 only;
+// the others return with an encrypted backup, or by adding them again since numbers are handed out in order
+export const MAX_ACCOUNTS = 20;
+
+/**
+ * Trims an account name and collapses inner whitespace.
+ */
+export function normalizeAccountName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Checks a new or changed account name.
+ * @param name - The proposed name
+ * @param accounts - Existing accounts
+ * @param renaming - Index of the account being renamed, whose current name does not count as taken
+ * @returns A user-facing error message, or null if the name is acceptable
+ */
+export function validateAccountName(name: string, accounts: Account[], renaming?: number): string | null {
+  const normalized = normalizeAccountName(name);
+  if (normalized === '') {
+    return 'Account name is required';
+  }
+  if (normalized.length > MAX_ACCOUNT_NAME_LENGTH) {
+    return `Account name must be at most ${MAX_ACCOUNT_NAME_LENGTH} characters`;
+  }
+  const taken = accounts.some(
+    (account) => account.index !== renaming && account.name.toLowerCase() === normalized.toLowerCase()
+  );
+  return taken ? 'An account with this name already exists' : null;
+}
+
+/**
+ * Picks the account number for a new account: one past the highest in use.
+ * @param accounts - Existing accounts
+ * @returns The next BIP-86 account number
+ */
+export function nextAccountIndex(accounts: Account[]): number {
+  return accounts.reduce((next, account) => Math.max(next, account.index + 1), 0);
+}
+
+/**
+ * Validates an account list read from storage or a backup.
+ * @returns The well-formed accounts by account number, or just the default account if none are left
+ */
+export function parseAccounts(raw: unknown): Account[] {
+  const byIndex = new Map<number, Account>();
+  for (const account of Array.isArray(raw) ? raw : []) {
+    if (
+      typeof account === 'object' &&
+      account !== null &&
+      Number.isSafeInteger(account.index) &&
+      account.index >= 0 &&
+      typeof account.name === 'string' &&
+      !byIndex.has(account.index)
+    ) {
+      byIndex.set(account.index, { index: account.index, name: account.name });
+    }
+  }
+  return byIndex.size > 0 ? [...byIndex.values()].sort((a, b) => a.index - b.index) : [DEFAULT_ACCOUNT];
+}
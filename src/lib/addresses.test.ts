@@ -0,0 +1,172 @@
+/**
+ * Tests for the L1 receive address book.
+ * Covers the gap limit when handing out addresses and when scanning from the seed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  receiveAddress,
+  nextReceiveIndex,
+  checkReceiveAddresses,
+  discoverReceiveAddresses,
+  mergeReceiveAddresses,
+  isReceiveScanDue,
+  normalizeAddressLabel,
+  MAX_ADDRESS_LABEL_LENGTH,
+  RESCAN_INTERVAL_MS,
+} from './addresses';
+import type { ReceiveAddress } from './addresses';
+import { bip86ReceiveKeys, COIN_TYPES } from './keys';
+import { NETWORKS } from './networks';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const NOW = 1_750_000_000_000;
+
+function entry(index: number, used = false): ReceiveAddress {
+  return { index, address: `addr${index}`, used, issuedAt: NOW };
+}
+
+function book(count: number, used: number[] = []): ReceiveAddress[] {
+  return Array.from({ length: count }, (_, index) => entry(index, used.includes(index)));
+}
+
+// Pretends the chain has seen the given indices
+function chain(used: number[]) {
+  const looked: string[] = [];
+  const isUsed = async (address: string) => {
+    looked.push(address);
+    return used.includes(Number(address.slice('addr'.length)));
+  };
+  return { isUsed, looked };
+}
+
+const derive = (index: number) => `addr${index}`;
+
+describe('receiveAddress', () => {
+  // https://github.com/bitcoin/bips/blob/master/bip-0086.mediawiki#test-vectors
+  it('should match the BIP-86 vectors for the first two receive addresses', () => {
+    const keys = bip86ReceiveKeys(MNEMONIC, COIN_TYPES.mainnet);
+
+    expect(receiveAddress(keys(0), NETWORKS.mainnet)).toBe(
+      'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr'
+    );
+    expect(receiveAddress(keys(1), NETWORKS.mainnet)).toBe(
+      'bc1p4qhjn9zdvkux4e44uhx8tc55attvtyu358kutcqkudyccelu0was9fqzwh'
+    );
+  });
+
+  it('should use the test network encoding off mainnet', () => {
+    const keys = bip86ReceiveKeys(MNEMONIC, COIN_TYPES.testnet);
+
+    expect(receiveAddress(keys(1), NETWORKS.mutinynet)).toMatch(/^tb1p/);
+  });
+});
+
+describe('nextReceiveIndex', () => {
+  it('should hand out index 1 first, since the main address is index 0', () => {
+    expect(nextReceiveIndex([])).toBe(1);
+    expect(nextReceiveIndex(book(1))).toBe(1);
+  });
+
+  it('should hand out a new index for every request under the gap limit', () => {
+    expect(nextReceiveIndex(book(5))).toBe(5);
+    expect(nextReceiveIndex(book(5, [0, 2]), 3)).toBe(5);
+  });
+
+  it('should reuse the oldest unused address once the gap limit is reached', () => {
+    // Indices 3, 4 and 5 are unused after the last used index 2
+    expect(nextReceiveIndex(book(6, [2]), 3)).toBe(3);
+  });
+
+  it('should count the main address as used', () => {
+    expect(nextReceiveIndex(book(4), 3)).toBe(1);
+  });
+
+  it('should move on once a reused address is paid', () => {
+    expect(nextReceiveIndex(book(6, [2, 3]), 3)).toBe(6);
+  });
+});
+
+describe('checkReceiveAddresses', () => {
+  it('should flag newly used addresses without looking up used ones', async () => {
+    const { isUsed, looked } = chain([1, 2]);
+
+    const checked = await checkReceiveAddresses(book(3, [1]), isUsed);
+
+    expect(checked.map((a) => a.used)).toEqual([false, true, true]);
+    expect(looked).toEqual(['addr0', 'addr2']);
+  });
+});
+
+describe('discoverReceiveAddresses', () => {
+  it('should stop after gapLimit unused addresses on a fresh wallet', async () => {
+    const { isUsed, looked } = chain([]);
+
+    const found = await discoverReceiveAddresses([entry(0)], derive, isUsed, 3, NOW);
+
+    expect(found).toEqual([entry(0)]);
+    expect(looked).toEqual(['addr0', 'addr1', 'addr2']);
+  });
+
+  it('should find used addresses within the gap and keep looking past them', async () => {
+    const { isUsed, looked } = chain([0, 3, 5]);
+
+    const found = await discoverReceiveAddresses([entry(0)], derive, isUsed, 3, NOW);
+
+    expect(found).toEqual([entry(0, true), entry(3, true), entry(5, true)]);
+    expect(looked.at(-1)).toBe('addr8');
+  });
+
+  it('should not find addresses beyond the gap', async () => {
+    const { isUsed } = chain([0, 4]);
+
+    const found = await discoverReceiveAddresses([entry(0)], derive, isUsed, 3, NOW);
+
+    expect(found.map((a) => a.index)).toEqual([0]);
+  });
+
+  it('should scan past the last issued address and keep its labels', async () => {
+    const labelled = { ...entry(2), label: 'Invoice 42' };
+    const { isUsed } = chain([2, 4]);
+
+    const found = await discoverReceiveAddresses([entry(0, true), entry(1), labelled], derive, isUsed, 3, NOW);
+
+    expect(found).toEqual([entry(0, true), entry(1), { ...labelled, used: true }, entry(4, true)]);
+  });
+});
+
+describe('isReceiveScanDue', () => {
+  it('should scan an account that was never scanned', () => {
+    expect(isReceiveScanDue(null, NOW)).toBe(true);
+  });
+
+  it('should wait a full interval between scans', () => {
+    expect(isReceiveScanDue(NOW - RESCAN_INTERVAL_MS + 1, NOW)).toBe(false);
+    expect(isReceiveScanDue(NOW - RESCAN_INTERVAL_MS, NOW)).toBe(true);
+  });
+});
+
+describe('mergeReceiveAddresses', () => {
+  it('should keep addresses handed out and labels set during the scan', () => {
+    const saved = [entry(0), { ...entry(1), label: 'Rent' }, entry(2)];
+    const scanned = [entry(0, true), entry(1, true), entry(4, true)];
+
+    expect(mergeReceiveAddresses(saved, scanned)).toEqual([
+      entry(0, true),
+      { ...entry(1, true), label: 'Rent' },
+      entry(2),
+      entry(4, true),
+    ]);
+  });
+});
+
+describe('normalizeAddressLabel', () => {
+  it('should trim labels and drop empty ones', () => {
+    expect(normalizeAddressLabel('  Rent  ')).toBe('Rent');
+    expect(normalizeAddressLabel('   ')).toBeUndefined();
+  });
+
+  it('should cap the length', () => {
+    expect(normalizeAddressLabel('x'.repeat(100))).toHaveLength(MAX_ADDRESS_LABEL_LENGTH);
+  });
+});
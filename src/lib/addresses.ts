@@ -0,0 +1,156 @@
+/**
+ * L1 receive address book.
+ * Index 0 of an account's BIP-86 external chain is its main address: the SDK wallet
+ * is built on that key and on-chain change returns to it. Every Receive hands out a
+ * later index so incoming payments are not linked by a shared address. A wallet
+ * restored from its seed finds funds on those indices by deriving past the last used
+ * one until GAP_LIMIT consecutive addresses have never been used.
+ */
+
+import { p2tr } from '@scure/btc-signer';
+import { schnorr } from '@noble/curves/secp256k1';
+import type { NetworkConfig } from './networks';
+
+// Unused addresses a scan looks past before it stops, as in BIP-44
+export const GAP_LIMIT = 20;
+
+export const MAIN_ADDRESS_INDEX = 0;
+
+export const MAX_ADDRESS_LABEL_LENGTH = 64;
+
+// Funds only reach addresses past the book from another install of the seed, so a daily scan is enough
+export const RESCAN_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One address of the external chain that the wallet handed out or found in use.
+ */
+export interface ReceiveAddress {
+  index: number;
+  address: string;
+  label?: string;
+  // Whether the chain has seen a transaction paying to or spending from it
+  used: boolean;
+  // When it was handed out or found by a scan, ms since epoch
+  issuedAt: number;
+}
+
+/**
+ * Encodes the key-path P2TR address of a receive key.
+ * @param privateKey - Key at the address index
+ * @param network - Network whose address encoding to use
+ */
+export function receiveAddress(privateKey: Uint8Array, network: NetworkConfig): string {
+  const address = p2tr(schnorr.getPublicKey(privateKey), undefined, network.btcNetwork).address;
+  if (!address) throw new Error('Address encoding failed');
+  return address;
+}
+
+function lastUsedIndex(addresses: ReceiveAddress[]): number {
+  return addresses.reduce((last, entry) => (entry.used && entry.index > last ? entry.index : last), -1);
+}
+
+function lastIndex(addresses: ReceiveAddress[]): number {
+  return addresses.reduce((last, entry) => Math.max(last, entry.index), -1);
+}
+
+/**
+ * Picks the index the next Receive hands out.
+ * A new index is used while fewer than gapLimit unused ones follow the last used
+ * address; past that the oldest of them is handed out again, so a scan from the seed
+ * never stops short of an address that was paid.
+ * @param addresses - The address book, main address included
+ * @param gapLimit - Unused addresses allowed after the last used one
+ * @returns The index to hand out; it may already be in the book
+ */
+export function nextReceiveIndex(addresses: ReceiveAddress[], gapLimit: number = GAP_LIMIT): number {
+  // Change returns to the main address, so it counts as used even before it is paid
+  const lastUsed = Math.max(lastUsedIndex(addresses), MAIN_ADDRESS_INDEX);
+  const last = Math.max(lastIndex(addresses), MAIN_ADDRESS_INDEX);
+  if (last - lastUsed < gapLimit) return last + 1;
+
+  const oldestUnused = addresses
+    .filter((entry) => entry.index > lastUsed)
+    .reduce<ReceiveAddress | null>((oldest, entry) => (!oldest || entry.index < oldest.index ? entry : oldest), null);
+  return oldestUnused?.index ?? last + 1;
+}
+
+/**
+ * Marks the addresses the chain has seen used since the last check.
+ * Used addresses stay used, so only the others are looked up.
+ * @param addresses - The address book as saved
+ * @param isUsed - Looks an address up on chain
+ * @returns The address book with updated flags
+ */
+export async function checkReceiveAddresses(
+  addresses: ReceiveAddress[],
+  isUsed: (address: string) => Promise<boolean>
+): Promise<ReceiveAddress[]> {
+  const checked: ReceiveAddress[] = [];
+  for (const entry of addresses) {
+    checked.push(entry.used ? entry : { ...entry, used: await isUsed(entry.address) });
+  }
+  return checked;
+}
+
+/**
+ * Checks the address book, then derives past its last index until gapLimit
+ * consecutive addresses are unused. Used addresses found on the way are added.
+ * @param addresses - The address book as saved
+ * @param derive - Address at an index
+ * @param isUsed - Looks an address up on chain
+ * @param gapLimit - Consecutive unused addresses that end the scan
+ * @param now - Current time, ms since epoch
+ * @returns The address book with updated flags and any addresses found, by index
+ */
+export async function discoverReceiveAddresses(
+  addresses: ReceiveAddress[],
+  derive: (index: number) => string,
+  isUsed: (address: string) => Promise<boolean>,
+  gapLimit: number = GAP_LIMIT,
+  now: number = Date.now()
+): Promise<ReceiveAddress[]> {
+  const found = await checkReceiveAddresses(addresses, isUsed);
+  let lastUsed = lastUsedIndex(found);
+  for (let index = lastIndex(found) + 1; index - lastUsed <= gapLimit; index++) {
+    const address = derive(index);
+    if (await isUsed(address)) {
+      found.push({ index, address, used: true, issuedAt: now });
+      lastUsed = index;
+    }
+  }
+  return found.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Whether an account's address book is due a scan.
+ * It is scanned on first use, which covers imports and restores, then at most once per interval.
+ * @param lastScanAt - When the last scan finished, ms since epoch; null if never
+ * @param now - Current time, ms since epoch
+ */
+export function isReceiveScanDue(lastScanAt: number | null, now: number = Date.now()): boolean {
+  return lastScanAt === null || now - lastScanAt >= RESCAN_INTERVAL_MS;
+}
+
+/**
+ * Folds scan results into the address book as saved since the scan began, so
+ * addresses handed out or labelled meanwhile are kept.
+ * @param saved - The address book as saved now
+ * @param scanned - Result of discoverReceiveAddresses
+ * @returns The merged address book, by index
+ */
+export function mergeReceiveAddresses(saved: ReceiveAddress[], scanned: ReceiveAddress[]): ReceiveAddress[] {
+  const byIndex = new Map(saved.map((entry) => [entry.index, entry]));
+  for (const entry of scanned) {
+    const current = byIndex.get(entry.index);
+    byIndex.set(entry.index, current ? { ...current, used: current.used || entry.used } : entry);
+  }
+  return [...byIndex.values()].sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Trims a label and caps its length; empty labels are removed.
+ */
+export function normalizeAddressLabel(label: string): string | undefined {
+  const trimmed = label.trim().slice(0, MAX_ADDRESS_LABEL_LENGTH);
+  return trimmed || undefined;
+}
@@ -0,0 +1,336 @@
+/**
+ * Tests for the ASP client.
+ * Runs the parsers against captured server response shapes and checks error mapping.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  parseAspInfo,
+  parseVtxoList,
+  parseRound,
+  getAspInfo,
+  getAspVtxos,
+  getAspRound,
+  flatIntentFee,
+  offchainSendFee,
+  offchainSendCostError,
+  offchainSweepAmount,
+  AspError,
+  AspUnavailableError,
+  AspSchemaMismatchError,
+  AspNotFoundError,
+} from './asp';
+
+const ASP_URL = 'https://asp.example';
+
+// Mutinynet-style response: int64 fields as strings, no version, empty intent fee programs
+const RECORDED_INFO_MUTINYNET = {
+  pubkey: '03fa73c6e4876ffb2dfc961d763cca9abc73d4b88efcb8f5e7ff92dc55e9aa553d',
+  vtxoTreeExpiry: '604672',
+  unilateralExitDelay: '86400',
+  boardingExitDelay: '7776000',
+  roundInterval: '30',
+  network: 'mutinynet',
+  dust: '330',
+  forfeitAddress: 'tb1qfkmvkvvtjhxwdd8x2ufc2zdr3xufmyn8cjdmxq',
+  marketHour: null,
+  fees: {
+    intentFee: { offchainInput: '', offchainOutput: '', onchainInput: '0', onchainOutput: '200' },
+    txFeeRate: '',
+  },
+};
+
+// Older arkd response: numeric fields and no fees block
+const RECORDED_INFO_LEGACY = {
+  pubkey: '0222cd0b1f1ae7a1e8d5d1b5e9f1e0a3d3b9c6f2b5a4d3c2b1a0f9e8d7c6b5a4d3',
+  roundLifetime: 512,
+  unilateralExitDelay: 144,
+  roundInterval: 10,
+  network: 'regtest',
+  dust: 1000,
+  version: 'v0.3.0',
+};
+
+// /v1/vtxos/{address} body; vout 0 is omitted by the encoder
+const RECORDED_VTXOS = {
+  spendableVtxos: [
+    {
+      outpoint: { txid: 'aa'.repeat(32) },
+      amount: '50000',
+      roundTxid: 'bb'.repeat(32),
+      expireAt: '1735000000',
+      isPending: false,
+    },
+    {
+      outpoint: { txid: 'cc'.repeat(32), vout: 1 },
+      amount: '1200',
+      redeemTx: 'cHNidP8B',
+      isPending: true,
+    },
+  ],
+  spentVtxos: [],
+};
+
+// /v1/round/{txid} body with a two-level tree
+const RECORDED_ROUND = {
+  round: {
+    id: 'round-1',
+    roundTx: 'cHNidP8BAA==',
+    vtxoTree: {
+      levels: [
+        { nodes: [{ txid: '11'.repeat(32), tx: 'cHNidP8Broot', parentTxid: 'bb'.repeat(32) }] },
+        {
+          nodes: [
+            { txid: 'aa'.repeat(32), tx: 'cHNidP8Bleaf0', parentTxid: '11'.repeat(32) },
+            { txid: '22'.repeat(32), tx: 'cHNidP8Bleaf1', parentTxid: '11'.repeat(32) },
+          ],
+        },
+      ],
+    },
+    stage: 'ROUND_STAGE_FINALIZED',
+  },
+};
+
+function mockFetch(response: Response | Error) {
+  const fetchMock = vi.fn(async () => {
+    if (response instanceof Error) throw response;
+    return response;
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseAspInfo', () => {
+  it('should normalize a mutinynet response', () => {
+    const info = parseAspInfo(RECORDED_INFO_MUTINYNET);
+
+    expect(info).toEqual({
+      pubkey: RECORDED_INFO_MUTINYNET.pubkey,
+      version: 'unknown',
+      network: 'mutinynet',
+      unilateralExitDelay: 86_400,
+      boardingExitDelay: 7_776_000,
+      vtxoTreeExpiry: 604_672,
+      dust: 330,
+      fees: { offchainInput: '0', offchainOutput: '0', onchainInput: '0', onchainOutput: '200' },
+    });
+  });
+
+  it('should fill documented defaults for an older server', () => {
+    const info = parseAspInfo(RECORDED_INFO_LEGACY);
+
+    expect(info.version).toBe('v0.3.0');
+    expect(info.boardingExitDelay).toBe(288);
+    expect(info.vtxoTreeExpiry).toBe(0);
+    expect(info.fees.offchainInput).toBe('0');
+  });
+
+  it('should reject a malformed server key', () => {
+    expect(() => parseAspInfo({ ...RECORDED_INFO_MUTINYNET, pubkey: 'deadbeef' })).toThrow(AspSchemaMismatchError);
+  });
+
+  it('should reject a missing or non-numeric exit delay', () => {
+    const withoutDelay: Record<string, unknown> = { ...RECORDED_INFO_MUTINYNET };
+    delete withoutDelay.unilateralExitDelay;
+
+    expect(() => parseAspInfo(withoutDelay)).toThrow('unilateralExitDelay is missing');
+    expect(() => parseAspInfo({ ...RECORDED_INFO_MUTINYNET, unilateralExitDelay: 'soon' })).toThrow(
+      AspSchemaMismatchError
+    );
+  });
+
+  it('should reject bodies that are not objects', () => {
+    expect(() => parseAspInfo([])).toThrow(AspSchemaMismatchError);
+    expect(() => parseAspInfo('ok')).toThrow(AspSchemaMismatchError);
+  });
+});
+
+describe('flatIntentFee', () => {
+  it('should read constant programs and treat empty ones as free', () => {
+    expect(flatIntentFee('offchainInput', '')).toBe(0);
+    expect(flatIntentFee('offchainInput', '200')).toBe(200);
+    expect(flatIntentFee('offchainInput', '10.2')).toBe(11);
+  });
+
+  it('should refuse programs it cannot evaluate', () => {
+    expect(() => flatIntentFee('offchainOutput', 'amount * 0.01')).toThrow(AspSchemaMismatchError);
+  });
+});
+
+describe('offchainSendFee', () => {
+  const fees = { offchainInput: '10', offchainOutput: '5', onchainInput: '0', onchainOutput: '0' };
+
+  it('should be zero when the server charges nothing', () => {
+    expect(offchainSendFee({ ...fees, offchainInput: '0', offchainOutput: '0' }, [5_000], 1_000)).toBe(0);
+  });
+
+  it('should charge per spent VTXO and per output', () => {
+    // Largest VTXO covers it with change: 10 + 5 + 5
+    expect(offchainSendFee(fees, [1_000, 5_000], 3_000)).toBe(20);
+    // Both VTXOs are needed: 2 * 10 + 5 + 5
+    expect(offchainSendFee(fees, [1_000, 5_000], 5_500)).toBe(30);
+  });
+
+  it('should drop the change output when the VTXOs match exactly', () => {
+    expect(offchainSendFee(fees, [1_015], 1_000)).toBe(15);
+  });
+
+  it('should return null when the fee does not fit', () => {
+    expect(offchainSendFee(fees, [1_000], 1_000)).toBeNull();
+  });
+});
+
+describe('offchainSweepAmount', () => {
+  const fees = { offchainInput: '10', offchainOutput: '5', onchainInput: '0', onchainOutput: '0' };
+
+  it('should leave the fee for every VTXO and one output behind', () => {
+    // 2 * 10 + 5
+    expect(offchainSweepAmount(fees, [1_000, 5_000])).toBe(5_975);
+  });
+
+  it('should send a total the send fee calculation agrees with', () => {
+    const amount = offchainSweepAmount(fees, [1_000, 5_000])!;
+    expect(amount + offchainSendFee(fees, [1_000, 5_000], amount)!).toBe(6_000);
+  });
+
+  it('should send everything when the server charges nothing', () => {
+    expect(offchainSweepAmount({ ...fees, offchainInput: '0', offchainOutput: '0' }, [1_000, 5_000])).toBe(6_000);
+  });
+
+  it('should return null when the fee takes it all', () => {
+    expect(offchainSweepAmount(fees, [15])).toBeNull();
+  });
+});
+
+describe('offchainSendCostError', () => {
+  it('should accept a send that costs what was approved', () => {
+    expect(offchainSendCostError(3_000, 20, 3_020)).toBeNull();
+  });
+
+  it('should refuse a send whose fee went up since the preview', () => {
+    expect(offchainSendCostError(3_000, 30, 3_020)).toBe(
+      'Send now costs 3030 sats (30 fee), more than the 3020 sats approved'
+    );
+  });
+
+  it('should refuse a send with no approved total', () => {
+    expect(offchainSendCostError(3_000, 0, NaN)).not.toBeNull();
+  });
+});
+
+describe('parseVtxoList', () => {
+  it('should parse amounts and outpoints', () => {
+    const list = parseVtxoList(RECORDED_VTXOS);
+
+    expect(list.spendableVtxos).toEqual([
+      {
+        txid: 'aa'.repeat(32),
+        vout: 0,
+        value: 50_000,
+        roundTxid: 'bb'.repeat(32),
+        pending: false,
+        expiresAt: 1_735_000_000_000,
+      },
+      { txid: 'cc'.repeat(32), vout: 1, value: 1_200, pending: true },
+    ]);
+    expect(list.spentVtxos).toEqual([]);
+  });
+
+  it('should treat omitted lists as empty', () => {
+    expect(parseVtxoList({})).toEqual({ spendableVtxos: [], spentVtxos: [] });
+  });
+
+  it('should reject a VTXO without an outpoint', () => {
+    expect(() => parseVtxoList({ spendableVtxos: [{ amount: '1000' }] })).toThrow(
+      'spendableVtxos[0].outpoint is missing'
+    );
+  });
+});
+
+describe('parseRound', () => {
+  it('should parse the tree level by level', () => {
+    const round = parseRound(RECORDED_ROUND, 'bb'.repeat(32));
+
+    expect(round.id).toBe('round-1');
+    expect(round.vtxoTree.map((level) => level.length)).toEqual([1, 2]);
+    expect(round.vtxoTree[1][0]).toEqual({ txid: 'aa'.repeat(32), tx: 'cHNidP8Bleaf0', parentTxid: '11'.repeat(32) });
+  });
+
+  it('should reject a node without its transaction', () => {
+    const broken = { round: { vtxoTree: { levels: [{ nodes: [{ txid: '11'.repeat(32), parentTxid: 'bb' }] }] } } };
+
+    expect(() => parseRound(broken, 'bb'.repeat(32))).toThrow('tx is missing');
+  });
+});
+
+describe('getAspInfo', () => {
+  it('should fetch /v1/info and normalize it', async () => {
+    const fetchMock = mockFetch(jsonResponse(RECORDED_INFO_MUTINYNET));
+
+    const info = await getAspInfo(ASP_URL);
+
+    expect(fetchMock).toHaveBeenCalledWith(`${ASP_URL}/v1/info`);
+    expect(info.pubkey).toBe(RECORDED_INFO_MUTINYNET.pubkey);
+  });
+
+  it('should raise NotFound for a 404 because info has no fallback', async () => {
+    mockFetch(new Response('Not Found', { status: 404 }));
+
+    await expect(getAspInfo(ASP_URL)).rejects.toBeInstanceOf(AspNotFoundError);
+  });
+
+  it('should raise Unavailable for network failures and server errors', async () => {
+    mockFetch(new TypeError('Failed to fetch'));
+    await expect(getAspInfo(ASP_URL)).rejects.toBeInstanceOf(AspUnavailableError);
+
+    mockFetch(new Response('upstream timeout', { status: 503 }));
+    const error = await getAspInfo(ASP_URL).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AspUnavailableError);
+    expect((error as AspUnavailableError).status).toBe(503);
+  });
+
+  it('should raise Unavailable for a non-JSON body', async () => {
+    mockFetch(new Response('<html>maintenance</html>', { status: 200 }));
+
+    await expect(getAspInfo(ASP_URL)).rejects.toBeInstanceOf(AspUnavailableError);
+  });
+});
+
+describe('getAspVtxos', () => {
+  it('should fall back to empty lists when the address is unknown', async () => {
+    mockFetch(new Response('Not Found', { status: 404 }));
+
+    await expect(getAspVtxos(ASP_URL, 'tark1unknown')).resolves.toEqual({ spendableVtxos: [], spentVtxos: [] });
+  });
+
+  it('should still surface server errors', async () => {
+    mockFetch(new Response('internal', { status: 500 }));
+
+    await expect(getAspVtxos(ASP_URL, 'tark1address')).rejects.toBeInstanceOf(AspError);
+  });
+});
+
+describe('getAspRound', () => {
+  it('should fetch the round by txid', async () => {
+    const fetchMock = mockFetch(jsonResponse(RECORDED_ROUND));
+
+    const round = await getAspRound(ASP_URL, 'bb'.repeat(32));
+
+    expect(fetchMock).toHaveBeenCalledWith(`${ASP_URL}/v1/round/${'bb'.repeat(32)}`);
+    expect(round.roundTxid).toBe('bb'.repeat(32));
+  });
+
+  it('should raise NotFound for an unknown round', async () => {
+    mockFetch(new Response('Not Found', { status: 404 }));
+
+    await expect(getAspRound(ASP_URL, 'ff'.repeat(32))).rejects.toBeInstanceOf(AspNotFoundError);
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * Typed client for the Ark Service Provider (ASP) REST API.
+ * Validates and normalizes server responses instead of trusting their shape,
+ * and only substitutes data where an endpoint's fallback is declared below.
+ */
+
+/**
+ * Base class for every failure talking to the ASP.
+ */
+export class AspError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AspError';
+  }
+}
+
+/**
+ * The server could not be reached, returned a server error or a non-JSON body.
+ */
+export class AspUnavailableError extends AspError {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'AspUnavailableError';
+    this.status = status;
+  }
+}
+
+/**
+ * The server answered, but the body does not match what the wallet expects.
+ */
+export class AspSchemaMismatchError extends AspError {
+  readonly field: string;
+
+  constructor(field: string, detail: string) {
+    super(`Unexpected ASP response: ${field} ${detail}`);
+    this.name = 'AspSchemaMismatchError';
+    this.field = field;
+  }
+}
+
+/**
+ * The endpoint returned 404 and has no declared fallback.
+ */
+export class AspNotFoundError extends AspError {
+  readonly path: string;
+
+  constructor(path: string) {
+    super(`ASP endpoint not found: ${path}`);
+    this.name = 'AspNotFoundError';
+    this.path = path;
+  }
+}
+
+/**
+ * Intent fee programs; the server may send empty strings for "no fee".
+ */
+export interface AspIntentFees {
+  offchainInput: string;
+  offchainOutput: string;
+  onchainInput: string;
+  onchainOutput: string;
+}
+
+/**
+ * Normalized /v1/info response.
+ */
+export interface AspInfo {
+  pubkey: string;
+  version: string;
+  network: string;
+  unilateralExitDelay: number;
+  boardingExitDelay: number;
+  vtxoTreeExpiry: number;
+  dust: number;
+  fees: AspIntentFees;
+}
+
+export interface AspVtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  // Round whose VTXO tree holds this output; absent for out-of-round outputs
+  roundTxid?: string;
+  // Not yet settled in a round: the output only exists in a redeem transaction
+  pending: boolean;
+  // When the round's tree expires and the server may sweep the VTXO, ms since epoch
+  expiresAt?: number;
+}
+
+export interface AspVtxoList {
+  spendableVtxos: AspVtxo[];
+  spentVtxos: AspVtxo[];
+}
+
+/**
+ * One pre-signed transaction of a round's VTXO tree.
+ */
+export interface AspTreeNode {
+  txid: string;
+  // Base64 PSBT, signed by the round's cosigners
+  tx: string;
+  parentTxid: string;
+}
+
+/**
+ * Normalized /v1/round/{txid} response.
+ */
+export interface AspRound {
+  id: string;
+  roundTxid: string;
+  // Levels from the root (spending the round transaction) down to the leaves
+  vtxoTree: AspTreeNode[][];
+}
+
+// Reported when the server omits its version
+const UNKNOWN_VERSION = 'unknown';
+const DEFAULT_DUST = 546;
+
+/**
+ * Responses used when an endpoint answers 404. A new address has never been
+ * seen by the server, so "not found" means "no VTXOs" there and nowhere else.
+ */
+const NOT_FOUND_FALLBACKS = {
+  vtxos: (): AspVtxoList => ({ spendableVtxos: [], spentVtxos: [] }),
+};
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads an integer that gRPC-gateway may encode as a string (int64 fields).
+ */
+function readInteger(source: Json, field: string, fallback?: number): number {
+  const value = source[field];
+  if (value === undefined || value === null || value === '') {
+    if (fallback !== undefined) return fallback;
+    throw new AspSchemaMismatchError(field, 'is missing');
+  }
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isSafeInteger(parsed) || parsed < 0) {
+    throw new AspSchemaMismatchError(field, `is not a non-negative integer (${JSON.stringify(value)})`);
+  }
+  return parsed;
+}
+
+function readString(source: Json, field: string, fallback?: string): string {
+  const value = source[field];
+  if (typeof value === 'string' && value !== '') return value;
+  if (fallback !== undefined && (value === undefined || value === null || value === '')) return fallback;
+  throw new AspSchemaMismatchError(field, value === undefined ? 'is missing' : 'is not a string');
+}
+
+/**
+ * Validates and normalizes a raw /v1/info body.
+ * @param raw - Parsed JSON from the server
+ * @returns Normalized server info
+ * @throws AspSchemaMismatchError if a required field is missing or malformed
+ */
+export function parseAspInfo(raw: unknown): AspInfo {
+  if (!isObject(raw)) throw new AspSchemaMismatchError('info', 'is not an object');
+
+  const pubkey = readString(raw, 'pubkey');
+  if (!/^0[23][0-9a-fA-F]{64}$/.test(pubkey)) {
+    throw new AspSchemaMismatchError('pubkey', 'is not a compressed public key');
+  }
+
+  const unilateralExitDelay = readInteger(raw, 'unilateralExitDelay');
+  if (unilateralExitDelay === 0) {
+    throw new AspSchemaMismatchError('unilateralExitDelay', 'is zero');
+  }
+
+  const fees = isObject(raw.fees) ? raw.fees : {};
+  const intentFee = isObject(fees.intentFee) ? fees.intentFee : {};
+
+  return {
+    pubkey: pubkey.toLowerCase(),
+    version: readString(raw, 'version', UNKNOWN_VERSION),
+    network: readString(raw, 'network'),
+    unilateralExitDelay,
+    // Same default the SDK applies when the server does not report it
+    boardingExitDelay: readInteger(raw, 'boardingExitDelay', unilateralExitDelay * 2),
+    vtxoTreeExpiry: readInteger(raw, 'vtxoTreeExpiry', 0),
+    dust: readInteger(raw, 'dust', DEFAULT_DUST),
+    fees: {
+      offchainInput: readString(intentFee, 'offchainInput', '0'),
+      offchainOutput: readString(intentFee, 'offchainOutput', '0'),
+      onchainInput: readString(intentFee, 'onchainInput', '0'),
+      onchainOutput: readString(intentFee, 'onchainOutput', '0'),
+    },
+  };
+}
+
+/**
+ * Reads a fee program as a flat fee in sats.
+ * Programs that price by amount or expiry need an expression evaluator the wallet
+ * does not have; they are refused rather than shown as free.
+ * @param field - Name of the program, for the error
+ * @param program - The program as the server sent it
+ * @throws AspSchemaMismatchError if the program is not a constant
+ */
+export function flatIntentFee(field: keyof AspIntentFees, program: string): number {
+  const trimmed = program.trim();
+  if (trimmed === '') return 0;
+  const fee = Number(trimmed);
+  if (!Number.isFinite(fee) || fee < 0) {
+    throw new AspSchemaMismatchError(`fees.${field}`, `is not a flat fee the wallet can apply (${JSON.stringify(program)})`);
+  }
+  return Math.ceil(fee);
+}
+
+/**
+ * Picks VTXOs largest-first for an off-chain send and prices it with the server's
+ * intent fees: one offchainInput per spent VTXO and one offchainOutput for the
+ * recipient and for change.
+ * @param fees - Intent fees from the server info
+ * @param vtxoValues - Values of the spendable VTXOs in sats
+ * @param amount - Amount to send in sats
+ * @returns The fee in sats, or null if the VTXOs cannot cover the amount and fee
+ * @throws AspSchemaMismatchError if a fee program is not a constant
+ */
+export function offchainSendFee(fees: AspIntentFees, vtxoValues: number[], amount: number): number | null {
+  const perInput = flatIntentFee('offchainInput', fees.offchainInput);
+  const perOutput = flatIntentFee('offchainOutput', fees.offchainOutput);
+
+  let selected = 0;
+  let inputs = 0;
+  for (const value of [...vtxoValues].sort((a, b) => b - a)) {
+    selected += value;
+    inputs++;
+    const exactFee = inputs * perInput + perOutput;
+    if (selected === amount + exactFee) return exactFee;
+    const withChange = exactFee + perOutput;
+    if (selected >= amount + withChange) return withChange;
+  }
+  return null;
+}
+
+/**
+ * Works out how much an off-chain send of every VTXO can deliver: all of them are
+ * spent into a single output, so there is no change.
+ * @param fees - Intent fees from the server info
+ * @param vtxoValues - Values of the spendable VTXOs in sats
+ * @returns The amount the recipient gets in sats, or null if the fee takes it all
+ * @throws AspSchemaMismatchError if a fee program is not a constant
+ */
+export function offchainSweepAmount(fees: AspIntentFees, vtxoValues: number[]): number | null {
+  const fee = vtxoValues.length * flatIntentFee('offchainInput', fees.offchainInput)
+    + flatIntentFee('offchainOutput', fees.offchainOutput);
+  const amount = vtxoValues.reduce((sum, value) => sum + value, 0) - fee;
+  return amount > 0 ? amount : null;
+}
+
+/**
+ * Checks an off-chain send against the total the user approved. The server's fees
+ * and the VTXOs the send spends may have changed since the preview.
+ * @param amount - Amount to send in sats
+ * @param fee - Fee the send costs now, in sats
+ * @param maxTotal - The most the user agreed to spend, fee included
+ * @returns The error to show, or null if the send is within what was approved
+ */
+export function offchainSendCostError(amount: number, fee: number, maxTotal: number): string | null {
+  const total = amount + fee;
+  if (total <= maxTotal) return null;
+  return `Send now costs ${total} sats (${fee} fee), more than the ${maxTotal} sats approved`;
+}
+
+/**
+ * Validates and normalizes a raw /v1/vtxos/{address} body.
+ * @param raw - Parsed JSON from the server
+ * @returns Spendable and spent VTXOs with amounts as numbers
+ * @throws AspSchemaMismatchError if a VTXO is malformed
+ */
+export function parseVtxoList(raw: unknown): AspVtxoList {
+  if (!isObject(raw)) throw new AspSchemaMismatchError('vtxos', 'is not an object');
+
+  const readList = (field: string): AspVtxo[] => {
+    const list = raw[field] ?? [];
+    if (!Array.isArray(list)) throw new AspSchemaMismatchError(field, 'is not a list');
+    return list.map((item, index) => {
+      if (!isObject(item) || !isObject(item.outpoint)) {
+        throw new AspSchemaMismatchError(`${field}[${index}].outpoint`, 'is missing');
+      }
+      const roundTxid = readString(item, 'roundTxid', '');
+      // Unix seconds; 0 when the server does not report it
+      const expireAt = readInteger(item, 'expireAt', 0);
+      return {
+        txid: readString(item.outpoint, 'txid'),
+        // vout 0 is omitted by the JSON encoder
+        vout: readInteger(item.outpoint, 'vout', 0),
+        value: readInteger(item, 'amount'),
+        ...(roundTxid ? { roundTxid } : {}),
+        pending: item.isPending === true,
+        ...(expireAt ? { expiresAt: expireAt * 1000 } : {}),
+      };
+    });
+  };
+
+  return { spendableVtxos: readList('spendableVtxos'), spentVtxos: readList('spentVtxos') };
+}
+
+/**
+ * Validates and normalizes a raw /v1/round/{txid} body.
+ * @param raw - Parsed JSON from the server
+ * @param roundTxid - The round transaction that was requested
+ * @returns The round with its VTXO tree
+ * @throws AspSchemaMismatchError if the round or a tree node is malformed
+ */
+export function parseRound(raw: unknown, roundTxid: string): AspRound {
+  if (!isObject(raw) || !isObject(raw.round)) throw new AspSchemaMismatchError('round', 'is missing');
+  const round = raw.round;
+  const tree = isObject(round.vtxoTree) ? round.vtxoTree : {};
+  const levels = tree.levels ?? [];
+  if (!Array.isArray(levels)) throw new AspSchemaMismatchError('vtxoTree.levels', 'is not a list');
+
+  return {
+    id: readString(round, 'id', roundTxid),
+    roundTxid,
+    vtxoTree: levels.map((level, levelIndex) => {
+      const nodes = isObject(level) ? level.nodes ?? [] : [];
+      if (!Array.isArray(nodes)) throw new AspSchemaMismatchError(`vtxoTree.levels[${levelIndex}].nodes`, 'is not a list');
+      return nodes.map((node, nodeIndex) => {
+        if (!isObject(node)) {
+          throw new AspSchemaMismatchError(`vtxoTree.levels[${levelIndex}].nodes[${nodeIndex}]`, 'is not an object');
+        }
+        return {
+          txid: readString(node, 'txid'),
+          tx: readString(node, 'tx'),
+          parentTxid: readString(node, 'parentTxid'),
+        };
+      });
+    }),
+  };
+}
+
+/**
+ * Performs a GET against the ASP and parses the JSON body.
+ * @returns The parsed body, or null on 404
+ * @throws AspUnavailableError on network failures, non-2xx statuses other than 404, or invalid JSON
+ */
+async function getJson(baseUrl: string, path: string): Promise<unknown | null> {
+  let response: globalThis.Response;
+  try {
+    response = await fetch(`${baseUrl}${path}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'network error';
+    throw new AspUnavailableError(`ASP unreachable: ${message}`);
+  }
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new AspUnavailableError(`ASP returned ${response.status} for ${path}`, response.status);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new AspUnavailableError(`ASP returned invalid JSON for ${path}`, response.status);
+  }
+}
+
+/**
+ * Fetches the server's info (pubkey, delays, fees).
+ * @param baseUrl - ASP base URL (e.g. 'https://mutinynet.arkade.sh')
+ * @returns Promise that resolves with the normalized info
+ * @throws AspUnavailableError, AspNotFoundError or AspSchemaMismatchError
+ */
+export async function getAspInfo(baseUrl: string): Promise<AspInfo> {
+  const path = '/v1/info';
+  const body = await getJson(baseUrl, path);
+  if (body === null) throw new AspNotFoundError(path);
+  return parseAspInfo(body);
+}
+
+/**
+ * Fetches the VTXOs owned by an Ark address.
+ * @param baseUrl - ASP base URL
+ * @param address - Encoded Ark address
+ * @returns Promise that resolves with the VTXO lists (empty if the server has never seen the address)
+ * @throws AspUnavailableError or AspSchemaMismatchError
+ */
+export async function getAspVtxos(baseUrl: string, address: string): Promise<AspVtxoList> {
+  const body = await getJson(baseUrl, `/v1/vtxos/${address}`);
+  if (body === null) return NOT_FOUND_FALLBACKS.vtxos();
+  return parseVtxoList(body);
+}
+
+/**
+ * Fetches a round and its VTXO tree.
+ * @param baseUrl - ASP base URL
+ * @param roundTxid - The round transaction id
+ * @returns Promise that resolves with the round
+ * @throws AspUnavailableError, AspNotFoundError or AspSchemaMismatchError
+ */
+export async function getAspRound(baseUrl: string, roundTxid: string): Promise<AspRound> {
+  const path = `/v1/round/${roundTxid}`;
+  const body = await getJson(baseUrl, path);
+  if (body === null) throw new AspNotFoundError(path);
+  return parseRound(body, roundTxid);
+}
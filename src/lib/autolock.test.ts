@@ -0,0 +1,30 @@
+/**
+ * Tests for auto-lock settings.
+ * Verifies which timeouts are accepted from storage and messages.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isAutoLockMinutes, formatAutoLock, DEFAULT_AUTO_LOCK_MINUTES } from './autolock';
+
+describe('isAutoLockMinutes', () => {
+  it('should accept offered timeouts including never', () => {
+    expect(isAutoLockMinutes(DEFAULT_AUTO_LOCK_MINUTES)).toBe(true);
+    expect(isAutoLockMinutes(0)).toBe(true);
+  });
+
+  it('should reject anything else', () => {
+    expect(isAutoLockMinutes(7)).toBe(false);
+    expect(isAutoLockMinutes('15')).toBe(false);
+    expect(isAutoLockMinutes(-1)).toBe(false);
+    expect(isAutoLockMinutes(undefined)).toBe(false);
+  });
+});
+
+describe('formatAutoLock', () => {
+  it('should label each timeout', () => {
+    expect(formatAutoLock(0)).toBe('Never');
+    expect(formatAutoLock(1)).toBe('1 minute');
+    expect(formatAutoLock(15)).toBe('15 minutes');
+    expect(formatAutoLock(60)).toBe('1 hour');
+  });
+});
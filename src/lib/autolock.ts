@@ -0,0 +1,30 @@
+/**
+ * Auto-lock settings shared by the background timer and the settings screen.
+ */
+
+// 0 disables the inactivity timer; system lock and sleep still lock the wallet
+export const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60, 0] as const;
+
+export type AutoLockMinutes = (typeof AUTO_LOCK_OPTIONS)[number];
+
+export const DEFAULT_AUTO_LOCK_MINUTES: AutoLockMinutes = 15;
+
+/**
+ * Type guard for values read from storage or received in messages.
+ * @param value - Value to check
+ * @returns True if the value is one of the offered timeouts
+ */
+export function isAutoLockMinutes(value: unknown): value is AutoLockMinutes {
+  return AUTO_LOCK_OPTIONS.some((option) => option === value);
+}
+
+/**
+ * Formats a timeout for display.
+ * @param minutes - Timeout in minutes, 0 for never
+ * @returns Label such as '5 minutes' or 'Never'
+ */
+export function formatAutoLock(minutes: AutoLockMinutes): string {
+  if (minutes === 0) return 'Never';
+  if (minutes === 60) return '1 hour';
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+}
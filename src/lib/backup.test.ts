@@ -0,0 +1,108 @@
+/**
+ * Tests for backup files.
+ * Covers the encrypt/decrypt loop, version handling and merging into an existing wallet.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createBackupFile, openBackupFile, mergeBackupMetadata, BACKUP_FORMAT, BACKUP_VERSION } from './backup';
+import type { BackupContents } from './backup';
+import type { KdfParams } from './crypto';
+
+const PASSPHRASE = 'backup-passphrase';
+
+// Cheap Argon2id settings; the default KDF is covered by crypto.test.ts
+const FAST_KDF: KdfParams = { algorithm: 'argon2id', memoryKiB: 64, iterations: 1, parallelism: 1 };
+
+const CONTENTS: BackupContents = {
+  vault: '{"version":2,"kdf":{"algorithm":"argon2id"},"cipherText":"AA==","salt":"AA==","iv":"AA=="}',
+  network: 'signet',
+  accounts: [
+    { index: 0, name: 'Spending' },
+    { index: 1, name: 'Test' },
+  ],
+  labels: { ['ab'.repeat(32)]: 'Rent' },
+  contacts: [{ name: 'Alice', address: 'tark1alice' }],
+  connectedSites: [{ origin: 'https://shop.example', approvedAt: 1_700_000_000_000, permissions: ['readAddresses'] }],
+};
+
+describe('Backup files', () => {
+  it('should round-trip every section', async () => {
+    const file = await createBackupFile(CONTENTS, PASSPHRASE, FAST_KDF);
+
+    await expect(openBackupFile(file, PASSPHRASE)).resolves.toEqual(CONTENTS);
+  });
+
+  it('should record the format and version in the clear and nothing else', async () => {
+    const file = JSON.parse(await createBackupFile(CONTENTS, PASSPHRASE, FAST_KDF));
+
+    expect(file.format).toBe(BACKUP_FORMAT);
+    expect(file.version).toBe(BACKUP_VERSION);
+    expect(JSON.stringify(file)).not.toContain('Alice');
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const file = await createBackupFile(CONTENTS, PASSPHRASE, FAST_KDF);
+
+    await expect(openBackupFile(file, 'wrong-passphrase')).rejects.toThrow('Incorrect backup passphrase');
+  });
+
+  it('should reject files that are not backups', async () => {
+    await expect(openBackupFile('not json', PASSPHRASE)).rejects.toThrow('Not a Coin-Op backup file');
+    await expect(openBackupFile('{"cipherText":"AA=="}', PASSPHRASE)).rejects.toThrow('Not a Coin-Op backup file');
+  });
+
+  it('should refuse a backup from a newer release', async () => {
+    const file = JSON.parse(await createBackupFile(CONTENTS, PASSPHRASE, FAST_KDF));
+
+    await expect(openBackupFile(JSON.stringify({ ...file, version: BACKUP_VERSION + 1 }), PASSPHRASE)).rejects.toThrow(
+      'newer version of Coin-Op'
+    );
+  });
+
+  it('should default missing or malformed metadata instead of failing', async () => {
+    const partial = { vault: CONTENTS.vault, network: 'unknown-net', contacts: [{ name: 'No address' }] };
+    const file = await createBackupFile(partial as unknown as BackupContents, PASSPHRASE, FAST_KDF);
+
+    await expect(openBackupFile(file, PASSPHRASE)).resolves.toEqual({
+      vault: CONTENTS.vault,
+      network: 'mutinynet',
+      accounts: [{ index: 0, name: 'Main' }],
+      labels: {},
+      contacts: [],
+      connectedSites: [],
+    });
+  });
+
+  it('should reject a backup without a vault', async () => {
+    const file = await createBackupFile({ ...CONTENTS, vault: '' }, PASSPHRASE, FAST_KDF);
+
+    await expect(openBackupFile(file, PASSPHRASE)).rejects.toThrow('Backup does not contain a wallet');
+  });
+});
+
+describe('mergeBackupMetadata', () => {
+  it('should keep current entries and add new ones', () => {
+    const txid = 'ab'.repeat(32);
+    const merged = mergeBackupMetadata(
+      {
+        labels: { [txid]: 'Rent (March)' },
+        contacts: [{ name: 'Alice (work)', address: 'tark1alice' }],
+        connectedSites: [{ origin: 'https://shop.example', approvedAt: 1, permissions: ['readBalance'] }],
+      },
+      {
+        labels: { [txid]: 'Rent', ['cd'.repeat(32)]: 'Coffee' },
+        contacts: CONTENTS.contacts.concat({ name: 'Bob', address: 'tark1bob' }),
+        connectedSites: CONTENTS.connectedSites,
+      }
+    );
+
+    expect(merged.labels).toEqual({ [txid]: 'Rent (March)', ['cd'.repeat(32)]: 'Coffee' });
+    expect(merged.contacts).toEqual([
+      { name: 'Alice (work)', address: 'tark1alice' },
+      { name: 'Bob', address: 'tark1bob' },
+    ]);
+    expect(merged.connectedSites).toEqual([
+      { origin: 'https://shop.example', approvedAt: 1, permissions: ['readBalance', 'readAddresses'] },
+    ]);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Encrypted full-wallet backup files.
+ * The vault inside stays encrypted with the wallet password; the whole payload is
+ * encrypted again with a separate backup passphrase, so the file alone reveals nothing.
+ *
+ * File format (JSON):
+ *   { format: 'coinop-backup', version, createdAt, payload }
+ * where payload is an encryptData envelope of the BackupContents JSON.
+ */
+
+import { encryptData, decryptData } from './crypto';
+import type { KdfParams } from './crypto';
+import { DEFAULT_NETWORK, isNetworkId } from './networks';
+import type { NetworkId } from './networks';
+import { PERMISSION_LABELS } from './bridge';
+import { parseAccounts } from './accounts';
+import type { Account } from './accounts';
+import type { ConnectedSite, Contact, SitePermission, TransactionLabels } from '../types/messages';
+
+export const BACKUP_FORMAT = 'coinop-backup';
+export const BACKUP_VERSION = 1;
+
+/**
+ * Everything a backup restores.
+ */
+export interface BackupContents {
+  vault: string;
+  network: NetworkId;
+  accounts: Account[];
+  labels: TransactionLabels;
+  contacts: Contact[];
+  connectedSites: ConnectedSite[];
+}
+
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  payload: string;
+}
+
+type Json = Record<string, unknown>;
+
+/**
+ * Upgrades decrypted contents of version N to version N + 1.
+ * When BACKUP_VERSION is bumped, add the step from the previous version here.
+ */
+const MIGRATIONS: Record<number, (contents: Json) => Json> = {};
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSitePermission(value: unknown): value is SitePermission {
+  return typeof value === 'string' && Object.hasOwn(PERMISSION_LABELS, value);
+}
+
+/**
+ * Validates decrypted contents, dropping malformed metadata rather than failing the restore.
+ * @throws Error if the vault itself is missing
+ */
+function parseContents(raw: Json): BackupContents {
+  if (typeof raw.vault !== 'string' || raw.vault === '') {
+    throw new Error('Backup does not contain a wallet');
+  }
+
+  const labels: TransactionLabels = {};
+  if (isObject(raw.labels)) {
+    for (const [txid, label] of Object.entries(raw.labels)) {
+      if (typeof label === 'string') labels[txid] = label;
+    }
+  }
+
+  const contacts = (Array.isArray(raw.contacts) ? raw.contacts : [])
+    .filter((contact): contact is Json => isObject(contact))
+    .filter((contact) => typeof contact.name === 'string' && typeof contact.address === 'string')
+    .map((contact) => ({ name: contact.name as string, address: contact.address as string }));
+
+  const connectedSites = (Array.isArray(raw.connectedSites) ? raw.connectedSites : [])
+    .filter((site): site is Json => isObject(site))
+    .filter((site) => typeof site.origin === 'string' && typeof site.approvedAt === 'number')
+    .map((site) => ({
+      origin: site.origin as string,
+      approvedAt: site.approvedAt as number,
+      permissions: (Array.isArray(site.permissions) ? site.permissions : []).filter(isSitePermission),
+    }));
+
+  return {
+    vault: raw.vault,
+    network: isNetworkId(raw.network) ? raw.network : DEFAULT_NETWORK,
+    accounts: parseAccounts(raw.accounts),
+    labels,
+    contacts,
+    connectedSites,
+  };
+}
+
+/**
+ * Serializes and encrypts a backup.
+ * @param contents - What to back up
+ * @param passphrase - The backup passphrase, independent of the wallet password
+ * @param kdf - Key derivation settings, the crypto.ts default unless a caller needs otherwise
+ * @returns The backup file as JSON text
+ */
+export async function createBackupFile(
+  contents: BackupContents,
+  passphrase: string,
+  kdf?: KdfParams
+): Promise<string> {
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    payload: await encryptData(JSON.stringify(contents), passphrase, kdf),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Decrypts a backup of this or any earlier version and upgrades it to the current contents.
+ * @param text - The backup file as JSON text
+ * @param passphrase - The backup passphrase
+ * @returns The validated contents
+ * @throws Error if the file is not a backup, comes from a newer release, or the passphrase is wrong
+ */
+export async function openBackupFile(text: string, passphrase: string): Promise<BackupContents> {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Not a Coin-Op backup file');
+  }
+  if (!isObject(file) || file.format !== BACKUP_FORMAT || typeof file.payload !== 'string') {
+    throw new Error('Not a Coin-Op backup file');
+  }
+  if (typeof file.version !== 'number' || !Number.isInteger(file.version) || file.version < 1) {
+    throw new Error('Backup file has an invalid version');
+  }
+  if (file.version > BACKUP_VERSION) {
+    throw new Error('Backup was made by a newer version of Coin-Op. Update the extension to import it.');
+  }
+
+  let decrypted: string;
+  try {
+    decrypted = await decryptData(file.payload, passphrase);
+  } catch {
+    throw new Error('Incorrect backup passphrase or corrupted file');
+  }
+
+  let contents: unknown = JSON.parse(decrypted);
+  for (let version = file.version; version < BACKUP_VERSION; version++) {
+    contents = MIGRATIONS[version](isObject(contents) ? contents : {});
+  }
+  if (!isObject(contents)) throw new Error('Backup does not contain a wallet');
+  return parseContents(contents);
+}
+
+/**
+ * The parts of a backup that can be merged into another wallet.
+ * Accounts are left out: their numbers only mean something for the vault they came with.
+ */
+export type BackupMetadata = Pick<BackupContents, 'labels' | 'contacts' | 'connectedSites'>;
+
+/**
+ * Adds a backup's metadata to the current wallet's without touching its vault, accounts or network.
+ * On a clash the current entry wins; site permissions are combined.
+ * @param current - The metadata already stored
+ * @param incoming - The backup being merged in
+ * @returns The merged metadata
+ */
+export function mergeBackupMetadata(current: BackupMetadata, incoming: BackupMetadata): BackupMetadata {
+  const knownAddresses = new Set(current.contacts.map((contact) => contact.address));
+  const sites = new Map(current.connectedSites.map((site) => [site.origin, site]));
+  for (const site of incoming.connectedSites) {
+    const existing = sites.get(site.origin);
+    sites.set(
+      site.origin,
+      existing
+        ? { ...existing, permissions: [...new Set([...existing.permissions, ...site.permissions])] }
+        : site
+    );
+  }
+
+  return {
+    labels: { ...incoming.labels, ...current.labels },
+    contacts: [...current.contacts, ...incoming.contacts.filter((contact) => !knownAddresses.has(contact.address))],
+    connectedSites: [...sites.values()],
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for boarding deposit tracking.
+ * Covers stage changes as deposits confirm, settle or vanish from the mempool.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { confirmationCount, updateDeposits, pendingBoardingTotal } from './boarding';
+import type { BoardingDeposit } from './boarding';
+
+const NOW = 1_750_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+const TXID = 'ab'.repeat(32);
+
+function utxo(confirmedAt?: number) {
+  return {
+    txid: TXID,
+    vout: 0,
+    value: 20_000,
+    status: confirmedAt === undefined ? { confirmed: false } : { confirmed: true, block_height: confirmedAt },
+  };
+}
+
+function deposit(overrides: Partial<BoardingDeposit>): BoardingDeposit {
+  return {
+    id: `${TXID}:0`,
+    txid: TXID,
+    vout: 0,
+    value: 20_000,
+    stage: 'broadcast',
+    confirmations: 0,
+    firstSeenAt: NOW - DAY,
+    ...overrides,
+  };
+}
+
+describe('confirmationCount', () => {
+  it('should count the including block', () => {
+    expect(confirmationCount({ confirmed: true, block_height: 100 }, 100)).toBe(1);
+    expect(confirmationCount({ confirmed: true, block_height: 100 }, 102)).toBe(3);
+  });
+
+  it('should report 0 while unconfirmed', () => {
+    expect(confirmationCount({ confirmed: false }, 100)).toBe(0);
+  });
+});
+
+describe('updateDeposits', () => {
+  it('should start tracking a new deposit', () => {
+    expect(updateDeposits([], [utxo()], 100, 1, NOW)).toEqual([
+      deposit({ stage: 'broadcast', confirmations: 0, firstSeenAt: NOW }),
+    ]);
+  });
+
+  it('should wait for the required confirmations before a deposit is ready', () => {
+    const [confirming] = updateDeposits([deposit({})], [utxo(100)], 101, 3, NOW);
+    expect(confirming).toMatchObject({ stage: 'confirming', confirmations: 2, firstSeenAt: NOW - DAY });
+
+    const [ready] = updateDeposits([confirming], [utxo(100)], 102, 3, NOW);
+    expect(ready).toMatchObject({ stage: 'ready', confirmations: 3 });
+  });
+
+  it('should make an unfinished settle ready again', () => {
+    const [retried] = updateDeposits([deposit({ stage: 'settling', confirmations: 1 })], [utxo(100)], 100, 1, NOW);
+
+    expect(retried.stage).toBe('ready');
+  });
+
+  it('should not settle a deposit again while the explorer still lists it', () => {
+    const settledAt = NOW - 60_000;
+    const [settled] = updateDeposits([deposit({ stage: 'settled', confirmations: 1, settledAt })], [utxo(100)], 101, 1, NOW);
+
+    expect(settled).toMatchObject({ stage: 'settled', confirmations: 2, settledAt });
+  });
+
+  it('should mark a confirmed deposit settled once a round spends it', () => {
+    const [settled] = updateDeposits([deposit({ stage: 'settling', confirmations: 1, error: 'Round failed' })], [], 101, 1, NOW);
+
+    expect(settled).toMatchObject({ stage: 'settled', settledAt: NOW, error: undefined });
+  });
+
+  it('should keep the round of a deposit the wallet settled itself', () => {
+    const settledAt = NOW - 60_000;
+    const [settled] = updateDeposits(
+      [deposit({ stage: 'settled', confirmations: 1, roundTxid: 'cd'.repeat(32), settledAt })],
+      [],
+      101,
+      1,
+      NOW
+    );
+
+    expect(settled).toMatchObject({ roundTxid: 'cd'.repeat(32), settledAt });
+  });
+
+  it('should forget a deposit that left the mempool unconfirmed', () => {
+    expect(updateDeposits([deposit({ stage: 'broadcast' })], [], 100, 1, NOW)).toEqual([]);
+  });
+
+  it('should drop settled deposits after a day', () => {
+    expect(updateDeposits([deposit({ stage: 'settled', settledAt: NOW - 2 * DAY })], [], 100, 1, NOW)).toEqual([]);
+  });
+});
+
+describe('pendingBoardingTotal', () => {
+  it('should leave out settled deposits', () => {
+    expect(
+      pendingBoardingTotal([
+        deposit({ stage: 'confirming', value: 5_000 }),
+        deposit({ stage: 'ready', value: 7_000 }),
+        deposit({ stage: 'settled', value: 20_000 }),
+      ])
+    ).toBe(12_000);
+  });
+});
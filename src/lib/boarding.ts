@@ -0,0 +1,132 @@
+/**
+ * Boarding lifecycle: L1 funds sent to the boarding address become VTXOs once a
+ * round includes them.
+ *
+ * Stages:
+ *   1. broadcast  - the deposit is in the mempool
+ *   2. confirming - mined, but short of the network's boarding confirmations
+ *   3. ready      - confirmed enough to be settled into the next round
+ *   4. settling   - registered for a round that has not finished yet
+ *   5. settled    - a round spent the deposit and the wallet holds the VTXO
+ */
+
+import { outpointId } from './exit';
+
+export type BoardingStage = 'broadcast' | 'confirming' | 'ready' | 'settling' | 'settled';
+
+export const BOARDING_STAGE_LABELS: Record<BoardingStage, string> = {
+  broadcast: 'Waiting for confirmation',
+  confirming: 'Confirming',
+  ready: 'Ready to settle',
+  settling: 'Settling into Ark',
+  settled: 'Received in Ark',
+};
+
+// Settled deposits stay listed this long so the user sees them arrive
+const SETTLED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One boarding output and how far it has come.
+ */
+export interface BoardingDeposit {
+  // Outpoint, "txid:vout"
+  id: string;
+  txid: string;
+  vout: number;
+  value: number;
+  stage: BoardingStage;
+  confirmations: number;
+  firstSeenAt: number;
+  // Round that took the deposit in
+  roundTxid?: string;
+  settledAt?: number;
+  // Last settle failure; cleared by the next attempt
+  error?: string;
+}
+
+/**
+ * A boarding UTXO as the SDK reports it.
+ */
+export interface BoardingUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  status: { confirmed: boolean; block_height?: number };
+}
+
+/**
+ * Counts confirmations of a transaction.
+ * @param status - Confirmation status from the explorer
+ * @param tipHeight - Height of the chain tip
+ * @returns 0 while unconfirmed, 1 once in the tip block, and so on
+ */
+export function confirmationCount(status: BoardingUtxo['status'], tipHeight: number): number {
+  if (!status.confirmed || status.block_height === undefined) return 0;
+  return Math.max(0, tipHeight - status.block_height + 1);
+}
+
+/**
+ * Brings tracked deposits up to date with the boarding UTXOs currently on chain.
+ * Deposits that disappear after confirming were spent by a round; unconfirmed ones
+ * that disappear were dropped or replaced and are forgotten.
+ * @param previous - Deposits as last saved
+ * @param utxos - Boarding UTXOs now unspent, mempool included
+ * @param tipHeight - Height of the chain tip
+ * @param required - Confirmations needed before settling
+ * @param now - Current time in ms since epoch
+ * @returns The updated deposits
+ */
+export function updateDeposits(
+  previous: BoardingDeposit[],
+  utxos: BoardingUtxo[],
+  tipHeight: number,
+  required: number,
+  now: number = Date.now()
+): BoardingDeposit[] {
+  const known = new Map(previous.map((deposit) => [deposit.id, deposit]));
+
+  const deposits: BoardingDeposit[] = utxos.map((utxo) => {
+    const id = outpointId(utxo);
+    const existing = known.get(id);
+    known.delete(id);
+    const confirmations = confirmationCount(utxo.status, tipHeight);
+    // The explorer may list a deposit for a moment after its round finished.
+    // A settle that never finished (e.g. the worker stopped) leaves it unspent, and it is simply ready again.
+    const stage: BoardingStage =
+      existing?.stage === 'settled'
+        ? 'settled'
+        : confirmations === 0
+          ? 'broadcast'
+          : confirmations < required
+            ? 'confirming'
+            : 'ready';
+    return {
+      ...existing,
+      id,
+      txid: utxo.txid,
+      vout: utxo.vout,
+      value: utxo.value,
+      stage,
+      confirmations,
+      firstSeenAt: existing?.firstSeenAt ?? now,
+    };
+  });
+
+  for (const deposit of known.values()) {
+    if (deposit.stage === 'broadcast') continue;
+    const settledAt = deposit.settledAt ?? now;
+    if (now - settledAt < SETTLED_RETENTION_MS) {
+      deposits.push({ ...deposit, stage: 'settled', settledAt, error: undefined });
+    }
+  }
+  return deposits;
+}
+
+/**
+ * Sums the deposits that have not reached Ark yet.
+ */
+export function pendingBoardingTotal(deposits: BoardingDeposit[]): number {
+  return deposits
+    .filter((deposit) => deposit.stage !== 'settled')
+    .reduce((sum, deposit) => sum + deposit.value, 0);
+}
@@ -0,0 +1,160 @@
+/**
+ * Tests for BOLT11 invoice decoding.
+ * Uses the examples from the BOLT11 specification, plus invoices signed here
+ * with a throwaway key to cover other networks and malformed input.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { bech32, hex, utf8 } from '@scure/base';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { sha256 } from '@noble/hashes/sha2';
+import { decodeInvoice, normalizeInvoice, isInvoiceExpired, InvoiceError } from './bolt11';
+
+// BOLT11 examples: a donation without an amount, and 2500u for a cup of coffee expiring in a minute
+const SPEC_DONATION =
+  'lnbc1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq9qrsgq357wnc5r2ueh7ck6q93dj32dlqnls087fxdwk8qakdyafkq3yap9us6v52vjjsrvywa6rt52cm9r9zqt8r2t7mlcwspyetp5h2tztugp9lfyql';
+const SPEC_COFFEE =
+  'lnbc2500u1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpu9qrsgquk0rl77nj30yxdy8j9vdx85fkpmdla2087ne0xh8nhedh8w27kyke0lp53ut353s06fv3qfegext0eh0ymjpf39tuven09sam30g4vgpfna3rh';
+const SPEC_PAYEE = '03e7156ae33b0a208d0744199163177e909e80176e55d97a2f221ede0f934dd9ad';
+const SPEC_PAYMENT_HASH = '0001020304050607080900010203040506070809000102030405060708090102';
+
+const PAYEE_KEY = hex.decode('11'.repeat(32));
+const PAYMENT_HASH = 'ab'.repeat(32);
+const TIMESTAMP = 1_750_000_000;
+
+function numberToWords(value: number, length: number): number[] {
+  const words: number[] = [];
+  for (let i = 0; i < length; i++) {
+    words.unshift(value % 32);
+    value = Math.floor(value / 32);
+  }
+  return words;
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+function tag(code: string, words: number[]): number[] {
+  return [BECH32_CHARSET.indexOf(code), ...numberToWords(words.length, 2), ...words];
+}
+
+function padWords(words: number[]): Uint8Array {
+  const bits = words.map((word) => word.toString(2).padStart(5, '0')).join('');
+  const padded = bits.padEnd(Math.ceil(bits.length / 8) * 8, '0');
+  return new Uint8Array(padded.match(/.{8}/g)!.map((byte) => parseInt(byte, 2)));
+}
+
+/**
+ * Builds and signs an invoice the way a Lightning node would.
+ */
+function signInvoice(options: {
+  hrp: string;
+  description?: string;
+  expiry?: number;
+  withPayee?: boolean;
+  paymentHash?: string;
+}): string {
+  const words = [
+    ...numberToWords(TIMESTAMP, 7),
+    ...tag('p', bech32.toWords(hex.decode(options.paymentHash ?? PAYMENT_HASH))),
+    ...(options.description !== undefined ? tag('d', bech32.toWords(utf8.decode(options.description))) : []),
+    ...(options.expiry !== undefined ? tag('x', numberToWords(options.expiry, 2)) : []),
+    ...(options.withPayee ? tag('n', bech32.toWords(secp256k1.getPublicKey(PAYEE_KEY, true))) : []),
+  ];
+  const message = sha256(new Uint8Array([...utf8.decode(options.hrp), ...padWords(words)]));
+  const signature = secp256k1.sign(message, PAYEE_KEY);
+  const signatureWords = bech32.toWords(new Uint8Array([...signature.toCompactRawBytes(), signature.recovery]));
+  return bech32.encode(options.hrp, [...words, ...signatureWords], false);
+}
+
+describe('decodeInvoice', () => {
+  it('should decode the specification example without an amount', () => {
+    expect(decodeInvoice(SPEC_DONATION)).toEqual({
+      currency: 'bc',
+      amountMsat: null,
+      amount: null,
+      paymentHash: SPEC_PAYMENT_HASH,
+      description: 'Please consider supporting this project',
+      payee: SPEC_PAYEE,
+      timestamp: 1_496_314_658_000,
+      expiresAt: 1_496_318_258_000,
+    });
+  });
+
+  it('should read the amount and expiry', () => {
+    const invoice = decodeInvoice(SPEC_COFFEE);
+    expect(invoice.amountMsat).toBe(250_000_000);
+    expect(invoice.amount).toBe(250_000);
+    expect(invoice.description).toBe('1 cup coffee');
+    expect(invoice.expiresAt - invoice.timestamp).toBe(60_000);
+    expect(invoice.payee).toBe(SPEC_PAYEE);
+  });
+
+  it('should accept a lightning: URI in upper case', () => {
+    expect(decodeInvoice(`LIGHTNING:${SPEC_COFFEE.toUpperCase()}`).paymentHash).toBe(SPEC_PAYMENT_HASH);
+  });
+
+  it('should decode signet and regtest invoices', () => {
+    const signet = decodeInvoice(signInvoice({ hrp: 'lntbs500u', description: 'test' }));
+    expect(signet.currency).toBe('tbs');
+    expect(signet.amount).toBe(50_000);
+    expect(signet.payee).toBe(hex.encode(secp256k1.getPublicKey(PAYEE_KEY, true)));
+
+    expect(decodeInvoice(signInvoice({ hrp: 'lnbcrt1m', description: 'test' })).currency).toBe('bcrt');
+  });
+
+  it('should round sub-satoshi amounts up', () => {
+    const invoice = decodeInvoice(signInvoice({ hrp: 'lntbs15010p', description: 'test' }));
+    expect(invoice.amountMsat).toBe(1_501);
+    expect(invoice.amount).toBe(2);
+  });
+
+  it('should check the signature against an explicit payee', () => {
+    const invoice = decodeInvoice(signInvoice({ hrp: 'lntbs1u', description: 'test', withPayee: true }));
+    expect(invoice.payee).toBe(hex.encode(secp256k1.getPublicKey(PAYEE_KEY, true)));
+  });
+
+  it('should default the expiry to an hour', () => {
+    const invoice = decodeInvoice(signInvoice({ hrp: 'lntbs1u', description: 'test' }));
+    expect(invoice.expiresAt).toBe((TIMESTAMP + 3600) * 1000);
+  });
+
+  it('should reject a tampered invoice', () => {
+    const invoice = signInvoice({ hrp: 'lntbs1u', description: 'test', withPayee: true });
+    const { prefix, words } = bech32.decode(invoice as `${string}1${string}`, false);
+    // Swap the amount for a larger one; the checksum is recomputed, the signature is not
+    const tampered = bech32.encode(prefix.replace('1u', '9u'), words, false);
+    expect(() => decodeInvoice(tampered)).toThrow('signature does not match');
+  });
+
+  it('should reject an invoice without a payment hash or description', () => {
+    expect(() => decodeInvoice(signInvoice({ hrp: 'lntbs1u' }))).toThrow('no description');
+    expect(() => decodeInvoice(signInvoice({ hrp: 'lntbs1u', description: 'test', paymentHash: 'ab' }))).toThrow(
+      'no payment hash'
+    );
+  });
+
+  it('should reject malformed amounts', () => {
+    expect(() => decodeInvoice(signInvoice({ hrp: 'lntbs1p', description: 'test' }))).toThrow(InvoiceError);
+    expect(() => decodeInvoice(signInvoice({ hrp: 'lntbs01u', description: 'test' }))).toThrow('leading zeros');
+  });
+
+  it('should reject strings that are not invoices', () => {
+    expect(() => decodeInvoice('tark1qexample')).toThrow(InvoiceError);
+    expect(() => decodeInvoice(SPEC_COFFEE.slice(0, -1) + 'q')).toThrow('Not a valid Lightning invoice');
+    expect(() => decodeInvoice(bech32.encode('lntbs', [0, 1, 2], false))).toThrow('truncated');
+  });
+});
+
+describe('normalizeInvoice', () => {
+  it('should strip the URI scheme and whitespace', () => {
+    expect(normalizeInvoice('  lightning:LNBC1ABC ')).toBe('lnbc1abc');
+  });
+});
+
+describe('isInvoiceExpired', () => {
+  it('should expire at the expiry time', () => {
+    const invoice = decodeInvoice(SPEC_COFFEE);
+    expect(isInvoiceExpired(invoice, invoice.expiresAt - 1)).toBe(false);
+    expect(isInvoiceExpired(invoice, invoice.expiresAt)).toBe(true);
+  });
+});
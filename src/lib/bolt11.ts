@@ -0,0 +1,212 @@
+/**
+ * BOLT11 Lightning invoice decoding.
+ * Reads the fields the wallet shows before paying (amount, description, payee, expiry)
+ * and the payment hash the swap is bound to. The payee is recovered from the invoice
+ * signature, so a decoded invoice is also an authenticated one.
+ * @see https://github.com/lightning/bolts/blob/master/11-payment-encoding.md
+ */
+
+import { bech32, hex, utf8 } from '@scure/base';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { sha256 } from '@noble/hashes/sha2';
+
+/**
+ * The invoice is malformed, badly signed or otherwise cannot be paid.
+ */
+export class InvoiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvoiceError';
+  }
+}
+
+export interface DecodedInvoice {
+  // Currency prefix after "ln", e.g. 'bc' on mainnet or 'tbs' on signet
+  currency: string;
+  // Amount in millisatoshis, null for "any amount" invoices
+  amountMsat: number | null;
+  // Amount rounded up to whole sats, null for "any amount" invoices
+  amount: number | null;
+  paymentHash: string;
+  description?: string;
+  descriptionHash?: string;
+  // Compressed public key of the payee's node, hex
+  payee: string;
+  // Creation time, ms since epoch
+  timestamp: number;
+  // When the invoice stops being payable, ms since epoch
+  expiresAt: number;
+}
+
+// Bech32 characters of the tagged fields the wallet reads
+const TAG_PAYMENT_HASH = 1; // p
+const TAG_DESCRIPTION = 13; // d
+const TAG_PAYEE = 19; // n
+const TAG_DESCRIPTION_HASH = 23; // h
+const TAG_EXPIRY = 6; // x
+
+const TIMESTAMP_WORDS = 7;
+const SIGNATURE_WORDS = 104; // 64-byte signature and recovery id
+const DEFAULT_EXPIRY_SECONDS = 3600;
+const MSAT_PER_BTC = 100_000_000_000n;
+
+// Multipliers of the human-readable amount, as msat per unit
+const AMOUNT_MULTIPLIERS: Record<string, bigint> = {
+  m: MSAT_PER_BTC / 1_000n,
+  u: MSAT_PER_BTC / 1_000_000n,
+  n: MSAT_PER_BTC / 1_000_000_000n,
+};
+
+// Longest currencies first so 'bcrt' is not read as 'bc' with a bad amount
+const HRP_PATTERN = /^ln(bcrt|bc|tbs|tb|sb)(\d+)?([munp])?$/;
+
+function wordsToNumber(words: number[]): number {
+  return words.reduce((value, word) => value * 32 + word, 0);
+}
+
+/**
+ * Packs 5-bit words into bytes, zero-padding the last byte as BOLT11 signing does.
+ */
+function wordsToBytes(words: number[], pad: boolean): Uint8Array {
+  const bytes: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  for (const word of words) {
+    accumulator = (accumulator << 5) | word;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+    accumulator &= (1 << bits) - 1;
+  }
+  if (pad && bits > 0) bytes.push((accumulator << (8 - bits)) & 0xff);
+  return new Uint8Array(bytes);
+}
+
+function parseAmount(digits: string | undefined, multiplier: string | undefined): number | null {
+  if (digits === undefined) {
+    if (multiplier !== undefined) throw new InvoiceError('Invoice amount has no digits');
+    return null;
+  }
+  if (digits.length > 1 && digits.startsWith('0')) throw new InvoiceError('Invoice amount has leading zeros');
+
+  let msat: bigint;
+  if (multiplier === 'p') {
+    // Pico-bitcoin is a tenth of a millisatoshi; only whole millisatoshis are payable
+    if (!digits.endsWith('0')) throw new InvoiceError('Invoice amount is below a millisatoshi');
+    msat = BigInt(digits) / 10n;
+  } else {
+    msat = BigInt(digits) * (multiplier ? AMOUNT_MULTIPLIERS[multiplier] : MSAT_PER_BTC);
+  }
+  if (msat === 0n) throw new InvoiceError('Invoice amount is zero');
+  if (msat > BigInt(Number.MAX_SAFE_INTEGER)) throw new InvoiceError('Invoice amount is too large');
+  return Number(msat);
+}
+
+/**
+ * Strips a "lightning:" prefix and surrounding space, and lowercases the invoice.
+ */
+export function normalizeInvoice(invoice: string): string {
+  return invoice.trim().toLowerCase().replace(/^lightning:/, '');
+}
+
+/**
+ * Decodes and authenticates a BOLT11 invoice.
+ * @param invoice - The invoice, with or without a "lightning:" prefix, in either case
+ * @returns The decoded fields
+ * @throws InvoiceError if the invoice is malformed or its signature does not check out
+ */
+export function decodeInvoice(invoice: string): DecodedInvoice {
+  const normalized = normalizeInvoice(invoice);
+
+  let prefix: string;
+  let words: number[];
+  try {
+    // Invoices are longer than bech32's usual 90-character limit
+    ({ prefix, words } = bech32.decode(normalized as `${string}1${string}`, false));
+  } catch {
+    throw new InvoiceError('Not a valid Lightning invoice');
+  }
+
+  const hrp = HRP_PATTERN.exec(prefix);
+  if (!hrp) throw new InvoiceError('Not a valid Lightning invoice');
+  if (words.length < TIMESTAMP_WORDS + SIGNATURE_WORDS) throw new InvoiceError('Invoice is truncated');
+
+  const dataWords = words.slice(0, -SIGNATURE_WORDS);
+  const signature = wordsToBytes(words.slice(-SIGNATURE_WORDS), false);
+  const timestamp = wordsToNumber(dataWords.slice(0, TIMESTAMP_WORDS));
+
+  let paymentHash: string | undefined;
+  let description: string | undefined;
+  let descriptionHash: string | undefined;
+  let payee: string | undefined;
+  let expiry = DEFAULT_EXPIRY_SECONDS;
+
+  let position = TIMESTAMP_WORDS;
+  while (position < dataWords.length) {
+    if (position + 3 > dataWords.length) throw new InvoiceError('Invoice is truncated');
+    const tag = dataWords[position];
+    const length = wordsToNumber(dataWords.slice(position + 1, position + 3));
+    const field = dataWords.slice(position + 3, position + 3 + length);
+    if (field.length !== length) throw new InvoiceError('Invoice is truncated');
+    position += 3 + length;
+
+    // Fields of the wrong length are skipped, as BOLT11 requires of readers
+    if (tag === TAG_PAYMENT_HASH && length === 52) {
+      paymentHash ??= hex.encode(wordsToBytes(field, false));
+    } else if (tag === TAG_DESCRIPTION) {
+      description ??= utf8.encode(wordsToBytes(field, false));
+    } else if (tag === TAG_DESCRIPTION_HASH && length === 52) {
+      descriptionHash ??= hex.encode(wordsToBytes(field, false));
+    } else if (tag === TAG_PAYEE && length === 53) {
+      payee ??= hex.encode(wordsToBytes(field, false));
+    } else if (tag === TAG_EXPIRY) {
+      expiry = wordsToNumber(field);
+    }
+  }
+
+  if (!paymentHash) throw new InvoiceError('Invoice has no payment hash');
+  if (description === undefined && descriptionHash === undefined) {
+    throw new InvoiceError('Invoice has no description');
+  }
+
+  const message = sha256(new Uint8Array([...utf8.decode(prefix), ...wordsToBytes(dataWords, true)]));
+  const compact = signature.slice(0, 64);
+  if (payee) {
+    if (!secp256k1.verify(compact, message, hex.decode(payee), { lowS: false })) {
+      throw new InvoiceError('Invoice signature does not match its payee');
+    }
+  } else {
+    try {
+      payee = secp256k1.Signature.fromCompact(compact)
+        .addRecoveryBit(signature[64])
+        .recoverPublicKey(message)
+        .toHex(true);
+    } catch {
+      throw new InvoiceError('Invoice signature is invalid');
+    }
+  }
+
+  const amountMsat = parseAmount(hrp[2], hrp[3]);
+  return {
+    currency: hrp[1],
+    amountMsat,
+    amount: amountMsat === null ? null : Math.ceil(amountMsat / 1000),
+    paymentHash,
+    ...(description !== undefined ? { description } : {}),
+    ...(descriptionHash !== undefined ? { descriptionHash } : {}),
+    payee,
+    timestamp: timestamp * 1000,
+    expiresAt: (timestamp + expiry) * 1000,
+  };
+}
+
+/**
+ * Whether an invoice can no longer be paid.
+ * @param invoice - The decoded invoice
+ * @param now - Current time, ms since epoch
+ */
+export function isInvoiceExpired(invoice: Pick<DecodedInvoice, 'expiresAt'>, now: number = Date.now()): boolean {
+  return now >= invoice.expiresAt;
+}
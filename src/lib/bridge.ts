@@ -0,0 +1,153 @@
+/**
+ * Shared contract for the page <-> content script <-> background bridge.
+ * The injected provider (MAIN world) talks to the content script (ISOLATED world)
+ * over window.postMessage; the content script relays to the background worker.
+ */
+
+import type { Message, Response, SitePermission } from '../types/messages';
+
+export const INPAGE_SOURCE = 'coinop:inpage';
+export const CONTENT_SOURCE = 'coinop:content';
+
+/**
+ * Envelope posted by the injected provider to the content script.
+ */
+export interface BridgeRequest {
+  source: typeof INPAGE_SOURCE;
+  id: string;
+  message: Message;
+}
+
+/**
+ * Envelope posted by the content script back to the injected provider.
+ */
+export interface BridgeResponse {
+  source: typeof CONTENT_SOURCE;
+  id: string;
+  response: Response<unknown>;
+}
+
+/**
+ * Events the background broadcasts to pages through the content script.
+ */
+export type ProviderEventName = 'accountsChanged' | 'lock';
+
+/**
+ * Runtime message the background sends to content scripts via chrome.tabs.sendMessage,
+ * and to the extension's own pages (popup, approval window) via chrome.runtime.sendMessage.
+ */
+export interface ProviderEventMessage {
+  type: 'ProviderEvent';
+  event: ProviderEventName;
+}
+
+/**
+ * Envelope posted by the content script to forward a provider event to the page.
+ */
+export interface BridgeEvent {
+  source: typeof CONTENT_SOURCE;
+  event: ProviderEventName;
+}
+
+/**
+ * Message types a webpage is allowed to send, and the capability each one needs.
+ * Everything else (vault, keys, network settings) is reserved for the extension's own pages.
+ */
+const PAGE_MESSAGE_PERMISSIONS: Partial<Record<Message['type'], SitePermission>> = {
+  WebLNEnable: 'readAddresses',
+  WebLNGetInfo: 'readAddresses',
+  WebLNSendPayment: 'requestPayments',
+  WebLNMakeInvoice: 'readAddresses',
+  WebLNSignMessage: 'sign',
+  ArkGetAddresses: 'readAddresses',
+  ArkGetBalance: 'readBalance',
+  ArkSendToAddress: 'requestPayments',
+  ArkSignPsbt: 'sign',
+};
+
+/**
+ * Human-readable descriptions shown when a site asks for a capability.
+ */
+export const PERMISSION_LABELS: Record<SitePermission, string> = {
+  readAddresses: 'See your receive addresses',
+  readBalance: 'See your balance',
+  requestPayments: 'Request payments',
+  sign: 'Request signatures',
+};
+
+/**
+ * Checks whether a message may originate from a webpage.
+ * @param msg - The message to check
+ * @returns True if the message type is on the page allowlist
+ */
+export function isPageMessage(msg: Message): boolean {
+  // Own keys only, so inherited names like 'toString' are not allowlisted
+  return Object.hasOwn(PAGE_MESSAGE_PERMISSIONS, msg.type);
+}
+
+/**
+ * Looks up the capability a page message requires.
+ * @param msg - A message on the page allowlist
+ * @returns The required capability, or null if the message is not page-callable
+ */
+export function requiredPermission(msg: Message): SitePermission | null {
+  return isPageMessage(msg) ? (PAGE_MESSAGE_PERMISSIONS[msg.type] ?? null) : null;
+}
+
+/**
+ * Type guard for envelopes posted by the injected provider.
+ * @param data - Untrusted data from a window message event
+ * @returns True if data is a well-formed BridgeRequest
+ */
+export function isBridgeRequest(data: unknown): data is BridgeRequest {
+  if (typeof data !== 'object' || data === null) return false;
+  const candidate = data as Partial<BridgeRequest>;
+  return (
+    candidate.source === INPAGE_SOURCE &&
+    typeof candidate.id === 'string' &&
+    typeof candidate.message === 'object' &&
+    candidate.message !== null &&
+    typeof candidate.message.type === 'string'
+  );
+}
+
+/**
+ * Type guard for envelopes posted by the content script.
+ * @param data - Untrusted data from a window message event
+ * @returns True if data is a well-formed BridgeResponse
+ */
+export function isBridgeResponse(data: unknown): data is BridgeResponse {
+  if (typeof data !== 'object' || data === null) return false;
+  const candidate = data as Partial<BridgeResponse>;
+  return (
+    candidate.source === CONTENT_SOURCE &&
+    typeof candidate.id === 'string' &&
+    typeof candidate.response === 'object' &&
+    candidate.response !== null
+  );
+}
+
+/**
+ * Type guard for events forwarded by the content script.
+ * @param data - Untrusted data from a window message event
+ * @returns True if data is a well-formed BridgeEvent
+ */
+export function isBridgeEvent(data: unknown): data is BridgeEvent {
+  if (typeof data !== 'object' || data === null) return false;
+  const candidate = data as Partial<BridgeEvent>;
+  return (
+    candidate.source === CONTENT_SOURCE &&
+    (candidate.event === 'accountsChanged' || candidate.event === 'lock')
+  );
+}
+
+/**
+ * Type guard for provider events received by the extension's own pages.
+ * @param data - Runtime message
+ * @returns True if the message is a ProviderEventMessage
+ */
+export function isProviderEventMessage(data: unknown): data is ProviderEventMessage {
+  if (typeof data !== 'object' || data === null) return false;
+  const candidate = data as Partial<ProviderEventMessage>;
+  return candidate.type === 'ProviderEvent' && (candidate.event === 'accountsChanged' || candidate.event === 'lock');
+}
@@ -1,10 +1,26 @@
 /**
  * Tests for cryptographic functions.
- * Verifies encryption/decryption loop and error handling.
+ * Verifies encryption/decryption loop, error handling and migration of older vault formats.
  */
 
 import { describe, it, expect } from 'vitest';
-import { encryptData, decryptData } from './crypto';
+import { encryptData, decryptData, isVaultOutdated, DEFAULT_KDF, VAULT_VERSION } from './crypto';
+import type { KdfParams } from './crypto';
+
+const FIXTURE_PASSWORD = 'legacy-password';
+const FIXTURE_MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+// Version 1 vault as written before the envelope was versioned (PBKDF2-SHA256, 100k iterations)
+const VAULT_V1 = JSON.stringify({
+  cipherText:
+    '1ruc1cJRW11zEfJeQj4c1jC+rttGIjlnFaFG/4aprufRyEmldpfsswhTeyE4mZMRFIXB3lOuh4mwzkH3iEh+lLZ6lFfAiUJoieODUwqy/EtFgh3pxEGRNwQmbdqWRkWvEIqRafAqPZ0L1sXjOA==',
+  salt: '7EoRRUF/2lDl67yYwkwN+g==',
+  iv: 'dU51JHirgNIWoh1S',
+});
+
+// Cheap Argon2id settings so tests that do not exercise the default stay fast
+const WEAK_ARGON2: KdfParams = { algorithm: 'argon2id', memoryKiB: 64, iterations: 1, parallelism: 1 };
 
 describe('Crypto Functions', () => {
   it('should encrypt and decrypt data with correct password', async () => {
@@ -54,3 +70,94 @@ describe('Crypto Functions', () => {
     expect(decrypted2).toBe(plaintext);
   });
 });
+
+describe('Vault envelope', () => {
+  it('should write a versioned envelope naming the KDF', async () => {
+    const envelope = JSON.parse(await encryptData('secret', 'password', WEAK_ARGON2));
+
+    expect(envelope.version).toBe(VAULT_VERSION);
+    expect(envelope.kdf).toEqual(WEAK_ARGON2);
+    expect(Object.keys(envelope).sort()).toEqual(['cipherText', 'iv', 'kdf', 'salt', 'version']);
+  });
+
+  it('should use the memory-hard default KDF and consider it current', async () => {
+    const encrypted = await encryptData('secret', 'password');
+
+    expect(JSON.parse(encrypted).kdf).toEqual(DEFAULT_KDF);
+    expect(DEFAULT_KDF.algorithm).toBe('argon2id');
+    expect(isVaultOutdated(encrypted)).toBe(false);
+  });
+
+  it('should reject unknown versions and algorithms', async () => {
+    const envelope = JSON.parse(await encryptData('secret', 'password', WEAK_ARGON2));
+
+    await expect(decryptData(JSON.stringify({ ...envelope, version: 99 }), 'password')).rejects.toThrow(
+      'Unsupported vault version: 99'
+    );
+    await expect(
+      decryptData(JSON.stringify({ ...envelope, kdf: { algorithm: 'scrypt', n: 16384 } }), 'password')
+    ).rejects.toThrow('Unsupported key derivation parameters');
+  });
+
+  it('should reject absurd KDF parameters before deriving', async () => {
+    const envelope = JSON.parse(await encryptData('secret', 'password', WEAK_ARGON2));
+    const tampered = { ...envelope, kdf: { ...WEAK_ARGON2, memoryKiB: 64 * 1024 * 1024 } };
+
+    await expect(decryptData(JSON.stringify(tampered), 'password')).rejects.toThrow(
+      'Unsupported key derivation parameters'
+    );
+    expect(() => isVaultOutdated(JSON.stringify({ ...envelope, kdf: { algorithm: 'pbkdf2-sha256', iterations: 0 } })))
+      .toThrow('Unsupported key derivation parameters');
+  });
+
+  it('should reject an envelope missing its fields', async () => {
+    await expect(decryptData(JSON.stringify({ version: VAULT_VERSION }), 'password')).rejects.toThrow(
+      'Invalid encrypted data format'
+    );
+  });
+});
+
+describe('Vault migration', () => {
+  it('should decrypt a version 1 vault and flag it for re-encryption', async () => {
+    expect(await decryptData(VAULT_V1, FIXTURE_PASSWORD)).toBe(FIXTURE_MNEMONIC);
+    expect(isVaultOutdated(VAULT_V1)).toBe(true);
+  });
+
+  it('should reject a version 1 vault with the wrong password', async () => {
+    await expect(decryptData(VAULT_V1, 'wrong-password')).rejects.toThrow(
+      'Decryption failed: incorrect password or corrupted data'
+    );
+  });
+
+  it('should decrypt a version 2 PBKDF2 vault and flag it for re-encryption', async () => {
+    const encrypted = await encryptData(FIXTURE_MNEMONIC, FIXTURE_PASSWORD, {
+      algorithm: 'pbkdf2-sha256',
+      iterations: 100_000,
+    });
+
+    expect(await decryptData(encrypted, FIXTURE_PASSWORD)).toBe(FIXTURE_MNEMONIC);
+    expect(isVaultOutdated(encrypted)).toBe(true);
+  });
+
+  it('should flag an Argon2id vault weaker than the default', async () => {
+    const encrypted = await encryptData(FIXTURE_MNEMONIC, FIXTURE_PASSWORD, WEAK_ARGON2);
+
+    expect(await decryptData(encrypted, FIXTURE_PASSWORD)).toBe(FIXTURE_MNEMONIC);
+    expect(isVaultOutdated(encrypted)).toBe(true);
+  });
+
+  it('should not flag a vault stronger than the default', async () => {
+    const stronger: KdfParams = { algorithm: 'argon2id', memoryKiB: 19_456, iterations: 3, parallelism: 1 };
+    const envelope = JSON.parse(await encryptData('secret', 'password', WEAK_ARGON2));
+
+    expect(isVaultOutdated(JSON.stringify({ ...envelope, kdf: stronger }))).toBe(false);
+  });
+
+  it('should produce a current vault when re-encrypting a migrated one', async () => {
+    const mnemonic = await decryptData(VAULT_V1, FIXTURE_PASSWORD);
+    const upgraded = await encryptData(mnemonic, FIXTURE_PASSWORD);
+
+    expect(isVaultOutdated(upgraded)).toBe(false);
+    expect(await decryptData(upgraded, FIXTURE_PASSWORD)).toBe(FIXTURE_MNEMONIC);
+  });
+});
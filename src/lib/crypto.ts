@@ -1,16 +1,54 @@
 /**
  * Cryptographic utilities for secure key generation and storage.
- * Uses native Web Crypto API for AES-GCM encryption and PBKDF2 key derivation.
+ * Vaults are encrypted with AES-GCM under a password-derived key. The KDF and its
+ * parameters are recorded in a versioned envelope so they can be raised later.
+ *
+ * Vault formats:
+ *   - version 1: { cipherText, salt, iv }, implicitly PBKDF2-SHA256 with 100k iterations
+ *   - version 2: { version, kdf, cipherText, salt, iv }, KDF named in the envelope
  */
 
-const PBKDF2_ITERATIONS = 100_000;
-const PBKDF2_HASH = 'SHA-256';
+import { argon2idAsync } from '@noble/hashes/argon2';
+
 const AES_KEY_LENGTH = 256;
 const AES_ALGORITHM = 'AES-GCM';
 const IV_LENGTH = 12; // 96 bits for GCM
 const SALT_LENGTH = 16; // 128 bits
 
-interface EncryptedData {
+export const VAULT_VERSION = 2;
+
+export type KdfParams =
+  | { algorithm: 'pbkdf2-sha256'; iterations: number }
+  | { algorithm: 'argon2id'; memoryKiB: number; iterations: number; parallelism: number };
+
+/**
+ * KDF for new vaults: memory-hard Argon2id at the OWASP baseline (19 MiB, 2 passes).
+ */
+export const DEFAULT_KDF: KdfParams = { algorithm: 'argon2id', memoryKiB: 19_456, iterations: 2, parallelism: 1 };
+
+// The only KDF version 1 vaults ever used
+const LEGACY_KDF: KdfParams = { algorithm: 'pbkdf2-sha256', iterations: 100_000 };
+
+// Upper bounds so a tampered envelope cannot hang the worker or exhaust its memory
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+const MAX_ARGON2_MEMORY_KIB = 1_048_576;
+const MAX_ARGON2_ITERATIONS = 64;
+const MAX_ARGON2_PARALLELISM = 16;
+
+interface VaultEnvelope {
+  version: typeof VAULT_VERSION;
+  kdf: KdfParams;
+  cipherText: string;
+  salt: string;
+  iv: string;
+}
+
+/**
+ * Any supported vault format, normalized to carry its KDF explicitly.
+ */
+interface ParsedVault {
+  version: number;
+  kdf: KdfParams;
   cipherText: string;
   salt: string;
   iv: string;
@@ -42,14 +80,86 @@ function base64ToUint8Array(base64: string): Uint8Array {
   return bytes;
 }
 
+function isBoundedInteger(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max;
+}
+
+/**
+ * Validates KDF parameters read from a vault.
+ * @throws Error if the algorithm is unknown or a parameter is out of range
+ */
+function parseKdf(kdf: unknown): KdfParams {
+  const candidate = (typeof kdf === 'object' && kdf !== null ? kdf : {}) as Record<string, unknown>;
+  if (candidate.algorithm === 'pbkdf2-sha256' && isBoundedInteger(candidate.iterations, MAX_PBKDF2_ITERATIONS)) {
+    return { algorithm: 'pbkdf2-sha256', iterations: candidate.iterations };
+  }
+  if (
+    candidate.algorithm === 'argon2id' &&
+    isBoundedInteger(candidate.memoryKiB, MAX_ARGON2_MEMORY_KIB) &&
+    isBoundedInteger(candidate.iterations, MAX_ARGON2_ITERATIONS) &&
+    isBoundedInteger(candidate.parallelism, MAX_ARGON2_PARALLELISM)
+  ) {
+    return {
+      algorithm: 'argon2id',
+      memoryKiB: candidate.memoryKiB,
+      iterations: candidate.iterations,
+      parallelism: candidate.parallelism,
+    };
+  }
+  throw new Error('Unsupported key derivation parameters');
+}
+
+/**
+ * Parses any historical vault format.
+ * @throws Error if the JSON is malformed or the version is unknown
+ */
+function parseVault(encryptedJson: string): ParsedVault {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(encryptedJson);
+  } catch {
+    throw new Error('Invalid encrypted data format');
+  }
+  if (
+    typeof raw !== 'object' || raw === null ||
+    typeof raw.cipherText !== 'string' || typeof raw.salt !== 'string' || typeof raw.iv !== 'string'
+  ) {
+    throw new Error('Invalid encrypted data format');
+  }
+
+  const fields = { cipherText: raw.cipherText, salt: raw.salt, iv: raw.iv };
+  if (raw.version === undefined) {
+    return { version: 1, kdf: LEGACY_KDF, ...fields };
+  }
+  if (raw.version === VAULT_VERSION) {
+    return { version: VAULT_VERSION, kdf: parseKdf(raw.kdf), ...fields };
+  }
+  throw new Error(`Unsupported vault version: ${String(raw.version)}`);
+}
+
 /**
- * Derives a cryptographic key from a password using PBKDF2.
+ * Derives an AES-GCM key from a password.
  * @param password - The user-provided password
  * @param salt - Random salt for key derivation
+ * @param kdf - Algorithm and cost parameters
  * @returns A CryptoKey suitable for AES-GCM encryption
  */
-async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+async function deriveKey(password: string, salt: Uint8Array, kdf: KdfParams): Promise<CryptoKey> {
   const encoder = new TextEncoder();
+
+  if (kdf.algorithm === 'argon2id') {
+    const keyBytes = await argon2idAsync(encoder.encode(password), salt, {
+      m: kdf.memoryKiB,
+      t: kdf.iterations,
+      p: kdf.parallelism,
+      dkLen: AES_KEY_LENGTH / 8,
+    });
+    return crypto.subtle.importKey('raw', new Uint8Array(keyBytes), { name: AES_ALGORITHM }, false, [
+      'encrypt',
+      'decrypt',
+    ]);
+  }
+
   const passwordKey = await crypto.subtle.importKey(
     'raw',
     encoder.encode(password),
@@ -62,8 +172,8 @@ async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey>
     {
       name: 'PBKDF2',
       salt: new Uint8Array(salt),
-      iterations: PBKDF2_ITERATIONS,
-      hash: PBKDF2_HASH,
+      iterations: kdf.iterations,
+      hash: 'SHA-256',
     },
     passwordKey,
     {
@@ -75,19 +185,37 @@ async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey>
   );
 }
 
+/**
+ * Checks whether a KDF is cheaper to brute-force than another.
+ * Any PBKDF2 setting counts as weaker than Argon2id, which is memory-hard.
+ */
+function isWeakerKdf(kdf: KdfParams, target: KdfParams): boolean {
+  if (kdf.algorithm !== target.algorithm) {
+    return target.algorithm === 'argon2id';
+  }
+  if (kdf.algorithm === 'pbkdf2-sha256' && target.algorithm === 'pbkdf2-sha256') {
+    return kdf.iterations < target.iterations;
+  }
+  if (kdf.algorithm === 'argon2id' && target.algorithm === 'argon2id') {
+    return kdf.memoryKiB < target.memoryKiB || kdf.iterations < target.iterations;
+  }
+  return false;
+}
+
 /**
  * Encrypts data using AES-GCM with a password-derived key.
  * @param data - The plaintext data to encrypt
  * @param password - The user-provided password
- * @returns JSON string containing cipherText, salt, and iv (all base64-encoded)
+ * @param kdf - Key derivation settings, DEFAULT_KDF unless a caller needs otherwise
+ * @returns JSON string of a version 2 vault envelope (binary fields base64-encoded)
  */
-export async function encryptData(data: string, password: string): Promise<string> {
+export async function encryptData(data: string, password: string, kdf: KdfParams = DEFAULT_KDF): Promise<string> {
   // Generate random salt and IV
   const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
   const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
 
   // Derive key from password
-  const key = await deriveKey(password, salt);
+  const key = await deriveKey(password, salt, kdf);
 
   // Encode plaintext
   const encoder = new TextEncoder();
@@ -103,42 +231,34 @@ export async function encryptData(data: string, password: string): Promise<strin
     plaintext
   );
 
-  // Convert to base64 for storage
-  const cipherTextBase64 = uint8ArrayToBase64(new Uint8Array(ciphertext));
-  const saltBase64 = uint8ArrayToBase64(salt);
-  const ivBase64 = uint8ArrayToBase64(iv);
-
-  const encryptedData: EncryptedData = {
-    cipherText: cipherTextBase64,
-    salt: saltBase64,
-    iv: ivBase64,
+  const envelope: VaultEnvelope = {
+    version: VAULT_VERSION,
+    kdf,
+    cipherText: uint8ArrayToBase64(new Uint8Array(ciphertext)),
+    salt: uint8ArrayToBase64(salt),
+    iv: uint8ArrayToBase64(iv),
   };
 
-  return JSON.stringify(encryptedData);
+  return JSON.stringify(envelope);
 }
 
 /**
- * Decrypts data that was encrypted with encryptData.
- * @param encryptedJson - JSON string containing cipherText, salt, and iv
+ * Decrypts a vault in any supported format.
+ * @param encryptedJson - JSON string produced by encryptData, current or historical
  * @param password - The user-provided password
  * @returns The decrypted plaintext string
- * @throws Error if decryption fails (e.g., wrong password)
+ * @throws Error if decryption fails (e.g., wrong password) or the format is unsupported
  */
 export async function decryptData(encryptedJson: string, password: string): Promise<string> {
-  let encryptedData: EncryptedData;
-  try {
-    encryptedData = JSON.parse(encryptedJson);
-  } catch (error) {
-    throw new Error('Invalid encrypted data format');
-  }
+  const vault = parseVault(encryptedJson);
 
   // Decode base64 strings
-  const ciphertextArray = base64ToUint8Array(encryptedData.cipherText);
-  const salt = base64ToUint8Array(encryptedData.salt);
-  const iv = base64ToUint8Array(encryptedData.iv);
+  const ciphertextArray = base64ToUint8Array(vault.cipherText);
+  const salt = base64ToUint8Array(vault.salt);
+  const iv = base64ToUint8Array(vault.iv);
 
-  // Derive key from password using stored salt
-  const key = await deriveKey(password, salt);
+  // Derive key from password using stored salt and KDF
+  const key = await deriveKey(password, salt, vault.kdf);
 
   // Decrypt - create a new ArrayBuffer to ensure proper type
   let plaintext: ArrayBuffer;
@@ -152,7 +272,7 @@ export async function decryptData(encryptedJson: string, password: string): Prom
       key,
       ciphertextBuffer
     );
-  } catch (error) {
+  } catch {
     throw new Error('Decryption failed: incorrect password or corrupted data');
   }
 
@@ -161,3 +281,13 @@ export async function decryptData(encryptedJson: string, password: string): Prom
   return decoder.decode(plaintext);
 }
 
+/**
+ * Tells whether a vault should be re-encrypted with the current format and KDF.
+ * Call after a successful decrypt, while the password is at hand.
+ * @param encryptedJson - The stored vault
+ * @returns True if the vault uses an older version or a weaker KDF than DEFAULT_KDF
+ */
+export function isVaultOutdated(encryptedJson: string): boolean {
+  const vault = parseVault(encryptedJson);
+  return vault.version < VAULT_VERSION || isWeakerKdf(vault.kdf, DEFAULT_KDF);
+}
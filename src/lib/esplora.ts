@@ -0,0 +1,150 @@
+/**
+ * Minimal Esplora REST client for the calls the SDK does not expose.
+ * @see https://github.com/Blockstream/esplora/blob/master/API.md
+ */
+
+/**
+ * Subset of the Esplora transaction format used by the wallet.
+ */
+export interface EsploraTransaction {
+  txid: string;
+  fee: number;
+  vin: { prevout: { scriptpubkey_address?: string; value: number } | null }[];
+  vout: { scriptpubkey_address?: string; value: number }[];
+  status: { confirmed: boolean; block_height?: number; block_time?: number };
+}
+
+/**
+ * Fetches the most recent transactions touching an address (mempool first).
+ * @param baseUrl - Esplora API base URL
+ * @param address - The address to look up
+ * @returns Promise that resolves with up to 50 mempool and 25 confirmed transactions
+ * @throws Error if the explorer is unreachable or returns an error status
+ */
+export async function getAddressTransactions(baseUrl: string, address: string): Promise<EsploraTransaction[]> {
+  const response = await fetch(`${baseUrl}/address/${address}/txs`);
+  if (!response.ok) {
+    throw new Error(`Address history unavailable (${response.status})`);
+  }
+  return response.json();
+}
+
+/**
+ * Subset of the Esplora UTXO format used by the wallet.
+ */
+export interface EsploraUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  status: { confirmed: boolean; block_height?: number; block_time?: number };
+}
+
+/**
+ * Fetches the unspent outputs paying to an address, confirmed or not.
+ * @param baseUrl - Esplora API base URL
+ * @param address - The address to look up
+ * @returns Promise that resolves with the outputs
+ * @throws Error if the explorer is unreachable or returns an error status
+ */
+export async function getAddressUtxos(baseUrl: string, address: string): Promise<EsploraUtxo[]> {
+  const response = await fetch(`${baseUrl}/address/${address}/utxo`);
+  if (!response.ok) {
+    throw new Error(`Address outputs unavailable (${response.status})`);
+  }
+  return response.json();
+}
+
+/**
+ * Checks whether any transaction, confirmed or in the mempool, touches an address.
+ * @param baseUrl - Esplora API base URL
+ * @param address - The address to look up
+ * @returns Promise that resolves with true if the address has been used
+ * @throws Error if the explorer is unreachable or returns an error status
+ */
+export async function isAddressUsed(baseUrl: string, address: string): Promise<boolean> {
+  const response = await fetch(`${baseUrl}/address/${address}`);
+  if (!response.ok) {
+    throw new Error(`Address stats unavailable (${response.status})`);
+  }
+  const stats: { chain_stats: { tx_count: number }; mempool_stats: { tx_count: number } } = await response.json();
+  return stats.chain_stats.tx_count + stats.mempool_stats.tx_count > 0;
+}
+
+/**
+ * Fetches fee estimates keyed by confirmation target in blocks.
+ * @param baseUrl - Esplora API base URL (e.g. 'https://mutinynet.com/api')
+ * @returns Promise that resolves with sat/vB estimates, e.g. { "1": 12.3, "6": 4.1 }
+ * @throws Error if the explorer is unreachable or returns an error status
+ */
+export async function getFeeEstimates(baseUrl: string): Promise<Record<string, number>> {
+  const response = await fetch(`${baseUrl}/fee-estimates`);
+  if (!response.ok) {
+    throw new Error(`Fee estimates unavailable (${response.status})`);
+  }
+  return response.json();
+}
+
+/**
+ * Picks the estimate for a block target, falling back to the closest slower target.
+ * @param estimates - Estimates from getFeeEstimates
+ * @param target - Desired confirmation target in blocks
+ * @param minimum - Floor for the returned rate in sat/vB
+ * @returns Fee rate in sat/vB
+ */
+export function feeRateForTarget(estimates: Record<string, number>, target: number, minimum = 1): number {
+  const targets = Object.keys(estimates)
+    .map(Number)
+    .filter((t) => Number.isFinite(t) && t >= target)
+    .sort((a, b) => a - b);
+  const rate = targets.length > 0 ? estimates[String(targets[0])] : minimum;
+  return Math.max(minimum, Math.ceil(rate));
+}
+
+/**
+ * Broadcasts a signed raw transaction.
+ * @param baseUrl - Esplora API base URL
+ * @param txHex - The fully signed transaction in hex
+ * @returns Promise that resolves with the txid
+ * @throws Error with the explorer's rejection reason
+ */
+export async function broadcastTransaction(baseUrl: string, txHex: string): Promise<string> {
+  const response = await fetch(`${baseUrl}/tx`, { method: 'POST', body: txHex });
+  const body = await response.text();
+  if (!response.ok) {
+    throw new Error(`Broadcast rejected: ${body}`);
+  }
+  return body.trim();
+}
+
+/**
+ * Fetches the confirmation status of a transaction.
+ * @param baseUrl - Esplora API base URL
+ * @param txid - The transaction to look up
+ * @returns Promise that resolves with the status, or null if the explorer has never seen the transaction
+ * @throws Error if the explorer is unreachable or returns an error status
+ */
+export async function getTransactionStatus(
+  baseUrl: string,
+  txid: string
+): Promise<EsploraTransaction['status'] | null> {
+  const response = await fetch(`${baseUrl}/tx/${txid}/status`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Transaction status unavailable (${response.status})`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetches the height of the chain tip.
+ * @param baseUrl - Esplora API base URL
+ * @returns Promise that resolves with the block height
+ * @throws Error if the explorer is unreachable or returns an error status
+ */
+export async function getTipHeight(baseUrl: string): Promise<number> {
+  const response = await fetch(`${baseUrl}/blocks/tip/height`);
+  if (!response.ok) {
+    throw new Error(`Tip height unavailable (${response.status})`);
+  }
+  return Number(await response.text());
+}
@@ -0,0 +1,93 @@
+/**
+ * Tests for unilateral exit helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { exitBranch, csvSequence, estimateClaimableHeight, claimVsize, isExitCancellable } from './exit';
+import type { UnilateralExit } from './exit';
+
+const ROUND_TXID = 'rr'.repeat(32);
+
+// Root -> two inner nodes -> four leaves
+const TREE = [
+  [{ txid: 'root', tx: 'psbt-root', parentTxid: ROUND_TXID }],
+  [
+    { txid: 'left', tx: 'psbt-left', parentTxid: 'root' },
+    { txid: 'right', tx: 'psbt-right', parentTxid: 'root' },
+  ],
+  [
+    { txid: 'leaf-0', tx: 'psbt-leaf-0', parentTxid: 'left' },
+    { txid: 'leaf-1', tx: 'psbt-leaf-1', parentTxid: 'left' },
+    { txid: 'leaf-2', tx: 'psbt-leaf-2', parentTxid: 'right' },
+    { txid: 'leaf-3', tx: 'psbt-leaf-3', parentTxid: 'right' },
+  ],
+];
+
+describe('exitBranch', () => {
+  it('should return the path from the root to the leaf', () => {
+    expect(exitBranch(TREE, 'leaf-2', ROUND_TXID).map((node) => node.txid)).toEqual(['root', 'right', 'leaf-2']);
+  });
+
+  it('should handle a single-node tree', () => {
+    expect(exitBranch([TREE[0]], 'root', ROUND_TXID).map((node) => node.txid)).toEqual(['root']);
+  });
+
+  it('should reject a VTXO missing from the tree', () => {
+    expect(() => exitBranch(TREE, 'elsewhere', ROUND_TXID)).toThrow('VTXO not found in its round tree');
+  });
+
+  it('should reject a tree that does not reach the round', () => {
+    expect(() => exitBranch(TREE, 'leaf-0', 'another-round')).toThrow('does not lead back');
+  });
+});
+
+describe('csvSequence', () => {
+  it('should use block counts as is', () => {
+    expect(csvSequence({ type: 'blocks', value: 144 })).toBe(144);
+  });
+
+  it('should encode seconds in 512-second units with the type flag', () => {
+    expect(csvSequence({ type: 'seconds', value: 512 * 168 })).toBe((1 << 22) | 168);
+    // 86400 s is 168.75 units; rounding down would unlock early
+    expect(csvSequence({ type: 'seconds', value: 86_400 })).toBe((1 << 22) | 169);
+  });
+});
+
+describe('estimateClaimableHeight', () => {
+  it('should add the block delay', () => {
+    expect(estimateClaimableHeight(800_000, { type: 'blocks', value: 144 })).toBe(800_144);
+  });
+
+  it('should convert time delays at ten minutes per block', () => {
+    expect(estimateClaimableHeight(800_000, { type: 'seconds', value: 86_400 })).toBe(800_144);
+    expect(estimateClaimableHeight(800_000, { type: 'seconds', value: 601 })).toBe(800_002);
+  });
+});
+
+describe('claimVsize', () => {
+  it('should size a CSV exit spend to a P2TR output', () => {
+    // 38-byte CSV + CHECKSIG script; control block of 33 bytes plus one 32-byte sibling hash
+    expect(claimVsize(38, 65, 34)).toBe(138);
+  });
+});
+
+describe('isExitCancellable', () => {
+  const exit: UnilateralExit = {
+    id: 'leaf-0:0',
+    network: 'mutinynet',
+    account: 0,
+    vtxo: { txid: 'leaf-0', vout: 0, value: 10_000 },
+    branch: [],
+    exitLeaf: { script: '', controlBlock: '' },
+    vtxoScript: '',
+    timelock: { type: 'blocks', value: 144 },
+    step: 'unrolling',
+    startedAt: 1_750_000_000_000,
+  };
+
+  it('should allow cancelling until the leaf confirms', () => {
+    expect(isExitCancellable(exit)).toBe(true);
+    expect(isExitCancellable({ ...exit, step: 'waiting' })).toBe(false);
+    expect(isExitCancellable({ ...exit, step: 'claimed' })).toBe(false);
+  });
+});
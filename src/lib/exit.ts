@@ -0,0 +1,145 @@
+/**
+ * Unilateral exit: taking a VTXO on-chain without the Ark server's cooperation.
+ *
+ * Steps:
+ *   1. unrolling - broadcast the VTXO's branch of the round's pre-signed tree, root first
+ *   2. waiting   - the leaf is confirmed and the exit path's CSV timelock is counting down
+ *   3. claimable - the timelock has passed; the wallet key can spend the VTXO via its exit leaf
+ *   4. claimed   - the claim transaction paid the VTXO to the wallet's on-chain address
+ * An exit stores every transaction and script it still needs, so it can finish even if
+ * the server goes away once it has started. Until its leaf confirms it can be cancelled,
+ * which puts the VTXO back in the Ark balance.
+ */
+
+import type { AspTreeNode } from './asp';
+import type { NetworkId, Timelock } from './networks';
+
+export type ExitStep = 'unrolling' | 'waiting' | 'claimable' | 'claimed';
+
+export const EXIT_STEP_LABELS: Record<ExitStep, string> = {
+  unrolling: 'Broadcasting exit transactions',
+  waiting: 'Waiting for the exit timelock',
+  claimable: 'Ready to claim',
+  claimed: 'Claimed on-chain',
+};
+
+/**
+ * Persisted progress of one VTXO's exit.
+ */
+export interface UnilateralExit {
+  // VTXO outpoint, "txid:vout"
+  id: string;
+  network: NetworkId;
+  account: number;
+  vtxo: { txid: string; vout: number; value: number };
+  // Tree transactions from the root down to the VTXO's leaf, as signed PSBTs
+  branch: { txid: string; tx: string }[];
+  // Exit tapscript leaf of the VTXO output, hex
+  exitLeaf: { script: string; controlBlock: string };
+  // Output script of the VTXO, hex
+  vtxoScript: string;
+  timelock: Timelock;
+  step: ExitStep;
+  startedAt: number;
+  leafConfirmedHeight?: number;
+  claimableHeight?: number;
+  claimTxid?: string;
+  // Last error while advancing; the next attempt retries the same step
+  error?: string;
+}
+
+// BIP-68: bit 22 selects time-based locks, counted in 512-second units
+const SEQUENCE_TYPE_FLAG = 1 << 22;
+const SEQUENCE_GRANULARITY_SECONDS = 512;
+const AVERAGE_BLOCK_SECONDS = 600;
+
+// Witness-discounted sizes in vbytes
+const TX_OVERHEAD_VBYTES = 10.5;
+const INPUT_BASE_VBYTES = 41; // outpoint, empty scriptSig, sequence
+const OUTPUT_BASE_VBYTES = 9;
+const SCHNORR_SIGNATURE_BYTES = 64;
+
+/**
+ * Finds the chain of tree transactions leading from the round transaction to a VTXO.
+ * @param tree - The round's VTXO tree, level by level
+ * @param leafTxid - Txid of the VTXO's outpoint
+ * @param roundTxid - The round transaction the tree spends
+ * @returns Tree nodes ordered root first, ready to broadcast
+ * @throws Error if the VTXO is not in the tree or the tree does not lead back to the round
+ */
+export function exitBranch(tree: AspTreeNode[][], leafTxid: string, roundTxid: string): AspTreeNode[] {
+  const nodes = new Map(tree.flat().map((node) => [node.txid, node]));
+  const branch: AspTreeNode[] = [];
+
+  let current = nodes.get(leafTxid);
+  if (!current) throw new Error('VTXO not found in its round tree');
+  while (current) {
+    branch.unshift(current);
+    if (current.parentTxid === roundTxid) return branch;
+    if (branch.length > tree.length) break;
+    current = nodes.get(current.parentTxid);
+  }
+  throw new Error('Round tree does not lead back to the round transaction');
+}
+
+/**
+ * Encodes a relative timelock as a BIP-68 input sequence.
+ * Time-based locks round up to the next 512-second unit so the lock is always met.
+ * @param timelock - The exit path's CSV timelock
+ * @returns The nSequence value for the claim input
+ */
+export function csvSequence(timelock: Timelock): number {
+  if (timelock.type === 'blocks') return timelock.value;
+  return SEQUENCE_TYPE_FLAG | Math.ceil(timelock.value / SEQUENCE_GRANULARITY_SECONDS);
+}
+
+/**
+ * Estimates the block height from which the exit can be claimed.
+ * Time-based locks assume ten-minute blocks, so they are an estimate only.
+ * @param confirmedHeight - Height at which the leaf transaction confirmed
+ * @param timelock - The exit path's CSV timelock
+ * @returns The first block height at which the claim is expected to be valid
+ */
+export function estimateClaimableHeight(confirmedHeight: number, timelock: Timelock): number {
+  const blocks =
+    timelock.type === 'blocks' ? timelock.value : Math.ceil(timelock.value / AVERAGE_BLOCK_SECONDS);
+  return confirmedHeight + blocks;
+}
+
+/**
+ * Estimates the size of a claim: one tapscript input spent with a single signature, one output.
+ * @param scriptLength - Length of the exit leaf script in bytes
+ * @param controlBlockLength - Length of its control block in bytes
+ * @param outputScriptLength - Length of the destination output script in bytes
+ * @returns Size in vbytes, rounded up
+ */
+export function claimVsize(scriptLength: number, controlBlockLength: number, outputScriptLength: number): number {
+  // Item count, then each witness item with its length prefix
+  const witnessBytes = 1 + (1 + SCHNORR_SIGNATURE_BYTES) + (1 + scriptLength) + (1 + controlBlockLength);
+  return Math.ceil(
+    TX_OVERHEAD_VBYTES + INPUT_BASE_VBYTES + witnessBytes / 4 + OUTPUT_BASE_VBYTES + outputScriptLength
+  );
+}
+
+/**
+ * Formats an outpoint as the id used for exits, "txid:vout".
+ */
+export function outpointId(outpoint: { txid: string; vout: number }): string {
+  return `${outpoint.txid}:${outpoint.vout}`;
+}
+
+/**
+ * Tells whether an exit can still be cancelled.
+ * Until the leaf confirms the VTXO can be spent in Ark, so a stuck unroll can be given up;
+ * tree transactions already broadcast stay on-chain.
+ */
+export function isExitCancellable(exit: UnilateralExit): boolean {
+  return exit.step === 'unrolling';
+}
+
+/**
+ * Tells whether an exit still needs work.
+ */
+export function isExitActive(exit: UnilateralExit): boolean {
+  return exit.step !== 'claimed';
+}
@@ -0,0 +1,175 @@
+/**
+ * Tests for transaction history normalization.
+ * Verifies direction, amount and fee attribution and history merging.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fromEsploraTransaction, fromArkTransaction, mergeHistory } from './history';
+import type { EsploraTransaction } from './esplora';
+import type { HistoryEntry } from '../types/messages';
+
+const ONCHAIN = 'tb1pwallet';
+const FRESH = 'tb1pfresh';
+const BOARDING = 'tb1pboarding';
+const EXTERNAL = 'tb1qsomeoneelse';
+
+function tx(overrides: Partial<EsploraTransaction>): EsploraTransaction {
+  return {
+    txid: 'ab'.repeat(32),
+    fee: 200,
+    vin: [],
+    vout: [],
+    status: { confirmed: true, block_height: 100, block_time: 1_700_000_000 },
+    ...overrides,
+  };
+}
+
+describe('fromEsploraTransaction', () => {
+  it('should classify an incoming payment as received', () => {
+    const entry = fromEsploraTransaction(
+      tx({
+        vin: [{ prevout: { scriptpubkey_address: EXTERNAL, value: 60_000 } }],
+        vout: [
+          { scriptpubkey_address: ONCHAIN, value: 50_000 },
+          { scriptpubkey_address: EXTERNAL, value: 9_800 },
+        ],
+      }),
+      [ONCHAIN],
+      BOARDING
+    );
+
+    expect(entry).toMatchObject({ layer: 'onchain', direction: 'received', amount: 50_000, status: 'confirmed' });
+    expect(entry?.fee).toBeUndefined();
+    expect(entry?.timestamp).toBe(1_700_000_000_000);
+  });
+
+  it('should net out change and fee on an outgoing payment', () => {
+    const entry = fromEsploraTransaction(
+      tx({
+        vin: [{ prevout: { scriptpubkey_address: ONCHAIN, value: 100_000 } }],
+        vout: [
+          { scriptpubkey_address: EXTERNAL, value: 30_000 },
+          { scriptpubkey_address: ONCHAIN, value: 69_800 },
+        ],
+      }),
+      [ONCHAIN],
+      BOARDING
+    );
+
+    expect(entry).toMatchObject({
+      layer: 'onchain',
+      direction: 'sent',
+      amount: 30_000,
+      fee: 200,
+      counterparty: EXTERNAL,
+    });
+  });
+
+  it('should classify a transfer to the boarding address as a self transfer', () => {
+    const entry = fromEsploraTransaction(
+      tx({
+        vin: [{ prevout: { scriptpubkey_address: ONCHAIN, value: 100_000 } }],
+        vout: [{ scriptpubkey_address: BOARDING, value: 99_800 }],
+        status: { confirmed: false },
+      }),
+      [ONCHAIN],
+      BOARDING
+    );
+
+    expect(entry).toMatchObject({ layer: 'boarding', direction: 'self', amount: 99_800, fee: 200, status: 'pending' });
+  });
+
+  it('should ignore transactions that do not move wallet funds', () => {
+    const entry = fromEsploraTransaction(
+      tx({
+        vin: [{ prevout: { scriptpubkey_address: EXTERNAL, value: 10_000 } }],
+        vout: [{ scriptpubkey_address: EXTERNAL, value: 9_800 }],
+      }),
+      [ONCHAIN],
+      BOARDING
+    );
+
+    expect(entry).toBeNull();
+  });
+
+  it('should count payments to any of the wallet addresses', () => {
+    const entry = fromEsploraTransaction(
+      tx({
+        vin: [{ prevout: { scriptpubkey_address: ONCHAIN, value: 100_000 } }],
+        vout: [
+          { scriptpubkey_address: EXTERNAL, value: 30_000 },
+          { scriptpubkey_address: FRESH, value: 69_800 },
+        ],
+      }),
+      [ONCHAIN, FRESH],
+      BOARDING
+    );
+
+    expect(entry).toMatchObject({ direction: 'sent', amount: 30_000, fee: 200 });
+  });
+});
+
+describe('fromArkTransaction', () => {
+  it('should map an offchain receive', () => {
+    const entry = fromArkTransaction({
+      key: { boardingTxid: '', roundTxid: 'round1', redeemTxid: 'redeem1' },
+      type: 'RECEIVED',
+      amount: 5_000,
+      settled: false,
+      createdAt: 1_700_000_000_000,
+    });
+
+    expect(entry).toMatchObject({ id: 'ark:redeem1', layer: 'ark', direction: 'received', status: 'pending' });
+  });
+
+  it('should map a settled boarding to the boarding layer', () => {
+    const entry = fromArkTransaction({
+      key: { boardingTxid: 'board1', roundTxid: '', redeemTxid: '' },
+      type: 'RECEIVED',
+      amount: 99_800,
+      settled: true,
+      createdAt: 1_700_000_000_000,
+    });
+
+    expect(entry).toMatchObject({ id: 'boarding:board1', layer: 'boarding', status: 'settled' });
+  });
+});
+
+describe('mergeHistory', () => {
+  const recorded: HistoryEntry = {
+    id: 'boarding:board1',
+    layer: 'boarding',
+    direction: 'self',
+    amount: 99_800,
+    fee: 200,
+    status: 'pending',
+    timestamp: 1_000,
+    txid: 'board1',
+  };
+
+  it('should update status while keeping the recorded fee and direction', () => {
+    const merged = mergeHistory(
+      [recorded],
+      [{ ...recorded, direction: 'received', fee: undefined, status: 'settled', timestamp: 5_000 }]
+    );
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ direction: 'self', fee: 200, status: 'settled', timestamp: 1_000 });
+  });
+
+  it('should not move a settled entry back to confirmed', () => {
+    const settled = mergeHistory([recorded], [{ ...recorded, status: 'settled' }]);
+    const merged = mergeHistory(settled, [{ ...recorded, status: 'confirmed' }]);
+
+    expect(merged[0].status).toBe('settled');
+  });
+
+  it('should sort newest first', () => {
+    const merged = mergeHistory(
+      [recorded],
+      [{ ...recorded, id: 'ark:x', layer: 'ark', txid: 'x', timestamp: 9_000 }]
+    );
+
+    expect(merged.map((entry) => entry.id)).toEqual(['ark:x', 'boarding:board1']);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Transaction history normalization.
+ * Converts explorer and SDK records into HistoryEntry rows and merges them
+ * with the locally persisted history.
+ */
+
+import type { HistoryEntry } from '../types/messages';
+import type { EsploraTransaction } from './esplora';
+
+/**
+ * Minimal shape of the SDK's ArkTransaction.
+ */
+export interface ArkHistoryRecord {
+  key: { boardingTxid: string; roundTxid: string; redeemTxid: string };
+  type: string;
+  amount: number;
+  settled: boolean;
+  createdAt: number;
+}
+
+/**
+ * Builds the stable id for an entry so the same transaction from different sources merges.
+ */
+export function historyId(layer: HistoryEntry['layer'], txid: string): string {
+  return `${layer}:${txid}`;
+}
+
+/**
+ * Converts an explorer transaction into a history entry from the wallet's point of view.
+ * @param tx - Transaction touching one of the wallet's addresses
+ * @param onchainAddresses - The wallet's spendable L1 addresses: the main address and any handed out
+ * @param boardingAddress - The wallet's boarding address (funds there are on their way into Ark)
+ * @returns The entry, or null if the transaction does not move the wallet's funds
+ */
+export function fromEsploraTransaction(
+  tx: EsploraTransaction,
+  onchainAddresses: readonly string[],
+  boardingAddress: string
+): HistoryEntry | null {
+  const onchain = new Set(onchainAddresses);
+  const own = new Set([...onchainAddresses, boardingAddress]);
+
+  const spent = tx.vin.reduce(
+    (sum, input) => sum + (input.prevout && own.has(input.prevout.scriptpubkey_address ?? '') ? input.prevout.value : 0),
+    0
+  );
+  const toOnchain = tx.vout
+    .filter((output) => onchain.has(output.scriptpubkey_address ?? ''))
+    .reduce((sum, output) => sum + output.value, 0);
+  const toBoarding = tx.vout
+    .filter((output) => output.scriptpubkey_address === boardingAddress)
+    .reduce((sum, output) => sum + output.value, 0);
+  const external = tx.vout.find((output) => !own.has(output.scriptpubkey_address ?? ''));
+
+  const status: HistoryEntry['status'] = tx.status.confirmed ? 'confirmed' : 'pending';
+  const timestamp = tx.status.block_time ? tx.status.block_time * 1000 : Date.now();
+
+  if (toBoarding > 0) {
+    // Funds moving into the boarding output: from our own L1 coins, or deposited directly
+    return {
+      id: historyId('boarding', tx.txid),
+      layer: 'boarding',
+      direction: spent > 0 ? 'self' : 'received',
+      amount: toBoarding,
+      fee: spent > 0 ? tx.fee : undefined,
+      status,
+      timestamp,
+      txid: tx.txid,
+    };
+  }
+
+  const net = toOnchain - spent;
+  if (spent > 0 && net < 0) {
+    return {
+      id: historyId('onchain', tx.txid),
+      layer: 'onchain',
+      direction: 'sent',
+      amount: -net - tx.fee,
+      fee: tx.fee,
+      status,
+      timestamp,
+      txid: tx.txid,
+      counterparty: external?.scriptpubkey_address,
+    };
+  }
+  if (net > 0) {
+    return {
+      id: historyId('onchain', tx.txid),
+      layer: 'onchain',
+      direction: 'received',
+      amount: net,
+      status,
+      timestamp,
+      txid: tx.txid,
+    };
+  }
+  return null;
+}
+
+/**
+ * Converts an SDK Ark transaction (boarding, round or redeem) into a history entry.
+ */
+export function fromArkTransaction(record: ArkHistoryRecord): HistoryEntry {
+  const isBoarding = record.key.boardingTxid !== '';
+  const txid = record.key.boardingTxid || record.key.redeemTxid || record.key.roundTxid;
+  const layer: HistoryEntry['layer'] = isBoarding ? 'boarding' : 'ark';
+  return {
+    id: historyId(layer, txid),
+    layer,
+    direction: record.type === 'SENT' ? 'sent' : 'received',
+    amount: record.amount,
+    status: record.settled ? 'settled' : 'pending',
+    // Unconfirmed boarding transactions report createdAt = 0
+    timestamp: record.createdAt || Date.now(),
+    txid,
+  };
+}
+
+// Order of progress; a boarding deposit seen settled by the SDK is later re-reported as confirmed by the explorer
+const STATUS_RANK: Record<HistoryEntry['status'], number> = { pending: 0, confirmed: 1, settled: 2 };
+
+/**
+ * Merges new entries into the persisted history.
+ * Fields present on the incoming entry win; the earliest timestamp, the furthest-along
+ * status and any known fee are kept so locally recorded sends are not overwritten by sparser sources.
+ * @returns Merged entries, newest first
+ */
+export function mergeHistory(existing: HistoryEntry[], incoming: HistoryEntry[]): HistoryEntry[] {
+  const byId = new Map(existing.map((entry) => [entry.id, entry]));
+
+  for (const entry of incoming) {
+    const previous = byId.get(entry.id);
+    if (!previous) {
+      byId.set(entry.id, entry);
+      continue;
+    }
+    byId.set(entry.id, {
+      ...previous,
+      ...entry,
+      // Boarding deposits from our own coins stay 'self' even when the SDK reports them as received
+      direction: previous.direction === 'self' ? 'self' : entry.direction,
+      status: STATUS_RANK[previous.status] > STATUS_RANK[entry.status] ? previous.status : entry.status,
+      fee: entry.fee ?? previous.fee,
+      counterparty: entry.counterparty ?? previous.counterparty,
+      timestamp: Math.min(previous.timestamp, entry.timestamp),
+    });
+  }
+
+  return [...byId.values()].sort((a, b) => b.timestamp - a.timestamp);
+}
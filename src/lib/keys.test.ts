@@ -0,0 +1,116 @@
+/**
+ * Tests for key derivation.
+ * Uses the official BIP-86 vectors and a fixed vector for the legacy scheme.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { schnorr } from '@noble/curves/secp256k1';
+import { p2tr, NETWORK } from '@scure/btc-signer';
+import {
+  bip86Path,
+  deriveBip86PrivateKey,
+  bip86ReceiveKeys,
+  deriveIdentityKey,
+  deriveLegacyPrivateKey,
+  isLegacyCheckDue,
+  COIN_TYPES,
+  LEGACY_RECHECK_INTERVAL_MS,
+} from './keys';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+describe('bip86Path', () => {
+  it('should use coin type 0 on mainnet and 1 on test networks', () => {
+    expect(bip86Path(COIN_TYPES.mainnet)).toBe("m/86'/0'/0'/0/0");
+    expect(bip86Path(COIN_TYPES.testnet, 5)).toBe("m/86'/1'/0'/0/5");
+  });
+});
+
+describe('deriveBip86PrivateKey', () => {
+  // https://github.com/bitcoin/bips/blob/master/bip-0086.mediawiki#test-vectors
+  it('should match the BIP-86 vector for the first receive address', () => {
+    const privateKey = deriveBip86PrivateKey(MNEMONIC, COIN_TYPES.mainnet, 0);
+    const internalKey = schnorr.getPublicKey(privateKey);
+
+    expect(toHex(internalKey)).toBe('cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115');
+    expect(p2tr(internalKey, undefined, NETWORK).address).toBe(
+      'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr'
+    );
+  });
+
+  it('should match the BIP-86 vector for the second receive address', () => {
+    const internalKey = schnorr.getPublicKey(deriveBip86PrivateKey(MNEMONIC, COIN_TYPES.mainnet, 1));
+
+    expect(toHex(internalKey)).toBe('83dfe85a3151d2517290da461fe2815591ef69f2b18a2ce63f01697a8b313145');
+    expect(p2tr(internalKey, undefined, NETWORK).address).toBe(
+      'bc1p4qhjn9zdvkux4e44uhx8tc55attvtyu358kutcqkudyccelu0was9fqzwh'
+    );
+  });
+
+  it('should derive a different key on test networks', () => {
+    const mainnet = deriveBip86PrivateKey(MNEMONIC, COIN_TYPES.mainnet);
+    const testnet = deriveBip86PrivateKey(MNEMONIC, COIN_TYPES.testnet);
+
+    expect(toHex(testnet)).not.toBe(toHex(mainnet));
+  });
+});
+
+describe('bip86ReceiveKeys', () => {
+  it('should derive the same keys as deriveBip86PrivateKey', () => {
+    const derive = bip86ReceiveKeys(MNEMONIC, COIN_TYPES.testnet, 2);
+    for (const index of [0, 1, 7]) {
+      expect(toHex(derive(index))).toBe(toHex(deriveBip86PrivateKey(MNEMONIC, COIN_TYPES.testnet, index, 2)));
+    }
+  });
+});
+
+describe('deriveIdentityKey', () => {
+  it('should be stable and separate from every account and receive key', () => {
+    const identity = toHex(deriveIdentityKey(MNEMONIC, COIN_TYPES.testnet));
+
+    expect(toHex(deriveIdentityKey(MNEMONIC, COIN_TYPES.testnet))).toBe(identity);
+    expect(toHex(deriveIdentityKey(MNEMONIC, COIN_TYPES.testnet, 1))).not.toBe(identity);
+    const receive = bip86ReceiveKeys(MNEMONIC, COIN_TYPES.testnet);
+    for (const index of [0, 1, 2]) {
+      expect(toHex(receive(index))).not.toBe(identity);
+    }
+  });
+});
+
+describe('deriveLegacyPrivateKey', () => {
+  it('should reproduce SHA-256(seed) so existing vaults keep their key', async () => {
+    const privateKey = await deriveLegacyPrivateKey(MNEMONIC);
+
+    expect(toHex(privateKey)).toBe('62a772f85e4be6226108b56c0b1cf935c2490e434adec864fe47b189f1ed517d');
+  });
+
+  it('should never collide with the BIP-86 key', async () => {
+    const legacy = await deriveLegacyPrivateKey(MNEMONIC);
+    const bip86 = deriveBip86PrivateKey(MNEMONIC, COIN_TYPES.testnet);
+
+    expect(toHex(legacy)).not.toBe(toHex(bip86));
+  });
+});
+
+describe('isLegacyCheckDue', () => {
+  const NOW = 1_750_000_000_000;
+
+  it('should never check wallets generated without a legacy key', () => {
+    expect(isLegacyCheckDue('none', null, NOW)).toBe(false);
+  });
+
+  it('should always check unchecked and funded keys', () => {
+    expect(isLegacyCheckDue('unchecked', NOW, NOW)).toBe(true);
+    expect(isLegacyCheckDue('funded', NOW, NOW)).toBe(true);
+  });
+
+  it('should check an empty key again once the interval has passed', () => {
+    expect(isLegacyCheckDue('empty', null, NOW)).toBe(true);
+    expect(isLegacyCheckDue('empty', NOW - LEGACY_RECHECK_INTERVAL_MS + 1, NOW)).toBe(false);
+    expect(isLegacyCheckDue('empty', NOW - LEGACY_RECHECK_INTERVAL_MS, NOW)).toBe(true);
+  });
+});
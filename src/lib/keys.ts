@@ -0,0 +1,133 @@
+/**
+ * Signing key derivation from the BIP-39 seed.
+ *
+ * Current scheme: BIP-86 (single-key P2TR), path m/86'/{coin}'/0'/0/{index}
+ *   - coin type 0 on mainnet, 1 on every test network (signet, mutinynet, regtest)
+ *   - any BIP-86 wallet (Sparrow, BDK, ...) reproduces the same on-chain key from the seed
+ *
+ * Identity key: m/86'/{coin}'/{account}'/2'/0', a hardened branch no BIP-86 wallet scans,
+ * so pages can be shown its public key and have messages signed without touching a
+ * key that holds funds.
+ *
+ * Legacy scheme: SHA-256(BIP-39 seed) used directly as the private key. Only kept
+ * so vaults created before BIP-86 can still find and sweep their funds.
+ */
+
+import { HDKey } from '@scure/bip32';
+import { mnemonicToSeedSync } from 'bip39';
+
+/**
+ * Whether the legacy key of a vault still holds funds.
+ * 'unchecked' until the first scan; 'none' for wallets generated after the switch to
+ * BIP-86, whose seed never had a legacy key in use.
+ */
+export type LegacyKeyStatus = 'unchecked' | 'none' | 'empty' | 'funded';
+
+// An empty legacy key is only funded again by a stale address, so a daily look is enough
+export const LEGACY_RECHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the legacy key should be checked for funds now.
+ * Unchecked and funded keys are checked every time; a key seen empty is checked
+ * again once per interval, since an old address can still be paid.
+ * @param status - Result of the last check
+ * @param lastCheckAt - When the last check finished, ms since epoch; null if never
+ * @param now - Current time, ms since epoch
+ */
+export function isLegacyCheckDue(status: LegacyKeyStatus, lastCheckAt: number | null, now: number = Date.now()): boolean {
+  if (status === 'none') return false;
+  if (status !== 'empty') return true;
+  return lastCheckAt === null || now - lastCheckAt >= LEGACY_RECHECK_INTERVAL_MS;
+}
+
+export const BIP86_PURPOSE = 86;
+
+/**
+ * SLIP-44 coin types used in the derivation path.
+ */
+export const COIN_TYPES = {
+  mainnet: 0,
+  testnet: 1,
+} as const;
+
+export type CoinType = (typeof COIN_TYPES)[keyof typeof COIN_TYPES];
+
+/**
+ * Builds the BIP-86 derivation path for a receive key.
+ * @param coinType - 0 for mainnet, 1 for test networks
+ * @param index - Address index on the external chain
+ * @param account - Account number
+ * @returns Path string, e.g. "m/86'/1'/0'/0/0"
+ */
+export function bip86Path(coinType: CoinType, index = 0, account = 0): string {
+  return `m/${BIP86_PURPOSE}'/${coinType}'/${account}'/0/${index}`;
+}
+
+/**
+ * Derives a BIP-86 private key from a mnemonic.
+ * @param mnemonic - BIP-39 mnemonic
+ * @param coinType - 0 for mainnet, 1 for test networks
+ * @param index - Address index on the external chain
+ * @param account - Account number
+ * @returns 32-byte private key
+ * @throws Error if derivation yields no private key
+ */
+export function deriveBip86PrivateKey(mnemonic: string, coinType: CoinType, index = 0, account = 0): Uint8Array {
+  const root = HDKey.fromMasterSeed(mnemonicToSeedSync(mnemonic));
+  const child = root.derive(bip86Path(coinType, index, account));
+  if (!child.privateKey) {
+    throw new Error('Key derivation failed');
+  }
+  return child.privateKey;
+}
+
+/**
+ * Derives the external chain of an account once, for callers that need many receive keys.
+ * Each key matches deriveBip86PrivateKey with the same index, without re-hashing the seed.
+ * @param mnemonic - BIP-39 mnemonic
+ * @param coinType - 0 for mainnet, 1 for test networks
+ * @param account - Account number
+ * @returns Function that derives the private key at an address index
+ * @throws Error if derivation yields no private key
+ */
+export function bip86ReceiveKeys(mnemonic: string, coinType: CoinType, account = 0): (index: number) => Uint8Array {
+  const chain = HDKey.fromMasterSeed(mnemonicToSeedSync(mnemonic)).derive(
+    `m/${BIP86_PURPOSE}'/${coinType}'/${account}'/0`
+  );
+  return (index) => {
+    const child = chain.deriveChild(index);
+    if (!child.privateKey) {
+      throw new Error('Key derivation failed');
+    }
+    return child.privateKey;
+  };
+}
+
+/**
+ * Derives the account's identity key, used for page-facing signatures and never for funds.
+ * @param mnemonic - BIP-39 mnemonic
+ * @param coinType - 0 for mainnet, 1 for test networks
+ * @param account - Account number
+ * @returns 32-byte private key
+ * @throws Error if derivation yields no private key
+ */
+export function deriveIdentityKey(mnemonic: string, coinType: CoinType, account = 0): Uint8Array {
+  const child = HDKey.fromMasterSeed(mnemonicToSeedSync(mnemonic)).derive(
+    `m/${BIP86_PURPOSE}'/${coinType}'/${account}'/2'/0'`
+  );
+  if (!child.privateKey) {
+    throw new Error('Key derivation failed');
+  }
+  return child.privateKey;
+}
+
+/**
+ * Derives the pre-BIP-86 key: SHA-256 of the BIP-39 seed.
+ * @param mnemonic - BIP-39 mnemonic
+ * @returns 32-byte private key
+ */
+export async function deriveLegacyPrivateKey(mnemonic: string): Promise<Uint8Array> {
+  const seedBuffer = mnemonicToSeedSync(mnemonic);
+  const privateKeyHash = await crypto.subtle.digest('SHA-256', new Uint8Array(seedBuffer));
+  return new Uint8Array(privateKeyHash);
+}
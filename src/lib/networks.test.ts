@@ -0,0 +1,39 @@
+/**
+ * Tests for the network registry.
+ * Verifies that every entry is consistent with its address encoding and derivation path.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NETWORKS, DEFAULT_NETWORK, isNetworkId } from './networks';
+import { COIN_TYPES } from './keys';
+
+describe('NETWORKS', () => {
+  it('should key every entry by its own id', () => {
+    for (const [id, config] of Object.entries(NETWORKS)) {
+      expect(config.id).toBe(id);
+    }
+  });
+
+  it('should only use the mainnet coin type and address prefix on mainnet', () => {
+    for (const config of Object.values(NETWORKS)) {
+      const isMainnet = config.id === 'mainnet';
+      expect(config.coinType === COIN_TYPES.mainnet).toBe(isMainnet);
+      expect(config.btcNetwork.bech32 === 'bc').toBe(isMainnet);
+      expect(config.arkAddressPrefix === 'ark').toBe(isMainnet);
+    }
+  });
+
+  it('should use the regtest address prefix on regtest', () => {
+    expect(NETWORKS.regtest.btcNetwork.bech32).toBe('bcrt');
+  });
+});
+
+describe('isNetworkId', () => {
+  it('should accept registered networks only', () => {
+    expect(isNetworkId(DEFAULT_NETWORK)).toBe(true);
+    expect(isNetworkId('regtest')).toBe(true);
+    expect(isNetworkId('testnet')).toBe(false);
+    expect(isNetworkId('toString')).toBe(false);
+    expect(isNetworkId(undefined)).toBe(false);
+  });
+});
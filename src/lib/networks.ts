@@ -0,0 +1,124 @@
+/**
+ * Per-network configuration: Ark server, explorer, address encoding,
+ * BIP-86 coin type, the timelocks the wallet is created with and the swap provider.
+ */
+
+import { NETWORK, TEST_NETWORK } from '@scure/btc-signer';
+import { COIN_TYPES } from './keys';
+import type { CoinType } from './keys';
+
+export type NetworkId = 'mutinynet' | 'signet' | 'mainnet' | 'regtest';
+
+/**
+ * Relative timelock as the SDK expects it, before conversion to bigint.
+ */
+export interface Timelock {
+  type: 'blocks' | 'seconds';
+  value: number;
+}
+
+export interface NetworkConfig {
+  id: NetworkId;
+  label: string;
+  // Network name understood by the Ark SDK
+  sdkNetwork: 'mutinynet' | 'signet' | 'bitcoin' | 'regtest';
+  aspUrl: string;
+  // Pinned server key; when absent the SDK takes it from the server's /v1/info
+  aspPubkey?: string;
+  esploraUrl: string;
+  // Block explorer for transaction links
+  explorerUrl: string;
+  // Address encoding for @scure/btc-signer
+  btcNetwork: typeof NETWORK;
+  // Human-readable prefix of Ark addresses
+  arkAddressPrefix: 'ark' | 'tark';
+  coinType: CoinType;
+  boardingTimelock: Timelock;
+  exitTimelock: Timelock;
+  // Confirmations a boarding output needs before it is settled into a round
+  boardingConfirmations: number;
+  // Currency prefix of BOLT11 invoices on this network, after "ln"
+  invoiceCurrency: string;
+  // Default Lightning swap provider (Boltz API); users can point the wallet at another one
+  swapProviderUrl?: string;
+}
+
+export const NETWORKS: Record<NetworkId, NetworkConfig> = {
+  mutinynet: {
+    id: 'mutinynet',
+    label: 'Mutinynet',
+    sdkNetwork: 'mutinynet',
+    aspUrl: 'https://mutinynet.arkade.sh',
+    aspPubkey: '03fa73c6e4876ffb2dfc961d763cca9abc73d4b88efcb8f5e7ff92dc55e9aa553d',
+    esploraUrl: 'https://mutinynet.com/api',
+    explorerUrl: 'https://mutinynet.com',
+    btcNetwork: TEST_NETWORK,
+    arkAddressPrefix: 'tark',
+    coinType: COIN_TYPES.testnet,
+    boardingTimelock: { type: 'blocks', value: 144 },
+    exitTimelock: { type: 'blocks', value: 144 },
+    boardingConfirmations: 1,
+    invoiceCurrency: 'tbs',
+    swapProviderUrl: 'https://api.boltz.mutinynet.arkade.sh',
+  },
+  signet: {
+    id: 'signet',
+    label: 'Signet',
+    sdkNetwork: 'signet',
+    aspUrl: 'https://signet.arkade.sh',
+    esploraUrl: 'https://mempool.space/signet/api',
+    explorerUrl: 'https://mempool.space/signet',
+    btcNetwork: TEST_NETWORK,
+    arkAddressPrefix: 'tark',
+    coinType: COIN_TYPES.testnet,
+    boardingTimelock: { type: 'blocks', value: 144 },
+    exitTimelock: { type: 'blocks', value: 144 },
+    boardingConfirmations: 1,
+    invoiceCurrency: 'tbs',
+  },
+  mainnet: {
+    id: 'mainnet',
+    label: 'Mainnet',
+    sdkNetwork: 'bitcoin',
+    aspUrl: 'https://arkade.computer',
+    esploraUrl: 'https://mempool.space/api',
+    explorerUrl: 'https://mempool.space',
+    btcNetwork: NETWORK,
+    arkAddressPrefix: 'ark',
+    coinType: COIN_TYPES.mainnet,
+    // Mainnet servers use time-based delays of roughly one week
+    boardingTimelock: { type: 'seconds', value: 604_672 },
+    exitTimelock: { type: 'seconds', value: 605_184 },
+    // Waits out shallow reorgs before a deposit is committed to a round
+    boardingConfirmations: 3,
+    invoiceCurrency: 'bc',
+    swapProviderUrl: 'https://api.ark.boltz.exchange',
+  },
+  regtest: {
+    id: 'regtest',
+    label: 'Regtest',
+    sdkNetwork: 'regtest',
+    aspUrl: 'http://localhost:7070',
+    esploraUrl: 'http://localhost:3000',
+    explorerUrl: 'http://localhost:5000',
+    btcNetwork: { ...TEST_NETWORK, bech32: 'bcrt' },
+    arkAddressPrefix: 'tark',
+    coinType: COIN_TYPES.testnet,
+    boardingTimelock: { type: 'blocks', value: 20 },
+    exitTimelock: { type: 'blocks', value: 10 },
+    boardingConfirmations: 1,
+    invoiceCurrency: 'bcrt',
+    swapProviderUrl: 'http://localhost:9001',
+  },
+};
+
+export const DEFAULT_NETWORK: NetworkId = 'mutinynet';
+
+/**
+ * Type guard for values read from storage or received in messages.
+ * @param value - Value to check
+ * @returns True if the value names a registered network
+ */
+export function isNetworkId(value: unknown): value is NetworkId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(NETWORKS, value);
+}
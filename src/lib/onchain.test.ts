@@ -0,0 +1,93 @@
+/**
+ * Tests for on-chain sizing and coin selection.
+ * Verifies fee math, change handling and dust rules.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { estimateVsize, selectCoins, sweepAmount, DUST_LIMIT } from './onchain';
+
+const P2TR_SCRIPT_LENGTH = 34;
+const P2WPKH_SCRIPT_LENGTH = 22;
+
+function coin(value: number, vout = 0) {
+  return { txid: 'a'.repeat(64), vout, value };
+}
+
+describe('estimateVsize', () => {
+  it('should match the known size of a 1-in 2-out P2TR transaction', () => {
+    // 10.5 + 57.5 + 2 * 43 = 154
+    expect(estimateVsize(1, [P2TR_SCRIPT_LENGTH, P2TR_SCRIPT_LENGTH])).toBe(154);
+  });
+
+  it('should round fractional sizes up', () => {
+    // 10.5 + 2 * 57.5 + 31 = 156.5
+    expect(estimateVsize(2, [P2WPKH_SCRIPT_LENGTH])).toBe(157);
+  });
+});
+
+describe('selectCoins', () => {
+  it('should pick the largest coin first and return change', () => {
+    const selection = selectCoins([coin(10_000, 0), coin(50_000, 1)], 20_000, 2, P2TR_SCRIPT_LENGTH, P2TR_SCRIPT_LENGTH);
+
+    expect(selection.inputs).toHaveLength(1);
+    expect(selection.inputs[0].value).toBe(50_000);
+    expect(selection.fee).toBe(308);
+    expect(selection.change).toBe(50_000 - 20_000 - 308);
+  });
+
+  it('should add inputs until the amount and fee are covered', () => {
+    const selection = selectCoins([coin(6_000, 0), coin(7_000, 1)], 12_000, 1, P2TR_SCRIPT_LENGTH, P2TR_SCRIPT_LENGTH);
+
+    expect(selection.inputs).toHaveLength(2);
+    expect(selection.inputs.reduce((sum, input) => sum + input.value, 0)).toBe(
+      12_000 + selection.fee + selection.change
+    );
+  });
+
+  it('should drop dust change and give it to the fee', () => {
+    const selection = selectCoins([coin(10_400)], 10_000, 1, P2TR_SCRIPT_LENGTH, P2TR_SCRIPT_LENGTH);
+
+    expect(selection.change).toBe(0);
+    expect(selection.fee).toBe(400);
+    expect(selection.vsize).toBe(111);
+  });
+
+  it('should never return change below the dust limit', () => {
+    for (let value = 10_111; value < 12_000; value += 37) {
+      const selection = selectCoins([coin(value)], 10_000, 1, P2TR_SCRIPT_LENGTH, P2TR_SCRIPT_LENGTH);
+      expect(selection.change === 0 || selection.change >= DUST_LIMIT).toBe(true);
+      expect(selection.fee + selection.change + 10_000).toBe(value);
+    }
+  });
+
+  it('should throw when funds cannot cover amount plus fee', () => {
+    expect(() => selectCoins([coin(10_050)], 10_000, 1, P2TR_SCRIPT_LENGTH, P2TR_SCRIPT_LENGTH)).toThrow(
+      'Insufficient funds'
+    );
+  });
+
+  it('should reject dust amounts and invalid fee rates', () => {
+    expect(() => selectCoins([coin(100_000)], 100, 1, P2TR_SCRIPT_LENGTH, P2TR_SCRIPT_LENGTH)).toThrow(
+      'dust limit'
+    );
+    expect(() => selectCoins([coin(100_000)], 10_000, 0, P2TR_SCRIPT_LENGTH, P2TR_SCRIPT_LENGTH)).toThrow(
+      'Fee rate must be positive'
+    );
+  });
+});
+
+describe('sweepAmount', () => {
+  it('should spend every coin with no change output', () => {
+    const coins = [coin(6_000, 0), coin(7_000, 1)];
+    const amount = sweepAmount(coins, 2, P2TR_SCRIPT_LENGTH);
+    const selection = selectCoins(coins, amount, 2, P2TR_SCRIPT_LENGTH, P2TR_SCRIPT_LENGTH);
+
+    expect(selection.inputs).toHaveLength(2);
+    expect(selection.change).toBe(0);
+    expect(amount + selection.fee).toBe(13_000);
+  });
+
+  it('should throw when the fee eats the balance', () => {
+    expect(() => sweepAmount([coin(600)], 1, P2TR_SCRIPT_LENGTH)).toThrow('too small');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * On-chain (L1) transaction sizing and coin selection.
+ * Assumes every wallet input is a P2TR key-path spend, which is the only
+ * output type the wallet's on-chain address produces.
+ */
+
+// Witness-discounted sizes in vbytes
+const TX_OVERHEAD_VBYTES = 10.5; // version, locktime, counts, segwit marker/flag
+const P2TR_KEYPATH_INPUT_VBYTES = 57.5; // outpoint, sequence, 64-byte schnorr witness
+const OUTPUT_BASE_VBYTES = 9; // 8-byte amount + script length byte
+
+export const DUST_LIMIT = 546;
+
+// Sequence values: 0xfffffffd signals BIP-125 replaceability, 0xffffffff is final
+export const RBF_SEQUENCE = 0xfffffffd;
+export const FINAL_SEQUENCE = 0xffffffff;
+
+export type FeeRatePreset = 'slow' | 'normal' | 'fast';
+
+/**
+ * Block targets used to pick a fee rate for each preset.
+ */
+export const FEE_RATE_TARGETS: Record<FeeRatePreset, number> = {
+  slow: 144,
+  normal: 6,
+  fast: 1,
+};
+
+export interface SpendableCoin {
+  txid: string;
+  vout: number;
+  value: number;
+}
+
+export interface CoinSelection<T extends SpendableCoin = SpendableCoin> {
+  inputs: T[];
+  fee: number;
+  change: number;
+  vsize: number;
+}
+
+/**
+ * Estimates the virtual size of a transaction spending P2TR key-path inputs.
+ * @param inputCount - Number of inputs
+ * @param outputScriptLengths - Byte length of each output's scriptPubKey
+ * @returns Estimated size in vbytes, rounded up
+ */
+export function estimateVsize(inputCount: number, outputScriptLengths: number[]): number {
+  const outputs = outputScriptLengths.reduce((sum, length) => sum + OUTPUT_BASE_VBYTES + length, 0);
+  return Math.ceil(TX_OVERHEAD_VBYTES + inputCount * P2TR_KEYPATH_INPUT_VBYTES + outputs);
+}
+
+/**
+ * Selects coins largest-first until the amount and fee are covered.
+ * Change below the dust limit is dropped and added to the fee.
+ * @param coins - Spendable coins; extra fields carry through to the selected inputs
+ * @param amount - Amount to send in sats
+ * @param feeRate - Fee rate in sat/vB
+ * @param recipientScriptLength - Byte length of the recipient's scriptPubKey
+ * @param changeScriptLength - Byte length of the change scriptPubKey
+ * @returns The selected inputs with the resulting fee and change
+ * @throws Error if the coins cannot cover the amount plus fee
+ */
+export function selectCoins<T extends SpendableCoin>(
+  coins: T[],
+  amount: number,
+  feeRate: number,
+  recipientScriptLength: number,
+  changeScriptLength: number
+): CoinSelection<T> {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error('Amount must be a positive integer');
+  }
+  if (amount < DUST_LIMIT) {
+    throw new Error(`Amount is below the ${DUST_LIMIT} sat dust limit`);
+  }
+  if (!(feeRate > 0)) {
+    throw new Error('Fee rate must be positive');
+  }
+
+  const sorted = [...coins].sort((a, b) => b.value - a.value);
+  const inputs: T[] = [];
+  let inputTotal = 0;
+
+  for (const coin of sorted) {
+    inputs.push(coin);
+    inputTotal += coin.value;
+
+    const vsizeWithChange = estimateVsize(inputs.length, [recipientScriptLength, changeScriptLength]);
+    const feeWithChange = Math.ceil(vsizeWithChange * feeRate);
+    const change = inputTotal - amount - feeWithChange;
+    if (change >= DUST_LIMIT) {
+      return { inputs, fee: feeWithChange, change, vsize: vsizeWithChange };
+    }
+
+    const vsizeNoChange = estimateVsize(inputs.length, [recipientScriptLength]);
+    const feeNoChange = Math.ceil(vsizeNoChange * feeRate);
+    if (inputTotal - amount >= feeNoChange) {
+      // Leftover is too small for a change output, so it goes to the miners
+      return { inputs, fee: inputTotal - amount, change: 0, vsize: vsizeNoChange };
+    }
+  }
+
+  throw new Error('Insufficient funds');
+}
+
+/**
+ * Computes the amount that sends every coin to a single output with no change.
+ * @param coins - All coins to spend
+ * @param feeRate - Fee rate in sat/vB
+ * @param recipientScriptLength - Byte length of the recipient scriptPubKey
+ * @returns Amount to send, i.e. the coin total minus the fee
+ * @throws Error if nothing above the dust limit is left after the fee
+ */
+export function sweepAmount(coins: SpendableCoin[], feeRate: number, recipientScriptLength: number): number {
+  if (!(feeRate > 0)) {
+    throw new Error('Fee rate must be positive');
+  }
+  const total = coins.reduce((sum, coin) => sum + coin.value, 0);
+  const fee = Math.ceil(estimateVsize(coins.length, [recipientScriptLength]) * feeRate);
+  const amount = total - fee;
+  if (amount < DUST_LIMIT) {
+    throw new Error('Balance is too small to cover the sweep fee');
+  }
+  return amount;
+}
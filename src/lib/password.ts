@@ -0,0 +1,21 @@
+/**
+ * Password rules for the vault, shared by every screen that sets a password.
+ */
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Checks a new vault password and its confirmation.
+ * @param password - The new password
+ * @param confirmPassword - The repeated password
+ * @returns A user-facing error message, or null if the password is acceptable
+ */
+export function validateNewPassword(password: string, confirmPassword: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`;
+  }
+  if (password !== confirmPassword) {
+    return 'Passwords do not match';
+  }
+  return null;
+}
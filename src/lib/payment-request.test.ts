@@ -0,0 +1,347 @@
+/**
+ * Tests for payment request parsing.
+ * Every destination type is checked on its own network and rejected on the others,
+ * since a request parsed for the wrong network or amount loses money.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parsePaymentRequest,
+  parseBtcAmount,
+  formatBtcAmount,
+  buildPaymentUri,
+  PaymentRequestError,
+} from './payment-request';
+import { NETWORKS } from './networks';
+
+const MAINNET = NETWORKS.mainnet;
+const MUTINYNET = NETWORKS.mutinynet;
+const REGTEST = NETWORKS.regtest;
+
+// P2TR, P2WPKH and P2PKH addresses of the private key 0x0101…01
+const MAINNET_P2TR = 'bc1p33wm0auhr9kkahzd6l0kqj85af4cswn276hsxg6zpz85xe2r0y8syx4e5t';
+const TESTNET_P2TR = 'tb1p33wm0auhr9kkahzd6l0kqj85af4cswn276hsxg6zpz85xe2r0y8snwrkwy';
+const REGTEST_P2TR = 'bcrt1p33wm0auhr9kkahzd6l0kqj85af4cswn276hsxg6zpz85xe2r0y8s7hfsm7';
+const MAINNET_P2WPKH = 'bc1q0xcqpzrky6eff2g52qdye53xkk9jxkvrh6yhyw';
+const MAINNET_P2PKH = '1C6Rc3w25VHud3dLDamutaqfKWqhrLRTaD';
+const TESTNET_P2PKH = 'mrcNu71ztWjAQA6ww9kHiW3zBWSQidHXTQ';
+
+// Ark addresses with server key 0x0202…02 and VTXO key 0x0303…03
+const MAINNET_ARK =
+  'ark1qgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqxqcrqvpsxqcrqvpsxqcrqvpsxqcrqvpsxqcrqvpsxqcrqvpsxqcnv2uj6';
+const TESTNET_ARK =
+  'tark1qgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqxqcrqvpsxqcrqvpsxqcrqvpsxqcrqvpsxqcrqvpsxqcrqvpsxqckcypk3';
+
+// BOLT11 examples: a donation without an amount, and 2500u (250,000 sats) expiring after a minute
+const DONATION_INVOICE =
+  'lnbc1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq9qrsgq357wnc5r2ueh7ck6q93dj32dlqnls087fxdwk8qakdyafkq3yap9us6v52vjjsrvywa6rt52cm9r9zqt8r2t7mlcwspyetp5h2tztugp9lfyql';
+const COFFEE_INVOICE =
+  'lnbc2500u1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpu9qrsgquk0rl77nj30yxdy8j9vdx85fkpmdla2087ne0xh8nhedh8w27kyke0lp53ut353s06fv3qfegext0eh0ymjpf39tuven09sam30g4vgpfna3rh';
+const COFFEE_EXPIRES_AT = 1_496_314_718_000;
+
+// LUD-01 example
+const LNURL =
+  'LNURL1DP68GURN8GHJ7UM9WFMXJCM99E3K7MF0V9CXJ0M385EKVCENXC6R2C35XVUKXEFCV5MKVV34X5EKZD3EV56NYD3HXQURZEPEXEJXXEPNXSCRVWFNV9NXZCN9XQ6XYEFHVGCXXCMYXYMNSERXFQ5FNS';
+const LNURL_TARGET = 'https://service.com/api?q=3fc3645b439ce8e7f2553a69e5267081d96dcd340693afabe04be7b0ccd178df';
+
+describe('parsePaymentRequest', () => {
+  describe('on-chain addresses', () => {
+    it('should accept the address types of each network', () => {
+      expect(parsePaymentRequest(MAINNET_P2TR, MAINNET)).toEqual({
+        kind: 'onchain',
+        methods: ['onchain'],
+        onchainAddress: MAINNET_P2TR,
+      });
+      expect(parsePaymentRequest(MAINNET_P2WPKH, MAINNET).onchainAddress).toBe(MAINNET_P2WPKH);
+      expect(parsePaymentRequest(MAINNET_P2PKH, MAINNET).onchainAddress).toBe(MAINNET_P2PKH);
+      expect(parsePaymentRequest(TESTNET_P2TR, MUTINYNET).onchainAddress).toBe(TESTNET_P2TR);
+      expect(parsePaymentRequest(REGTEST_P2TR, REGTEST).onchainAddress).toBe(REGTEST_P2TR);
+    });
+
+    it('should lowercase upper-case bech32 addresses', () => {
+      expect(parsePaymentRequest(MAINNET_P2TR.toUpperCase(), MAINNET).onchainAddress).toBe(MAINNET_P2TR);
+    });
+
+    it('should ignore surrounding whitespace', () => {
+      expect(parsePaymentRequest(`  ${MAINNET_P2TR}\n`, MAINNET).onchainAddress).toBe(MAINNET_P2TR);
+    });
+
+    it('should reject addresses of another network', () => {
+      expect(() => parsePaymentRequest(TESTNET_P2TR, MAINNET)).toThrow('Address is for a different network');
+      expect(() => parsePaymentRequest(MAINNET_P2TR, MUTINYNET)).toThrow('Address is for a different network');
+      expect(() => parsePaymentRequest(REGTEST_P2TR, MUTINYNET)).toThrow('Address is for a different network');
+      expect(() => parsePaymentRequest(TESTNET_P2PKH, MAINNET)).toThrow('Address is for a different network');
+    });
+
+    it('should reject addresses with a bad checksum', () => {
+      const corrupted = MAINNET_P2TR.slice(0, -1) + (MAINNET_P2TR.endsWith('q') ? 'p' : 'q');
+      expect(() => parsePaymentRequest(corrupted, MAINNET)).toThrow('Not a valid Bitcoin address');
+      expect(() => parsePaymentRequest(MAINNET_P2PKH.slice(0, -1) + 'b', MAINNET)).toThrow(PaymentRequestError);
+    });
+
+    it('should reject mixed-case bech32 addresses', () => {
+      const mixed = MAINNET_P2TR.slice(0, 10).toUpperCase() + MAINNET_P2TR.slice(10);
+      expect(() => parsePaymentRequest(mixed, MAINNET)).toThrow(PaymentRequestError);
+    });
+
+    it('should reject input that is not a payment request', () => {
+      expect(() => parsePaymentRequest('', MAINNET)).toThrow('Enter an address');
+      expect(() => parsePaymentRequest('hello world', MAINNET)).toThrow('Not a valid Bitcoin address');
+    });
+  });
+
+  describe('Ark addresses', () => {
+    it('should accept Ark addresses of the network', () => {
+      expect(parsePaymentRequest(TESTNET_ARK, MUTINYNET)).toEqual({
+        kind: 'ark',
+        methods: ['ark'],
+        arkAddress: TESTNET_ARK,
+      });
+      expect(parsePaymentRequest(MAINNET_ARK, MAINNET).arkAddress).toBe(MAINNET_ARK);
+      expect(parsePaymentRequest(TESTNET_ARK.toUpperCase(), REGTEST).arkAddress).toBe(TESTNET_ARK);
+    });
+
+    it('should reject Ark addresses of another network', () => {
+      expect(() => parsePaymentRequest(TESTNET_ARK, MAINNET)).toThrow('Ark address is for a different network');
+      expect(() => parsePaymentRequest(MAINNET_ARK, MUTINYNET)).toThrow('Ark address is for a different network');
+    });
+
+    it('should not take a corrupted Ark address for anything else', () => {
+      const corrupted = TESTNET_ARK.slice(0, -1) + (TESTNET_ARK.endsWith('q') ? 'p' : 'q');
+      expect(() => parsePaymentRequest(corrupted, MUTINYNET)).toThrow(PaymentRequestError);
+    });
+  });
+
+  describe('BOLT11 invoices', () => {
+    it('should read the amount, description and expiry', () => {
+      expect(parsePaymentRequest(COFFEE_INVOICE, MAINNET)).toEqual({
+        kind: 'bolt11',
+        methods: ['lightning'],
+        invoice: COFFEE_INVOICE,
+        amount: 250_000,
+        label: '1 cup coffee',
+        expiresAt: COFFEE_EXPIRES_AT,
+      });
+    });
+
+    it('should leave the amount to the payer when the invoice has none', () => {
+      const request = parsePaymentRequest(DONATION_INVOICE, MAINNET);
+      expect(request.amount).toBeUndefined();
+      expect(request.label).toBe('Please consider supporting this project');
+    });
+
+    it('should accept a lightning: URI in either case', () => {
+      expect(parsePaymentRequest(`lightning:${COFFEE_INVOICE}`, MAINNET).invoice).toBe(COFFEE_INVOICE);
+      expect(parsePaymentRequest(`LIGHTNING:${COFFEE_INVOICE.toUpperCase()}`, MAINNET).invoice).toBe(COFFEE_INVOICE);
+    });
+
+    it('should reject invoices of another network', () => {
+      expect(() => parsePaymentRequest(COFFEE_INVOICE, MUTINYNET)).toThrow('Invoice is for a different network');
+    });
+
+    it('should reject a tampered invoice', () => {
+      const tampered = COFFEE_INVOICE.replace('lnbc2500u', 'lnbc2600u');
+      expect(() => parsePaymentRequest(tampered, MAINNET)).toThrow(PaymentRequestError);
+    });
+
+    it('should reject a lightning: URI without a Lightning destination', () => {
+      expect(() => parsePaymentRequest(`lightning:${MAINNET_P2TR}`, MAINNET)).toThrow(
+        'Not a valid Lightning payment request'
+      );
+    });
+  });
+
+  describe('LNURL and Lightning addresses', () => {
+    it('should decode an LNURL to its URL', () => {
+      expect(parsePaymentRequest(LNURL, MAINNET)).toEqual({ kind: 'lnurl', methods: ['lnurl'], lnurl: LNURL_TARGET });
+      expect(parsePaymentRequest(`lightning:${LNURL.toLowerCase()}`, MUTINYNET).lnurl).toBe(LNURL_TARGET);
+    });
+
+    it('should reject a corrupted LNURL', () => {
+      expect(() => parsePaymentRequest(LNURL.slice(0, -1) + 'Q', MAINNET)).toThrow('Not a valid LNURL');
+    });
+
+    it('should resolve a Lightning address to its LNURL-pay endpoint', () => {
+      expect(parsePaymentRequest('Satoshi@Example.com', MAINNET)).toEqual({
+        kind: 'lightningAddress',
+        methods: ['lnurl'],
+        lnurl: 'https://example.com/.well-known/lnurlp/satoshi',
+        lightningAddress: 'satoshi@example.com',
+      });
+    });
+
+    it('should use http for Lightning addresses on onion services', () => {
+      expect(parsePaymentRequest('alice@abcdef.onion', MAINNET).lnurl).toBe('http://abcdef.onion/.well-known/lnurlp/alice');
+    });
+
+    it('should reject malformed Lightning addresses', () => {
+      expect(() => parsePaymentRequest('alice@localhost', MAINNET)).toThrow(PaymentRequestError);
+      expect(() => parsePaymentRequest('a b@example.com', MAINNET)).toThrow(PaymentRequestError);
+    });
+  });
+
+  describe('BIP21 URIs', () => {
+    it('should read the address, amount, label and message', () => {
+      const uri = `bitcoin:${MAINNET_P2TR}?amount=0.0005&label=Luke-Jr&message=Donation%20for%20project%20xyz`;
+      expect(parsePaymentRequest(uri, MAINNET)).toEqual({
+        kind: 'bip21',
+        methods: ['onchain'],
+        onchainAddress: MAINNET_P2TR,
+        amount: 50_000,
+        label: 'Luke-Jr',
+        message: 'Donation for project xyz',
+      });
+    });
+
+    it('should accept a bare address URI', () => {
+      expect(parsePaymentRequest(`bitcoin:${MAINNET_P2TR}`, MAINNET)).toEqual({
+        kind: 'bip21',
+        methods: ['onchain'],
+        onchainAddress: MAINNET_P2TR,
+      });
+    });
+
+    it('should accept upper-case URIs from QR codes', () => {
+      const uri = `BITCOIN:${MAINNET_P2TR.toUpperCase()}?AMOUNT=1.5`;
+      const request = parsePaymentRequest(uri, MAINNET);
+      expect(request.onchainAddress).toBe(MAINNET_P2TR);
+      expect(request.amount).toBe(150_000_000);
+    });
+
+    it('should keep a plus sign in labels', () => {
+      expect(parsePaymentRequest(`bitcoin:${MAINNET_P2TR}?label=a+b`, MAINNET).label).toBe('a+b');
+    });
+
+    it('should list Ark, Lightning and on-chain destinations in order of preference', () => {
+      const uri = `bitcoin:${MAINNET_P2TR}?amount=0.0025&ark=${MAINNET_ARK}&lightning=${COFFEE_INVOICE}`;
+      expect(parsePaymentRequest(uri, MAINNET)).toEqual({
+        kind: 'bip21',
+        methods: ['ark', 'lightning', 'onchain'],
+        onchainAddress: MAINNET_P2TR,
+        arkAddress: MAINNET_ARK,
+        invoice: COFFEE_INVOICE,
+        amount: 250_000,
+        expiresAt: COFFEE_EXPIRES_AT,
+      });
+    });
+
+    it('should accept a URI without an on-chain address', () => {
+      const request = parsePaymentRequest(`bitcoin:?ark=${TESTNET_ARK}&amount=0.001`, MUTINYNET);
+      expect(request.methods).toEqual(['ark']);
+      expect(request.onchainAddress).toBeUndefined();
+      expect(request.amount).toBe(100_000);
+    });
+
+    it('should take the amount from the invoice when the URI has none', () => {
+      const request = parsePaymentRequest(`bitcoin:${MAINNET_P2TR}?lightning=${COFFEE_INVOICE}`, MAINNET);
+      expect(request.amount).toBe(250_000);
+    });
+
+    it('should reject an invoice that asks for a different amount', () => {
+      const before = `bitcoin:${MAINNET_P2TR}?amount=0.001&lightning=${COFFEE_INVOICE}`;
+      const after = `bitcoin:${MAINNET_P2TR}?lightning=${COFFEE_INVOICE}&amount=0.001`;
+      expect(() => parsePaymentRequest(before, MAINNET)).toThrow('Invoice amount does not match');
+      expect(() => parsePaymentRequest(after, MAINNET)).toThrow('Invoice amount does not match');
+    });
+
+    it('should accept an LNURL in the lightning parameter', () => {
+      const request = parsePaymentRequest(`bitcoin:${MAINNET_P2TR}?lightning=${LNURL}`, MAINNET);
+      expect(request.methods).toEqual(['lnurl', 'onchain']);
+      expect(request.lnurl).toBe(LNURL_TARGET);
+    });
+
+    it('should reject destinations of another network anywhere in the URI', () => {
+      expect(() => parsePaymentRequest(`bitcoin:${TESTNET_P2TR}`, MAINNET)).toThrow('different network');
+      expect(() => parsePaymentRequest(`bitcoin:${MAINNET_P2TR}?ark=${TESTNET_ARK}`, MAINNET)).toThrow(
+        'Ark address is for a different network'
+      );
+      expect(() => parsePaymentRequest(`bitcoin:${TESTNET_P2TR}?lightning=${COFFEE_INVOICE}`, MUTINYNET)).toThrow(
+        'Invoice is for a different network'
+      );
+    });
+
+    it('should reject unknown required parameters and ignore optional ones', () => {
+      expect(() => parsePaymentRequest(`bitcoin:${MAINNET_P2TR}?req-somethingyoudontunderstand=50`, MAINNET)).toThrow(
+        'Unsupported required parameter'
+      );
+      expect(parsePaymentRequest(`bitcoin:${MAINNET_P2TR}?somethingyoudontunderstand=50`, MAINNET).amount).toBeUndefined();
+    });
+
+    it('should reject repeated parameters', () => {
+      expect(() => parsePaymentRequest(`bitcoin:${MAINNET_P2TR}?amount=1&amount=2`, MAINNET)).toThrow(
+        'Repeated amount parameter'
+      );
+    });
+
+    it('should reject malformed amounts', () => {
+      for (const amount of ['', '-1', '1e-3', '0,5', '0.000000001', '0', 'abc', '21000001']) {
+        expect(() => parsePaymentRequest(`bitcoin:${MAINNET_P2TR}?amount=${amount}`, MAINNET)).toThrow(
+          PaymentRequestError
+        );
+      }
+    });
+
+    it('should reject malformed percent-encoding', () => {
+      expect(() => parsePaymentRequest(`bitcoin:${MAINNET_P2TR}?label=%E0%A4%A`, MAINNET)).toThrow(
+        'Malformed label parameter'
+      );
+    });
+
+    it('should reject a URI without any destination', () => {
+      expect(() => parsePaymentRequest('bitcoin:?amount=1', MAINNET)).toThrow('Payment URI has no destination');
+    });
+  });
+});
+
+describe('parseBtcAmount', () => {
+  it('should convert BTC to sats exactly', () => {
+    expect(parseBtcAmount('1')).toBe(100_000_000);
+    expect(parseBtcAmount('0.00000001')).toBe(1);
+    expect(parseBtcAmount('0.1')).toBe(10_000_000);
+    // 0.29 * 1e8 is 28999999.999999996 in floating point
+    expect(parseBtcAmount('0.29')).toBe(29_000_000);
+    expect(parseBtcAmount('20999999.99999999')).toBe(2_099_999_999_999_999);
+  });
+
+  it('should accept a trailing decimal point', () => {
+    expect(parseBtcAmount('2.')).toBe(200_000_000);
+  });
+
+  it('should reject amounts above the supply', () => {
+    expect(() => parseBtcAmount('21000000.00000001')).toThrow('exceeds the Bitcoin supply');
+  });
+});
+
+describe('formatBtcAmount', () => {
+  it('should format sats as BTC without trailing zeros', () => {
+    expect(formatBtcAmount(100_000_000)).toBe('1');
+    expect(formatBtcAmount(150_000_000)).toBe('1.5');
+    expect(formatBtcAmount(1)).toBe('0.00000001');
+    expect(formatBtcAmount(29_000_000)).toBe('0.29');
+  });
+
+  it('should round-trip through parseBtcAmount', () => {
+    for (const sats of [1, 546, 12_345_678, 2_099_999_999_999_999]) {
+      expect(parseBtcAmount(formatBtcAmount(sats))).toBe(sats);
+    }
+  });
+});
+
+describe('buildPaymentUri', () => {
+  it('should return the bare address without parameters', () => {
+    expect(buildPaymentUri({ address: TESTNET_P2TR })).toBe(TESTNET_P2TR);
+  });
+
+  it('should build a URI the parser reads back', () => {
+    const uri = buildPaymentUri({ address: TESTNET_P2TR, arkAddress: TESTNET_ARK, amount: 25_000, label: 'Coffee & cake' });
+    expect(uri).toBe(`bitcoin:${TESTNET_P2TR}?amount=0.00025&label=Coffee%20%26%20cake&ark=${TESTNET_ARK}`);
+    expect(parsePaymentRequest(uri, MUTINYNET)).toEqual({
+      kind: 'bip21',
+      methods: ['ark', 'onchain'],
+      onchainAddress: TESTNET_P2TR,
+      arkAddress: TESTNET_ARK,
+      amount: 25_000,
+      label: 'Coffee & cake',
+    });
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Payment request parsing and building.
+ * Turns whatever the user pasted or scanned into a typed request: an on-chain address,
+ * an Ark address, a BIP21 URI with its ark= and lightning= alternatives, a BOLT11 invoice,
+ * an LNURL or a Lightning address. Every destination is checked against the wallet's
+ * network, so a request is either payable here or rejected with the reason. Receive
+ * requests are built as BIP21 URIs the parser reads back unchanged.
+ * @see https://github.com/bitcoin/bips/blob/master/bip-0021.mediawiki
+ * @see https://github.com/lnurl/luds/blob/luds/01.md
+ */
+
+import { Address } from '@scure/btc-signer';
+import { bech32, bech32m, utf8 } from '@scure/base';
+import { NETWORKS } from './networks';
+import type { NetworkConfig } from './networks';
+import { decodeInvoice, normalizeInvoice } from './bolt11';
+import type { DecodedInvoice } from './bolt11';
+
+/**
+ * The input is not a payment request, or not one this network can pay.
+ */
+export class PaymentRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentRequestError';
+  }
+}
+
+/**
+ * What the input was, as opposed to how it can be paid.
+ */
+export type PaymentRequestKind = 'onchain' | 'ark' | 'bip21' | 'bolt11' | 'lnurl' | 'lightningAddress';
+
+export type PaymentMethod = 'ark' | 'lightning' | 'lnurl' | 'onchain';
+
+export interface PaymentRequest {
+  kind: PaymentRequestKind;
+  // Ways to pay the request, cheapest and fastest first
+  methods: PaymentMethod[];
+  onchainAddress?: string;
+  arkAddress?: string;
+  // BOLT11 invoice, lowercase and without a URI scheme
+  invoice?: string;
+  // URL an LNURL or Lightning address resolves to
+  lnurl?: string;
+  lightningAddress?: string;
+  // Requested amount in sats; absent when the payer chooses
+  amount?: number;
+  label?: string;
+  message?: string;
+  // When an invoice in the request stops being payable, ms since epoch
+  expiresAt?: number;
+}
+
+const SATS_PER_BTC = 100_000_000n;
+const MAX_SATS = 21_000_000n * SATS_PER_BTC;
+const ARK_ADDRESS_BYTES = 64; // server key and VTXO taproot key, x-only
+
+// Payer preference: Ark transfers are instant and free, Lightning costs a swap, L1 a block
+const METHOD_ORDER: PaymentMethod[] = ['ark', 'lightning', 'lnurl', 'onchain'];
+
+const BIP21_SCHEME = /^bitcoin:/i;
+const LIGHTNING_SCHEME = /^lightning:/i;
+const LIGHTNING_ADDRESS_PATTERN = /^([a-z0-9._+-]+)@([a-z0-9-]+(?:\.[a-z0-9-]+)+)$/i;
+
+/**
+ * Bech32 strings are case-insensitive but must not mix cases; QR codes often use upper case.
+ */
+function lowerIfUpper(value: string): string {
+  return value === value.toUpperCase() ? value.toLowerCase() : value;
+}
+
+/**
+ * Validates an on-chain address for the network.
+ * @returns The address, lowercased if it was an upper-case bech32 address
+ * @throws PaymentRequestError naming the problem
+ */
+function parseOnchainAddress(address: string, network: NetworkConfig): string {
+  const normalized = lowerIfUpper(address);
+  try {
+    Address(network.btcNetwork).decode(normalized);
+    return normalized;
+  } catch {
+    // Fall through to find out whether it belongs to another network
+  }
+  const elsewhere = Object.values(NETWORKS).some((other) => {
+    try {
+      Address(other.btcNetwork).decode(normalized);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+  throw new PaymentRequestError(elsewhere ? 'Address is for a different network' : 'Not a valid Bitcoin address');
+}
+
+/**
+ * Decodes an Ark address without the SDK, so the parser also runs outside the worker.
+ * @returns The human-readable prefix, or null if the input is not an Ark address of any network
+ */
+function arkAddressPrefix(address: string): string | null {
+  const decoded = bech32m.decodeUnsafe(address, false);
+  if (!decoded) return null;
+  const known = Object.values(NETWORKS).some((network) => network.arkAddressPrefix === decoded.prefix);
+  if (!known) return null;
+  const bytes = bech32m.fromWordsUnsafe(decoded.words);
+  return bytes?.length === ARK_ADDRESS_BYTES ? decoded.prefix : null;
+}
+
+function parseArkAddress(address: string, network: NetworkConfig): string {
+  const normalized = lowerIfUpper(address);
+  const prefix = arkAddressPrefix(normalized);
+  if (prefix === null) throw new PaymentRequestError('Not a valid Ark address');
+  if (prefix !== network.arkAddressPrefix) throw new PaymentRequestError('Ark address is for a different network');
+  return normalized;
+}
+
+/**
+ * Decodes a bech32 LNURL into the URL it encodes.
+ * @throws PaymentRequestError unless it is an https URL, or http on an onion service
+ */
+function parseLnurl(lnurl: string): string {
+  const decoded = bech32.decodeUnsafe(lowerIfUpper(lnurl) as `${string}1${string}`, false);
+  const bytes = decoded?.prefix === 'lnurl' ? bech32.fromWordsUnsafe(decoded.words) : undefined;
+  if (!bytes) throw new PaymentRequestError('Not a valid LNURL');
+
+  let url: URL;
+  try {
+    url = new URL(utf8.encode(Uint8Array.from(bytes)));
+  } catch {
+    throw new PaymentRequestError('LNURL does not contain a URL');
+  }
+  const onion = url.hostname.endsWith('.onion');
+  if (url.protocol !== 'https:' && !(onion && url.protocol === 'http:')) {
+    throw new PaymentRequestError('LNURL must use https');
+  }
+  return url.href;
+}
+
+/**
+ * Resolves a Lightning address to its LNURL-pay endpoint, as LUD-16 defines it.
+ */
+function lightningAddressUrl(address: string): string | null {
+  const match = LIGHTNING_ADDRESS_PATTERN.exec(address);
+  if (!match) return null;
+  const [, user, domain] = match;
+  const protocol = domain.toLowerCase().endsWith('.onion') ? 'http' : 'https';
+  return `${protocol}://${domain.toLowerCase()}/.well-known/lnurlp/${user.toLowerCase()}`;
+}
+
+/**
+ * Decodes and checks a BOLT11 invoice for the network.
+ */
+function parseInvoice(invoice: string, network: NetworkConfig): Pick<PaymentRequest, 'invoice' | 'amount' | 'label' | 'expiresAt'> {
+  let decoded: DecodedInvoice;
+  try {
+    decoded = decodeInvoice(invoice);
+  } catch (error) {
+    throw new PaymentRequestError(error instanceof Error ? error.message : 'Not a valid Lightning invoice');
+  }
+  if (decoded.currency !== network.invoiceCurrency) throw new PaymentRequestError('Invoice is for a different network');
+  return {
+    invoice: normalizeInvoice(invoice),
+    ...(decoded.amount !== null ? { amount: decoded.amount } : {}),
+    ...(decoded.description ? { label: decoded.description } : {}),
+    expiresAt: decoded.expiresAt,
+  };
+}
+
+/**
+ * Converts a BIP21 amount in BTC to sats without going through floating point.
+ * @throws PaymentRequestError for anything but a plain positive decimal with at most 8 places
+ */
+export function parseBtcAmount(value: string): number {
+  const match = /^(\d+)(?:\.(\d{0,8}))?$/.exec(value);
+  if (!match) throw new PaymentRequestError('Invalid amount');
+  const sats = BigInt(match[1]) * SATS_PER_BTC + BigInt((match[2] ?? '').padEnd(8, '0'));
+  if (sats === 0n) throw new PaymentRequestError('Amount must be greater than zero');
+  if (sats > MAX_SATS) throw new PaymentRequestError('Amount exceeds the Bitcoin supply');
+  return Number(sats);
+}
+
+/**
+ * Formats sats as a BIP21 amount in BTC, without trailing zeros.
+ */
+export function formatBtcAmount(sats: number): string {
+  const value = BigInt(sats);
+  const fraction = (value % SATS_PER_BTC).toString().padStart(8, '0').replace(/0+$/, '');
+  return fraction ? `${value / SATS_PER_BTC}.${fraction}` : `${value / SATS_PER_BTC}`;
+}
+
+/**
+ * Builds the URI a receive QR code shows.
+ * Without an amount, label or Ark address the bare address is returned, which every wallet can scan.
+ * @param request.address - On-chain address payers without Ark fall back to
+ * @param request.arkAddress - Ark address for payers that support it
+ * @param request.amount - Requested amount in sats
+ * @returns A bitcoin: URI, or the bare address
+ */
+export function buildPaymentUri(request: { address: string; arkAddress?: string; amount?: number; label?: string }): string {
+  const params: string[] = [];
+  if (request.amount !== undefined) params.push(`amount=${formatBtcAmount(request.amount)}`);
+  if (request.label) params.push(`label=${encodeURIComponent(request.label)}`);
+  if (request.arkAddress) params.push(`ark=${request.arkAddress}`);
+  if (params.length === 0) return request.address;
+  return `bitcoin:${request.address}?${params.join('&')}`;
+}
+
+/**
+ * Splits a URI query into its parameters, percent-decoded.
+ * BIP21 follows RFC 3986, so '+' is a literal plus rather than a space.
+ * @throws PaymentRequestError on repeated parameters, which would make the request ambiguous
+ */
+function parseQuery(query: string): Map<string, string> {
+  const params = new Map<string, string>();
+  for (const pair of query.split('&')) {
+    if (!pair) continue;
+    const separator = pair.indexOf('=');
+    const key = (separator === -1 ? pair : pair.slice(0, separator)).toLowerCase();
+    let value: string;
+    try {
+      value = decodeURIComponent(separator === -1 ? '' : pair.slice(separator + 1));
+    } catch {
+      throw new PaymentRequestError(`Malformed ${key} parameter`);
+    }
+    if (params.has(key)) throw new PaymentRequestError(`Repeated ${key} parameter`);
+    params.set(key, value);
+  }
+  return params;
+}
+
+/**
+ * Parses a bitcoin: URI. The address may be empty when an ark= or lightning= parameter
+ * carries the destination instead.
+ */
+function parseBip21(uri: string, network: NetworkConfig): PaymentRequest {
+  const body = uri.replace(BIP21_SCHEME, '');
+  const queryStart = body.indexOf('?');
+  const address = queryStart === -1 ? body : body.slice(0, queryStart);
+  const params = parseQuery(queryStart === -1 ? '' : body.slice(queryStart + 1));
+
+  const request: PaymentRequest = { kind: 'bip21', methods: [] };
+  if (address) request.onchainAddress = parseOnchainAddress(address, network);
+  let invoiceAmount: number | undefined;
+
+  for (const [key, value] of params) {
+    switch (key) {
+      case 'amount':
+        request.amount = parseBtcAmount(value);
+        break;
+      case 'label':
+        request.label = value;
+        break;
+      case 'message':
+        request.message = value;
+        break;
+      case 'ark':
+        request.arkAddress = parseArkAddress(value, network);
+        break;
+      case 'lightning': {
+        const lightning = value.replace(LIGHTNING_SCHEME, '');
+        if (/^lnurl1/i.test(lightning)) {
+          request.lnurl = parseLnurl(lightning);
+          break;
+        }
+        const invoice = parseInvoice(lightning, network);
+        request.invoice = invoice.invoice;
+        request.expiresAt = invoice.expiresAt;
+        invoiceAmount = invoice.amount;
+        break;
+      }
+      default:
+        // BIP21: parameters prefixed req- must be understood, or the URI must be rejected
+        if (key.startsWith('req-')) throw new PaymentRequestError(`Unsupported required parameter ${key}`);
+    }
+  }
+
+  // Paying the on-chain or Ark alternative must cost the same as paying the invoice
+  if (invoiceAmount !== undefined) {
+    if (request.amount !== undefined && request.amount !== invoiceAmount) {
+      throw new PaymentRequestError('Invoice amount does not match the requested amount');
+    }
+    request.amount = invoiceAmount;
+  }
+
+  request.methods = availableMethods(request);
+  if (request.methods.length === 0) throw new PaymentRequestError('Payment URI has no destination');
+  return request;
+}
+
+function availableMethods(request: PaymentRequest): PaymentMethod[] {
+  const present: Record<PaymentMethod, boolean> = {
+    ark: request.arkAddress !== undefined,
+    lightning: request.invoice !== undefined,
+    lnurl: request.lnurl !== undefined,
+    onchain: request.onchainAddress !== undefined,
+  };
+  return METHOD_ORDER.filter((method) => present[method]);
+}
+
+/**
+ * Parses a pasted or scanned payment request.
+ * @param input - Address, URI, invoice, LNURL or Lightning address
+ * @param network - The network the wallet pays on
+ * @returns The request with its destinations, amount, label and expiry
+ * @throws PaymentRequestError if the input is not a payment request or belongs to another network
+ */
+export function parsePaymentRequest(input: string, network: NetworkConfig): PaymentRequest {
+  const trimmed = input.trim();
+  if (!trimmed) throw new PaymentRequestError('Enter an address, invoice or payment link');
+
+  if (BIP21_SCHEME.test(trimmed)) return parseBip21(trimmed, network);
+
+  const value = trimmed.replace(LIGHTNING_SCHEME, '');
+  const lightningOnly = value !== trimmed;
+
+  if (/^lnurl1/i.test(value)) {
+    return { kind: 'lnurl', methods: ['lnurl'], lnurl: parseLnurl(value) };
+  }
+  const lnurl = lightningAddressUrl(value);
+  if (lnurl) {
+    return { kind: 'lightningAddress', methods: ['lnurl'], lnurl, lightningAddress: value.toLowerCase() };
+  }
+  if (/^ln/i.test(value)) {
+    return { kind: 'bolt11', methods: ['lightning'], ...parseInvoice(value, network) };
+  }
+  if (lightningOnly) throw new PaymentRequestError('Not a valid Lightning payment request');
+
+  if (arkAddressPrefix(lowerIfUpper(value)) !== null) {
+    return { kind: 'ark', methods: ['ark'], arkAddress: parseArkAddress(value, network) };
+  }
+  return { kind: 'onchain', methods: ['onchain'], onchainAddress: parseOnchainAddress(value, network) };
+}
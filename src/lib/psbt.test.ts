@@ -0,0 +1,52 @@
+/**
+ * Tests for PSBT summaries.
+ * Checks output destinations and which inputs count as signed by the wallet.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Transaction, p2tr } from '@scure/btc-signer';
+import { schnorr } from '@noble/curves/secp256k1';
+import { summarizePsbt } from './psbt';
+import { bip86ReceiveKeys, COIN_TYPES } from './keys';
+import { NETWORKS } from './networks';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const keys = bip86ReceiveKeys(MNEMONIC, COIN_TYPES.mainnet);
+const walletKey = schnorr.getPublicKey(keys(0));
+const otherKey = schnorr.getPublicKey(keys(1));
+
+function addInput(tx: Transaction, internalKey: Uint8Array, vout: number) {
+  const payment = p2tr(internalKey, undefined, NETWORKS.mainnet.btcNetwork);
+  tx.addInput({
+    txid: 'a'.repeat(64),
+    index: vout,
+    witnessUtxo: { script: payment.script, amount: BigInt(10_000) },
+    tapInternalKey: payment.tapInternalKey,
+  });
+}
+
+describe('summarizePsbt', () => {
+  it('should mark only the inputs locked to the wallet key', () => {
+    const tx = new Transaction();
+    addInput(tx, otherKey, 0);
+    addInput(tx, walletKey, 1);
+
+    expect(summarizePsbt(tx, walletKey, NETWORKS.mainnet)).toMatchObject({ inputCount: 2, signedInputs: [1] });
+  });
+
+  it('should list where each output pays and how much', () => {
+    const tx = new Transaction({ allowUnknownOutputs: true });
+    addInput(tx, walletKey, 0);
+    tx.addOutputAddress(
+      'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr',
+      BigInt(7_000),
+      NETWORKS.mainnet.btcNetwork
+    );
+    tx.addOutput({ script: new Uint8Array([0x6a, 0x01, 0xff]), amount: BigInt(0) });
+
+    expect(summarizePsbt(tx, walletKey, NETWORKS.mainnet).outputs).toEqual([
+      { destination: 'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr', amount: BigInt(7_000) },
+      { destination: '6a01ff', amount: BigInt(0) },
+    ]);
+  });
+});
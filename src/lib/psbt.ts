@@ -0,0 +1,70 @@
+/**
+ * PSBT summaries for the signing approval screen.
+ * Lists where each output pays and which inputs the wallet key will sign, so a
+ * page cannot hide a payment behind an input or output count.
+ */
+
+import { Address, OutScript } from '@scure/btc-signer';
+import type { Transaction } from '@scure/btc-signer';
+import type { NetworkConfig } from './networks';
+
+export interface PsbtOutputSummary {
+  // Address the output pays, or the script in hex if it has none (OP_RETURN, bare scripts)
+  destination: string;
+  amount: bigint;
+}
+
+export interface PsbtSummary {
+  // Indices of the inputs the wallet key signs
+  signedInputs: number[];
+  inputCount: number;
+  outputs: PsbtOutputSummary[];
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function includesBytes(haystack: Uint8Array, needle: Uint8Array): boolean {
+  for (let start = 0; start + needle.length <= haystack.length; start++) {
+    if (needle.every((byte, i) => haystack[start + i] === byte)) return true;
+  }
+  return false;
+}
+
+function outputDestination(script: Uint8Array, network: NetworkConfig): string {
+  try {
+    return Address(network.btcNetwork).encode(OutScript.decode(script));
+  } catch {
+    return toHex(script);
+  }
+}
+
+/**
+ * Summarizes a PSBT for approval.
+ * An input counts as signed when its taproot internal key, or one of its leaf
+ * scripts, holds the wallet's key; those are the inputs a taproot signer covers.
+ * @param tx - The decoded PSBT
+ * @param xOnlyPubkey - The wallet's 32-byte x-only public key
+ * @param network - Network whose address encoding to use
+ */
+export function summarizePsbt(tx: Transaction, xOnlyPubkey: Uint8Array, network: NetworkConfig): PsbtSummary {
+  const signedInputs: number[] = [];
+  for (let i = 0; i < tx.inputsLength; i++) {
+    const input = tx.getInput(i);
+    const keyPath = input.tapInternalKey !== undefined && includesBytes(input.tapInternalKey, xOnlyPubkey);
+    const scriptPath = (input.tapLeafScript ?? []).some(([, script]) => includesBytes(script, xOnlyPubkey));
+    if (keyPath || scriptPath) signedInputs.push(i);
+  }
+
+  const outputs: PsbtOutputSummary[] = [];
+  for (let i = 0; i < tx.outputsLength; i++) {
+    const output = tx.getOutput(i);
+    outputs.push({
+      destination: output.script ? outputDestination(output.script, network) : 'unknown',
+      amount: output.amount ?? BigInt(0),
+    });
+  }
+
+  return { signedInputs, inputCount: tx.inputsLength, outputs };
+}
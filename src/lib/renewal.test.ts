@@ -0,0 +1,61 @@
+/**
+ * Tests for VTXO expiry settings and detection.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findExpiring,
+  isRenewalThresholdHours,
+  formatRenewalThreshold,
+  DEFAULT_RENEWAL_THRESHOLD_HOURS,
+} from './renewal';
+
+const NOW = 1_750_000_000_000;
+const HOUR = 60 * 60 * 1000;
+
+describe('isRenewalThresholdHours', () => {
+  it('should accept offered thresholds', () => {
+    expect(isRenewalThresholdHours(DEFAULT_RENEWAL_THRESHOLD_HOURS)).toBe(true);
+    expect(isRenewalThresholdHours(72)).toBe(true);
+  });
+
+  it('should reject anything else', () => {
+    expect(isRenewalThresholdHours(0)).toBe(false);
+    expect(isRenewalThresholdHours('24')).toBe(false);
+    expect(isRenewalThresholdHours(undefined)).toBe(false);
+  });
+});
+
+describe('formatRenewalThreshold', () => {
+  it('should label each threshold', () => {
+    expect(formatRenewalThreshold(12)).toBe('12 hours');
+    expect(formatRenewalThreshold(24)).toBe('1 day');
+    expect(formatRenewalThreshold(72)).toBe('3 days');
+  });
+});
+
+describe('findExpiring', () => {
+  it('should sum the VTXOs inside the threshold', () => {
+    const vtxos = [
+      { value: 10_000, expiresAt: NOW + 30 * HOUR },
+      { value: 2_000, expiresAt: NOW + 10 * HOUR },
+      { value: 50_000, expiresAt: NOW + 100 * HOUR },
+    ];
+
+    expect(findExpiring(vtxos, 48, NOW)).toEqual({ amount: 12_000, count: 2, expiresAt: NOW + 10 * HOUR });
+  });
+
+  it('should include VTXOs that have already expired', () => {
+    expect(findExpiring([{ value: 1_000, expiresAt: NOW - HOUR }], 12, NOW)).toEqual({
+      amount: 1_000,
+      count: 1,
+      expiresAt: NOW - HOUR,
+    });
+  });
+
+  it('should return null when nothing is due', () => {
+    expect(findExpiring([{ value: 1_000, expiresAt: NOW + 25 * HOUR }], 24, NOW)).toBeNull();
+    expect(findExpiring([{ value: 1_000 }], 72, NOW)).toBeNull();
+    expect(findExpiring([], 24, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * VTXO expiry and renewal settings, shared by the background job and the UI.
+ * A VTXO lives in its round's tree until the tree expires; after that the server
+ * can sweep it. Settling it into a new round before then restarts the clock.
+ */
+
+import type { NetworkId } from './networks';
+
+// Hours before expiry at which VTXOs are renewed
+export const RENEWAL_THRESHOLD_OPTIONS = [12, 24, 48, 72] as const;
+
+export type RenewalThresholdHours = (typeof RENEWAL_THRESHOLD_OPTIONS)[number];
+
+export const DEFAULT_RENEWAL_THRESHOLD_HOURS: RenewalThresholdHours = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * VTXOs that are due for renewal, summed up.
+ */
+export interface ExpiringFunds {
+  amount: number;
+  count: number;
+  // Earliest expiry among them, ms since epoch
+  expiresAt: number;
+}
+
+/**
+ * An Ark address whose VTXOs are checked for expiry, even while the wallet is locked.
+ */
+export interface WatchedAddress {
+  network: NetworkId;
+  account: number;
+  address: string;
+}
+
+/**
+ * Type guard for values read from storage or received in messages.
+ * @param value - Value to check
+ * @returns True if the value is one of the offered thresholds
+ */
+export function isRenewalThresholdHours(value: unknown): value is RenewalThresholdHours {
+  return RENEWAL_THRESHOLD_OPTIONS.some((option) => option === value);
+}
+
+/**
+ * Formats a threshold for display.
+ * @param hours - Threshold in hours
+ * @returns Label such as '12 hours' or '2 days'
+ */
+export function formatRenewalThreshold(hours: RenewalThresholdHours): string {
+  if (hours < 24) return `${hours} hours`;
+  return hours === 24 ? '1 day' : `${hours / 24} days`;
+}
+
+/**
+ * Finds the VTXOs that expire within the threshold, including any already expired.
+ * VTXOs without a known expiry are never due.
+ * @param vtxos - VTXOs with their value and expiry
+ * @param thresholdHours - How long before expiry renewal is due
+ * @param now - Current time in ms since epoch
+ * @returns The due VTXOs summed up, or null if none are due
+ */
+export function findExpiring(
+  vtxos: { value: number; expiresAt?: number }[],
+  thresholdHours: RenewalThresholdHours,
+  now: number = Date.now()
+): ExpiringFunds | null {
+  const due = vtxos.filter(
+    (vtxo): vtxo is { value: number; expiresAt: number } =>
+      vtxo.expiresAt !== undefined && vtxo.expiresAt - now <= thresholdHours * HOUR_MS
+  );
+  if (due.length === 0) return null;
+  return {
+    amount: due.reduce((sum, vtxo) => sum + vtxo.value, 0),
+    count: due.length,
+    expiresAt: Math.min(...due.map((vtxo) => vtxo.expiresAt)),
+  };
+}
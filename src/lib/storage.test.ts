@@ -0,0 +1,145 @@
+/**
+ * Tests for the vault writes and seed data in storage.
+ * Runs against an in-memory chrome.storage.local whose callbacks fire asynchronously,
+ * so concurrent calls interleave the way they do in the extension.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  saveEncryptedWallet,
+  loadEncryptedWallet,
+  swapEncryptedWallet,
+  clearSeedData,
+  saveReceiveAddresses,
+  loadReceiveAddresses,
+  saveReceiveScanTime,
+  loadReceiveScanTime,
+  saveHistory,
+  loadHistory,
+  saveLabels,
+  loadLabels,
+} from './storage';
+import type { NetworkId } from './networks';
+
+let stored: Record<string, unknown>;
+
+beforeEach(() => {
+  stored = {};
+  vi.stubGlobal('chrome', {
+    runtime: { lastError: undefined },
+    storage: {
+      local: {
+        get: (keys: string[], callback: (result: Record<string, unknown>) => void) => {
+          const result = Object.fromEntries(keys.filter((key) => key in stored).map((key) => [key, stored[key]]));
+          setTimeout(() => callback(result), 0);
+        },
+        set: (items: Record<string, unknown>, callback: () => void) => {
+          setTimeout(() => {
+            Object.assign(stored, items);
+            callback();
+          }, 0);
+        },
+        remove: (keys: string[], callback: () => void) => {
+          setTimeout(() => {
+            for (const key of keys) delete stored[key];
+            callback();
+          }, 0);
+        },
+      },
+    },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('swapEncryptedWallet', () => {
+  it('should replace the vault it was given', async () => {
+    await saveEncryptedWallet('old');
+
+    await swapEncryptedWallet('old', 'new');
+
+    expect(await loadEncryptedWallet()).toBe('new');
+  });
+
+  it('should refuse to replace a vault that changed and keep the stored one', async () => {
+    await saveEncryptedWallet('other');
+
+    await expect(swapEncryptedWallet('old', 'new')).rejects.toThrow('Wallet changed during the update');
+    expect(await loadEncryptedWallet()).toBe('other');
+  });
+
+  it('should let only one of two concurrent swaps of the same vault through', async () => {
+    await saveEncryptedWallet('old');
+
+    const results = await Promise.allSettled([swapEncryptedWallet('old', 'first'), swapEncryptedWallet('old', 'second')]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect(await loadEncryptedWallet()).toBe('first');
+  });
+
+  it('should not overwrite a save queued before it', async () => {
+    await saveEncryptedWallet('old');
+
+    const save = saveEncryptedWallet('imported');
+    const swap = swapEncryptedWallet('old', 'new');
+
+    await save;
+    await expect(swap).rejects.toThrow('Wallet changed during the update');
+    expect(await loadEncryptedWallet()).toBe('imported');
+  });
+
+  it('should keep working after a failed swap', async () => {
+    await saveEncryptedWallet('old');
+    await expect(swapEncryptedWallet('stale', 'new')).rejects.toThrow();
+
+    await swapEncryptedWallet('old', 'new');
+
+    expect(await loadEncryptedWallet()).toBe('new');
+  });
+});
+
+describe('clearSeedData', () => {
+  const NETWORK_IDS: NetworkId[] = ['mutinynet', 'signet', 'mainnet', 'regtest'];
+
+  it('should leave no address of the replaced seed on any network or account', async () => {
+    for (const network of NETWORK_IDS) {
+      for (const account of [0, 1]) {
+        const address = `old-${network}-${account}`;
+        await saveReceiveAddresses(network, account, [{ index: 0, address, used: false, issuedAt: 1 }]);
+        await saveReceiveScanTime(network, account, 1);
+        await saveHistory(network, account, [
+          {
+            id: `onchain:${address}`,
+            layer: 'onchain',
+            direction: 'received',
+            amount: 1,
+            status: 'confirmed',
+            timestamp: 1,
+            txid: address,
+          },
+        ]);
+      }
+    }
+
+    await clearSeedData(NETWORK_IDS, [0, 1]);
+
+    expect(JSON.stringify(stored)).not.toContain('old-');
+    for (const network of NETWORK_IDS) {
+      for (const account of [0, 1]) {
+        expect(await loadReceiveAddresses(network, account)).toEqual([]);
+        expect(await loadReceiveScanTime(network, account)).toBeNull();
+        expect(await loadHistory(network, account)).toEqual([]);
+      }
+    }
+  });
+
+  it('should keep labels, which the backup restores', async () => {
+    await saveLabels({ tx1: 'rent' });
+
+    await clearSeedData(NETWORK_IDS, [0]);
+
+    expect(await loadLabels()).toEqual({ tx1: 'rent' });
+  });
+});
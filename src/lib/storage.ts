@@ -3,14 +3,41 @@
  * Handles encrypted wallet storage and retrieval.
  */
 
-const WALLET_STORAGE_KEY = 'encrypted_wallet';
+import type { ConnectedSite, Contact, HistoryEntry, SitePermission, TransactionLabels } from '../types/messages';
+import type { LegacyKeyStatus } from './keys';
+import { DEFAULT_NETWORK, isNetworkId } from './networks';
+import { DEFAULT_AUTO_LOCK_MINUTES, isAutoLockMinutes } from './autolock';
+import type { AutoLockMinutes } from './autolock';
+import type { NetworkId } from './networks';
+import { DEFAULT_ACCOUNT, parseAccounts } from './accounts';
+import type { Account } from './accounts';
+import type { UnilateralExit } from './exit';
+import { DEFAULT_RENEWAL_THRESHOLD_HOURS, isRenewalThresholdHours } from './renewal';
+import type { RenewalThresholdHours, WatchedAddress, ExpiringFunds } from './renewal';
+import type { BoardingDeposit } from './boarding';
+import type { ReceiveAddress } from './addresses';
+import type { ReverseSwap, SubmarineSwap } from './swap';
 
 /**
- * Saves encrypted wallet data to chrome.storage.local.
- * @param data - The encrypted wallet data (JSON string from encryptData)
- * @returns Promise that resolves when data is saved
+ * Returns a runner that starts each task once the previous one has settled, for
+ * read-modify-writes that must not interleave. A failed task rejects its caller
+ * but does not block the tasks queued behind it.
  */
-export async function saveEncryptedWallet(data: string): Promise<void> {
+function createQueue(): <T>(task: () => Promise<T>) => Promise<T> {
+  let tail: Promise<unknown> = Promise.resolve();
+  return (task) => {
+    const run = tail.then(task, task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+}
+
+const WALLET_STORAGE_KEY = 'encrypted_wallet';
+
+// Every vault write goes through here, so a swap's check and its write see no other write in between
+const walletQueue = createQueue();
+
+function writeEncryptedWallet(data: string): Promise<void> {
   return new Promise((resolve, reject) => {
     chrome.storage.local.set({ [WALLET_STORAGE_KEY]: data }, () => {
       if (chrome.runtime.lastError) {
@@ -22,6 +49,15 @@ export async function saveEncryptedWallet(data: string): Promise<void> {
   });
 }
 
+/**
+ * Saves encrypted wallet data to chrome.storage.local.
+ * @param data - The encrypted wallet data (JSON string from encryptData)
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveEncryptedWallet(data: string): Promise<void> {
+  return walletQueue(() => writeEncryptedWallet(data));
+}
+
 /**
  * Loads encrypted wallet data from chrome.storage.local.
  * @returns Promise that resolves with the encrypted wallet data, or null if not found
@@ -39,6 +75,26 @@ export async function loadEncryptedWallet(): Promise<string | null> {
   });
 }
 
+/**
+ * Replaces the encrypted wallet, but only if it still holds the vault the caller decrypted.
+ * The check and the write run as one step of the vault queue, so a concurrent save or
+ * swap cannot land between them. The new vault goes in with a single set call, which
+ * chrome.storage writes atomically, so an interrupted swap leaves the old or the new vault.
+ * @param previous - The vault the caller read and decrypted
+ * @param next - The replacement vault
+ * @returns Promise that resolves when the new vault is saved
+ * @throws Error if the stored vault changed in the meantime
+ */
+export async function swapEncryptedWallet(previous: string, next: string): Promise<void> {
+  return walletQueue(async () => {
+    const current = await loadEncryptedWallet();
+    if (current !== previous) {
+      throw new Error('Wallet changed during the update');
+    }
+    await writeEncryptedWallet(next);
+  });
+}
+
 /**
  * Checks if a wallet exists in storage.
  * @returns Promise that resolves to true if wallet exists, false otherwise
@@ -55,14 +111,146 @@ export async function hasWallet(): Promise<boolean> {
   });
 }
 
+const BACKUP_STORAGE_KEY = 'seed_backed_up';
+
+/**
+ * Records whether the user has completed the recovery phrase quiz.
+ * @param confirmed - True once the quiz has been passed
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveBackupConfirmed(confirmed: boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [BACKUP_STORAGE_KEY]: confirmed }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads whether the recovery phrase has been backed up.
+ * @returns Promise that resolves to true only if the quiz was completed
+ */
+export async function loadBackupConfirmed(): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([BACKUP_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve(result[BACKUP_STORAGE_KEY] === true);
+      }
+    });
+  });
+}
+
+/**
+ * Builds the storage key for data that is kept separately on each network.
+ * @param base - Key shared by all networks
+ * @param network - The network the data belongs to
+ * @returns Key such as 'tx_history:mutinynet'
+ */
+function networkStorageKey(base: string, network: NetworkId): string {
+  return `${base}:${network}`;
+}
+
+/**
+ * Storage key for data kept per network and per account.
+ * The first account keeps the per-network key it used before accounts existed.
+ */
+function accountStorageKey(base: string, network: NetworkId, account: number): string {
+  const key = networkStorageKey(base, network);
+  return account === DEFAULT_ACCOUNT.index ? key : `${key}:${account}`;
+}
+
+const LEGACY_KEY_STORAGE_KEY = 'legacy_key_status';
+
+/**
+ * Records whether the pre-BIP-86 key of this vault still holds funds on a network.
+ * @param network - The network that was checked
+ * @param status - Result of the last legacy funds check
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveLegacyKeyStatus(network: NetworkId, status: LegacyKeyStatus): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [networkStorageKey(LEGACY_KEY_STORAGE_KEY, network)]: status }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+const LEGACY_CHECK_STORAGE_KEY = 'legacy_key_check';
+
+/**
+ * Saves when the legacy key was last checked for funds on a network.
+ * @param network - The network that was checked
+ * @param checkedAt - When the check finished, ms since epoch
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveLegacyCheckTime(network: NetworkId, checkedAt: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [networkStorageKey(LEGACY_CHECK_STORAGE_KEY, network)]: checkedAt }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads when the legacy key was last checked for funds on a network.
+ * @param network - The network to load
+ * @returns Promise that resolves with the time in ms since epoch, or null if never checked
+ */
+export async function loadLegacyCheckTime(network: NetworkId): Promise<number | null> {
+  const key = networkStorageKey(LEGACY_CHECK_STORAGE_KEY, network);
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([key], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const checkedAt = result[key];
+        resolve(typeof checkedAt === 'number' ? checkedAt : null);
+      }
+    });
+  });
+}
+
+/**
+ * Loads the legacy key status for a network.
+ * @param network - The network to look up
+ * @returns Promise that resolves to 'unchecked' for vaults that were never checked
+ */
+export async function loadLegacyKeyStatus(network: NetworkId): Promise<LegacyKeyStatus> {
+  const key = networkStorageKey(LEGACY_KEY_STORAGE_KEY, network);
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([key], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const status = result[key];
+        resolve(status === 'none' || status === 'empty' || status === 'funded' ? status : 'unchecked');
+      }
+    });
+  });
+}
+
 const NETWORK_STORAGE_KEY = 'network';
 
 /**
  * Saves the selected network to chrome.storage.local.
- * @param network - The network to save ('signet' or 'mainnet')
+ * @param network - The network to save
  * @returns Promise that resolves when data is saved
  */
-export async function saveNetwork(network: 'signet' | 'mainnet'): Promise<void> {
+export async function saveNetwork(network: NetworkId): Promise<void> {
   return new Promise((resolve, reject) => {
     chrome.storage.local.set({ [NETWORK_STORAGE_KEY]: network }, () => {
       if (chrome.runtime.lastError) {
@@ -76,22 +264,783 @@ export async function saveNetwork(network: 'signet' | 'mainnet'): Promise<void>
 
 /**
  * Loads the selected network from chrome.storage.local.
- * @returns Promise that resolves with the network ('signet' or 'mainnet'), defaults to 'signet'
+ * @returns Promise that resolves with the network, defaults to DEFAULT_NETWORK
  */
-export async function loadNetwork(): Promise<'signet' | 'mainnet'> {
+export async function loadNetwork(): Promise<NetworkId> {
   return new Promise((resolve, reject) => {
     chrome.storage.local.get([NETWORK_STORAGE_KEY], (result: { [key: string]: unknown }) => {
       if (chrome.runtime.lastError) {
         reject(new Error(chrome.runtime.lastError.message));
       } else {
         const network = result[NETWORK_STORAGE_KEY];
-        if (network === 'signet' || network === 'mainnet') {
-          resolve(network);
-        } else {
-          resolve('signet'); // Default to signet
-        }
+        resolve(isNetworkId(network) ? network : DEFAULT_NETWORK);
+      }
+    });
+  });
+}
+
+
+const AUTO_LOCK_STORAGE_KEY = 'auto_lock_minutes';
+
+/**
+ * Saves the auto-lock timeout to chrome.storage.local.
+ * @param minutes - Timeout in minutes, 0 for never
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveAutoLockMinutes(minutes: AutoLockMinutes): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [AUTO_LOCK_STORAGE_KEY]: minutes }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads the auto-lock timeout from chrome.storage.local.
+ * @returns Promise that resolves with the timeout, defaults to DEFAULT_AUTO_LOCK_MINUTES
+ */
+export async function loadAutoLockMinutes(): Promise<AutoLockMinutes> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([AUTO_LOCK_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const minutes = result[AUTO_LOCK_STORAGE_KEY];
+        resolve(isAutoLockMinutes(minutes) ? minutes : DEFAULT_AUTO_LOCK_MINUTES);
+      }
+    });
+  });
+}
+
+const CONNECTED_SITES_STORAGE_KEY = 'connected_sites';
+
+/**
+ * Loads all connected sites from chrome.storage.local, keyed by origin.
+ * @returns Promise that resolves with the site registry (empty if none)
+ */
+async function loadSiteRegistry(): Promise<Record<string, ConnectedSite>> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([CONNECTED_SITES_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const registry = result[CONNECTED_SITES_STORAGE_KEY];
+        resolve(typeof registry === 'object' && registry !== null ? registry as Record<string, ConnectedSite> : {});
+      }
+    });
+  });
+}
+
+/**
+ * Saves the full site registry to chrome.storage.local.
+ * @param registry - Connected sites keyed by origin
+ * @returns Promise that resolves when data is saved
+ */
+async function saveSiteRegistry(registry: Record<string, ConnectedSite>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [CONNECTED_SITES_STORAGE_KEY]: registry }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+const siteRegistryQueue = createQueue();
+
+/**
+ * Runs a read-modify-write of the site registry after any already queued. Two
+ * approvals landing together would otherwise each save a registry missing the
+ * other's grant.
+ * @param update - Returns the registry to save and the value to resolve with
+ */
+function updateSiteRegistry<T>(
+  update: (registry: Record<string, ConnectedSite>) => { registry: Record<string, ConnectedSite>; result: T }
+): Promise<T> {
+  return siteRegistryQueue(async () => {
+    const { registry, result } = update(await loadSiteRegistry());
+    await saveSiteRegistry(registry);
+    return result;
+  });
+}
+
+/**
+ * Loads every connected site, most recently approved first.
+ * @returns Promise that resolves with the list of connected sites
+ */
+export async function loadConnectedSites(): Promise<ConnectedSite[]> {
+  const registry = await loadSiteRegistry();
+  return Object.values(registry).sort((a, b) => b.approvedAt - a.approvedAt);
+}
+
+/**
+ * Loads a single connected site.
+ * @param origin - The site origin (e.g. 'https://example.com')
+ * @returns Promise that resolves with the site, or null if it was never connected
+ */
+export async function loadConnectedSite(origin: string): Promise<ConnectedSite | null> {
+  const registry = await loadSiteRegistry();
+  return registry[origin] ?? null;
+}
+
+/**
+ * Grants a capability to a site, connecting it if needed.
+ * @param origin - The site origin
+ * @param permission - The capability the user approved
+ * @returns Promise that resolves with the updated site
+ */
+export async function grantSitePermission(origin: string, permission: SitePermission): Promise<ConnectedSite> {
+  return updateSiteRegistry((registry) => {
+    const existing = registry[origin];
+    const site: ConnectedSite = {
+      origin,
+      approvedAt: Date.now(),
+      permissions: existing?.permissions.includes(permission)
+        ? existing.permissions
+        : [...(existing?.permissions ?? []), permission],
+    };
+    return { registry: { ...registry, [origin]: site }, result: site };
+  });
+}
+
+/**
+ * Replaces every connected site, e.g. when restoring a backup.
+ * @param sites - The sites to keep
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveConnectedSites(sites: ConnectedSite[]): Promise<void> {
+  await updateSiteRegistry(() => ({
+    registry: Object.fromEntries(sites.map((site) => [site.origin, site])),
+    result: undefined,
+  }));
+}
+
+/**
+ * Removes a site and all of its capabilities.
+ * @param origin - The site origin
+ * @returns Promise that resolves when the site is removed
+ */
+export async function revokeSite(origin: string): Promise<void> {
+  await updateSiteRegistry((registry) => {
+    delete registry[origin];
+    return { registry, result: undefined };
+  });
+}
+
+const HISTORY_STORAGE_KEY = 'tx_history';
+
+/**
+ * Saves the transaction history of an account on a network to chrome.storage.local.
+ * @param network - The network the entries belong to
+ * @param account - The account number the entries belong to
+ * @param entries - History entries, newest first
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveHistory(network: NetworkId, account: number, entries: HistoryEntry[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [accountStorageKey(HISTORY_STORAGE_KEY, network, account)]: entries }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads the transaction history of an account on a network from chrome.storage.local.
+ * History recorded before networks were separated is treated as the default network's first account's.
+ * @param network - The network to load
+ * @param account - The account number to load
+ * @returns Promise that resolves with the stored entries (empty if none)
+ */
+export async function loadHistory(network: NetworkId, account: number): Promise<HistoryEntry[]> {
+  const key = accountStorageKey(HISTORY_STORAGE_KEY, network, account);
+  const inheritsUnscoped = network === DEFAULT_NETWORK && account === DEFAULT_ACCOUNT.index;
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([key, HISTORY_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const entries = result[key] ?? (inheritsUnscoped ? result[HISTORY_STORAGE_KEY] : undefined);
+        resolve(Array.isArray(entries) ? entries as HistoryEntry[] : []);
+      }
+    });
+  });
+}
+
+const LABELS_STORAGE_KEY = 'tx_labels';
+
+/**
+ * Saves transaction labels to chrome.storage.local.
+ * @param labels - Labels keyed by txid
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveLabels(labels: TransactionLabels): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [LABELS_STORAGE_KEY]: labels }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads transaction labels from chrome.storage.local.
+ * @returns Promise that resolves with labels keyed by txid (empty if none)
+ */
+export async function loadLabels(): Promise<TransactionLabels> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([LABELS_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const labels = result[LABELS_STORAGE_KEY];
+        resolve(typeof labels === 'object' && labels !== null ? labels as TransactionLabels : {});
+      }
+    });
+  });
+}
+
+const CONTACTS_STORAGE_KEY = 'contacts';
+
+/**
+ * Saves the contact list to chrome.storage.local.
+ * @param contacts - Saved payees
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveContacts(contacts: Contact[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [CONTACTS_STORAGE_KEY]: contacts }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
       }
     });
   });
 }
 
+/**
+ * Loads the contact list from chrome.storage.local.
+ * @returns Promise that resolves with the saved payees (empty if none)
+ */
+export async function loadContacts(): Promise<Contact[]> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([CONTACTS_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const contacts = result[CONTACTS_STORAGE_KEY];
+        resolve(Array.isArray(contacts) ? contacts as Contact[] : []);
+      }
+    });
+  });
+}
+
+const ACCOUNTS_STORAGE_KEY = 'accounts';
+
+/**
+ * Saves the account list to chrome.storage.local.
+ * @param accounts - Named accounts of the wallet
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveAccounts(accounts: Account[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [ACCOUNTS_STORAGE_KEY]: accounts }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads the account list from chrome.storage.local.
+ * Wallets created before accounts existed have just the default account.
+ * @returns Promise that resolves with the accounts, ordered by account number
+ */
+export async function loadAccounts(): Promise<Account[]> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([ACCOUNTS_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve(parseAccounts(result[ACCOUNTS_STORAGE_KEY]));
+      }
+    });
+  });
+}
+
+const ACTIVE_ACCOUNT_STORAGE_KEY = 'active_account';
+
+/**
+ * Saves the selected account to chrome.storage.local.
+ * @param account - The account number
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveActiveAccount(account: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [ACTIVE_ACCOUNT_STORAGE_KEY]: account }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads the selected account from chrome.storage.local.
+ * @returns Promise that resolves with the account number (the default account if unset)
+ */
+export async function loadActiveAccount(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([ACTIVE_ACCOUNT_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const account = result[ACTIVE_ACCOUNT_STORAGE_KEY];
+        resolve(Number.isSafeInteger(account) ? account as number : DEFAULT_ACCOUNT.index);
+      }
+    });
+  });
+}
+
+const EXITS_STORAGE_KEY = 'unilateral_exits';
+
+/**
+ * Saves unilateral exit progress to chrome.storage.local.
+ * @param exits - Every exit, finished or not
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveExits(exits: UnilateralExit[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [EXITS_STORAGE_KEY]: exits }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads unilateral exit progress from chrome.storage.local.
+ * @returns Promise that resolves with every stored exit (empty if none)
+ */
+export async function loadExits(): Promise<UnilateralExit[]> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([EXITS_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const exits = result[EXITS_STORAGE_KEY];
+        resolve(Array.isArray(exits) ? exits as UnilateralExit[] : []);
+      }
+    });
+  });
+}
+
+const RENEWAL_THRESHOLD_STORAGE_KEY = 'renewal_threshold_hours';
+
+/**
+ * Saves the VTXO renewal threshold to chrome.storage.local.
+ * @param hours - How long before expiry VTXOs are renewed
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveRenewalThreshold(hours: RenewalThresholdHours): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [RENEWAL_THRESHOLD_STORAGE_KEY]: hours }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads the VTXO renewal threshold from chrome.storage.local.
+ * @returns Promise that resolves with the threshold, defaults to DEFAULT_RENEWAL_THRESHOLD_HOURS
+ */
+export async function loadRenewalThreshold(): Promise<RenewalThresholdHours> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([RENEWAL_THRESHOLD_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const hours = result[RENEWAL_THRESHOLD_STORAGE_KEY];
+        resolve(isRenewalThresholdHours(hours) ? hours : DEFAULT_RENEWAL_THRESHOLD_HOURS);
+      }
+    });
+  });
+}
+
+const WATCHED_ADDRESSES_STORAGE_KEY = 'expiry_watch';
+
+/**
+ * Saves the Ark addresses checked for expiring VTXOs to chrome.storage.local.
+ * @param addresses - One entry per network and account that has been opened
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveWatchedAddresses(addresses: WatchedAddress[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [WATCHED_ADDRESSES_STORAGE_KEY]: addresses }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads the Ark addresses checked for expiring VTXOs from chrome.storage.local.
+ * @returns Promise that resolves with the watched addresses (empty if none)
+ */
+export async function loadWatchedAddresses(): Promise<WatchedAddress[]> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([WATCHED_ADDRESSES_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const addresses = result[WATCHED_ADDRESSES_STORAGE_KEY];
+        resolve(Array.isArray(addresses) ? addresses as WatchedAddress[] : []);
+      }
+    });
+  });
+}
+
+const EXPIRY_ALERTS_STORAGE_KEY = 'expiry_alerts';
+
+/**
+ * Saves the expiring funds the user was last notified about to chrome.storage.local.
+ * @param alerts - Expiring funds keyed by "network:account"
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveExpiryAlerts(alerts: Record<string, ExpiringFunds>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [EXPIRY_ALERTS_STORAGE_KEY]: alerts }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads the expiring funds the user was last notified about from chrome.storage.local.
+ * @returns Promise that resolves with the alerts keyed by "network:account" (empty if none)
+ */
+export async function loadExpiryAlerts(): Promise<Record<string, ExpiringFunds>> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([EXPIRY_ALERTS_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const alerts = result[EXPIRY_ALERTS_STORAGE_KEY];
+        resolve(typeof alerts === 'object' && alerts !== null ? alerts as Record<string, ExpiringFunds> : {});
+      }
+    });
+  });
+}
+
+const BOARDING_STORAGE_KEY = 'boarding_deposits';
+
+/**
+ * Saves the tracked boarding deposits of an account on a network to chrome.storage.local.
+ * @param network - The network the deposits belong to
+ * @param account - The account number the deposits belong to
+ * @param deposits - Deposits that are pending or recently settled
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveBoardingDeposits(
+  network: NetworkId,
+  account: number,
+  deposits: BoardingDeposit[]
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [accountStorageKey(BOARDING_STORAGE_KEY, network, account)]: deposits }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads the tracked boarding deposits of an account on a network from chrome.storage.local.
+ * @param network - The network to load
+ * @param account - The account number to load
+ * @returns Promise that resolves with the deposits (empty if none)
+ */
+export async function loadBoardingDeposits(network: NetworkId, account: number): Promise<BoardingDeposit[]> {
+  const key = accountStorageKey(BOARDING_STORAGE_KEY, network, account);
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([key], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const deposits = result[key];
+        resolve(Array.isArray(deposits) ? deposits as BoardingDeposit[] : []);
+      }
+    });
+  });
+}
+
+const RECEIVE_ADDRESSES_STORAGE_KEY = 'receive_addresses';
+
+/**
+ * Saves the L1 receive address book of an account on a network to chrome.storage.local.
+ * @param network - The network the addresses belong to
+ * @param account - The account number the addresses belong to
+ * @param addresses - Addresses handed out or found by a scan, by index
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveReceiveAddresses(
+  network: NetworkId,
+  account: number,
+  addresses: ReceiveAddress[]
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [accountStorageKey(RECEIVE_ADDRESSES_STORAGE_KEY, network, account)]: addresses }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads the L1 receive address book of an account on a network from chrome.storage.local.
+ * @param network - The network to load
+ * @param account - The account number to load
+ * @returns Promise that resolves with the addresses (empty if none)
+ */
+export async function loadReceiveAddresses(network: NetworkId, account: number): Promise<ReceiveAddress[]> {
+  const key = accountStorageKey(RECEIVE_ADDRESSES_STORAGE_KEY, network, account);
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([key], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const addresses = result[key];
+        resolve(Array.isArray(addresses) ? addresses as ReceiveAddress[] : []);
+      }
+    });
+  });
+}
+
+const RECEIVE_SCAN_STORAGE_KEY = 'receive_address_scan';
+
+/**
+ * Saves when the receive address book of an account was last scanned.
+ * @param network - The network the scan ran on
+ * @param account - The account number that was scanned
+ * @param scannedAt - When the scan finished, ms since epoch
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveReceiveScanTime(network: NetworkId, account: number, scannedAt: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [accountStorageKey(RECEIVE_SCAN_STORAGE_KEY, network, account)]: scannedAt }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads when the receive address book of an account was last scanned.
+ * @param network - The network to load
+ * @param account - The account number to load
+ * @returns Promise that resolves with the time in ms since epoch, or null if never scanned
+ */
+export async function loadReceiveScanTime(network: NetworkId, account: number): Promise<number | null> {
+  const key = accountStorageKey(RECEIVE_SCAN_STORAGE_KEY, network, account);
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([key], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const scannedAt = result[key];
+        resolve(typeof scannedAt === 'number' ? scannedAt : null);
+      }
+    });
+  });
+}
+
+const SWAPS_STORAGE_KEY = 'lightning_swaps';
+
+/**
+ * Saves every Lightning swap to chrome.storage.local.
+ * @param swaps - Swaps across all networks and accounts, in progress or finished
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveSwaps(swaps: ReverseSwap[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [SWAPS_STORAGE_KEY]: swaps }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads every Lightning swap from chrome.storage.local.
+ * @returns Promise that resolves with the swaps (empty if none)
+ */
+export async function loadSwaps(): Promise<ReverseSwap[]> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([SWAPS_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const swaps = result[SWAPS_STORAGE_KEY];
+        resolve(Array.isArray(swaps) ? swaps as ReverseSwap[] : []);
+      }
+    });
+  });
+}
+
+const PAYMENTS_STORAGE_KEY = 'lightning_payments';
+
+/**
+ * Saves every Lightning payment to chrome.storage.local.
+ * @param payments - Submarine swaps across all networks and accounts, in progress or finished
+ * @returns Promise that resolves when data is saved
+ */
+export async function savePayments(payments: SubmarineSwap[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [PAYMENTS_STORAGE_KEY]: payments }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads every Lightning payment from chrome.storage.local.
+ * @returns Promise that resolves with the payments (empty if none)
+ */
+export async function loadPayments(): Promise<SubmarineSwap[]> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([PAYMENTS_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const payments = result[PAYMENTS_STORAGE_KEY];
+        resolve(Array.isArray(payments) ? payments as SubmarineSwap[] : []);
+      }
+    });
+  });
+}
+
+const SWAP_PROVIDERS_STORAGE_KEY = 'swap_providers';
+
+/**
+ * Saves the user's swap provider URLs to chrome.storage.local.
+ * @param providers - Provider URLs keyed by network; networks without one use their default
+ * @returns Promise that resolves when data is saved
+ */
+export async function saveSwapProviders(providers: Partial<Record<NetworkId, string>>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [SWAP_PROVIDERS_STORAGE_KEY]: providers }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Loads the user's swap provider URLs from chrome.storage.local.
+ * @returns Promise that resolves with the provider URLs keyed by network (empty if none)
+ */
+export async function loadSwapProviders(): Promise<Partial<Record<NetworkId, string>>> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get([SWAP_PROVIDERS_STORAGE_KEY], (result: { [key: string]: unknown }) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        const providers = result[SWAP_PROVIDERS_STORAGE_KEY];
+        resolve(typeof providers === 'object' && providers !== null ? providers as Partial<Record<NetworkId, string>> : {});
+      }
+    });
+  });
+}
+
+/**
+ * Removes everything derived from a wallet's seed, for when another seed replaces it:
+ * history, receive addresses, boarding deposits, exits, swaps, payments, expiry
+ * tracking and legacy-key checks. Labels, contacts, sites and settings are kept.
+ * @param networks - Networks the old and new wallets may have used
+ * @param accounts - Account numbers of the old and new wallets
+ * @returns Promise that resolves when the data is removed
+ */
+export async function clearSeedData(networks: NetworkId[], accounts: number[]): Promise<void> {
+  const keys = [
+    HISTORY_STORAGE_KEY,
+    EXITS_STORAGE_KEY,
+    SWAPS_STORAGE_KEY,
+    PAYMENTS_STORAGE_KEY,
+    WATCHED_ADDRESSES_STORAGE_KEY,
+    EXPIRY_ALERTS_STORAGE_KEY,
+  ];
+  for (const network of networks) {
+    keys.push(
+      networkStorageKey(LEGACY_KEY_STORAGE_KEY, network),
+      networkStorageKey(LEGACY_CHECK_STORAGE_KEY, network)
+    );
+    for (const account of accounts) {
+      keys.push(
+        accountStorageKey(HISTORY_STORAGE_KEY, network, account),
+        accountStorageKey(BOARDING_STORAGE_KEY, network, account),
+        accountStorageKey(RECEIVE_ADDRESSES_STORAGE_KEY, network, account),
+        accountStorageKey(RECEIVE_SCAN_STORAGE_KEY, network, account)
+      );
+    }
+  }
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.remove(keys, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
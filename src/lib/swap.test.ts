@@ -0,0 +1,485 @@
+/**
+ * Tests for the swap provider client and the reverse and submarine swap stages.
+ * The client runs against an in-memory mock of the Boltz v2 API.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  BoltzSwapClient,
+  SwapError,
+  SwapSchemaMismatchError,
+  parseReverseSwap,
+  parseSwapStatus,
+  checkReverseSwap,
+  checkSwapTimeouts,
+  swapDelay,
+  isSwapActive,
+  reverseSwapStage,
+  summarizeSwap,
+  parseSubmarineQuote,
+  submarineFee,
+  checkSubmarineSwap,
+  parseSubmarineSwap,
+  submarineSwapStage,
+  isPaymentActive,
+  preimageMatches,
+  isLocktimeReached,
+} from './swap';
+import type { ReverseSwap, ReverseSwapRequest } from './swap';
+import { sha256 } from '@noble/hashes/sha2';
+import { hex } from '@scure/base';
+
+const SWAP_URL = 'https://swap.example';
+
+// Signet hold invoice for 50,000 sats, paying to the hash of 0x07 repeated
+const SWAP_INVOICE =
+  'lntbs500u1p5yacvqpp5fwcxlrjw8fm3t5sp64eap2jzxa3w2hdt6cdzcq3837jke3kjjnsqdq8wdmkzuqh3503ktn07gpy787d4v6l62lj3dxlf0mpw74smduxcyqlwzs0usqq29fqznw2s7wprq4vmp462vgnayj8n33227af9ta8t2r5u2d0pcqq4tkxh';
+const SWAP_INVOICE_HASH = '4bb06f8e4e3a7715d201d573d0aa423762e55dabd61a2c02278fa56cc6d294e0';
+
+// Reverse swap creation body as the Boltz Ark backend returns it
+const RECORDED_REVERSE_SWAP = {
+  id: 'Zx8Kd2',
+  invoice: SWAP_INVOICE,
+  onchainAmount: 49_750,
+  lockupAddress: 'tark1qexamplelockup',
+  refundPublicKey: '02' + 'ab'.repeat(32),
+  timeoutBlockHeights: {
+    refund: 1_730_000_000,
+    unilateralClaim: 144,
+    unilateralRefund: 288,
+    unilateralRefundWithoutReceiver: 86_528,
+  },
+};
+
+// Submarine swap creation body and ARK/BTC pair as the Boltz Ark backend returns them
+const RECORDED_SUBMARINE_SWAP = {
+  id: 'Pq3Rt7',
+  address: 'tark1qexamplesubmarine',
+  expectedAmount: 50_101,
+  claimPublicKey: '02' + '12'.repeat(32),
+  acceptZeroConf: true,
+  timeoutBlockHeights: RECORDED_REVERSE_SWAP.timeoutBlockHeights,
+};
+
+const RECORDED_SUBMARINE_PAIRS = {
+  ARK: {
+    BTC: {
+      hash: 'pairhash',
+      rate: 1,
+      limits: { maximal: 10_000_000, minimal: 1_000, maximalZeroConf: 10_000_000 },
+      fees: { percentage: 0.1, minerFees: 51 },
+    },
+  },
+};
+
+const PREIMAGE = '22'.repeat(32);
+
+const REQUEST: ReverseSwapRequest = {
+  invoiceAmount: 50_000,
+  claimPublicKey: '03' + 'cd'.repeat(32),
+  preimageHash: SWAP_INVOICE_HASH,
+};
+
+/**
+ * Stands in for a swap provider: answers the endpoints the wallet uses and
+ * lets a test move the swap through its statuses.
+ */
+function mockSwapServer(options: { rejectWith?: string } = {}) {
+  const server = { status: 'swap.created', requests: [] as { path: string; body?: unknown }[] };
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+    const path = url.slice(SWAP_URL.length);
+    server.requests.push({ path, body: init?.body ? JSON.parse(String(init.body)) : undefined });
+
+    if (path === '/v2/swap/reverse' && init?.method === 'POST') {
+      if (options.rejectWith) return jsonResponse({ error: options.rejectWith }, 400);
+      return jsonResponse(RECORDED_REVERSE_SWAP, 201);
+    }
+    if (path === '/v2/swap/submarine' && init?.method === 'POST') {
+      if (options.rejectWith) return jsonResponse({ error: options.rejectWith }, 400);
+      return jsonResponse(RECORDED_SUBMARINE_SWAP, 201);
+    }
+    if (path === '/v2/swap/submarine') {
+      return jsonResponse(RECORDED_SUBMARINE_PAIRS);
+    }
+    if (path === `/v2/swap/submarine/${RECORDED_SUBMARINE_SWAP.id}/preimage`) {
+      if (server.status !== 'transaction.claimed') return jsonResponse({ error: 'swap has not succeeded' }, 400);
+      return jsonResponse({ preimage: PREIMAGE.toUpperCase() });
+    }
+    if (path === `/v2/swap/${RECORDED_REVERSE_SWAP.id}` || path === `/v2/swap/${RECORDED_SUBMARINE_SWAP.id}`) {
+      return jsonResponse({ status: server.status });
+    }
+    return jsonResponse({ error: 'could not find swap' }, 404);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return server;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function makeSwap(overrides: Partial<ReverseSwap> = {}): ReverseSwap {
+  return {
+    id: RECORDED_REVERSE_SWAP.id,
+    providerUrl: SWAP_URL,
+    network: 'mutinynet',
+    account: 0,
+    invoice: RECORDED_REVERSE_SWAP.invoice,
+    amount: REQUEST.invoiceAmount,
+    onchainAmount: RECORDED_REVERSE_SWAP.onchainAmount,
+    preimage: '11'.repeat(32),
+    preimageHash: REQUEST.preimageHash,
+    lockupAddress: RECORDED_REVERSE_SWAP.lockupAddress,
+    refundPublicKey: RECORDED_REVERSE_SWAP.refundPublicKey,
+    timeouts: parseReverseSwap(RECORDED_REVERSE_SWAP).timeouts,
+    claimAddress: 'tark1qexampleclaim',
+    stage: 'pending',
+    createdAt: 1_700_000_000_000,
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('BoltzSwapClient', () => {
+  it('should create a BTC to ARK reverse swap', async () => {
+    const server = mockSwapServer();
+    const swap = await new BoltzSwapClient(SWAP_URL).createReverseSwap(REQUEST);
+
+    expect(server.requests[0]).toEqual({
+      path: '/v2/swap/reverse',
+      body: { from: 'BTC', to: 'ARK', ...REQUEST },
+    });
+    expect(swap).toEqual({
+      id: 'Zx8Kd2',
+      invoice: SWAP_INVOICE,
+      onchainAmount: 49_750,
+      lockupAddress: 'tark1qexamplelockup',
+      refundPublicKey: RECORDED_REVERSE_SWAP.refundPublicKey,
+      timeouts: RECORDED_REVERSE_SWAP.timeoutBlockHeights,
+    });
+  });
+
+  it('should ignore a trailing slash in the provider URL', async () => {
+    const server = mockSwapServer();
+    await new BoltzSwapClient(`${SWAP_URL}/`).getSwapStatus(RECORDED_REVERSE_SWAP.id);
+    expect(server.requests[0].path).toBe(`/v2/swap/${RECORDED_REVERSE_SWAP.id}`);
+  });
+
+  it('should follow the swap through its statuses', async () => {
+    const server = mockSwapServer();
+    const client = new BoltzSwapClient(SWAP_URL);
+
+    expect(await client.getSwapStatus(RECORDED_REVERSE_SWAP.id)).toEqual({ status: 'swap.created' });
+    server.status = 'transaction.mempool';
+    expect(await client.getSwapStatus(RECORDED_REVERSE_SWAP.id)).toEqual({ status: 'transaction.mempool' });
+  });
+
+  it("should surface the provider's reason for a rejection", async () => {
+    mockSwapServer({ rejectWith: 'minimal amount is 1000' });
+    const promise = new BoltzSwapClient(SWAP_URL).createReverseSwap(REQUEST);
+
+    await expect(promise).rejects.toBeInstanceOf(SwapError);
+    await expect(promise).rejects.toThrow('minimal amount is 1000');
+  });
+
+  it('should reject unknown swaps', async () => {
+    mockSwapServer();
+    await expect(new BoltzSwapClient(SWAP_URL).getSwapStatus('unknown')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should create an ARK to BTC submarine swap', async () => {
+    const server = mockSwapServer();
+    const request = { invoice: 'lntbs500u1pn9example', refundPublicKey: REQUEST.claimPublicKey };
+    const swap = await new BoltzSwapClient(SWAP_URL).createSubmarineSwap(request);
+
+    expect(server.requests[0]).toEqual({
+      path: '/v2/swap/submarine',
+      body: { from: 'ARK', to: 'BTC', ...request },
+    });
+    expect(swap).toEqual({
+      id: 'Pq3Rt7',
+      lockupAddress: 'tark1qexamplesubmarine',
+      expectedAmount: 50_101,
+      claimPublicKey: RECORDED_SUBMARINE_SWAP.claimPublicKey,
+      timeouts: RECORDED_SUBMARINE_SWAP.timeoutBlockHeights,
+    });
+  });
+
+  it('should read the submarine quote', async () => {
+    mockSwapServer();
+    expect(await new BoltzSwapClient(SWAP_URL).getSubmarineQuote()).toEqual({
+      percentage: 0.1,
+      minerFees: 51,
+      minimal: 1_000,
+      maximal: 10_000_000,
+    });
+  });
+
+  it('should fetch the preimage once the invoice is paid', async () => {
+    const server = mockSwapServer();
+    const client = new BoltzSwapClient(SWAP_URL);
+
+    await expect(client.getSwapPreimage(RECORDED_SUBMARINE_SWAP.id)).rejects.toThrow('swap has not succeeded');
+    server.status = 'transaction.claimed';
+    expect(await client.getSwapPreimage(RECORDED_SUBMARINE_SWAP.id)).toBe(PREIMAGE);
+  });
+
+  it('should wrap network failures', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    }));
+    await expect(new BoltzSwapClient(SWAP_URL).getSwapStatus('Zx8Kd2')).rejects.toThrow(
+      'Swap provider unreachable: Failed to fetch'
+    );
+  });
+});
+
+describe('parseReverseSwap', () => {
+  it('should reject a body without timeouts', () => {
+    expect(() => parseReverseSwap({ ...RECORDED_REVERSE_SWAP, timeoutBlockHeights: undefined })).toThrow(
+      SwapSchemaMismatchError
+    );
+  });
+
+  it('should reject a malformed refund key', () => {
+    expect(() => parseReverseSwap({ ...RECORDED_REVERSE_SWAP, refundPublicKey: 'not-a-key' })).toThrow(
+      'refundPublicKey is not a public key'
+    );
+  });
+
+  it('should reject a fractional amount', () => {
+    expect(() => parseReverseSwap({ ...RECORDED_REVERSE_SWAP, onchainAmount: 1.5 })).toThrow(SwapSchemaMismatchError);
+  });
+});
+
+describe('parseSwapStatus', () => {
+  it('should keep the failure reason when present', () => {
+    expect(parseSwapStatus({ status: 'swap.expired', failureReason: 'invoice expired' })).toEqual({
+      status: 'swap.expired',
+      failureReason: 'invoice expired',
+    });
+  });
+
+  it('should reject a body without a status', () => {
+    expect(() => parseSwapStatus({})).toThrow('status is missing');
+  });
+});
+
+describe('checkReverseSwap', () => {
+  const swap = parseReverseSwap(RECORDED_REVERSE_SWAP);
+
+  it('should accept an amount net of fees', () => {
+    expect(() => checkReverseSwap(swap, REQUEST, 'tbs')).not.toThrow();
+  });
+
+  it('should reject an offer above the invoice amount', () => {
+    expect(() => checkReverseSwap(swap, { ...REQUEST, invoiceAmount: 40_000 }, 'tbs')).toThrow(SwapError);
+  });
+
+  it('should reject a missing Lightning invoice', () => {
+    const notAnInvoice = parseReverseSwap({ ...RECORDED_REVERSE_SWAP, invoice: 'bc1qnotaninvoice' });
+    expect(() => checkReverseSwap(notAnInvoice, REQUEST, 'tbs')).toThrow('did not return a Lightning invoice');
+  });
+
+  it('should reject an invoice that does not decode', () => {
+    const forged = parseReverseSwap({ ...RECORDED_REVERSE_SWAP, invoice: 'lntbs500u1pn9example' });
+    expect(() => checkReverseSwap(forged, REQUEST, 'tbs')).toThrow('returned a bad invoice');
+  });
+
+  it("should reject an invoice for the provider's own payment hash", () => {
+    expect(() => checkReverseSwap(swap, { ...REQUEST, preimageHash: 'ef'.repeat(32) }, 'tbs')).toThrow(
+      'invoice for another payment hash'
+    );
+  });
+
+  it('should reject an invoice for another amount', () => {
+    expect(() => checkReverseSwap(swap, { ...REQUEST, invoiceAmount: 60_000 }, 'tbs')).toThrow(
+      'invoice for 50000 sats, expected 60000'
+    );
+  });
+
+  it('should reject an invoice for another network', () => {
+    expect(() => checkReverseSwap(swap, REQUEST, 'bc')).toThrow('invoice for a different network');
+  });
+});
+
+describe('checkSwapTimeouts', () => {
+  const timeouts = parseReverseSwap(RECORDED_REVERSE_SWAP).timeouts;
+  // A day before the recorded refund locktime
+  const NOW = (1_730_000_000 - 86_400) * 1000;
+
+  it('should accept the recorded timeouts', () => {
+    expect(() => checkSwapTimeouts(timeouts, 200_000, NOW)).not.toThrow();
+  });
+
+  it('should reject a refund locktime more than two weeks out', () => {
+    expect(() => checkSwapTimeouts({ ...timeouts, refund: 1_730_000_000 + 15 * 86_400 }, 200_000, NOW)).toThrow(
+      'refund locktime'
+    );
+    expect(() => checkSwapTimeouts({ ...timeouts, refund: 202_017 }, 200_000, NOW)).toThrow('refund locktime');
+    expect(() => checkSwapTimeouts({ ...timeouts, refund: 202_016 }, 200_000, NOW)).not.toThrow();
+  });
+
+  it('should reject a unilateral delay longer than two weeks', () => {
+    expect(() => checkSwapTimeouts({ ...timeouts, unilateralRefund: 15 * 86_400 }, 200_000, NOW)).toThrow(
+      'delay of 1296000 seconds'
+    );
+  });
+});
+
+describe('swapDelay', () => {
+  it('should read small delays as blocks and large ones as seconds', () => {
+    expect(swapDelay(144)).toEqual({ type: 'blocks', value: 144 });
+    expect(swapDelay(86_528)).toEqual({ type: 'seconds', value: 86_528 });
+  });
+});
+
+describe('reverseSwapStage', () => {
+  it('should move a paid swap to claimable', () => {
+    expect(reverseSwapStage('pending', 'transaction.mempool')).toBe('claimable');
+    expect(reverseSwapStage('pending', 'transaction.confirmed')).toBe('claimable');
+  });
+
+  it('should finish once the provider settles the invoice', () => {
+    expect(reverseSwapStage('claimable', 'invoice.settled')).toBe('claimed');
+  });
+
+  it('should expire an unpaid swap', () => {
+    expect(reverseSwapStage('pending', 'swap.expired')).toBe('expired');
+    expect(reverseSwapStage('pending', 'invoice.expired')).toBe('expired');
+  });
+
+  it('should keep claiming locked funds until they are refunded', () => {
+    expect(reverseSwapStage('claimable', 'swap.expired')).toBe('claimable');
+    expect(reverseSwapStage('claimable', 'transaction.refunded')).toBe('refunded');
+  });
+
+  it('should leave finished swaps alone', () => {
+    expect(reverseSwapStage('claimed', 'transaction.refunded')).toBe('claimed');
+    expect(reverseSwapStage('expired', 'transaction.mempool')).toBe('expired');
+  });
+
+  it('should ignore statuses that do not move the swap', () => {
+    expect(reverseSwapStage('pending', 'swap.created')).toBe('pending');
+    expect(reverseSwapStage('pending', 'minerfee.paid')).toBe('pending');
+  });
+});
+
+describe('isSwapActive', () => {
+  it('should only watch pending and claimable swaps', () => {
+    expect(isSwapActive(makeSwap())).toBe(true);
+    expect(isSwapActive(makeSwap({ stage: 'claimable' }))).toBe(true);
+    expect(isSwapActive(makeSwap({ stage: 'claimed' }))).toBe(false);
+    expect(isSwapActive(makeSwap({ stage: 'refunded' }))).toBe(false);
+  });
+});
+
+describe('summarizeSwap', () => {
+  it('should leave out the preimage', () => {
+    const summary = summarizeSwap(makeSwap());
+    expect(summary).not.toHaveProperty('preimage');
+    expect(summary.invoice).toBe(RECORDED_REVERSE_SWAP.invoice);
+  });
+});
+
+describe('parseSubmarineSwap', () => {
+  it('should reject a fractional expected amount', () => {
+    expect(() => parseSubmarineSwap({ ...RECORDED_SUBMARINE_SWAP, expectedAmount: 1.5 })).toThrow(
+      SwapSchemaMismatchError
+    );
+  });
+});
+
+describe('parseSubmarineQuote', () => {
+  it('should reject a provider without an ARK/BTC pair', () => {
+    expect(() => parseSubmarineQuote({ BTC: RECORDED_SUBMARINE_PAIRS.ARK })).toThrow('pair is not offered');
+  });
+});
+
+describe('submarineFee', () => {
+  it('should add the percentage, rounded up, to the miner fees', () => {
+    const quote = parseSubmarineQuote(RECORDED_SUBMARINE_PAIRS);
+    expect(submarineFee(quote, 50_000)).toBe(101);
+    expect(submarineFee(quote, 50_001)).toBe(102);
+  });
+});
+
+describe('checkSubmarineSwap', () => {
+  const swap = parseSubmarineSwap(RECORDED_SUBMARINE_SWAP);
+
+  it('should accept the quoted total', () => {
+    expect(() => checkSubmarineSwap(swap, 50_000, 50_101)).not.toThrow();
+  });
+
+  it('should reject a total above the quote', () => {
+    expect(() => checkSubmarineSwap(swap, 50_000, 50_100)).toThrow(SwapError);
+  });
+
+  it('should reject an amount below the invoice', () => {
+    expect(() => checkSubmarineSwap(swap, 60_000, 70_000)).toThrow(SwapError);
+  });
+});
+
+describe('submarineSwapStage', () => {
+  it('should finish once the provider has paid', () => {
+    expect(submarineSwapStage('funded', 'invoice.paid')).toBe('paid');
+    expect(submarineSwapStage('funded', 'transaction.claim.pending')).toBe('paid');
+    expect(submarineSwapStage('funded', 'transaction.claimed')).toBe('paid');
+  });
+
+  it('should wait for a refund when the provider cannot pay', () => {
+    expect(submarineSwapStage('funded', 'invoice.failedToPay')).toBe('refundable');
+    expect(submarineSwapStage('funded', 'swap.expired')).toBe('refundable');
+  });
+
+  it('should still take a late payment', () => {
+    expect(submarineSwapStage('refundable', 'transaction.claimed')).toBe('paid');
+  });
+
+  it('should leave finished swaps alone', () => {
+    expect(submarineSwapStage('paid', 'swap.expired')).toBe('paid');
+    expect(submarineSwapStage('refunded', 'transaction.claimed')).toBe('refunded');
+  });
+
+  it('should ignore statuses that do not move the swap', () => {
+    expect(submarineSwapStage('funded', 'transaction.mempool')).toBe('funded');
+  });
+});
+
+describe('isPaymentActive', () => {
+  it('should only watch funded and refundable payments', () => {
+    expect(isPaymentActive({ stage: 'funded' })).toBe(true);
+    expect(isPaymentActive({ stage: 'refundable' })).toBe(true);
+    expect(isPaymentActive({ stage: 'paid' })).toBe(false);
+    expect(isPaymentActive({ stage: 'failed' })).toBe(false);
+  });
+});
+
+describe('preimageMatches', () => {
+  const paymentHash = hex.encode(sha256(hex.decode(PREIMAGE)));
+
+  it('should match the preimage of the payment hash', () => {
+    expect(preimageMatches(PREIMAGE, paymentHash)).toBe(true);
+    expect(preimageMatches(PREIMAGE, paymentHash.toUpperCase())).toBe(true);
+  });
+
+  it('should reject other or malformed preimages', () => {
+    expect(preimageMatches('33'.repeat(32), paymentHash)).toBe(false);
+    expect(preimageMatches('not hex', paymentHash)).toBe(false);
+  });
+});
+
+describe('isLocktimeReached', () => {
+  it('should compare small locktimes with the chain tip', () => {
+    expect(isLocktimeReached(800_000, 799_999)).toBe(false);
+    expect(isLocktimeReached(800_000, 800_000)).toBe(true);
+  });
+
+  it('should compare large locktimes with the clock', () => {
+    expect(isLocktimeReached(1_730_000_000, 0, 1_729_999_999_000)).toBe(false);
+    expect(isLocktimeReached(1_730_000_000, 0, 1_730_000_000_000)).toBe(true);
+  });
+});
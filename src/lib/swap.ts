@@ -0,0 +1,607 @@
+/**
+ * Lightning swaps through a Boltz-compatible swap provider.
+ *
+ * A reverse swap turns a Lightning payment into Ark funds:
+ *   1. pending   - the provider issued a hold invoice for the wallet's preimage hash
+ *   2. claimable - the invoice was paid and the provider locked the amount in a VHTLC
+ *   3. claimed   - the wallet spent the VHTLC with the preimage into a fresh VTXO, which
+ *                  reveals the preimage to the provider so it can settle the invoice
+ * An unpaid invoice expires. A VHTLC left unclaimed past its refund locktime is refunded
+ * to the provider and the payer's HTLC is cancelled, so nobody loses funds either way.
+ *
+ * A submarine swap pays a Lightning invoice from Ark funds:
+ *   1. funded     - the wallet locked the provider's price in a VHTLC bound to the invoice's payment hash
+ *   2. paid       - the provider paid the invoice and claimed the VHTLC, revealing the preimage
+ * If the provider cannot pay, the swap becomes refundable and the wallet takes the VHTLC
+ * back once its refund locktime has passed.
+ */
+
+import { sha256 } from '@noble/hashes/sha2';
+import { hex } from '@scure/base';
+import { decodeInvoice, InvoiceError } from './bolt11';
+import type { DecodedInvoice } from './bolt11';
+import type { NetworkId, Timelock } from './networks';
+
+/**
+ * Base class for every failure talking to the swap provider.
+ */
+export class SwapError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'SwapError';
+    this.status = status;
+  }
+}
+
+/**
+ * The provider answered, but the body does not match what the wallet expects.
+ */
+export class SwapSchemaMismatchError extends SwapError {
+  readonly field: string;
+
+  constructor(field: string, detail: string) {
+    super(`Unexpected swap provider response: ${field} ${detail}`);
+    this.name = 'SwapSchemaMismatchError';
+    this.field = field;
+  }
+}
+
+/**
+ * Timeouts of a swap's VHTLC: an absolute refund locktime and the relative delays
+ * of its unilateral paths, as the provider reports them.
+ */
+export interface SwapTimeouts {
+  refund: number;
+  unilateralClaim: number;
+  unilateralRefund: number;
+  unilateralRefundWithoutReceiver: number;
+}
+
+export interface ReverseSwapRequest {
+  // Amount the invoice asks for, in sats
+  invoiceAmount: number;
+  // Compressed public key that claims the VHTLC, hex
+  claimPublicKey: string;
+  // SHA-256 of the preimage, hex; the invoice's payment hash
+  preimageHash: string;
+  description?: string;
+}
+
+export interface ReverseSwapResponse {
+  id: string;
+  invoice: string;
+  // What the VHTLC holds once the invoice is paid: the invoice amount minus the provider's fees
+  onchainAmount: number;
+  // Ark address of the VHTLC
+  lockupAddress: string;
+  refundPublicKey: string;
+  timeouts: SwapTimeouts;
+}
+
+export interface SubmarineSwapRequest {
+  invoice: string;
+  // Compressed public key that can refund the VHTLC, hex
+  refundPublicKey: string;
+}
+
+export interface SubmarineSwapResponse {
+  id: string;
+  // Ark address of the VHTLC the wallet funds
+  lockupAddress: string;
+  // What the wallet has to lock: the invoice amount plus the provider's fees
+  expectedAmount: number;
+  claimPublicKey: string;
+  timeouts: SwapTimeouts;
+}
+
+/**
+ * The provider's current price and limits for paying invoices from Ark.
+ */
+export interface SubmarineQuote {
+  // Percentage of the invoice amount
+  percentage: number;
+  // Flat fee in sats
+  minerFees: number;
+  minimal: number;
+  maximal: number;
+}
+
+/**
+ * Where a swap stands on the provider's side, e.g. 'swap.created' or 'invoice.settled'.
+ */
+export interface SwapStatus {
+  status: string;
+  failureReason?: string;
+}
+
+/**
+ * The calls the wallet makes to a swap provider. Implemented over HTTP by
+ * BoltzSwapClient; tests substitute an in-memory provider.
+ */
+export interface SwapClient {
+  /**
+   * Asks for a hold invoice whose payment locks funds in a VHTLC for the wallet.
+   * @throws SwapError if the provider rejects the request or cannot be reached
+   */
+  createReverseSwap(request: ReverseSwapRequest): Promise<ReverseSwapResponse>;
+  /**
+   * Reads a swap's status.
+   * @throws SwapError if the swap is unknown or the provider cannot be reached
+   */
+  getSwapStatus(id: string): Promise<SwapStatus>;
+  /**
+   * Reads the price of paying an invoice from Ark.
+   * @throws SwapError if the provider does not offer Ark to Lightning swaps or cannot be reached
+   */
+  getSubmarineQuote(): Promise<SubmarineQuote>;
+  /**
+   * Asks the provider to pay an invoice once the wallet funds the returned VHTLC.
+   * @throws SwapError if the provider rejects the invoice or cannot be reached
+   */
+  createSubmarineSwap(request: SubmarineSwapRequest): Promise<SubmarineSwapResponse>;
+  /**
+   * Reads the preimage the provider learnt by paying the invoice.
+   * @throws SwapError if the invoice has not been paid or the provider cannot be reached
+   */
+  getSwapPreimage(id: string): Promise<string>;
+}
+
+export type ReverseSwapStage = 'pending' | 'claimable' | 'claimed' | 'expired' | 'refunded';
+
+export const REVERSE_SWAP_STAGE_LABELS: Record<ReverseSwapStage, string> = {
+  pending: 'Waiting for payment',
+  claimable: 'Receiving',
+  claimed: 'Received in Ark',
+  expired: 'Invoice expired',
+  refunded: 'Returned to the payer',
+};
+
+/**
+ * Persisted state of one Lightning receive.
+ */
+export interface ReverseSwap {
+  // Provider's swap id
+  id: string;
+  // The provider that issued the invoice, kept so a later change of provider does not orphan the swap
+  providerUrl: string;
+  network: NetworkId;
+  account: number;
+  invoice: string;
+  // Invoice amount, in sats
+  amount: number;
+  onchainAmount: number;
+  // Hex. Claiming also needs the account key, so the preimage alone cannot take the funds
+  preimage: string;
+  preimageHash: string;
+  lockupAddress: string;
+  refundPublicKey: string;
+  timeouts: SwapTimeouts;
+  // Ark address of the account the claim pays to
+  claimAddress: string;
+  stage: ReverseSwapStage;
+  createdAt: number;
+  claimTxid?: string;
+  // Last error while advancing; the next attempt retries the same stage
+  error?: string;
+}
+
+/**
+ * A reverse swap as shown to the popup, without its preimage.
+ */
+export type ReverseSwapSummary = Omit<ReverseSwap, 'preimage'>;
+
+export type SubmarineSwapStage = 'funded' | 'paid' | 'refundable' | 'refunded' | 'failed';
+
+export const SUBMARINE_SWAP_STAGE_LABELS: Record<SubmarineSwapStage, string> = {
+  funded: 'Paying invoice',
+  paid: 'Paid',
+  refundable: 'Payment failed, refund pending',
+  refunded: 'Refunded to Ark',
+  failed: 'Payment failed',
+};
+
+/**
+ * Persisted state of one Lightning payment.
+ */
+export interface SubmarineSwap {
+  // Provider's swap id
+  id: string;
+  providerUrl: string;
+  network: NetworkId;
+  account: number;
+  invoice: string;
+  // Invoice amount, in sats
+  amount: number;
+  // Amount locked in the VHTLC, fees included
+  expectedAmount: number;
+  paymentHash: string;
+  lockupAddress: string;
+  claimPublicKey: string;
+  timeouts: SwapTimeouts;
+  // Ark address of the account a refund pays back to
+  refundAddress: string;
+  stage: SubmarineSwapStage;
+  createdAt: number;
+  fundingTxid?: string;
+  // Proof of payment, hex
+  preimage?: string;
+  refundTxid?: string;
+  // Last error while advancing; the next attempt retries the same stage
+  error?: string;
+}
+
+// Statuses reporting that the provider paid the invoice
+const PAID_STATUSES = new Set(['invoice.paid', 'transaction.claim.pending', 'transaction.claimed']);
+// Statuses after which the provider will not pay; the lockup has to be refunded
+const PAYMENT_FAILED_STATUSES = new Set(['invoice.failedToPay', 'transaction.lockupFailed', 'swap.expired']);
+// Statuses after which an unpaid invoice can no longer be paid
+const EXPIRED_STATUSES = new Set(['swap.expired', 'invoice.expired', 'transaction.failed']);
+// Statuses reporting the provider's lockup of the invoice amount
+const LOCKED_STATUSES = new Set(['transaction.mempool', 'transaction.confirmed']);
+// BIP-68: relative delays below this many units count blocks, above it seconds
+const SECONDS_DELAY_THRESHOLD = 512;
+// Absolute locktimes below this are block heights, above it unix timestamps
+const LOCKTIME_THRESHOLD = 500_000_000;
+// Longest a swap may lock funds for, on any of its paths: about two weeks
+const MAX_LOCK_BLOCKS = 2016;
+const MAX_LOCK_SECONDS = 14 * 24 * 60 * 60;
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(source: Json, field: string): string {
+  const value = source[field];
+  if (typeof value === 'string' && value !== '') return value;
+  throw new SwapSchemaMismatchError(field, value === undefined ? 'is missing' : 'is not a string');
+}
+
+function readInteger(source: Json, field: string): number {
+  const value = source[field];
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) {
+    throw new SwapSchemaMismatchError(field, value === undefined ? 'is missing' : 'is not a non-negative integer');
+  }
+  return value;
+}
+
+function readNumber(source: Json, field: string): number {
+  const value = source[field];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new SwapSchemaMismatchError(field, value === undefined ? 'is missing' : 'is not a non-negative number');
+  }
+  return value;
+}
+
+function readPublicKey(source: Json, field: string): string {
+  const key = readString(source, field);
+  if (!/^(0[23])?[0-9a-fA-F]{64}$/.test(key)) {
+    throw new SwapSchemaMismatchError(field, 'is not a public key');
+  }
+  return key.toLowerCase();
+}
+
+function readTimeouts(source: Json): SwapTimeouts {
+  const timeouts = source.timeoutBlockHeights;
+  if (!isObject(timeouts)) throw new SwapSchemaMismatchError('timeoutBlockHeights', 'is missing');
+  return {
+    refund: readInteger(timeouts, 'refund'),
+    unilateralClaim: readInteger(timeouts, 'unilateralClaim'),
+    unilateralRefund: readInteger(timeouts, 'unilateralRefund'),
+    unilateralRefundWithoutReceiver: readInteger(timeouts, 'unilateralRefundWithoutReceiver'),
+  };
+}
+
+/**
+ * Validates and normalizes a raw reverse swap creation body.
+ * @param raw - Parsed JSON from the provider
+ * @returns Normalized swap
+ * @throws SwapSchemaMismatchError if a required field is missing or malformed
+ */
+export function parseReverseSwap(raw: unknown): ReverseSwapResponse {
+  if (!isObject(raw)) throw new SwapSchemaMismatchError('swap', 'is not an object');
+  return {
+    id: readString(raw, 'id'),
+    invoice: readString(raw, 'invoice'),
+    onchainAmount: readInteger(raw, 'onchainAmount'),
+    lockupAddress: readString(raw, 'lockupAddress'),
+    refundPublicKey: readPublicKey(raw, 'refundPublicKey'),
+    timeouts: readTimeouts(raw),
+  };
+}
+
+/**
+ * Validates and normalizes a raw submarine swap creation body.
+ * @param raw - Parsed JSON from the provider
+ * @returns Normalized swap
+ * @throws SwapSchemaMismatchError if a required field is missing or malformed
+ */
+export function parseSubmarineSwap(raw: unknown): SubmarineSwapResponse {
+  if (!isObject(raw)) throw new SwapSchemaMismatchError('swap', 'is not an object');
+  return {
+    id: readString(raw, 'id'),
+    lockupAddress: readString(raw, 'address'),
+    expectedAmount: readInteger(raw, 'expectedAmount'),
+    claimPublicKey: readPublicKey(raw, 'claimPublicKey'),
+    timeouts: readTimeouts(raw),
+  };
+}
+
+/**
+ * Validates and normalizes the ARK to BTC entry of a raw submarine pairs body.
+ * @param raw - Parsed JSON from the provider
+ * @returns The provider's price for paying invoices from Ark
+ * @throws SwapSchemaMismatchError if the pair is missing or malformed
+ */
+export function parseSubmarineQuote(raw: unknown): SubmarineQuote {
+  const pair = isObject(raw) && isObject(raw.ARK) ? raw.ARK.BTC : undefined;
+  if (!isObject(pair)) throw new SwapSchemaMismatchError('ARK/BTC', 'pair is not offered');
+  if (!isObject(pair.fees)) throw new SwapSchemaMismatchError('fees', 'is missing');
+  if (!isObject(pair.limits)) throw new SwapSchemaMismatchError('limits', 'is missing');
+  return {
+    percentage: readNumber(pair.fees, 'percentage'),
+    minerFees: readInteger(pair.fees, 'minerFees'),
+    minimal: readInteger(pair.limits, 'minimal'),
+    maximal: readInteger(pair.limits, 'maximal'),
+  };
+}
+
+/**
+ * Validates and normalizes a raw swap status body.
+ * @param raw - Parsed JSON from the provider
+ * @returns Normalized status
+ * @throws SwapSchemaMismatchError if the status is missing
+ */
+export function parseSwapStatus(raw: unknown): SwapStatus {
+  if (!isObject(raw)) throw new SwapSchemaMismatchError('status', 'is not an object');
+  const failureReason = raw.failureReason;
+  return {
+    status: readString(raw, 'status'),
+    ...(typeof failureReason === 'string' && failureReason !== '' ? { failureReason } : {}),
+  };
+}
+
+/**
+ * Swap client for the Boltz v2 REST API.
+ */
+export class BoltzSwapClient implements SwapClient {
+  readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async createReverseSwap(request: ReverseSwapRequest): Promise<ReverseSwapResponse> {
+    const body = await this.request('/v2/swap/reverse', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from: 'BTC', to: 'ARK', ...request }),
+    });
+    return parseReverseSwap(body);
+  }
+
+  async getSwapStatus(id: string): Promise<SwapStatus> {
+    return parseSwapStatus(await this.request(`/v2/swap/${encodeURIComponent(id)}`));
+  }
+
+  async getSubmarineQuote(): Promise<SubmarineQuote> {
+    return parseSubmarineQuote(await this.request('/v2/swap/submarine'));
+  }
+
+  async createSubmarineSwap(request: SubmarineSwapRequest): Promise<SubmarineSwapResponse> {
+    const body = await this.request('/v2/swap/submarine', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from: 'ARK', to: 'BTC', ...request }),
+    });
+    return parseSubmarineSwap(body);
+  }
+
+  async getSwapPreimage(id: string): Promise<string> {
+    const body = await this.request(`/v2/swap/submarine/${encodeURIComponent(id)}/preimage`);
+    if (!isObject(body)) throw new SwapSchemaMismatchError('preimage', 'is not an object');
+    const preimage = readString(body, 'preimage');
+    if (!/^[0-9a-fA-F]{64}$/.test(preimage)) throw new SwapSchemaMismatchError('preimage', 'is not 32 bytes of hex');
+    return preimage.toLowerCase();
+  }
+
+  /**
+   * Performs a request and parses the JSON body.
+   * @throws SwapError on network failures, non-2xx statuses (with the provider's reason) or invalid JSON
+   */
+  private async request(path: string, init?: RequestInit): Promise<unknown> {
+    let response: globalThis.Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, init);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'network error';
+      throw new SwapError(`Swap provider unreachable: ${message}`);
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      throw new SwapError(`Swap provider returned invalid JSON for ${path}`, response.status);
+    }
+
+    if (!response.ok) {
+      // Boltz explains rejections (limits, unknown pairs) in an error field
+      const reason = isObject(body) && typeof body.error === 'string' ? body.error : `status ${response.status}`;
+      throw new SwapError(`Swap provider rejected the request: ${reason}`, response.status);
+    }
+    return body;
+  }
+}
+
+/**
+ * Checks that a new swap delivers what was asked for before its invoice is shown.
+ * The invoice must be for the wallet's preimage hash: paying one for any other hash
+ * would pay the provider without it ever having to fund the VHTLC.
+ * @param swap - The provider's answer
+ * @param request - What the wallet asked for
+ * @param currency - Invoice currency prefix of the active network, e.g. 'tbs'
+ * @throws SwapError if the provider would keep the whole amount or more, or the invoice does not match
+ */
+export function checkReverseSwap(swap: ReverseSwapResponse, request: ReverseSwapRequest, currency: string): void {
+  const { invoiceAmount } = request;
+  if (swap.onchainAmount <= 0 || swap.onchainAmount > invoiceAmount) {
+    throw new SwapError(`Swap provider offered ${swap.onchainAmount} sats for a ${invoiceAmount} sat invoice`);
+  }
+  if (!/^ln/i.test(swap.invoice)) {
+    throw new SwapError('Swap provider did not return a Lightning invoice');
+  }
+
+  let invoice: DecodedInvoice;
+  try {
+    invoice = decodeInvoice(swap.invoice);
+  } catch (error) {
+    if (error instanceof InvoiceError) throw new SwapError(`Swap provider returned a bad invoice: ${error.message}`);
+    throw error;
+  }
+  if (invoice.paymentHash !== request.preimageHash.toLowerCase()) {
+    throw new SwapError('Swap provider returned an invoice for another payment hash');
+  }
+  if (invoice.amountMsat !== invoiceAmount * 1000) {
+    throw new SwapError(`Swap provider returned an invoice for ${invoice.amount ?? 'any'} sats, expected ${invoiceAmount}`);
+  }
+  if (invoice.currency !== currency) {
+    throw new SwapError('Swap provider returned an invoice for a different network');
+  }
+}
+
+/**
+ * Checks that a new swap does not lock funds for longer than a swap should take.
+ * @param timeouts - The provider's timeouts
+ * @param tipHeight - Current block height
+ * @param now - Current time, ms since epoch
+ * @throws SwapError if the refund locktime or a unilateral delay is too far out
+ */
+export function checkSwapTimeouts(timeouts: SwapTimeouts, tipHeight: number, now: number = Date.now()): void {
+  const refundTooLate = timeouts.refund < LOCKTIME_THRESHOLD
+    ? timeouts.refund - tipHeight > MAX_LOCK_BLOCKS
+    : timeouts.refund - Math.floor(now / 1000) > MAX_LOCK_SECONDS;
+  if (refundTooLate) {
+    throw new SwapError(`Swap provider asked for a refund locktime of ${timeouts.refund}, too far out`);
+  }
+
+  const delays = [timeouts.unilateralClaim, timeouts.unilateralRefund, timeouts.unilateralRefundWithoutReceiver];
+  for (const value of delays) {
+    const delay = swapDelay(value);
+    if (delay.value > (delay.type === 'blocks' ? MAX_LOCK_BLOCKS : MAX_LOCK_SECONDS)) {
+      throw new SwapError(`Swap provider asked for a delay of ${value} ${delay.type}, too long`);
+    }
+  }
+}
+
+/**
+ * Converts a relative delay reported by the provider into a timelock.
+ * @param value - Delay in blocks, or in seconds when at least 512
+ */
+export function swapDelay(value: number): Timelock {
+  return { type: value < SECONDS_DELAY_THRESHOLD ? 'blocks' : 'seconds', value };
+}
+
+/**
+ * Whether the swap still needs to be watched.
+ */
+export function isSwapActive(swap: { stage: ReverseSwapStage }): boolean {
+  return swap.stage === 'pending' || swap.stage === 'claimable';
+}
+
+/**
+ * Works out the stage a reverse swap moves to on a provider status.
+ * Expiry only ends a swap that was never paid: once funds are locked, the wallet keeps
+ * trying to claim until the provider reports them refunded.
+ * @param stage - The swap's current stage
+ * @param status - The provider's status
+ * @returns The next stage; unchanged for statuses that do not move the swap
+ */
+export function reverseSwapStage(stage: ReverseSwapStage, status: string): ReverseSwapStage {
+  if (!isSwapActive({ stage })) return stage;
+  // The provider only settles the invoice with the preimage the claim revealed
+  if (status === 'invoice.settled') return 'claimed';
+  if (status === 'transaction.refunded') return 'refunded';
+  if (LOCKED_STATUSES.has(status)) return 'claimable';
+  if (EXPIRED_STATUSES.has(status) && stage === 'pending') return 'expired';
+  return stage;
+}
+
+/**
+ * Strips a swap of its preimage for the popup.
+ */
+export function summarizeSwap(swap: ReverseSwap): ReverseSwapSummary {
+  const summary: Partial<ReverseSwap> = { ...swap };
+  delete summary.preimage;
+  return summary as ReverseSwapSummary;
+}
+
+/**
+ * The provider's fee for paying an invoice, by its current quote.
+ * @param quote - The provider's price
+ * @param amount - Invoice amount, in sats
+ */
+export function submarineFee(quote: SubmarineQuote, amount: number): number {
+  return Math.ceil((amount * quote.percentage) / 100) + quote.minerFees;
+}
+
+/**
+ * Checks that a new submarine swap charges what was quoted before it is funded.
+ * @param swap - The provider's answer
+ * @param invoiceAmount - The invoice amount, in sats
+ * @param maxTotal - The most the user agreed to lock, fees included
+ * @throws SwapError if the provider asks for less than the invoice or more than the quote
+ */
+export function checkSubmarineSwap(swap: SubmarineSwapResponse, invoiceAmount: number, maxTotal: number): void {
+  if (swap.expectedAmount < invoiceAmount || swap.expectedAmount > maxTotal) {
+    throw new SwapError(`Swap provider asked for ${swap.expectedAmount} sats, expected at most ${maxTotal}`);
+  }
+}
+
+/**
+ * Whether the payment still needs to be watched.
+ */
+export function isPaymentActive(swap: { stage: SubmarineSwapStage }): boolean {
+  return swap.stage === 'funded' || swap.stage === 'refundable';
+}
+
+/**
+ * Works out the stage a submarine swap moves to on a provider status.
+ * A refundable swap still counts as paid if the provider pays after all: it cannot
+ * claim the lockup without the preimage, and the preimage only comes with payment.
+ * @param stage - The swap's current stage
+ * @param status - The provider's status
+ * @returns The next stage; unchanged for statuses that do not move the swap
+ */
+export function submarineSwapStage(stage: SubmarineSwapStage, status: string): SubmarineSwapStage {
+  if (!isPaymentActive({ stage })) return stage;
+  if (PAID_STATUSES.has(status)) return 'paid';
+  if (PAYMENT_FAILED_STATUSES.has(status)) return 'refundable';
+  return stage;
+}
+
+/**
+ * Whether a preimage is the one an invoice's payment hash commits to.
+ * @param preimage - Candidate preimage, hex
+ * @param paymentHash - The invoice's payment hash, hex
+ */
+export function preimageMatches(preimage: string, paymentHash: string): boolean {
+  try {
+    return hex.encode(sha256(hex.decode(preimage))) === paymentHash.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether an absolute locktime has passed, so a refund with it can be spent.
+ * @param locktime - Block height, or unix timestamp in seconds when at least 500,000,000
+ * @param tipHeight - Current block height
+ * @param now - Current time, ms since epoch
+ */
+export function isLocktimeReached(locktime: number, tipHeight: number, now: number = Date.now()): boolean {
+  return locktime < LOCKTIME_THRESHOLD ? tipHeight >= locktime : Math.floor(now / 1000) >= locktime;
+}
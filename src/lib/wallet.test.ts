@@ -0,0 +1,62 @@
+/**
+ * Tests for mnemonic validation.
+ * Verifies normalization, per-word hints and checksum checks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateMnemonic, normalizeMnemonic, validateMnemonic } from './wallet';
+
+// BIP-39 test vector (all-zero entropy)
+const VALID_12 = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const VALID_24 =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon ' +
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon art';
+
+describe('normalizeMnemonic', () => {
+  it('should lowercase and collapse whitespace', () => {
+    expect(normalizeMnemonic('  Abandon\tABANDON \n about ')).toBe('abandon abandon about');
+  });
+});
+
+describe('validateMnemonic', () => {
+  it('should accept valid 12 and 24 word phrases', () => {
+    expect(validateMnemonic(VALID_12).valid).toBe(true);
+    expect(validateMnemonic(VALID_24).valid).toBe(true);
+  });
+
+  it('should accept freshly generated phrases', () => {
+    expect(validateMnemonic(generateMnemonic()).valid).toBe(true);
+  });
+
+  it('should flag words outside the wordlist with suggestions', () => {
+    const result = validateMnemonic(VALID_12.replace('about', 'abuot'));
+
+    expect(result.valid).toBe(false);
+    expect(result.words[11]).toMatchObject({ word: 'abuot', valid: false });
+    expect(result.words[11].suggestions).toContain('about');
+    expect(result.words.slice(0, 11).every((word) => word.valid)).toBe(true);
+  });
+
+  it('should reject a bad checksum even when every word is valid', () => {
+    const result = validateMnemonic(VALID_12.replace('about', 'abandon'));
+
+    expect(result.words.every((word) => word.valid)).toBe(true);
+    expect(result.wordCountValid).toBe(true);
+    expect(result.checksumValid).toBe(false);
+    expect(result.valid).toBe(false);
+  });
+
+  it('should reject unsupported word counts', () => {
+    const result = validateMnemonic('abandon abandon abandon');
+
+    expect(result.wordCountValid).toBe(false);
+    expect(result.valid).toBe(false);
+  });
+
+  it('should treat empty input as invalid', () => {
+    const result = validateMnemonic('   ');
+
+    expect(result.words).toHaveLength(0);
+    expect(result.valid).toBe(false);
+  });
+});
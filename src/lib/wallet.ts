@@ -1,9 +1,29 @@
 /**
- * Wallet utilities for BIP-39 mnemonic generation.
+ * Wallet utilities for BIP-39 mnemonic generation and validation.
  */
 
 import * as bip39 from 'bip39';
 
+const WORDLIST = bip39.wordlists.english;
+const WORDSET = new Set(WORDLIST);
+const VALID_WORD_COUNTS = [12, 24];
+const MAX_SUGGESTIONS = 3;
+const MAX_SUGGESTION_DISTANCE = 2;
+
+export interface MnemonicWordCheck {
+  word: string;
+  valid: boolean;
+  suggestions: string[];
+}
+
+export interface MnemonicValidation {
+  normalized: string;
+  words: MnemonicWordCheck[];
+  wordCountValid: boolean;
+  checksumValid: boolean;
+  valid: boolean;
+}
+
 /**
  * Generates a 12-word BIP-39 mnemonic seed phrase.
  * @returns A 12-word mnemonic string
@@ -12,3 +32,70 @@ export function generateMnemonic(): string {
   return bip39.generateMnemonic();
 }
 
+/**
+ * Normalizes user input: NFKD, lowercase, single spaces.
+ * @param input - Raw pasted or typed phrase
+ * @returns The normalized phrase
+ */
+export function normalizeMnemonic(input: string): string {
+  return input.normalize('NFKD').toLowerCase().trim().split(/\s+/).filter(Boolean).join(' ');
+}
+
+/**
+ * Levenshtein distance between two short words.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Suggests wordlist entries for a mistyped word: closest by edit distance,
+ * falling back to a prefix match (BIP-39 words are unique in their first four letters).
+ */
+function suggestWords(word: string): string[] {
+  const close = WORDLIST
+    .map((candidate) => ({ candidate, distance: editDistance(word, candidate) }))
+    .filter(({ distance }) => distance <= MAX_SUGGESTION_DISTANCE)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ candidate }) => candidate);
+  if (close.length > 0) return close.slice(0, MAX_SUGGESTIONS);
+
+  const prefix = word.slice(0, 4);
+  return WORDLIST.filter((candidate) => candidate.startsWith(prefix)).slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Checks a mnemonic word by word, then its length and checksum.
+ * @param input - Raw pasted or typed phrase
+ * @returns Per-word results with suggestions, plus overall validity
+ */
+export function validateMnemonic(input: string): MnemonicValidation {
+  const normalized = normalizeMnemonic(input);
+  const words = normalized === '' ? [] : normalized.split(' ');
+
+  const checks = words.map((word) => {
+    const valid = WORDSET.has(word);
+    return { word, valid, suggestions: valid ? [] : suggestWords(word) };
+  });
+
+  const wordCountValid = VALID_WORD_COUNTS.includes(words.length);
+  const allWordsValid = checks.every((check) => check.valid);
+  const checksumValid = wordCountValid && allWordsValid && bip39.validateMnemonic(normalized, WORDLIST);
+
+  return {
+    normalized,
+    words: checks,
+    wordCountValid,
+    checksumValid,
+    valid: checksumValid,
+  };
+}
@@ -3,6 +3,17 @@
  * Uses discriminated unions to ensure type safety at compile time.
  */
 
+import type { NetworkId } from '../lib/networks';
+import type { AutoLockMinutes } from '../lib/autolock';
+import type { RenewalThresholdHours, ExpiringFunds } from '../lib/renewal';
+import type { BoardingDeposit } from '../lib/boarding';
+import type { ReceiveAddress } from '../lib/addresses';
+import type { Account } from '../lib/accounts';
+import type { AspVtxo } from '../lib/asp';
+import type { UnilateralExit } from '../lib/exit';
+import type { ReverseSwapSummary, SubmarineSwap } from '../lib/swap';
+import type { DecodedInvoice } from '../lib/bolt11';
+
 /**
  * Response wrapper for all message handlers.
  * @template T - The type of data returned on success
@@ -18,25 +29,194 @@ export interface Response<T> {
  */
 export type Message =
   | { type: 'GenerateWallet'; payload: { password: string } }
+  | { type: 'ImportWallet'; payload: { mnemonic: string; password: string } }
   | { type: 'GetWalletStatus' }
+  | { type: 'RevealSeed'; payload: { password: string } }
+  | { type: 'ConfirmBackup' }
+  | { type: 'ChangePassword'; payload: { currentPassword: string; newPassword: string } }
+  | { type: 'ExportBackup'; payload: { passphrase: string } }
+  | {
+      type: 'ImportBackup';
+      // currentPassword unlocks the existing vault and is required to replace it
+      payload: { file: string; passphrase: string; onConflict?: 'replace' | 'merge'; currentPassword?: string };
+    }
   | { type: 'UnlockWallet'; payload: { password: string } }
   | { type: 'LockWallet' }
+  | { type: 'GetAutoLock' }
+  | { type: 'SetAutoLock'; payload: { minutes: AutoLockMinutes } }
+  | { type: 'GetRenewalThreshold' }
+  | { type: 'SetRenewalThreshold'; payload: { hours: RenewalThresholdHours } }
+  | { type: 'RenewVtxos' }
   | { type: 'GetBalance' }
   | { type: 'GetNetwork' }
-  | { type: 'SetNetwork'; payload: { network: 'signet' | 'mainnet' } }
+  | { type: 'SetNetwork'; payload: { network: NetworkId } }
   | { type: 'GetAddresses' }
-  | { type: 'Onboard'; payload: { amount: number } };
+  | { type: 'NewReceiveAddress' }
+  | { type: 'GetReceiveAddresses' }
+  | { type: 'SetReceiveAddressLabel'; payload: { index: number; label: string } }
+  | { type: 'GetAccounts' }
+  | { type: 'CreateAccount'; payload: { name: string } }
+  | { type: 'RenameAccount'; payload: { index: number; name: string } }
+  | { type: 'SwitchAccount'; payload: { index: number } }
+  | { type: 'Onboard'; payload: { amount: number } }
+  | { type: 'GetBoarding' }
+  | { type: 'Settle' }
+  | { type: 'PreviewOffchainSend'; payload: { address: string; amount: number } }
+  | { type: 'SendOffchain'; payload: { address: string; amount: number; maxTotal: number } }
+  | { type: 'GetFeeRates' }
+  | { type: 'PreviewOnchainSend'; payload: { address: string; amount: number; feeRate: number; rbf: boolean } }
+  | {
+      type: 'SendOnchain';
+      // maxFee and maxTotal are the preview the user approved; a costlier rebuild is refused
+      payload: { address: string; amount: number; feeRate: number; rbf: boolean; maxFee: number; maxTotal: number };
+    }
+  | { type: 'GetHistory' }
+  | { type: 'GetLabels' }
+  | { type: 'SetLabel'; payload: { txid: string; label: string } }
+  | { type: 'GetContacts' }
+  | { type: 'SaveContact'; payload: Contact }
+  | { type: 'RemoveContact'; payload: { address: string } }
+  | { type: 'SweepLegacy' }
+  | { type: 'GetVtxos' }
+  | { type: 'StartExit'; payload: { outpoints: string[] } }
+  | { type: 'GetExits' }
+  | { type: 'CancelExit'; payload: { id: string } }
+  | { type: 'CreateInvoice'; payload: { amount: number; description?: string } }
+  | { type: 'GetSwap'; payload: { id: string } }
+  | { type: 'GetSwapProvider' }
+  | { type: 'SetSwapProvider'; payload: { url: string | null } }
+  | { type: 'PreviewPayInvoice'; payload: { invoice: string } }
+  | { type: 'PayInvoice'; payload: { invoice: string; maxTotal: number } }
+  | { type: 'GetPayment'; payload: { id: string } }
+  | { type: 'WebLNEnable' }
+  | { type: 'WebLNGetInfo' }
+  | { type: 'WebLNSendPayment'; payload: { paymentRequest: string } }
+  | { type: 'WebLNMakeInvoice'; payload: { amount?: number; defaultMemo?: string } }
+  | { type: 'WebLNSignMessage'; payload: { message: string } }
+  | { type: 'ArkGetAddresses' }
+  | { type: 'ArkGetBalance' }
+  | { type: 'ArkSendToAddress'; payload: { address: string; amount: number } }
+  | { type: 'ArkSignPsbt'; payload: { psbt: string } }
+  | { type: 'GetApproval'; payload: { id: string } }
+  | { type: 'ResolveApproval'; payload: { id: string; approved: boolean } }
+  | { type: 'GetConnectedSites' }
+  | { type: 'RevokeSite'; payload: { origin: string } };
+
+/**
+ * One row of the wallet's transaction history, across L1, boarding and Ark.
+ */
+export interface HistoryEntry {
+  id: string;
+  layer: 'onchain' | 'boarding' | 'ark';
+  direction: 'sent' | 'received' | 'self';
+  amount: number;
+  fee?: number;
+  status: 'pending' | 'confirmed' | 'settled';
+  timestamp: number;
+  txid: string;
+  counterparty?: string;
+}
+
+/**
+ * Capabilities a connected site can be granted.
+ */
+export type SitePermission = 'readAddresses' | 'readBalance' | 'requestPayments' | 'sign';
+
+/**
+ * A site the user has connected, with the capabilities it was granted.
+ */
+export interface ConnectedSite {
+  origin: string;
+  approvedAt: number;
+  permissions: SitePermission[];
+}
+
+/**
+ * A saved payee.
+ */
+export interface Contact {
+  name: string;
+  address: string;
+}
+
+/**
+ * User notes on transactions, keyed by txid.
+ */
+export type TransactionLabels = Record<string, string>;
+
+/**
+ * A page-originated action waiting for the user's decision in the approval window.
+ */
+export interface ApprovalRequest {
+  id: string;
+  origin: string;
+  kind: 'connect' | 'payment' | 'signPsbt' | 'signMessage';
+  title: string;
+  details: { label: string; value: string }[];
+}
 
 /**
  * Response types for each message handler.
  */
 export interface GenerateWalletResponse {
-  success: true;
+  // False when the wallet was saved but could not be opened, e.g. the Ark server is unreachable
+  unlocked: boolean;
+  error?: string;
+}
+
+export interface ImportWalletResponse {
+  // False when the wallet was saved but could not be opened; the rescan then waits for the next login
+  unlocked: boolean;
+  error?: string;
 }
 
 export interface GetWalletStatusResponse {
   initialized: boolean;
   locked: boolean;
+  backedUp: boolean;
+}
+
+export interface RevealSeedResponse {
+  mnemonic: string;
+}
+
+export interface ConfirmBackupResponse {
+  success: true;
+}
+
+export interface ChangePasswordResponse {
+  success: true;
+}
+
+export interface ExportBackupResponse {
+  file: string;
+}
+
+/**
+ * 'conflict' means a wallet already exists and nothing was written; resend with onConflict to resolve.
+ */
+export interface ImportBackupResponse {
+  status: 'imported' | 'replaced' | 'merged' | 'conflict';
+}
+
+export interface GetAutoLockResponse {
+  minutes: AutoLockMinutes;
+}
+
+export interface SetAutoLockResponse {
+  success: true;
+}
+
+export interface GetRenewalThresholdResponse {
+  hours: RenewalThresholdHours;
+}
+
+export interface SetRenewalThresholdResponse {
+  success: true;
+}
+
+export interface RenewVtxosResponse {
+  txid: string;
 }
 
 export interface UnlockWalletResponse {
@@ -49,20 +229,58 @@ export interface LockWalletResponse {
 
 export interface GetBalanceResponse {
   onchain: number;
+  // Deposits on their way into Ark, not yet settled in a round
+  boarding: number;
   offchain: number;
+  // Funds still held by the pre-BIP-86 key (offchain includes boarding UTXOs)
+  legacy?: { onchain: number; offchain: number };
+  // Offchain funds due for renewal that have not been renewed yet
+  expiring?: ExpiringFunds;
 }
 
 export interface GetNetworkResponse {
-  network: 'signet' | 'mainnet';
+  network: NetworkId;
 }
 
 export interface SetNetworkResponse {
   success: true;
 }
 
+export interface GetAccountsResponse {
+  accounts: Account[];
+  active: number;
+}
+
+export type CreateAccountResponse = Account;
+
+export interface RenameAccountResponse {
+  success: true;
+}
+
+export interface SwitchAccountResponse {
+  success: true;
+}
+
 export interface GetAddressesResponse {
   onchain: string;
   offchain: string;
+  // L1 address whose deposits the wallet settles into Ark once confirmed
+  boarding: string;
+}
+
+// Fresh L1 address for a Receive; see lib/addresses for how indices are handed out
+export type NewReceiveAddressResponse = ReceiveAddress;
+
+export type GetReceiveAddressesResponse = ReceiveAddress[];
+
+export interface SetReceiveAddressLabelResponse {
+  success: true;
+}
+
+export type GetBoardingResponse = BoardingDeposit[];
+
+export interface SettleResponse {
+  roundTxid: string;
 }
 
 export interface OnboardResponse {
@@ -70,3 +288,162 @@ export interface OnboardResponse {
   txid: string;
 }
 
+
+export interface PreviewOffchainSendResponse {
+  amount: number;
+  fee: number;
+  total: number;
+  available: number;
+}
+
+export interface SendOffchainResponse {
+  txid: string;
+}
+
+export interface GetFeeRatesResponse {
+  slow: number;
+  normal: number;
+  fast: number;
+}
+
+export interface PreviewOnchainSendResponse {
+  amount: number;
+  fee: number;
+  change: number;
+  total: number;
+  feeRate: number;
+  vsize: number;
+  inputCount: number;
+  rbf: boolean;
+}
+
+export interface SendOnchainResponse {
+  txid: string;
+}
+
+export type GetHistoryResponse = HistoryEntry[];
+
+export type GetLabelsResponse = TransactionLabels;
+
+export interface SetLabelResponse {
+  success: true;
+}
+
+export type GetContactsResponse = Contact[];
+
+export interface SaveContactResponse {
+  success: true;
+}
+
+export interface RemoveContactResponse {
+  success: true;
+}
+
+export interface SweepLegacyResponse {
+  offchainTxid?: string;
+  onchainTxid?: string;
+}
+
+export type GetVtxosResponse = AspVtxo[];
+
+export interface StartExitResponse {
+  exits: UnilateralExit[];
+}
+
+/**
+ * Exits of the active network and account, with the chain tip they were last checked against.
+ */
+export interface GetExitsResponse {
+  exits: UnilateralExit[];
+  tipHeight: number | null;
+}
+
+export interface CancelExitResponse {
+  success: true;
+}
+
+export type CreateInvoiceResponse = ReverseSwapSummary;
+
+export type GetSwapResponse = ReverseSwapSummary;
+
+/**
+ * Swap provider of the active network: the user's choice, if any, and the network default.
+ */
+export interface GetSwapProviderResponse {
+  url: string | null;
+  custom: boolean;
+  defaultUrl: string | null;
+}
+
+export interface SetSwapProviderResponse {
+  success: true;
+}
+
+/**
+ * A decoded invoice and what paying it from the Ark balance costs, swap fees included.
+ */
+export interface PreviewPayInvoiceResponse {
+  invoice: DecodedInvoice;
+  fee: number;
+  total: number;
+  available: number;
+}
+
+export type PayInvoiceResponse = SubmarineSwap;
+
+export type GetPaymentResponse = SubmarineSwap;
+
+export interface WebLNEnableResponse {
+  enabled: true;
+}
+
+export interface WebLNGetInfoResponse {
+  node: {
+    alias: string;
+    pubkey: string;
+  };
+  methods: string[];
+}
+
+export interface WebLNSendPaymentResponse {
+  preimage: string;
+}
+
+export interface WebLNMakeInvoiceResponse {
+  paymentRequest: string;
+}
+
+export interface WebLNSignMessageResponse {
+  message: string;
+  signature: string;
+}
+
+export interface ArkGetAddressesResponse {
+  onchain: string;
+  offchain: string;
+}
+
+export interface ArkGetBalanceResponse {
+  onchain: number;
+  offchain: number;
+}
+
+export interface ArkSendToAddressResponse {
+  txid: string;
+}
+
+export interface ArkSignPsbtResponse {
+  psbt: string;
+}
+
+export type GetApprovalResponse = ApprovalRequest;
+
+export interface ResolveApprovalResponse {
+  success: true;
+}
+
+export type GetConnectedSitesResponse = ConnectedSite[];
+
+export interface RevokeSiteResponse {
+  success: true;
+}